@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "reservations" ADD COLUMN     "book_copy_id" INTEGER,
+ADD COLUMN     "ready_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "reservations_book_copy_id_idx" ON "reservations"("book_copy_id");
+
+-- AddForeignKey
+ALTER TABLE "reservations" ADD CONSTRAINT "reservations_book_copy_id_fkey" FOREIGN KEY ("book_copy_id") REFERENCES "book_copies"("id") ON DELETE SET NULL ON UPDATE CASCADE;
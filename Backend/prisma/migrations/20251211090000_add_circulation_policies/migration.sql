@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "circulation_policies" (
+    "id" SERIAL NOT NULL,
+    "patron_type" VARCHAR(20),
+    "category" VARCHAR(100),
+    "loan_period_days" INTEGER NOT NULL,
+    "renewal_period_days" INTEGER NOT NULL,
+    "max_renewals" INTEGER NOT NULL,
+    "fine_per_day" DECIMAL(10,2) NOT NULL,
+    "max_fine" DECIMAL(10,2),
+    "max_loans" INTEGER NOT NULL,
+    "notes" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "circulation_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "circulation_policies_patron_type_idx" ON "circulation_policies"("patron_type");
+
+-- CreateIndex
+CREATE INDEX "circulation_policies_category_idx" ON "circulation_policies"("category");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "circulation_policies_patron_type_category_key" ON "circulation_policies"("patron_type", "category");
@@ -0,0 +1,3 @@
+-- Loans returned after their due date were previously left as 'overdue';
+-- give them the final 'returned_late' status so 'overdue' only means "past due and still out"
+UPDATE "loans" SET "status" = 'returned_late' WHERE "status" = 'overdue' AND "return_datetime" IS NOT NULL;
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "fines" ADD COLUMN     "type" VARCHAR(30) NOT NULL DEFAULT 'manual',
+ADD COLUMN     "days_accrued" INTEGER,
+ADD COLUMN     "last_accrued_at" TIMESTAMP(3),
+ADD COLUMN     "finalized_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "fine_accruals" (
+    "id" SERIAL NOT NULL,
+    "fine_id" INTEGER NOT NULL,
+    "days_overdue" INTEGER NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "total_amount" DECIMAL(10,2) NOT NULL,
+    "capped" BOOLEAN NOT NULL DEFAULT false,
+    "accrued_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "fine_accruals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "fines_type_idx" ON "fines"("type");
+
+-- CreateIndex
+CREATE INDEX "fine_accruals_fine_id_idx" ON "fine_accruals"("fine_id");
+
+-- AddForeignKey
+ALTER TABLE "fine_accruals" ADD CONSTRAINT "fine_accruals_fine_id_fkey" FOREIGN KEY ("fine_id") REFERENCES "fines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing overdue fines become running fines; those on returned loans are already final
+UPDATE "fines" SET "type" = 'overdue'
+WHERE "loan_id" IS NOT NULL AND ("reason" ILIKE 'overdue%' OR "reason" ILIKE 'late return%');
+
+UPDATE "fines" SET "finalized_at" = "loans"."return_datetime"
+FROM "loans"
+WHERE "fines"."loan_id" = "loans"."id" AND "fines"."type" = 'overdue' AND "loans"."return_datetime" IS NOT NULL;
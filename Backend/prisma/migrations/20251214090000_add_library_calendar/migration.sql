@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "library_hours" (
+    "id" SERIAL NOT NULL,
+    "day_of_week" INTEGER NOT NULL,
+    "opens_at" VARCHAR(5),
+    "closes_at" VARCHAR(5),
+    "is_closed" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "library_hours_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "calendar_events" (
+    "id" SERIAL NOT NULL,
+    "name" VARCHAR(200) NOT NULL,
+    "type" VARCHAR(30) NOT NULL DEFAULT 'closure',
+    "start_date" DATE NOT NULL,
+    "end_date" DATE NOT NULL,
+    "is_closed" BOOLEAN NOT NULL DEFAULT true,
+    "opens_at" VARCHAR(5),
+    "closes_at" VARCHAR(5),
+    "notes" TEXT,
+    "created_by" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "calendar_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "library_hours_day_of_week_key" ON "library_hours"("day_of_week");
+
+-- CreateIndex
+CREATE INDEX "calendar_events_start_date_idx" ON "calendar_events"("start_date");
+
+-- CreateIndex
+CREATE INDEX "calendar_events_end_date_idx" ON "calendar_events"("end_date");
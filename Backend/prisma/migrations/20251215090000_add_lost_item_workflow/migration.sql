@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "loans" ADD COLUMN     "lost_at" TIMESTAMP(3),
+ADD COLUMN     "found_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "fines" ADD COLUMN     "refunded_amount" DECIMAL(10,2),
+ADD COLUMN     "refunded_at" TIMESTAMP(3);
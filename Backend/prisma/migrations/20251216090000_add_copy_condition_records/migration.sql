@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "copy_condition_records" (
+    "id" SERIAL NOT NULL,
+    "book_copy_id" INTEGER NOT NULL,
+    "loan_id" INTEGER,
+    "member_id" INTEGER,
+    "previous_condition" VARCHAR(50) NOT NULL,
+    "condition" VARCHAR(50) NOT NULL,
+    "notes" TEXT,
+    "fine_id" INTEGER,
+    "recorded_by" INTEGER NOT NULL,
+    "recorded_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "copy_condition_records_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "copy_condition_records_book_copy_id_idx" ON "copy_condition_records"("book_copy_id");
+
+-- CreateIndex
+CREATE INDEX "copy_condition_records_loan_id_idx" ON "copy_condition_records"("loan_id");
+
+-- CreateIndex
+CREATE INDEX "copy_condition_records_member_id_idx" ON "copy_condition_records"("member_id");
+
+-- AddForeignKey
+ALTER TABLE "copy_condition_records" ADD CONSTRAINT "copy_condition_records_book_copy_id_fkey" FOREIGN KEY ("book_copy_id") REFERENCES "book_copies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "copy_condition_records" ADD CONSTRAINT "copy_condition_records_loan_id_fkey" FOREIGN KEY ("loan_id") REFERENCES "loans"("id") ON DELETE SET NULL ON UPDATE CASCADE;
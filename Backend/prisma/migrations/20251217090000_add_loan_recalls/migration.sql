@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "loans" ADD COLUMN     "recalled_at" TIMESTAMP(3),
+ADD COLUMN     "recalled_by" INTEGER,
+ADD COLUMN     "recall_reason" TEXT,
+ADD COLUMN     "original_due_datetime" TIMESTAMP(3);
@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "members" ADD COLUMN     "claims_returned_limit" INTEGER NOT NULL DEFAULT 3;
+
+-- CreateTable
+CREATE TABLE "loan_claims" (
+    "id" SERIAL NOT NULL,
+    "loan_id" INTEGER NOT NULL,
+    "member_id" INTEGER NOT NULL,
+    "claimed_returned_at" TIMESTAMP(3) NOT NULL,
+    "previous_status" VARCHAR(50) NOT NULL,
+    "member_notes" TEXT,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'open',
+    "search_count" INTEGER NOT NULL DEFAULT 0,
+    "last_searched_at" TIMESTAMP(3),
+    "search_notes" TEXT,
+    "resolution" VARCHAR(30),
+    "resolved_at" TIMESTAMP(3),
+    "resolved_by" INTEGER,
+    "resolution_notes" TEXT,
+    "filed_by" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "loan_claims_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "loan_claims_loan_id_idx" ON "loan_claims"("loan_id");
+
+-- CreateIndex
+CREATE INDEX "loan_claims_member_id_idx" ON "loan_claims"("member_id");
+
+-- CreateIndex
+CREATE INDEX "loan_claims_status_idx" ON "loan_claims"("status");
+
+-- AddForeignKey
+ALTER TABLE "loan_claims" ADD CONSTRAINT "loan_claims_loan_id_fkey" FOREIGN KEY ("loan_id") REFERENCES "loans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "loan_claims" ADD CONSTRAINT "loan_claims_member_id_fkey" FOREIGN KEY ("member_id") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
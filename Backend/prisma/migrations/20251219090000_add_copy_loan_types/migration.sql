@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "book_copies" ADD COLUMN     "loan_type" VARCHAR(20) NOT NULL DEFAULT 'standard';
+
+-- AlterTable
+ALTER TABLE "loans" ADD COLUMN     "loan_type" VARCHAR(20) NOT NULL DEFAULT 'standard';
+
+-- AlterTable
+ALTER TABLE "fines" ADD COLUMN     "accrual_unit" VARCHAR(10) NOT NULL DEFAULT 'day';
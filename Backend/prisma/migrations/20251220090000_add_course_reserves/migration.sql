@@ -0,0 +1,56 @@
+-- CreateTable
+CREATE TABLE "courses" (
+    "id" SERIAL NOT NULL,
+    "code" VARCHAR(30) NOT NULL,
+    "title" VARCHAR(200) NOT NULL,
+    "instructor" VARCHAR(200) NOT NULL,
+    "term_start" DATE NOT NULL,
+    "term_end" DATE NOT NULL,
+    "loan_type" VARCHAR(20) NOT NULL DEFAULT 'short_loan',
+    "notes" TEXT,
+    "created_by" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "courses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "course_reserves" (
+    "id" SERIAL NOT NULL,
+    "course_id" INTEGER NOT NULL,
+    "book_id" INTEGER NOT NULL,
+    "book_copy_id" INTEGER,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'pending',
+    "previous_loan_type" VARCHAR(20),
+    "activated_at" TIMESTAMP(3),
+    "released_at" TIMESTAMP(3),
+    "added_by" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "course_reserves_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "courses_code_key" ON "courses"("code");
+
+-- CreateIndex
+CREATE INDEX "courses_term_end_idx" ON "courses"("term_end");
+
+-- CreateIndex
+CREATE INDEX "course_reserves_course_id_idx" ON "course_reserves"("course_id");
+
+-- CreateIndex
+CREATE INDEX "course_reserves_book_copy_id_idx" ON "course_reserves"("book_copy_id");
+
+-- CreateIndex
+CREATE INDEX "course_reserves_status_idx" ON "course_reserves"("status");
+
+-- AddForeignKey
+ALTER TABLE "course_reserves" ADD CONSTRAINT "course_reserves_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "courses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "course_reserves" ADD CONSTRAINT "course_reserves_book_id_fkey" FOREIGN KEY ("book_id") REFERENCES "books"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "course_reserves" ADD CONSTRAINT "course_reserves_book_copy_id_fkey" FOREIGN KEY ("book_copy_id") REFERENCES "book_copies"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,88 @@
+-- CreateTable
+CREATE TABLE "branches" (
+    "id" SERIAL NOT NULL,
+    "code" VARCHAR(20) NOT NULL,
+    "name" VARCHAR(200) NOT NULL,
+    "address" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "branches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "copy_transfers" (
+    "id" SERIAL NOT NULL,
+    "book_copy_id" INTEGER NOT NULL,
+    "from_branch_id" INTEGER NOT NULL,
+    "to_branch_id" INTEGER NOT NULL,
+    "reason" VARCHAR(30) NOT NULL,
+    "reservation_id" INTEGER,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'in_transit',
+    "sent_by" INTEGER,
+    "sent_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "received_by" INTEGER,
+    "received_at" TIMESTAMP(3),
+
+    CONSTRAINT "copy_transfers_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "branch_id" INTEGER;
+
+-- AlterTable
+ALTER TABLE "book_copies" ADD COLUMN     "home_branch_id" INTEGER,
+ADD COLUMN     "current_branch_id" INTEGER;
+
+-- AlterTable
+ALTER TABLE "loans" ADD COLUMN     "checkout_branch_id" INTEGER,
+ADD COLUMN     "return_branch_id" INTEGER;
+
+-- AlterTable
+ALTER TABLE "reservations" ADD COLUMN     "pickup_branch_id" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "branches_code_key" ON "branches"("code");
+
+-- CreateIndex
+CREATE INDEX "copy_transfers_book_copy_id_idx" ON "copy_transfers"("book_copy_id");
+
+-- CreateIndex
+CREATE INDEX "copy_transfers_to_branch_id_status_idx" ON "copy_transfers"("to_branch_id", "status");
+
+-- CreateIndex
+CREATE INDEX "book_copies_home_branch_id_idx" ON "book_copies"("home_branch_id");
+
+-- CreateIndex
+CREATE INDEX "loans_checkout_branch_id_idx" ON "loans"("checkout_branch_id");
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_branch_id_fkey" FOREIGN KEY ("branch_id") REFERENCES "branches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "copy_transfers" ADD CONSTRAINT "copy_transfers_book_copy_id_fkey" FOREIGN KEY ("book_copy_id") REFERENCES "book_copies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "copy_transfers" ADD CONSTRAINT "copy_transfers_from_branch_id_fkey" FOREIGN KEY ("from_branch_id") REFERENCES "branches"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "copy_transfers" ADD CONSTRAINT "copy_transfers_to_branch_id_fkey" FOREIGN KEY ("to_branch_id") REFERENCES "branches"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "copy_transfers" ADD CONSTRAINT "copy_transfers_reservation_id_fkey" FOREIGN KEY ("reservation_id") REFERENCES "reservations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "book_copies" ADD CONSTRAINT "book_copies_home_branch_id_fkey" FOREIGN KEY ("home_branch_id") REFERENCES "branches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "book_copies" ADD CONSTRAINT "book_copies_current_branch_id_fkey" FOREIGN KEY ("current_branch_id") REFERENCES "branches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "loans" ADD CONSTRAINT "loans_checkout_branch_id_fkey" FOREIGN KEY ("checkout_branch_id") REFERENCES "branches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "loans" ADD CONSTRAINT "loans_return_branch_id_fkey" FOREIGN KEY ("return_branch_id") REFERENCES "branches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reservations" ADD CONSTRAINT "reservations_pickup_branch_id_fkey" FOREIGN KEY ("pickup_branch_id") REFERENCES "branches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
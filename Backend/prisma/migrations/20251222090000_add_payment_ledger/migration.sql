@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "payments" (
+    "id" SERIAL NOT NULL,
+    "member_id" INTEGER NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "currency" VARCHAR(10) NOT NULL DEFAULT 'USD',
+    "method" VARCHAR(20) NOT NULL,
+    "reference" VARCHAR(100),
+    "status" VARCHAR(20) NOT NULL DEFAULT 'completed',
+    "received_by" INTEGER NOT NULL,
+    "notes" TEXT,
+    "reversed_by" INTEGER,
+    "reversed_at" TIMESTAMP(3),
+    "reversal_reason" VARCHAR(500),
+    "paid_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payment_allocations" (
+    "id" SERIAL NOT NULL,
+    "payment_id" INTEGER NOT NULL,
+    "fine_id" INTEGER NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+
+    CONSTRAINT "payment_allocations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payments_member_id_idx" ON "payments"("member_id");
+
+-- CreateIndex
+CREATE INDEX "payments_status_idx" ON "payments"("status");
+
+-- CreateIndex
+CREATE INDEX "payments_paid_at_idx" ON "payments"("paid_at");
+
+-- CreateIndex
+CREATE INDEX "payment_allocations_payment_id_idx" ON "payment_allocations"("payment_id");
+
+-- CreateIndex
+CREATE INDEX "payment_allocations_fine_id_idx" ON "payment_allocations"("fine_id");
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_member_id_fkey" FOREIGN KEY ("member_id") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_allocations" ADD CONSTRAINT "payment_allocations_payment_id_fkey" FOREIGN KEY ("payment_id") REFERENCES "payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_allocations" ADD CONSTRAINT "payment_allocations_fine_id_fkey" FOREIGN KEY ("fine_id") REFERENCES "fines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
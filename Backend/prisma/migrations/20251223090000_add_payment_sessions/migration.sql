@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "payment_sessions" (
+    "id" SERIAL NOT NULL,
+    "member_id" INTEGER NOT NULL,
+    "provider" VARCHAR(30) NOT NULL,
+    "provider_session_id" VARCHAR(100) NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "currency" VARCHAR(10) NOT NULL DEFAULT 'USD',
+    "fine_ids" INTEGER[],
+    "checkout_url" VARCHAR(500) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'pending',
+    "payment_id" INTEGER,
+    "provider_reference" VARCHAR(100),
+    "failure_reason" VARCHAR(500),
+    "created_by" INTEGER NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payment_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_sessions_provider_session_id_key" ON "payment_sessions"("provider_session_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_sessions_payment_id_key" ON "payment_sessions"("payment_id");
+
+-- CreateIndex
+CREATE INDEX "payment_sessions_member_id_idx" ON "payment_sessions"("member_id");
+
+-- CreateIndex
+CREATE INDEX "payment_sessions_status_idx" ON "payment_sessions"("status");
+
+-- AddForeignKey
+ALTER TABLE "payment_sessions" ADD CONSTRAINT "payment_sessions_member_id_fkey" FOREIGN KEY ("member_id") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_sessions" ADD CONSTRAINT "payment_sessions_payment_id_fkey" FOREIGN KEY ("payment_id") REFERENCES "payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
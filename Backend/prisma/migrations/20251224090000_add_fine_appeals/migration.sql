@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "fine_appeals" (
+    "id" SERIAL NOT NULL,
+    "fine_id" INTEGER NOT NULL,
+    "member_id" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "attachment_url" VARCHAR(500),
+    "attachment_name" VARCHAR(255),
+    "status" VARCHAR(20) NOT NULL DEFAULT 'pending',
+    "waived_amount" DECIMAL(10,2),
+    "reviewed_by" INTEGER,
+    "reviewed_at" TIMESTAMP(3),
+    "review_notes" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "fine_appeals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "fine_appeals_fine_id_idx" ON "fine_appeals"("fine_id");
+
+-- CreateIndex
+CREATE INDEX "fine_appeals_member_id_idx" ON "fine_appeals"("member_id");
+
+-- CreateIndex
+CREATE INDEX "fine_appeals_status_idx" ON "fine_appeals"("status");
+
+-- AddForeignKey
+ALTER TABLE "fine_appeals" ADD CONSTRAINT "fine_appeals_fine_id_fkey" FOREIGN KEY ("fine_id") REFERENCES "fines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fine_appeals" ADD CONSTRAINT "fine_appeals_member_id_fkey" FOREIGN KEY ("member_id") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
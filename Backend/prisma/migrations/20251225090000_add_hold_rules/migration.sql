@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "hold_rules" (
+    "id" SERIAL NOT NULL,
+    "name" VARCHAR(200) NOT NULL,
+    "type" VARCHAR(30) NOT NULL,
+    "threshold" DECIMAL(10,2) NOT NULL,
+    "auto_lift" BOOLEAN NOT NULL DEFAULT true,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "notes" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hold_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "holds" ADD COLUMN "rule_id" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "hold_rules_is_active_idx" ON "hold_rules"("is_active");
+
+-- CreateIndex
+CREATE INDEX "holds_rule_id_idx" ON "holds"("rule_id");
+
+-- AddForeignKey
+ALTER TABLE "holds" ADD CONSTRAINT "holds_rule_id_fkey" FOREIGN KEY ("rule_id") REFERENCES "hold_rules"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Seed the rule that used to be hard-coded: hold any loan 7 days past due
+INSERT INTO "hold_rules" ("name", "type", "threshold", "auto_lift", "is_active", "notes", "updated_at")
+VALUES ('Item overdue 7 days', 'overdue_days', 7, true, true, 'Replaces the fixed 7-day grace period', CURRENT_TIMESTAMP);
+
+-- Existing automatic overdue holds now belong to that rule
+UPDATE "holds" SET "rule_id" = (SELECT "id" FROM "hold_rules" WHERE "type" = 'overdue_days' LIMIT 1)
+WHERE "status" = 'active' AND "loan_id" IS NOT NULL AND "notes" LIKE 'Automatically placed by system%';
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "holds" ADD COLUMN "expires_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "holds_expires_at_idx" ON "holds"("expires_at");
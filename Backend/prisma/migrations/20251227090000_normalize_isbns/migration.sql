@@ -0,0 +1,58 @@
+-- Store every valid ISBN in canonical ISBN-13 form: no hyphens or spaces, ISBN-10s converted.
+-- A book whose canonical ISBN is already taken by another book keeps its current value and is listed
+-- by the catalog duplicate report (GET /api/catalog/duplicates) for a librarian to merge.
+-- Invalid ISBNs are left unchanged and listed there too.
+
+-- Canonical ISBN for each book, NULL when the stored value is not a valid ISBN
+CREATE TEMP TABLE "isbn_canonical" AS
+WITH "cleaned" AS (
+  SELECT "id", "isbn", upper(regexp_replace("isbn", '^(?:ISBN(?:-1[03])?:?)|[\s-]', '', 'gi')) AS "value"
+  FROM "books"
+),
+"valid_isbn10" AS (
+  SELECT "id", "isbn", "value"
+  FROM "cleaned"
+  WHERE "value" ~ '^[0-9]{9}[0-9X]$'
+    AND (
+      SELECT sum(
+        (CASE WHEN substr("value", i, 1) = 'X' THEN 10 ELSE substr("value", i, 1)::int END) * (11 - i)
+      )
+      FROM generate_series(1, 10) AS i
+    ) % 11 = 0
+),
+"valid_isbn13" AS (
+  SELECT "id", "isbn", "value"
+  FROM "cleaned"
+  WHERE "value" ~ '^97[89][0-9]{10}$'
+    AND (
+      SELECT sum(substr("value", i, 1)::int * (CASE WHEN i % 2 = 1 THEN 1 ELSE 3 END))
+      FROM generate_series(1, 13) AS i
+    ) % 10 = 0
+)
+SELECT "id", "isbn", "value" AS "canonical" FROM "valid_isbn13"
+UNION ALL
+-- 978 + first nine digits, with the ISBN-13 check digit recomputed (the prefix contributes 9 + 7*3 + 8 = 38)
+SELECT "id", "isbn",
+  '978' || substr("value", 1, 9) || ((10 - (
+    38 + (
+      SELECT sum(substr("value", i, 1)::int * (CASE WHEN i % 2 = 1 THEN 3 ELSE 1 END))
+      FROM generate_series(1, 9) AS i
+    )
+  ) % 10) % 10)::text
+FROM "valid_isbn10";
+
+-- Rewrite ISBNs whose canonical form is free; the oldest book wins when several share one
+UPDATE "books"
+SET "isbn" = c."canonical",
+    "updated_at" = CURRENT_TIMESTAMP
+FROM "isbn_canonical" c
+WHERE "books"."id" = c."id"
+  AND c."canonical" <> c."isbn"
+  AND NOT EXISTS (
+    SELECT 1 FROM "books" b WHERE b."isbn" = c."canonical" AND b."id" <> c."id"
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM "isbn_canonical" o WHERE o."canonical" = c."canonical" AND o."id" < c."id"
+  );
+
+DROP TABLE "isbn_canonical";
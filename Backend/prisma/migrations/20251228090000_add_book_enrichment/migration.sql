@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "books" ADD COLUMN "metadata_source" VARCHAR(50),
+ADD COLUMN "enriched_fields" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "enriched_at" TIMESTAMP(3);
@@ -0,0 +1,133 @@
+-- CreateTable
+CREATE TABLE "authors" (
+    "id" SERIAL NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "variants" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "match_keys" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "notes" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "authors_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "book_contributors" (
+    "id" SERIAL NOT NULL,
+    "book_id" INTEGER NOT NULL,
+    "author_id" INTEGER NOT NULL,
+    "role" VARCHAR(20) NOT NULL DEFAULT 'author',
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "book_contributors_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "authors_name_idx" ON "authors"("name");
+
+-- CreateIndex
+CREATE INDEX "authors_match_keys_idx" ON "authors" USING GIN ("match_keys");
+
+-- CreateIndex
+CREATE INDEX "book_contributors_author_id_idx" ON "book_contributors"("author_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "book_contributors_book_id_author_id_role_key" ON "book_contributors"("book_id", "author_id", "role");
+
+-- AddForeignKey
+ALTER TABLE "book_contributors" ADD CONSTRAINT "book_contributors_book_id_fkey" FOREIGN KEY ("book_id") REFERENCES "books"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "book_contributors" ADD CONSTRAINT "book_contributors_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "authors"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill: split each book's author text into names and give every distinct name one author record.
+-- Same rules as splitAuthorLine and authorMatchKey in src/services/author.service.ts: ";", "&" and "and"
+-- separate people, and so does a comma unless it follows a single word ("Smith, John") or comes before a
+-- suffix ("King, Jr."). A line where a comma left a one-word name behind is flagged for review below.
+CREATE FUNCTION pg_temp.split_author_line(line TEXT, OUT names TEXT[], OUT ambiguous BOOLEAN) AS $$
+DECLARE
+  part TEXT;
+  pieces TEXT[];
+  person TEXT;
+  i INT;
+BEGIN
+  names := ARRAY[]::TEXT[];
+  ambiguous := false;
+
+  FOREACH part IN ARRAY regexp_split_to_array(line, '\s*;\s*|\s+&\s+|\s+and\s+', 'i') LOOP
+    SELECT coalesce(array_agg(trim(p) ORDER BY o), ARRAY[]::TEXT[]) INTO pieces
+    FROM unnest(string_to_array(part, ',')) WITH ORDINALITY AS t(p, o)
+    WHERE trim(p) <> '';
+
+    i := 1;
+    WHILE i <= cardinality(pieces) LOOP
+      person := pieces[i];
+      i := i + 1;
+      IF i <= cardinality(pieces) AND person !~ '\s' AND pieces[i] !~* '^(jr|sr|ii|iii|iv)\.?$' THEN
+        person := person || ', ' || pieces[i];
+        i := i + 1;
+      END IF;
+      IF i <= cardinality(pieces) AND pieces[i] ~* '^(jr|sr|ii|iii|iv)\.?$' THEN
+        person := person || ', ' || pieces[i];
+        i := i + 1;
+      END IF;
+      IF cardinality(pieces) > 1 AND person !~ '[\s,]' THEN
+        ambiguous := true;
+      END IF;
+      names := names || person;
+    END LOOP;
+  END LOOP;
+END
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE FUNCTION pg_temp.author_match_key(name TEXT) RETURNS TEXT AS $$
+  SELECT trim(regexp_replace(lower(regexp_replace(
+    CASE
+      WHEN trim(name) ~* '^[^[:space:],]+,(?!\s*(jr|sr|ii|iii|iv)\.?(,|$))\s*[^,]+(,\s*(jr|sr|ii|iii|iv)\.?)?$'
+        THEN regexp_replace(trim(name), '^([^[:space:],]+),\s*([^,]+?)(,\s*(jr|sr|ii|iii|iv)\.?)?$', '\2 \1\3', 'i')
+      ELSE trim(name)
+    END,
+    '[^[:alnum:][:space:]]', ' ', 'g')), '\s+', ' ', 'g'))
+$$ LANGUAGE SQL IMMUTABLE;
+
+CREATE TEMP TABLE "book_author_names" AS
+SELECT b."id" AS "book_id", b."author" AS "line", n."name", (n."ord" - 1)::int AS "position",
+  pg_temp.author_match_key(n."name") AS "match_key", s."ambiguous"
+FROM "books" b
+CROSS JOIN LATERAL pg_temp.split_author_line(b."author") s
+CROSS JOIN LATERAL unnest(s."names") WITH ORDINALITY AS n("name", "ord");
+
+-- The form on the oldest book becomes the preferred name; the others are kept as variants,
+-- and records taken from an ambiguous line say so on the author page
+INSERT INTO "authors" ("name", "variants", "match_keys", "notes", "updated_at")
+SELECT (array_agg("name" ORDER BY "book_id", "position"))[1], array_agg(DISTINCT "name"), ARRAY["match_key"],
+  CASE WHEN bool_or("ambiguous") THEN
+    'Needs review: taken from the author line ' || string_agg(DISTINCT '"' || "line" || '"', ', ') FILTER (WHERE "ambiguous")
+      || ', where a comma may separate a surname from its forenames rather than two people'
+  END,
+  CURRENT_TIMESTAMP
+FROM "book_author_names"
+WHERE "match_key" <> ''
+GROUP BY "match_key";
+
+UPDATE "authors" SET "variants" = array_remove("variants", "name");
+
+INSERT INTO "book_contributors" ("book_id", "author_id", "role", "position")
+SELECT n."book_id", a."id", 'author', n."position"
+FROM "book_author_names" n
+JOIN "authors" a ON a."match_keys"[1] = n."match_key"
+ON CONFLICT ("book_id", "author_id", "role") DO NOTHING;
+
+-- List the books to check in the migration output as well
+DO $$
+DECLARE
+  flagged RECORD;
+BEGIN
+  FOR flagged IN SELECT DISTINCT "book_id", "line" FROM "book_author_names" WHERE "ambiguous" ORDER BY "book_id" LOOP
+    RAISE NOTICE 'Check the authors of book %: "%"', flagged."book_id", flagged."line";
+  END LOOP;
+END
+$$;
+
+DROP TABLE "book_author_names";
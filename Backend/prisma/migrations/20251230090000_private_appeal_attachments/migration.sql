@@ -0,0 +1,7 @@
+-- Appeal evidence moves out of the public uploads folder; files are served by an authenticated endpoint
+ALTER TABLE "fine_appeals" ADD COLUMN "attachment_file" VARCHAR(255);
+
+UPDATE "fine_appeals"
+SET "attachment_file" = regexp_replace("attachment_url", '^.*/', ''),
+    "attachment_url" = '/api/fine-appeals/' || "id" || '/attachment'
+WHERE "attachment_url" IS NOT NULL;
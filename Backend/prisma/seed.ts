@@ -3,6 +3,7 @@
 
 import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcryptjs';
+import { authorMatchKey, splitAuthorNames } from '../src/services/author.service';
 
 const prisma = new PrismaClient();
 
@@ -119,12 +120,54 @@ async function main() {
   console.log('   Password: Librarian@123');
   console.log('   ⚠️  IMPORTANT: Change this password after first login!\n');
 
+  // Create default circulation policies
+  console.log('Creating default circulation policies...');
+
+  const defaultPolicies = [
+    { patronType: 'STUDENT', loanPeriodDays: 14, renewalPeriodDays: 14, maxRenewals: 2, finePerDay: 0.5, maxFine: 20, maxLoans: 5 },
+    { patronType: 'STAFF', loanPeriodDays: 30, renewalPeriodDays: 30, maxRenewals: 3, finePerDay: 0.25, maxFine: 20, maxLoans: 10 },
+  ];
+
+  for (const policy of defaultPolicies) {
+    const existingPolicy = await prisma.circulationPolicy.findFirst({
+      where: { patronType: policy.patronType, category: null },
+    });
+    if (!existingPolicy) {
+      await prisma.circulationPolicy.create({ data: policy });
+    }
+  }
+
+  console.log('✅ Default circulation policies created');
+
+  // Create default weekly opening hours
+  console.log('Creating library opening hours...');
+
+  const weeklyHours = [
+    { dayOfWeek: 0, opensAt: null, closesAt: null, isClosed: true },
+    { dayOfWeek: 1, opensAt: '08:00', closesAt: '20:00', isClosed: false },
+    { dayOfWeek: 2, opensAt: '08:00', closesAt: '20:00', isClosed: false },
+    { dayOfWeek: 3, opensAt: '08:00', closesAt: '20:00', isClosed: false },
+    { dayOfWeek: 4, opensAt: '08:00', closesAt: '20:00', isClosed: false },
+    { dayOfWeek: 5, opensAt: '08:00', closesAt: '20:00', isClosed: false },
+    { dayOfWeek: 6, opensAt: '10:00', closesAt: '16:00', isClosed: false },
+  ];
+
+  for (const hours of weeklyHours) {
+    await prisma.libraryHours.upsert({
+      where: { dayOfWeek: hours.dayOfWeek },
+      update: {},
+      create: hours,
+    });
+  }
+
+  console.log('✅ Library opening hours created');
+
   // Create dummy books
   console.log('Creating dummy books...');
 
   const books = [
     {
-      isbn: '978-0-7475-3269-9',
+      isbn: '9780747532699',
       title: 'Harry Potter and the Philosopher\'s Stone',
       author: 'J.K. Rowling',
       publisher: 'Bloomsbury',
@@ -136,7 +179,7 @@ async function main() {
       coverImageUrl: 'https://images.unsplash.com/photo-1621351183012-e2f9972dd9bf?w=400',
     },
     {
-      isbn: '978-0-06-112008-4',
+      isbn: '9780061120084',
       title: 'To Kill a Mockingbird',
       author: 'Harper Lee',
       publisher: 'J.B. Lippincott & Co.',
@@ -148,9 +191,9 @@ async function main() {
       coverImageUrl: 'https://images.unsplash.com/photo-1544947950-fa07a98d237f?w=400',
     },
     {
-      isbn: '978-0-13-110362-7',
+      isbn: '9780131103627',
       title: 'The C Programming Language',
-      author: 'Brian W. Kernighan, Dennis M. Ritchie',
+      author: 'Brian W. Kernighan; Dennis M. Ritchie',
       publisher: 'Prentice Hall',
       publishedYear: 1988,
       category: 'Programming',
@@ -160,7 +203,7 @@ async function main() {
       coverImageUrl: 'https://images.unsplash.com/photo-1532012197267-da84d127e765?w=400',
     },
     {
-      isbn: '978-0-596-52068-7',
+      isbn: '9780596520687',
       title: 'JavaScript: The Good Parts',
       author: 'Douglas Crockford',
       publisher: 'O\'Reilly Media',
@@ -172,7 +215,7 @@ async function main() {
       coverImageUrl: 'https://images.unsplash.com/photo-1516116216624-53e697fedbea?w=400',
     },
     {
-      isbn: '978-1-59327-584-6',
+      isbn: '9781593275846',
       title: 'Python Crash Course',
       author: 'Eric Matthes',
       publisher: 'No Starch Press',
@@ -184,7 +227,7 @@ async function main() {
       coverImageUrl: 'https://images.unsplash.com/photo-1526374965328-7f61d4dc18c5?w=400',
     },
     {
-      isbn: '978-0-316-76948-0',
+      isbn: '9780316769488',
       title: 'The Catcher in the Rye',
       author: 'J.D. Salinger',
       publisher: 'Little, Brown and Company',
@@ -196,7 +239,7 @@ async function main() {
       coverImageUrl: 'https://images.unsplash.com/photo-1512820790803-83ca734da794?w=400',
     },
     {
-      isbn: '978-0-14-017739-8',
+      isbn: '9780140177398',
       title: '1984',
       author: 'George Orwell',
       publisher: 'Secker & Warburg',
@@ -208,7 +251,7 @@ async function main() {
       coverImageUrl: 'https://images.unsplash.com/photo-1495640388908-05fa85288e61?w=400',
     },
     {
-      isbn: '978-0-547-92822-7',
+      isbn: '9780547928227',
       title: 'The Hobbit',
       author: 'J.R.R. Tolkien',
       publisher: 'George Allen & Unwin',
@@ -220,7 +263,7 @@ async function main() {
       coverImageUrl: 'https://images.unsplash.com/photo-1589998059171-988d887df646?w=400',
     },
     {
-      isbn: '978-0-307-58837-1',
+      isbn: '9780307588371',
       title: 'Sapiens: A Brief History of Humankind',
       author: 'Yuval Noah Harari',
       publisher: 'Harper',
@@ -232,7 +275,7 @@ async function main() {
       coverImageUrl: 'https://images.unsplash.com/photo-1497633762265-9d179a990aa6?w=400',
     },
     {
-      isbn: '978-0-7432-7356-5',
+      isbn: '9780743273565',
       title: 'The Da Vinci Code',
       author: 'Dan Brown',
       publisher: 'Doubleday',
@@ -244,7 +287,7 @@ async function main() {
       coverImageUrl: 'https://images.unsplash.com/photo-1544716278-ca5e3f4abd8c?w=400',
     },
     {
-      isbn: '978-1-59184-849-0',
+      isbn: '9780132350884',
       title: 'Clean Code',
       author: 'Robert C. Martin',
       publisher: 'Prentice Hall',
@@ -256,7 +299,7 @@ async function main() {
       coverImageUrl: 'https://images.unsplash.com/photo-1515879218367-8466d910aaa4?w=400',
     },
     {
-      isbn: '978-0-06-231500-7',
+      isbn: '9780062315007',
       title: 'Thinking, Fast and Slow',
       author: 'Daniel Kahneman',
       publisher: 'Farrar, Straus and Giroux',
@@ -268,7 +311,7 @@ async function main() {
       coverImageUrl: 'https://images.unsplash.com/photo-1481627834876-b7833e8f5570?w=400',
     },
     {
-      isbn: '978-0-7432-7357-2',
+      isbn: '9780743273572',
       title: 'The Innovator\'s Dilemma',
       author: 'Clayton M. Christensen',
       publisher: 'Harvard Business Review Press',
@@ -280,9 +323,9 @@ async function main() {
       coverImageUrl: 'https://images.unsplash.com/photo-1519682337058-a94d519337bc?w=400',
     },
     {
-      isbn: '978-0-201-63361-0',
+      isbn: '9780201633610',
       title: 'Design Patterns',
-      author: 'Erich Gamma, Richard Helm, Ralph Johnson, John Vlissides',
+      author: 'Erich Gamma; Richard Helm; Ralph Johnson; John Vlissides',
       publisher: 'Addison-Wesley',
       publishedYear: 1994,
       category: 'Programming',
@@ -292,7 +335,7 @@ async function main() {
       coverImageUrl: 'https://images.unsplash.com/photo-1550399105-c4db5fb85c18?w=400',
     },
     {
-      isbn: '978-0-06-085052-4',
+      isbn: '9780060850524',
       title: 'Brave New World',
       author: 'Aldous Huxley',
       publisher: 'Chatto & Windus',
@@ -312,6 +355,20 @@ async function main() {
       create: book,
     });
 
+    // Credit each author on the book's author line to an author record
+    const names = splitAuthorNames(book.author);
+    for (const [position, name] of names.entries()) {
+      const key = authorMatchKey(name);
+      const author = await prisma.author.findFirst({ where: { matchKeys: { has: key } } })
+        ?? await prisma.author.create({ data: { name, matchKeys: [key] } });
+
+      await prisma.bookContributor.upsert({
+        where: { bookId_authorId_role: { bookId: createdBook.id, authorId: author.id, role: 'author' } },
+        update: {},
+        create: { bookId: createdBook.id, authorId: author.id, role: 'author', position },
+      });
+    }
+
     // Create book copies for each book
     const copiesToCreate = book.totalCopies || 0;
     const availableCopies = book.availableCopies || 0;
@@ -496,7 +553,7 @@ async function main() {
     { memberIndex: 3, copyIndex: 9, daysAgo: 2, daysUntilDue: 12, status: 'ongoing' },
     
     // David Wilson - 1 book, returned late
-    { memberIndex: 4, copyIndex: 10, daysAgo: 30, daysUntilDue: -16, status: 'returned', returnedDaysAgo: 2 },
+    { memberIndex: 4, copyIndex: 10, daysAgo: 30, daysUntilDue: -16, status: 'returned_late', returnedDaysAgo: 2 },
     
     // Jessica Martinez - 2 books, on time
     { memberIndex: 5, copyIndex: 11, daysAgo: 6, daysUntilDue: 8, status: 'ongoing' },
@@ -626,12 +683,14 @@ async function main() {
       data: {
         memberId: member.id,
         loanId: loan.id,
+        type: 'overdue',
         amount: fineData.amount,
         reason: fineData.reason,
         chargedBy: adminUser.id,
         status: fineData.isPaid ? 'paid' : 'unpaid',
         paidAt: fineData.isPaid ? new Date() : null,
         paidAmount: fineData.isPaid ? fineData.amount : null,
+        finalizedAt: loan.returnDatetime,
       },
     });
 
@@ -12,12 +12,22 @@ import { env } from './config/env';
 
 // Import routes
 import authRoutes from './routes/auth.routes';
+import authorRoutes from './routes/author.routes';
 import bookRoutes from './routes/book.routes';
+import branchRoutes from './routes/branch.routes';
+import catalogRoutes from './routes/catalog.routes';
+import circulationPolicyRoutes from './routes/circulation-policy.routes';
+import courseRoutes from './routes/course.routes';
+import fineAppealRoutes from './routes/fine-appeal.routes';
+import holdRuleRoutes from './routes/hold-rule.routes';
 import booksRoutes from './routes/books.routes';
+import libraryRoutes from './routes/library.routes';
 import loanRoutes from './routes/loan.routes';
 import memberRoutes from './routes/member.routes';
 import notificationRoutes from './routes/notification.routes';
+import paymentRoutes from './routes/payment.routes';
 import reportRoutes from './routes/report.routes';
+import reservationRoutes from './routes/reservation.routes';
 import statsRoutes from './routes/stats.routes';
 
 const app: Application = express();
@@ -30,8 +40,12 @@ app.use(cors({
   credentials: true,
 }));
 
-// Body parsing
-app.use(express.json());
+// Body parsing; the raw bytes are kept so payment webhooks can be signature-checked
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    (req as Request).rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: true }));
 
 // Static files - serve uploaded PDFs
@@ -69,12 +83,22 @@ app.get('/health', (_req: Request, res: Response) => {
 
 // API routes
 app.use(`${env.API_PREFIX}/auth`, authRoutes);
+app.use(`${env.API_PREFIX}/authors`, authorRoutes);
 app.use(`${env.API_PREFIX}/books`, booksRoutes);
 app.use(`${env.API_PREFIX}`, bookRoutes);
+app.use(`${env.API_PREFIX}/branches`, branchRoutes);
+app.use(`${env.API_PREFIX}/catalog`, catalogRoutes);
+app.use(`${env.API_PREFIX}/library`, libraryRoutes);
 app.use(`${env.API_PREFIX}/loans`, loanRoutes);
+app.use(`${env.API_PREFIX}/circulation-policies`, circulationPolicyRoutes);
+app.use(`${env.API_PREFIX}/courses`, courseRoutes);
+app.use(`${env.API_PREFIX}/fine-appeals`, fineAppealRoutes);
+app.use(`${env.API_PREFIX}/hold-rules`, holdRuleRoutes);
 app.use(`${env.API_PREFIX}/members`, memberRoutes);
 app.use(`${env.API_PREFIX}`, notificationRoutes);
+app.use(`${env.API_PREFIX}/payments`, paymentRoutes);
 app.use(`${env.API_PREFIX}/reports`, reportRoutes);
+app.use(`${env.API_PREFIX}/reservations`, reservationRoutes);
 app.use(`${env.API_PREFIX}`, statsRoutes);
 
 // 404 handler
@@ -24,8 +24,25 @@ interface EnvConfig {
   VERIFICATION_TOKEN_EXPIRY_HOURS: number;
   DEFAULT_LOAN_PERIOD_DAYS: number;
   DEFAULT_MAX_BORROWED_BOOKS: number;
+  DEFAULT_MAX_RENEWALS: number;
   FINE_PER_DAY: number;
+  MAX_OVERDUE_FINE: number;
+  LOST_ITEM_REPLACEMENT_FEE: number;
+  LOST_ITEM_PROCESSING_FEE: number;
+  RECALL_MIN_LOAN_DAYS: number;
+  RECALL_NOTICE_DAYS: number;
+  RECALL_FINE_PER_DAY: number;
+  SHORT_LOAN_HOURS: number;
+  SHORT_LOAN_FINE_PER_HOUR: number;
   RESERVATION_EXPIRY_DAYS: number;
+  RESERVATION_QUEUE_DAYS: number;
+  PAYMENT_PROVIDER: string;
+  PAYMENT_WEBHOOK_SECRET: string;
+  PAYMENT_SESSION_MINUTES: number;
+  METADATA_PROVIDER: string;
+  METADATA_LOCAL_FILE: string;
+  METADATA_TIMEOUT_MS: number;
+  OPEN_LIBRARY_URL: string;
   BACKUP_DIRECTORY: string;
   BACKUP_SCHEDULE_CRON: string;
   CORS_ORIGIN: string;
@@ -45,7 +62,7 @@ const getEnvNumber = (key: string, defaultValue?: number): number => {
   if (!value && defaultValue === undefined) {
     throw new Error(`Missing required environment variable: ${key}`);
   }
-  return value ? parseInt(value, 10) : defaultValue!;
+  return value ? parseFloat(value) : defaultValue!;
 };
 
 const getEnvBoolean = (key: string, defaultValue: boolean = false): boolean => {
@@ -73,8 +90,26 @@ export const env: EnvConfig = {
   VERIFICATION_TOKEN_EXPIRY_HOURS: getEnvNumber('VERIFICATION_TOKEN_EXPIRY_HOURS', 24),
   DEFAULT_LOAN_PERIOD_DAYS: getEnvNumber('DEFAULT_LOAN_PERIOD_DAYS', 14),
   DEFAULT_MAX_BORROWED_BOOKS: getEnvNumber('DEFAULT_MAX_BORROWED_BOOKS', 5),
+  DEFAULT_MAX_RENEWALS: getEnvNumber('DEFAULT_MAX_RENEWALS', 2),
   FINE_PER_DAY: getEnvNumber('FINE_PER_DAY', 0.5),
+  MAX_OVERDUE_FINE: getEnvNumber('MAX_OVERDUE_FINE', 0),
+  LOST_ITEM_REPLACEMENT_FEE: getEnvNumber('LOST_ITEM_REPLACEMENT_FEE', 25),
+  LOST_ITEM_PROCESSING_FEE: getEnvNumber('LOST_ITEM_PROCESSING_FEE', 5),
+  RECALL_MIN_LOAN_DAYS: getEnvNumber('RECALL_MIN_LOAN_DAYS', 7),
+  RECALL_NOTICE_DAYS: getEnvNumber('RECALL_NOTICE_DAYS', 3),
+  RECALL_FINE_PER_DAY: getEnvNumber('RECALL_FINE_PER_DAY', 2),
+  SHORT_LOAN_HOURS: getEnvNumber('SHORT_LOAN_HOURS', 4),
+  SHORT_LOAN_FINE_PER_HOUR: getEnvNumber('SHORT_LOAN_FINE_PER_HOUR', 0.5),
   RESERVATION_EXPIRY_DAYS: getEnvNumber('RESERVATION_EXPIRY_DAYS', 3),
+  RESERVATION_QUEUE_DAYS: getEnvNumber('RESERVATION_QUEUE_DAYS', 60), // Queued this long without a copy, a reservation lapses
+  PAYMENT_PROVIDER: process.env.PAYMENT_PROVIDER || '', // Empty turns online payments off
+  // Only needed once a provider is chosen; a missing secret then stops the server at startup
+  PAYMENT_WEBHOOK_SECRET: process.env.PAYMENT_PROVIDER ? getEnv('PAYMENT_WEBHOOK_SECRET') : '',
+  PAYMENT_SESSION_MINUTES: getEnvNumber('PAYMENT_SESSION_MINUTES', 30),
+  METADATA_PROVIDER: getEnv('METADATA_PROVIDER', 'local'),
+  METADATA_LOCAL_FILE: getEnv('METADATA_LOCAL_FILE', './data/book-metadata.json'),
+  METADATA_TIMEOUT_MS: getEnvNumber('METADATA_TIMEOUT_MS', 5000),
+  OPEN_LIBRARY_URL: getEnv('OPEN_LIBRARY_URL', 'https://openlibrary.org'),
   BACKUP_DIRECTORY: getEnv('BACKUP_DIRECTORY', './backups'),
   BACKUP_SCHEDULE_CRON: getEnv('BACKUP_SCHEDULE_CRON', '0 2 * * *'),
   CORS_ORIGIN: getEnv('CORS_ORIGIN', 'http://localhost:3000'),
@@ -44,3 +44,19 @@ export const uploadPDF = multer({
     fileSize: 50 * 1024 * 1024, // 50MB limit
   },
 });
+
+// Catalog files (MARC21, MARCXML, CSV/TSV) are parsed straight from memory and never stored
+export const uploadCatalogFile = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    const ext = path.extname(file.originalname).toLowerCase();
+    if (['.mrc', '.marc', '.xml', '.csv', '.tsv', '.txt'].includes(ext)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only MARC21 (.mrc), MARCXML (.xml), CSV and TSV files are allowed'));
+    }
+  },
+  limits: {
+    fileSize: 20 * 1024 * 1024, // 20MB limit
+  },
+});
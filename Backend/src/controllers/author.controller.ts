@@ -0,0 +1,111 @@
+// FILE: src/controllers/author.controller.ts
+// Author authority record controller
+
+import { Request, Response } from 'express';
+import authorService from '../services/author.service';
+
+export class AuthorController {
+  /**
+   * GET /api/authors
+   * Search authors by name or variant (public)
+   */
+  async searchAuthors(req: Request, res: Response): Promise<void> {
+    try {
+      const { search, page = '1', limit = '20' } = req.query;
+
+      const result = await authorService.searchAuthors(
+        typeof search === 'string' && search.trim() ? search.trim() : undefined,
+        parseInt(page as string),
+        parseInt(limit as string)
+      );
+
+      res.status(200).json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * GET /api/authors/:id
+   * Get an author page with their books and possible duplicate records (public)
+   */
+  async getAuthorById(req: Request, res: Response): Promise<void> {
+    try {
+      const { author, possibleVariants } = await authorService.getAuthorById(parseInt(req.params.id));
+
+      res.status(200).json({
+        success: true,
+        author,
+        possibleVariants,
+      });
+    } catch (error) {
+      res.status(404).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * PUT /api/authors/:id
+   * Rename an author or edit their notes (Librarian only)
+   */
+  async updateAuthor(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const author = await authorService.updateAuthor(parseInt(req.params.id), req.body, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        author,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/authors/:id/merge
+   * Merge other author records into this one (Librarian only)
+   */
+  async mergeAuthors(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const result = await authorService.mergeAuthors(
+        parseInt(req.params.id),
+        req.body.sourceIds.map((id: string | number) => parseInt(String(id))),
+        req.user.userId
+      );
+
+      res.status(200).json({
+        success: true,
+        message: `Merged ${req.body.sourceIds.length} record(s); ${result.booksMoved} book(s) moved`,
+        ...result,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+}
+
+export default new AuthorController();
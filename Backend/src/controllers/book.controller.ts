@@ -4,6 +4,7 @@
 import { Request, Response } from 'express';
 import bookService from '../services/book.service';
 import prisma from '../config/database';
+import circulationPolicyService, { getPatronType } from '../services/circulation-policy.service';
 
 export class BookController {
   /**
@@ -66,6 +67,60 @@ export class BookController {
     }
   }
 
+  /**
+   * GET /api/books/metadata/:isbn
+   * Look up title, author, publisher, year, description and cover for an ISBN (Librarian only)
+   */
+  async lookupMetadata(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const result = await bookService.lookupMetadata(req.params.isbn);
+
+      res.status(200).json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/books/:id/enrich
+   * Fill in a book's missing details from the metadata provider (Librarian only)
+   */
+  async enrichBook(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const bookId = parseInt(req.params.id);
+      const result = await bookService.enrichBook(bookId, req.user.userId, req.body.overwrite === true);
+
+      res.status(200).json({
+        success: true,
+        message: result.fields.length > 0
+          ? `Updated ${result.fields.join(', ')} from ${result.provider}`
+          : 'Nothing to update: the book already has these details',
+        ...result,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
   /**
    * DELETE /api/books/:id
    * Delete book (Librarian only)
@@ -109,9 +164,19 @@ export class BookController {
         return;
       }
 
+      // Members see loan periods under their own policy; everyone else sees the student defaults
+      const member = req.user?.accountType === 'MEMBER'
+        ? await prisma.member.findUnique({ where: { userId: req.user.userId } })
+        : null;
+      const loanTerms = await circulationPolicyService.getCopyLoanTerms(
+        member ? getPatronType(member.studentOrStaffId) : 'STUDENT',
+        book.category
+      );
+
       res.status(200).json({
         success: true,
         book,
+        loanTerms,
       });
     } catch (error) {
       res.status(500).json({
@@ -201,6 +266,27 @@ export class BookController {
     }
   }
 
+  /**
+   * GET /api/book-copies/:id/condition-history
+   * Get a copy's condition history (Librarian/Admin only)
+   */
+  async getCopyConditionHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const copyId = parseInt(req.params.id);
+      const result = await bookService.getCopyConditionHistory(copyId);
+
+      res.status(200).json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      res.status(404).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
   /**
    * DELETE /api/book-copies/:id
    * Delete book copy (Librarian only)
@@ -3,6 +3,8 @@
 
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
+import bookService from '../services/book.service';
+import { contributorSearchWhere } from '../services/author.service';
 
 const prisma = new PrismaClient();
 
@@ -21,11 +23,12 @@ export class BooksController {
 
       const where: any = {};
 
-      // Search by title or author
+      // Search by title or author, including any contributor or variant of their name
       if (search && typeof search === 'string') {
         where.OR = [
           { title: { contains: search, mode: 'insensitive' } },
           { author: { contains: search, mode: 'insensitive' } },
+          contributorSearchWhere(search),
         ];
       }
 
@@ -45,6 +48,12 @@ export class BooksController {
           skip,
           take: limitNum,
           orderBy: { title: 'asc' },
+          include: {
+            contributors: {
+              include: { author: { select: { id: true, name: true } } },
+              orderBy: { position: 'asc' },
+            },
+          },
         }),
         prisma.book.count({ where }),
       ]);
@@ -119,6 +128,10 @@ export class BooksController {
             where: { status: 'available' },
             take: 5,
           },
+          contributors: {
+            include: { author: { select: { id: true, name: true } } },
+            orderBy: { position: 'asc' },
+          },
         },
       });
 
@@ -144,20 +157,13 @@ export class BooksController {
 
   /**
    * GET /api/books/isbn/:isbn
-   * Get book details by ISBN
+   * Get book details by ISBN-10 or ISBN-13, with or without hyphens
    */
   async getBookByIsbn(req: Request, res: Response): Promise<void> {
     try {
       const { isbn } = req.params;
 
-      const book = await prisma.book.findUnique({
-        where: { isbn },
-        include: {
-          bookCopies: {
-            where: { status: 'available' },
-          },
-        },
-      });
+      const book = await bookService.getBookByIsbn(isbn);
 
       if (!book) {
         res.status(404).json({
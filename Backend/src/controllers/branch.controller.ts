@@ -0,0 +1,189 @@
+// FILE: src/controllers/branch.controller.ts
+// Branch and copy transfer controller
+
+import { Request, Response } from 'express';
+import branchService from '../services/branch.service';
+
+export class BranchController {
+  /**
+   * GET /api/branches
+   * Get branches; staff can include closed ones (Authenticated)
+   */
+  async getBranches(req: Request, res: Response): Promise<void> {
+    try {
+      const includeInactive = req.query.includeInactive === 'true' && req.user?.accountType !== 'MEMBER';
+      const branches = await branchService.getBranches(includeInactive);
+
+      res.status(200).json({
+        success: true,
+        branches,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/branches
+   * Create a branch (Admin only)
+   */
+  async createBranch(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const branch = await branchService.createBranch(req.body, req.user.userId);
+
+      res.status(201).json({
+        success: true,
+        branch,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * PUT /api/branches/:id
+   * Update a branch (Admin only)
+   */
+  async updateBranch(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const branch = await branchService.updateBranch(parseInt(req.params.id), req.body, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        branch,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * PUT /api/branches/staff/:userId
+   * Set the branch a librarian or admin works at (Admin only)
+   */
+  async assignStaffBranch(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const user = await branchService.assignStaffBranch(
+        parseInt(req.params.userId),
+        req.body.branchId ? parseInt(req.body.branchId) : null,
+        req.user.userId
+      );
+
+      res.status(200).json({
+        success: true,
+        user,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * GET /api/branches/transfers
+   * Get copy transfers, in transit first (Librarian/Admin only)
+   */
+  async getTransfers(req: Request, res: Response): Promise<void> {
+    try {
+      const { status, branchId } = req.query;
+      const transfers = await branchService.getTransfers({
+        status: status as string | undefined,
+        branchId: branchId ? parseInt(branchId as string) : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        transfers,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/branches/transfers
+   * Move an available copy to another branch (Librarian/Admin only)
+   */
+  async createTransfer(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const transfer = await branchService.createTransfer(
+        parseInt(req.body.bookCopyId),
+        parseInt(req.body.toBranchId),
+        req.user.userId
+      );
+
+      res.status(201).json({
+        success: true,
+        transfer,
+        message: `Copy is in transit to ${transfer.toBranch.name}`,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/branches/transfers/:transferId/receive
+   * Check in a copy arriving from another branch (Librarian/Admin only)
+   */
+  async receiveTransfer(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const transfer = await branchService.receiveTransfer(parseInt(req.params.transferId), req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        transfer,
+        message: 'Transfer received',
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+}
+
+export default new BranchController();
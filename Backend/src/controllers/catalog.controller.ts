@@ -0,0 +1,145 @@
+// FILE: src/controllers/catalog.controller.ts
+// Catalog import/export controller
+
+import { Request, Response } from 'express';
+import catalogService from '../services/catalog.service';
+
+export class CatalogController {
+  /**
+   * POST /api/catalog/import/marc
+   * Import a MARC21 or MARCXML file and report on every record (Librarian only)
+   */
+  async importMarc(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      if (!req.file) {
+        res.status(400).json({ success: false, error: 'No file uploaded' });
+        return;
+      }
+
+      const report = await catalogService.importMarc(
+        req.file.buffer,
+        req.file.originalname,
+        req.user.userId,
+        { homeBranchId: req.body.homeBranchId ? parseInt(req.body.homeBranchId) : undefined }
+      );
+
+      res.status(200).json({
+        success: true,
+        message: `Imported ${report.total} records: ${report.created} created, ${report.updated} updated, ${report.rejected} rejected`,
+        report,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/catalog/import/csv
+   * Validate a CSV/TSV spreadsheet of books, then import it unless dryRun (Librarian only)
+   */
+  async importCsv(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      if (!req.file) {
+        res.status(400).json({ success: false, error: 'No file uploaded' });
+        return;
+      }
+
+      // Multipart fields arrive as strings; anything but an explicit false is a dry run
+      const dryRun = String(req.body.dryRun) !== 'false';
+
+      const result = await catalogService.importCsv(
+        req.file.buffer,
+        req.file.originalname,
+        req.user.userId,
+        {
+          dryRun,
+          homeBranchId: req.body.homeBranchId ? parseInt(req.body.homeBranchId) : undefined,
+        }
+      );
+
+      res.status(200).json({
+        success: true,
+        message: dryRun
+          ? `Checked ${result.total} rows: ${result.valid} ready to import, ${result.failed} with errors`
+          : `Imported ${result.booksCreated} books with ${result.copiesCreated} copies; ${result.failed} rows skipped`,
+        result,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * GET /api/catalog/duplicates
+   * Near-duplicate book records to merge, and books with invalid ISBNs (Librarian/Admin)
+   */
+  async getDuplicates(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const report = await catalogService.findDuplicates();
+
+      res.status(200).json({
+        success: true,
+        ...report,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * GET /api/catalog/export/marcxml?search=&category=&author=&bookType=
+   * Download the books matching a search as MARCXML (Librarian/Admin)
+   */
+  async exportMarcXml(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const { search, category, author, bookType } = req.query;
+
+      const result = await catalogService.exportMarcXml({
+        search: search as string,
+        category: category as string,
+        author: author as string,
+        bookType: bookType as string,
+      }, req.user.userId);
+
+      res.setHeader('Content-Type', 'application/marcxml+xml; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${result.filename}"`);
+      res.status(200).send(result.xml);
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+}
+
+export default new CatalogController();
@@ -0,0 +1,125 @@
+// FILE: src/controllers/circulation-desk.controller.ts
+// Circulation desk controller (scanner-driven check-out/check-in)
+
+import { Request, Response } from 'express';
+import circulationDeskService from '../services/circulation-desk.service';
+
+export class CirculationDeskController {
+  /**
+   * GET /api/loans/desk/member/:code
+   * Look up a member by login ID or student/staff ID (Librarian/Admin only)
+   */
+  async lookupMember(req: Request, res: Response): Promise<void> {
+    try {
+      const summary = await circulationDeskService.lookupMember(req.params.code);
+
+      res.status(200).json({
+        success: true,
+        ...summary,
+      });
+    } catch (error) {
+      res.status(404).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/loans/desk/checkout
+   * Check out a scanned copy to a scanned member (Librarian/Admin only)
+   */
+  async checkOut(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const result = await circulationDeskService.checkOut(
+        req.body.memberCode,
+        req.body.copyCode,
+        req.user.userId,
+        req.body.durationDays ? parseInt(req.body.durationDays) : undefined
+      );
+
+      res.status(201).json({
+        success: true,
+        ...result,
+        message: `Checked out. Due ${result.loan.dueDatetime.toLocaleDateString()}.`,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/loans/desk/checkin
+   * Check in a scanned copy (Librarian/Admin only)
+   */
+  async checkIn(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const result = await circulationDeskService.checkIn(req.body.copyCode, req.user.userId, {
+        condition: req.body.condition,
+        conditionNotes: req.body.conditionNotes,
+        damageFee: req.body.damageFee !== undefined ? parseFloat(req.body.damageFee) : undefined,
+        sendToMaintenance: req.body.sendToMaintenance,
+      });
+
+      res.status(200).json({
+        success: true,
+        ...result,
+        message: result.reservationAlert
+          ? 'Checked in. This item is reserved - route it to the hold shelf.'
+          : result.sentToMaintenance
+            ? 'Checked in. Route this item to maintenance.'
+            : 'Checked in.',
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/loans/desk/batch-checkin
+   * Check in a batch of scanned copies from the book drop (Librarian/Admin only)
+   */
+  async batchCheckIn(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const result = await circulationDeskService.batchCheckIn(
+        req.body.copyCodes,
+        req.user.userId,
+        req.body.droppedAt ? new Date(req.body.droppedAt) : undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        ...result,
+        message: `Processed ${result.summary.total} item(s): ${result.summary.returned + result.summary.found} checked in, ${result.summary.toHoldShelf} for the hold shelf.`,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+}
+
+export default new CirculationDeskController();
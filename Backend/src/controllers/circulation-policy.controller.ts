@@ -0,0 +1,153 @@
+// FILE: src/controllers/circulation-policy.controller.ts
+// Circulation policy controller (Admin CRUD)
+
+import { Request, Response } from 'express';
+import circulationPolicyService, { PatronType } from '../services/circulation-policy.service';
+
+export class CirculationPolicyController {
+  /**
+   * GET /api/circulation-policies
+   * Get all circulation policies (Librarian/Admin)
+   */
+  async getAllPolicies(req: Request, res: Response): Promise<void> {
+    try {
+      const policies = await circulationPolicyService.getAllPolicies();
+
+      res.status(200).json({
+        success: true,
+        policies,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * GET /api/circulation-policies/resolve?patronType=STUDENT&category=Science
+   * Preview the rules that apply to a patron type and category (Librarian/Admin)
+   */
+  async resolvePolicy(req: Request, res: Response): Promise<void> {
+    try {
+      const { patronType, category } = req.query;
+
+      const policy = await circulationPolicyService.resolvePolicy(
+        patronType as PatronType,
+        category as string
+      );
+
+      res.status(200).json({
+        success: true,
+        policy,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * GET /api/circulation-policies/:id
+   * Get a circulation policy (Librarian/Admin)
+   */
+  async getPolicyById(req: Request, res: Response): Promise<void> {
+    try {
+      const policy = await circulationPolicyService.getPolicyById(parseInt(req.params.id));
+
+      res.status(200).json({
+        success: true,
+        policy,
+      });
+    } catch (error) {
+      res.status(404).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/circulation-policies
+   * Create a circulation policy (Admin only)
+   */
+  async createPolicy(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const policy = await circulationPolicyService.createPolicy(req.body, req.user.userId);
+
+      res.status(201).json({
+        success: true,
+        policy,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * PUT /api/circulation-policies/:id
+   * Update a circulation policy (Admin only)
+   */
+  async updatePolicy(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const policy = await circulationPolicyService.updatePolicy(
+        parseInt(req.params.id),
+        req.body,
+        req.user.userId
+      );
+
+      res.status(200).json({
+        success: true,
+        policy,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/circulation-policies/:id
+   * Delete a circulation policy (Admin only)
+   */
+  async deletePolicy(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const result = await circulationPolicyService.deletePolicy(parseInt(req.params.id), req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+}
+
+export default new CirculationPolicyController();
@@ -0,0 +1,162 @@
+// FILE: src/controllers/claims-returned.controller.ts
+// Claims-returned dispute controller
+
+import { Request, Response } from 'express';
+import prisma from '../config/database';
+import claimsReturnedService from '../services/claims-returned.service';
+
+export class ClaimsReturnedController {
+  /**
+   * POST /api/loans/:id/claim-returned
+   * File a claims-returned dispute (Member for their own loan, Librarian/Admin for any)
+   */
+  async fileClaim(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const claim = await claimsReturnedService.fileClaim(
+        parseInt(req.params.id),
+        req.user.userId,
+        req.user.accountType,
+        {
+          claimedReturnedAt: req.body.claimedReturnedAt ? new Date(req.body.claimedReturnedAt) : undefined,
+          notes: req.body.notes,
+        }
+      );
+
+      res.status(201).json({
+        success: true,
+        claim,
+        message: 'Claim filed. Library staff will search for the book; fines are paused in the meantime.',
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * GET /api/loans/claims
+   * Get claims-returned search tasks (Librarian/Admin only)
+   */
+  async getClaims(req: Request, res: Response): Promise<void> {
+    try {
+      const { status } = req.query;
+      const claims = await claimsReturnedService.getClaims(status as string | undefined);
+
+      res.status(200).json({
+        success: true,
+        claims,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * GET /api/loans/claims/my
+   * Get current member's claims and remaining allowance (Member only)
+   */
+  async getMyClaims(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const member = await prisma.member.findUnique({
+        where: { userId: req.user.userId },
+      });
+
+      if (!member) {
+        res.status(404).json({
+          success: false,
+          error: 'Member profile not found',
+        });
+        return;
+      }
+
+      const result = await claimsReturnedService.getMemberClaims(member.id);
+
+      res.status(200).json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/loans/claims/:claimId/search
+   * Record a shelf search for a claimed book (Librarian/Admin only)
+   */
+  async recordSearch(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const claim = await claimsReturnedService.recordSearch(
+        parseInt(req.params.claimId),
+        req.user.userId,
+        req.body.notes
+      );
+
+      res.status(200).json({
+        success: true,
+        claim,
+        message: `Search #${claim.searchCount} recorded.`,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/loans/claims/:claimId/resolve
+   * Resolve a claim as found_on_shelf, returned_late or lost (Librarian/Admin only)
+   */
+  async resolveClaim(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const result = await claimsReturnedService.resolveClaim(parseInt(req.params.claimId), req.user.userId, {
+        resolution: req.body.resolution,
+        returnedAt: req.body.returnedAt ? new Date(req.body.returnedAt) : undefined,
+        notes: req.body.notes,
+      });
+
+      res.status(200).json({
+        success: true,
+        ...result,
+        message: 'Claim resolved.',
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+}
+
+export default new ClaimsReturnedController();
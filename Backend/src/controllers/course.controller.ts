@@ -0,0 +1,186 @@
+// FILE: src/controllers/course.controller.ts
+// Course reserves controller
+
+import { Request, Response } from 'express';
+import courseService from '../services/course.service';
+
+export class CourseController {
+  /**
+   * GET /api/courses
+   * Get courses with reserve lists; staff can include ended terms (Authenticated)
+   */
+  async getCourses(req: Request, res: Response): Promise<void> {
+    try {
+      const includeEnded = req.query.includeEnded === 'true' && req.user?.accountType !== 'MEMBER';
+      const courses = await courseService.getCourses(includeEnded);
+
+      res.status(200).json({
+        success: true,
+        courses,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * GET /api/courses/:id
+   * Get a course and its reserve list (Authenticated)
+   */
+  async getCourseById(req: Request, res: Response): Promise<void> {
+    try {
+      const course = await courseService.getCourseById(parseInt(req.params.id));
+
+      res.status(200).json({
+        success: true,
+        course,
+      });
+    } catch (error) {
+      res.status(404).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/courses
+   * Create a course (Librarian/Admin only)
+   */
+  async createCourse(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const course = await courseService.createCourse(req.body, req.user.userId);
+
+      res.status(201).json({
+        success: true,
+        course,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * PUT /api/courses/:id
+   * Update a course (Librarian/Admin only)
+   */
+  async updateCourse(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const course = await courseService.updateCourse(parseInt(req.params.id), req.body, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        course,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/courses/:id
+   * Delete a course and release its reserves (Librarian/Admin only)
+   */
+  async deleteCourse(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const result = await courseService.deleteCourse(parseInt(req.params.id), req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/courses/:id/reserves
+   * Put a title, and optionally specific copies, on reserve for a course (Librarian/Admin only)
+   */
+  async addReserve(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const reserves = await courseService.addReserve(
+        parseInt(req.params.id),
+        {
+          bookId: parseInt(req.body.bookId),
+          bookCopyIds: req.body.bookCopyIds?.map((id: string | number) => parseInt(String(id))),
+        },
+        req.user.userId
+      );
+
+      res.status(201).json({
+        success: true,
+        reserves,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/courses/:id/reserves/:reserveId
+   * Take an entry off a course's reserve list (Librarian/Admin only)
+   */
+  async removeReserve(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const result = await courseService.removeReserve(
+        parseInt(req.params.id),
+        parseInt(req.params.reserveId),
+        req.user.userId
+      );
+
+      res.status(200).json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+}
+
+export default new CourseController();
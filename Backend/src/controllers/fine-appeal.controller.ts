@@ -0,0 +1,154 @@
+// FILE: src/controllers/fine-appeal.controller.ts
+// Fine appeal controller
+
+import { Request, Response } from 'express';
+import prisma from '../config/database';
+import fineAppealService from '../services/fine-appeal.service';
+
+export class FineAppealController {
+  /**
+   * POST /api/fine-appeals
+   * Appeal a fine, with an optional attachment (Member only)
+   */
+  async submitAppeal(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const appeal = await fineAppealService.submitAppeal(parseInt(req.body.fineId), req.user.userId, {
+        reason: req.body.reason,
+        attachmentFile: req.file?.filename,
+        attachmentName: req.file?.originalname,
+      });
+
+      res.status(201).json({
+        success: true,
+        appeal,
+        message: 'Appeal submitted. The fine is on hold from further action until it has been reviewed.',
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * GET /api/fine-appeals/my
+   * Get current member's appeals (Member only)
+   */
+  async getMyAppeals(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const member = await prisma.member.findUnique({
+        where: { userId: req.user.userId },
+      });
+
+      if (!member) {
+        res.status(404).json({
+          success: false,
+          error: 'Member profile not found',
+        });
+        return;
+      }
+
+      const appeals = await fineAppealService.getMemberAppeals(member.id);
+
+      res.status(200).json({
+        success: true,
+        appeals,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * GET /api/fine-appeals
+   * Get the appeal review queue (Admin only)
+   */
+  async getAppeals(req: Request, res: Response): Promise<void> {
+    try {
+      const appeals = await fineAppealService.getAppeals(req.query.status as string | undefined);
+
+      res.status(200).json({
+        success: true,
+        appeals,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/fine-appeals/:id/review
+   * Approve (full or partial waiver) or deny an appeal (Admin only)
+   */
+  async reviewAppeal(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const appeal = await fineAppealService.reviewAppeal(parseInt(req.params.id), req.user.userId, {
+        decision: req.body.decision,
+        waiveAmount: req.body.waiveAmount !== undefined ? parseFloat(req.body.waiveAmount) : undefined,
+        notes: req.body.notes,
+      });
+
+      res.status(200).json({
+        success: true,
+        appeal,
+        message: `Appeal ${appeal.status}`,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * GET /api/fine-appeals/:id/attachment
+   * Download an appeal's attachment (the appellant, Librarian or Admin)
+   */
+  async downloadAttachment(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const attachment = await fineAppealService.getAttachment(
+        parseInt(req.params.id),
+        req.user.userId,
+        req.user.accountType
+      );
+
+      res.setHeader('Cache-Control', 'private, no-store');
+      res.download(attachment.path, attachment.filename);
+    } catch (error) {
+      res.status(404).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+}
+
+export default new FineAppealController();
@@ -0,0 +1,136 @@
+// FILE: src/controllers/hold-rule.controller.ts
+// Hold escalation rule controller (Admin CRUD)
+
+import { Request, Response } from 'express';
+import holdRuleService from '../services/hold-rule.service';
+import { holdService } from '../services/hold.service';
+
+export class HoldRuleController {
+  /**
+   * GET /api/hold-rules
+   * Get all hold rules (Librarian/Admin)
+   */
+  async getAllRules(req: Request, res: Response): Promise<void> {
+    try {
+      const rules = await holdRuleService.getAllRules();
+
+      res.status(200).json({
+        success: true,
+        rules,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/hold-rules
+   * Create a hold rule (Admin only)
+   */
+  async createRule(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const result = await holdRuleService.createRule(req.body, req.user.userId);
+
+      res.status(201).json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * PUT /api/hold-rules/:id
+   * Update a hold rule (Admin only)
+   */
+  async updateRule(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const result = await holdRuleService.updateRule(
+        parseInt(req.params.id),
+        req.body,
+        req.user.userId
+      );
+
+      res.status(200).json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/hold-rules/:id
+   * Delete a hold rule that has never placed a hold (Admin only)
+   */
+  async deleteRule(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const result = await holdRuleService.deleteRule(parseInt(req.params.id), req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/hold-rules/apply
+   * Apply the rules now instead of waiting for the daily job (Admin only)
+   */
+  async applyRules(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const { placed, lifted } = await holdService.applyHoldRules(undefined, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        message: `Placed ${placed.length} and lifted ${lifted.length} holds`,
+        placed: placed.length,
+        lifted: lifted.length,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+}
+
+export default new HoldRuleController();
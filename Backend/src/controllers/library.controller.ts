@@ -0,0 +1,170 @@
+// FILE: src/controllers/library.controller.ts
+// Library calendar controller (public hours, Admin-managed closures)
+
+import { Request, Response } from 'express';
+import libraryCalendarService from '../services/library-calendar.service';
+
+export class LibraryController {
+  /**
+   * GET /api/library/hours?from=2025-12-01&days=7
+   * Get today's hours and the calendar for the coming days (Public)
+   */
+  async getHours(req: Request, res: Response): Promise<void> {
+    try {
+      // Read YYYY-MM-DD as a local date so days line up with the server's calendar
+      const from = req.query.from ? new Date(`${req.query.from}T00:00:00`) : new Date();
+      const days = req.query.days ? parseInt(req.query.days as string) : 7;
+
+      const [today, calendar, weeklyHours] = await Promise.all([
+        libraryCalendarService.getHoursForDate(),
+        libraryCalendarService.getCalendar(from, days),
+        libraryCalendarService.getWeeklyHours(),
+      ]);
+
+      res.status(200).json({
+        success: true,
+        today,
+        calendar,
+        weeklyHours,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * PUT /api/library/hours/:dayOfWeek
+   * Set the regular opening hours for a weekday (Admin only)
+   */
+  async setWeeklyHours(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const hours = await libraryCalendarService.setWeeklyHours(
+        parseInt(req.params.dayOfWeek),
+        req.body,
+        req.user.userId
+      );
+
+      res.status(200).json({
+        success: true,
+        hours,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * GET /api/library/events?from=2025-12-01&to=2026-01-31
+   * Get closures, holidays and semester breaks (Public)
+   */
+  async getEvents(req: Request, res: Response): Promise<void> {
+    try {
+      const from = req.query.from ? new Date(`${req.query.from}T00:00:00`) : undefined;
+      const to = req.query.to ? new Date(`${req.query.to}T00:00:00`) : undefined;
+
+      const events = await libraryCalendarService.getEvents(from, to);
+
+      res.status(200).json({
+        success: true,
+        events,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/library/events
+   * Create a closure, holiday or semester break (Admin only)
+   */
+  async createEvent(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const event = await libraryCalendarService.createEvent(req.body, req.user.userId);
+
+      res.status(201).json({
+        success: true,
+        event,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * PUT /api/library/events/:id
+   * Update a calendar event (Admin only)
+   */
+  async updateEvent(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const event = await libraryCalendarService.updateEvent(
+        parseInt(req.params.id),
+        req.body,
+        req.user.userId
+      );
+
+      res.status(200).json({
+        success: true,
+        event,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/library/events/:id
+   * Delete a calendar event (Admin only)
+   */
+  async deleteEvent(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const result = await libraryCalendarService.deleteEvent(parseInt(req.params.id), req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+}
+
+export default new LibraryController();
@@ -3,6 +3,7 @@
 
 import { Request, Response } from 'express';
 import loanService from '../services/loan.service';
+import reservationService from '../services/reservation.service';
 import prisma from '../config/database';
 import { holdService } from '../services/hold.service';
 
@@ -41,20 +42,37 @@ export class LoanController {
         return;
       }
 
-      const { bookId } = req.body;
+      const { bookId, loanType } = req.body;
 
-      // Find an available copy
-      const availableCopy = await prisma.bookCopy.findFirst({
-        where: {
-          bookId: parseInt(bookId),
-          status: 'available',
-        },
-      });
+      // A copy waiting on the pickup shelf for this member takes priority
+      const readyReservation = await reservationService.getReadyReservation(member.id, parseInt(bookId));
+
+      // Otherwise find an available copy that can leave the building, standard loans before short loans
+      const availableCopies = readyReservation
+        ? []
+        : await prisma.bookCopy.findMany({
+            where: {
+              bookId: parseInt(bookId),
+              status: 'available',
+              loanType: loanType ? loanType : { not: 'reference' },
+            },
+          });
+      const availableCopy =
+        availableCopies.find((c) => c.loanType === 'standard') ||
+        availableCopies.find((c) => c.loanType === 'short_loan');
+
+      const bookCopyId = readyReservation?.bookCopyId || availableCopy?.id;
+
+      if (!bookCopyId) {
+        const referenceCopies = await prisma.bookCopy.count({
+          where: { bookId: parseInt(bookId), status: 'available', loanType: 'reference' },
+        });
 
-      if (!availableCopy) {
         res.status(400).json({
           success: false,
-          error: 'No available copies of this book',
+          error: referenceCopies > 0 && !loanType
+            ? 'Only reference copies are available. They can be used in the library but not borrowed.'
+            : 'No available copies of this book',
         });
         return;
       }
@@ -62,7 +80,7 @@ export class LoanController {
       const loan = await loanService.createLoan(
         {
           memberId: member.id,
-          bookCopyId: availableCopy.id,
+          bookCopyId,
         },
         req.user.userId
       );
@@ -139,7 +157,14 @@ export class LoanController {
         }
       }
 
-      const result = await loanService.returnLoan(loanId, req.user.userId);
+      // Only staff assess condition and charge for damage
+      const isStaff = req.user.accountType !== 'MEMBER';
+      const result = await loanService.returnLoan(loanId, req.user.userId, isStaff ? {
+        condition: req.body.condition,
+        conditionNotes: req.body.conditionNotes,
+        damageFee: req.body.damageFee !== undefined ? parseFloat(req.body.damageFee) : undefined,
+        sendToMaintenance: req.body.sendToMaintenance,
+      } : {});
 
       res.status(200).json({
         success: true,
@@ -183,6 +208,99 @@ export class LoanController {
     }
   }
 
+  /**
+   * POST /api/loans/:id/lost
+   * Declare a loan lost (Member can declare their own, Librarian/Admin any)
+   */
+  async declareLost(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      // Only staff may override the replacement fee
+      const replacementFee = req.user.accountType !== 'MEMBER' && req.body.replacementFee !== undefined
+        ? parseFloat(req.body.replacementFee)
+        : undefined;
+
+      const result = await loanService.declareLost(
+        parseInt(req.params.id),
+        req.user.userId,
+        req.user.accountType,
+        { replacementFee, notes: req.body.notes }
+      );
+
+      res.status(200).json({
+        success: true,
+        ...result,
+        message: 'Loan declared lost. Replacement and processing fees have been charged.',
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/loans/:id/found
+   * Mark a lost item as found and credit the replacement fee (Librarian/Admin only)
+   */
+  async markFound(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const result = await loanService.markFound(parseInt(req.params.id), req.user.userId, {
+        refundAmount: req.body.refundAmount !== undefined ? parseFloat(req.body.refundAmount) : undefined,
+        notes: req.body.notes,
+      });
+
+      res.status(200).json({
+        success: true,
+        ...result,
+        message: result.reservation
+          ? 'Item found. It is reserved - route it to the hold shelf.'
+          : 'Item found and returned to circulation.',
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/loans/:id/recall
+   * Recall a borrowed book early (Librarian/Admin only)
+   */
+  async recallLoan(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const loan = await loanService.recallLoan(parseInt(req.params.id), req.user.userId, req.body.reason);
+
+      res.status(200).json({
+        success: true,
+        loan,
+        message: `Loan recalled. Now due ${loan.dueDatetime.toLocaleDateString()}.`,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
   /**
    * GET /api/loans/my-loans
    * Get current member's loans (Member only)
@@ -46,6 +46,36 @@ export class MemberController {
     }
   }
 
+  /**
+   * PUT /api/members/:id/claims-limit
+   * Set a member's claims-returned limit (Admin only)
+   */
+  async updateClaimsReturnedLimit(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const member = await memberService.updateClaimsReturnedLimit(
+        parseInt(req.params.id),
+        parseInt(req.body.limit),
+        req.user.userId
+      );
+
+      res.status(200).json({
+        success: true,
+        member,
+        message: `Claims-returned limit set to ${member.claimsReturnedLimit}.`,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
   /**
    * GET /api/members/profile
    * Get current member's profile
@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { notificationService } from '../services/notification.service';
 import { holdService } from '../services/hold.service';
 import { fineService } from '../services/fine.service';
+import { paymentService } from '../services/payment.service';
 import prisma from '../config/database';
 
 export class NotificationController {
@@ -251,7 +252,7 @@ export class HoldController {
   async placeHold(req: Request, res: Response): Promise<void> {
     try {
       const adminId = req.user!.userId;
-      const { memberId, reason, loanId, notes } = req.body;
+      const { memberId, reason, loanId, notes, durationDays, expiresAt } = req.body;
 
       if (!memberId || !reason) {
         res.status(400).json({
@@ -261,12 +262,37 @@ export class HoldController {
         return;
       }
 
+      // A timed hold takes either a length in days (e.g. a 14-day suspension) or an end date
+      let holdExpiresAt: Date | undefined;
+      if (durationDays !== undefined && durationDays !== null && durationDays !== '') {
+        const days = parseInt(durationDays);
+        if (!days || days < 1 || days > 365) {
+          res.status(400).json({
+            success: false,
+            error: 'durationDays must be between 1 and 365',
+          });
+          return;
+        }
+        holdExpiresAt = new Date();
+        holdExpiresAt.setDate(holdExpiresAt.getDate() + days);
+      } else if (expiresAt) {
+        holdExpiresAt = new Date(expiresAt);
+        if (isNaN(holdExpiresAt.getTime())) {
+          res.status(400).json({
+            success: false,
+            error: 'expiresAt must be a valid date',
+          });
+          return;
+        }
+      }
+
       const hold = await holdService.placeHold(
         memberId,
         reason,
         adminId,
         loanId,
-        notes
+        notes,
+        { expiresAt: holdExpiresAt }
       );
 
       res.status(201).json({
@@ -408,7 +434,7 @@ export class FineController {
   }
 
   /**
-   * Member: Pay fine
+   * Member: Start an online checkout for a fine; Staff: record a desk payment
    * POST /api/fines/:id/pay
    */
   async payFine(req: Request, res: Response): Promise<void> {
@@ -425,11 +451,37 @@ export class FineController {
         return;
       }
 
-      const fine = await fineService.payFine(fineId, parseFloat(amount), userId);
+      // Members pay through the online provider; the fine is settled when its webhook confirms payment
+      if (req.user!.accountType === 'MEMBER') {
+        const member = await prisma.member.findUnique({
+          where: { userId },
+        });
+
+        if (!member) {
+          res.status(404).json({
+            success: false,
+            error: 'Member not found',
+          });
+          return;
+        }
+
+        const session = await paymentService.createCheckoutSession(member.id, userId, [fineId], parseFloat(amount));
+
+        res.status(200).json({
+          success: true,
+          session,
+          checkoutUrl: session.checkoutUrl,
+          message: 'Complete your payment at the checkout page',
+        });
+        return;
+      }
+
+      const { fine, payment } = await fineService.payFine(fineId, parseFloat(amount), userId, req.body.method || 'cash', req.body.reference);
 
       res.status(200).json({
         success: true,
         fine,
+        payment,
         message: 'Payment processed successfully',
       });
     } catch (error: any) {
@@ -0,0 +1,306 @@
+// FILE: src/controllers/payment.controller.ts
+// Payment ledger controller
+
+import { Request, Response } from 'express';
+import prisma from '../config/database';
+import { paymentService } from '../services/payment.service';
+
+export class PaymentController {
+  /**
+   * GET /api/payments/my
+   * Get current member's payment history (Member only)
+   */
+  async getMyPayments(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const member = await prisma.member.findUnique({
+        where: { userId: req.user.userId },
+      });
+
+      if (!member) {
+        res.status(404).json({
+          success: false,
+          error: 'Member profile not found',
+        });
+        return;
+      }
+
+      const payments = await paymentService.getMemberPayments(member.id);
+
+      res.status(200).json({
+        success: true,
+        payments,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * GET /api/payments
+   * Get payments, optionally for one member (Librarian/Admin only)
+   */
+  async getPayments(req: Request, res: Response): Promise<void> {
+    try {
+      const { memberId, method, status } = req.query;
+      const payments = await paymentService.getPayments({
+        memberId: memberId ? parseInt(memberId as string) : undefined,
+        method: method as string | undefined,
+        status: status as string | undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        payments,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/payments
+   * Record a payment taken at the desk against one or more fines (Librarian/Admin only)
+   */
+  async recordPayment(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const payment = await paymentService.recordPayment({
+        memberId: parseInt(req.body.memberId),
+        amount: parseFloat(req.body.amount),
+        method: req.body.method || 'cash',
+        reference: req.body.reference,
+        fineIds: req.body.fineIds,
+        notes: req.body.notes,
+      }, req.user.userId);
+
+      res.status(201).json({
+        success: true,
+        payment,
+        message: 'Payment processed successfully',
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/payments/checkout
+   * Start an online checkout for some or all of the member's fines (Member only)
+   */
+  async createCheckout(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const member = await prisma.member.findUnique({
+        where: { userId: req.user.userId },
+      });
+
+      if (!member) {
+        res.status(404).json({
+          success: false,
+          error: 'Member profile not found',
+        });
+        return;
+      }
+
+      const session = await paymentService.createCheckoutSession(
+        member.id,
+        req.user.userId,
+        req.body.fineIds,
+        req.body.amount !== undefined ? parseFloat(req.body.amount) : undefined
+      );
+
+      res.status(201).json({
+        success: true,
+        session,
+        checkoutUrl: session.checkoutUrl,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * GET /api/payments/checkout
+   * Get checkout sessions, e.g. ?status=unapplied for payments that need refunding (Librarian/Admin only)
+   */
+  async getCheckoutSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const sessions = await paymentService.getCheckoutSessions(req.query.status as string | undefined);
+
+      res.status(200).json({
+        success: true,
+        sessions,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * GET /api/payments/checkout/:sessionId
+   * Get the status of a checkout (Member for their own, Librarian/Admin for any)
+   */
+  async getCheckoutSession(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const session = await paymentService.getCheckoutSession(
+        req.params.sessionId,
+        req.user.userId,
+        req.user.accountType
+      );
+
+      res.status(200).json({
+        success: true,
+        session,
+      });
+    } catch (error) {
+      res.status(404).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/payments/checkout/:sessionId/mock-complete
+   * Pay or decline on the mock provider's checkout page (Member only)
+   */
+  async completeMockCheckout(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const session = await paymentService.completeMockCheckout(
+        req.params.sessionId,
+        req.body.outcome,
+        req.user.userId
+      );
+
+      res.status(200).json({
+        success: true,
+        session,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/payments/webhook/:provider
+   * Payment confirmation from the provider, trusted only if its signature checks out (Public)
+   */
+  async handleWebhook(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.rawBody) {
+        res.status(400).json({ success: false, error: 'Webhook body must be JSON' });
+        return;
+      }
+
+      const session = await paymentService.handleWebhook(req.params.provider, req.rawBody, req.headers);
+
+      res.status(200).json({
+        success: true,
+        received: true,
+        status: session.status,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * POST /api/payments/:id/reverse
+   * Reverse a payment for a refund (Librarian/Admin only)
+   */
+  async reversePayment(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const payment = await paymentService.reversePayment(parseInt(req.params.id), req.user.userId, req.body.reason);
+
+      res.status(200).json({
+        success: true,
+        payment,
+        message: 'Payment reversed',
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * GET /api/payments/:id/receipt
+   * Download a payment receipt (Member for their own payments, Librarian/Admin for any)
+   */
+  async downloadReceipt(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const receipt = await paymentService.getReceipt(
+        parseInt(req.params.id),
+        req.user.userId,
+        req.user.accountType
+      );
+
+      res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${receipt.filename}"`);
+      res.status(200).send(receipt.text);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+}
+
+export default new PaymentController();
@@ -7,11 +7,12 @@ import reportService from '../services/report.service';
 export class ReportController {
   /**
    * GET /api/reports/analytics
-   * Get comprehensive analytics data (Admin only)
+   * Get comprehensive analytics data, optionally for one branch (Admin only)
    */
   async getAnalytics(req: Request, res: Response): Promise<void> {
     try {
-      const analytics = await reportService.getAnalytics();
+      const { branchId } = req.query;
+      const analytics = await reportService.getAnalytics(branchId ? parseInt(branchId as string) : undefined);
 
       res.status(200).json({
         success: true,
@@ -0,0 +1,193 @@
+// FILE: src/controllers/reservation.controller.ts
+// Reservation queue controller
+
+import { Request, Response } from 'express';
+import reservationService from '../services/reservation.service';
+import prisma from '../config/database';
+
+export class ReservationController {
+  /**
+   * POST /api/reservations
+   * Place a reservation on a book (Member only)
+   */
+  async createReservation(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const member = await prisma.member.findUnique({
+        where: { userId: req.user.userId },
+      });
+
+      if (!member) {
+        res.status(404).json({
+          success: false,
+          error: 'Member profile not found',
+        });
+        return;
+      }
+
+      const reservation = await reservationService.createReservation(
+        member.id,
+        parseInt(req.body.bookId),
+        req.user.userId,
+        req.body.pickupBranchId ? parseInt(req.body.pickupBranchId) : undefined
+      );
+
+      res.status(201).json({
+        success: true,
+        reservation,
+        message: `Reservation placed successfully. You are #${reservation.queuePosition} in the queue.`,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/reservations/:id
+   * Cancel a reservation (Member can cancel their own, Librarian/Admin can cancel any)
+   */
+  async cancelReservation(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const reservationId = parseInt(req.params.id);
+      const reservation = await reservationService.cancelReservation(
+        reservationId,
+        req.user.userId,
+        req.user.accountType,
+        req.body?.reason
+      );
+
+      res.status(200).json({
+        success: true,
+        reservation,
+        message: 'Reservation cancelled successfully.',
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * GET /api/reservations/my-reservations
+   * Get current member's reservations with queue positions (Member only)
+   */
+  async getMyReservations(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const member = await prisma.member.findUnique({
+        where: { userId: req.user.userId },
+      });
+
+      if (!member) {
+        res.status(404).json({
+          success: false,
+          error: 'Member profile not found',
+        });
+        return;
+      }
+
+      const activeOnly = req.query.activeOnly !== 'false';
+      const reservations = await reservationService.getMemberReservations(member.id, activeOnly);
+
+      res.status(200).json({
+        success: true,
+        reservations,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * GET /api/reservations/:id/position
+   * Get queue position for a reservation (Member can view their own, Librarian/Admin any)
+   */
+  async getQueuePosition(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const reservationId = parseInt(req.params.id);
+      const reservation = await prisma.reservation.findUnique({
+        where: { id: reservationId },
+        include: { member: true },
+      });
+
+      if (!reservation) {
+        res.status(404).json({
+          success: false,
+          error: 'Reservation not found',
+        });
+        return;
+      }
+
+      if (req.user.accountType === 'MEMBER' && reservation.member.userId !== req.user.userId) {
+        res.status(403).json({
+          success: false,
+          error: 'You can only view your own reservations',
+        });
+        return;
+      }
+
+      const queuePosition = await reservationService.getQueuePosition(reservationId);
+
+      res.status(200).json({
+        success: true,
+        reservationId,
+        status: reservation.status,
+        queuePosition,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * GET /api/reservations/book/:bookId
+   * Get the reservation queue for a book (Librarian/Admin only)
+   */
+  async getBookQueue(req: Request, res: Response): Promise<void> {
+    try {
+      const bookId = parseInt(req.params.bookId);
+      const result = await reservationService.getBookQueue(bookId);
+
+      res.status(200).json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      res.status(404).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+}
+
+export default new ReservationController();
@@ -32,7 +32,7 @@ export class StatsController {
       // Get completed loans count
       const completedLoans = await prisma.loan.count({
         where: {
-          status: 'returned',
+          status: { in: ['returned', 'returned_late'] },
         },
       });
 
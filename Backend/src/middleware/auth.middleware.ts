@@ -9,6 +9,7 @@ declare global {
   namespace Express {
     interface Request {
       user?: JWTPayload;
+      rawBody?: Buffer; // Unparsed JSON body, kept for webhook signature checks
     }
   }
 }
@@ -9,6 +9,11 @@ import fs from 'fs';
 const uploadsDir = path.join(__dirname, '../../uploads');
 const profilesDir = path.join(uploadsDir, 'profiles');
 
+// Appeal evidence is private: kept outside the statically served uploads folder and only
+// handed out by GET /api/fine-appeals/:id/attachment
+export const appealsDir = path.join(__dirname, '../../storage/appeals');
+const legacyAppealsDir = path.join(uploadsDir, 'appeals');
+
 if (!fs.existsSync(uploadsDir)) {
   fs.mkdirSync(uploadsDir, { recursive: true });
 }
@@ -17,6 +22,18 @@ if (!fs.existsSync(profilesDir)) {
   fs.mkdirSync(profilesDir, { recursive: true });
 }
 
+if (!fs.existsSync(appealsDir)) {
+  fs.mkdirSync(appealsDir, { recursive: true });
+}
+
+// Move evidence saved before attachments were made private out of the public folder
+if (fs.existsSync(legacyAppealsDir)) {
+  for (const file of fs.readdirSync(legacyAppealsDir)) {
+    fs.renameSync(path.join(legacyAppealsDir, file), path.join(appealsDir, file));
+  }
+  fs.rmdirSync(legacyAppealsDir);
+}
+
 // Storage configuration for profile pictures
 const profileStorage = multer.diskStorage({
   destination: (req, file, cb) => {
@@ -49,6 +66,39 @@ export const uploadProfilePicture = multer({
   },
 });
 
+// Storage configuration for fine appeal evidence
+const appealStorage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    cb(null, appealsDir);
+  },
+  filename: (req, file, cb) => {
+    const uniqueSuffix = `${Date.now()}-${Math.round(Math.random() * 1e9)}`;
+    const ext = path.extname(file.originalname);
+    cb(null, `appeal-${uniqueSuffix}${ext}`);
+  },
+});
+
+// File filter for appeal attachments: photos, scans and PDFs
+const appealFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  const allowedMimes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'application/pdf'];
+
+  if (allowedMimes.includes(file.mimetype)) {
+    cb(null, true);
+  } else {
+    cb(new Error('Invalid file type. Only JPEG, PNG, WebP images and PDFs are allowed.'));
+  }
+};
+
+// Fine appeal attachment upload middleware
+export const uploadAppealAttachment = multer({
+  storage: appealStorage,
+  fileFilter: appealFilter,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB max file size
+  },
+});
+
 export default {
   uploadProfilePicture,
+  uploadAppealAttachment,
 };
@@ -0,0 +1,71 @@
+// FILE: src/routes/author.routes.ts
+// Author authority record routes
+
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import authorController from '../controllers/author.controller';
+import { authenticate, requireRole } from '../middleware/auth.middleware';
+import { validateRequest } from '../middleware/validator.middleware';
+
+const router = Router();
+
+/**
+ * GET /api/authors
+ * Search authors by name or variant (public)
+ */
+router.get(
+  '/',
+  [
+    query('search').optional().isLength({ max: 255 }),
+    query('page').optional().isInt({ min: 1 }),
+    query('limit').optional().isInt({ min: 1, max: 100 }),
+    validateRequest,
+  ],
+  authorController.searchAuthors.bind(authorController)
+);
+
+/**
+ * GET /api/authors/:id
+ * Get an author page with their books and possible duplicate records (public)
+ */
+router.get(
+  '/:id',
+  [param('id').isInt(), validateRequest],
+  authorController.getAuthorById.bind(authorController)
+);
+
+/**
+ * PUT /api/authors/:id
+ * Rename an author or edit their notes (Librarian only)
+ */
+router.put(
+  '/:id',
+  authenticate,
+  requireRole('LIBRARIAN'),
+  [
+    param('id').isInt(),
+    body('name').optional().isLength({ min: 1, max: 255 }).trim(),
+    body('notes').optional({ nullable: true }).isLength({ max: 2000 }).trim(),
+    validateRequest,
+  ],
+  authorController.updateAuthor.bind(authorController)
+);
+
+/**
+ * POST /api/authors/:id/merge
+ * Merge other records for the same person into this one (Librarian only)
+ */
+router.post(
+  '/:id/merge',
+  authenticate,
+  requireRole('LIBRARIAN'),
+  [
+    param('id').isInt(),
+    body('sourceIds').isArray({ min: 1 }),
+    body('sourceIds.*').isInt(),
+    validateRequest,
+  ],
+  authorController.mergeAuthors.bind(authorController)
+);
+
+export default router;
@@ -4,9 +4,11 @@
 import { Router } from 'express';
 import { body, param } from 'express-validator';
 import bookController from '../controllers/book.controller';
-import { authenticate, requireRole, optionalAuth } from '../middleware/auth.middleware';
+import { authenticate, requireRole, optionalAuth, isLibrarianOrAdmin } from '../middleware/auth.middleware';
 import { validateRequest } from '../middleware/validator.middleware';
 import { uploadPDF } from '../config/upload';
+import { COPY_LOAN_TYPES } from '../services/book.service';
+import { AUTHOR_ROLES } from '../services/author.service';
 
 const router = Router();
 
@@ -62,11 +64,41 @@ router.post(
     body('bookType').optional().isIn(['physical', 'online']),
     body('totalCopies').optional().isInt({ min: 0 }),
     body('availableCopies').optional().isInt({ min: 0 }),
+    body('enrichedFields').optional().isArray(),
+    body('metadataSource').optional().isLength({ max: 50 }).trim(),
+    body('contributors').optional().isArray({ min: 1 }),
+    body('contributors.*.name').optional().isLength({ min: 1, max: 255 }).trim(),
+    body('contributors.*.authorId').optional().isInt(),
+    body('contributors.*.role').optional().isIn(AUTHOR_ROLES),
     validateRequest,
   ],
   bookController.createBook.bind(bookController)
 );
 
+/**
+ * GET /api/books/metadata/:isbn
+ * Look up bibliographic metadata to prefill a new book (Librarian only)
+ */
+router.get(
+  '/books/metadata/:isbn',
+  authenticate,
+  requireRole('LIBRARIAN'),
+  bookController.lookupMetadata.bind(bookController)
+);
+
+/**
+ * POST /api/books/:id/enrich
+ * Enrich a book from the metadata provider (Librarian only)
+ * Hand-entered values are kept unless overwrite is true
+ */
+router.post(
+  '/books/:id/enrich',
+  authenticate,
+  requireRole('LIBRARIAN'),
+  [param('id').isInt(), body('overwrite').optional().isBoolean(), validateRequest],
+  bookController.enrichBook.bind(bookController)
+);
+
 /**
  * PUT /api/books/:id
  * Update book (Librarian only)
@@ -88,6 +120,10 @@ router.put(
     body('bookType').optional().isIn(['physical', 'online']),
     body('totalCopies').optional().isInt({ min: 0 }),
     body('availableCopies').optional().isInt({ min: 0 }),
+    body('contributors').optional().isArray({ min: 1 }),
+    body('contributors.*.name').optional().isLength({ min: 1, max: 255 }).trim(),
+    body('contributors.*.authorId').optional().isInt(),
+    body('contributors.*.role').optional().isIn(AUTHOR_ROLES),
     validateRequest,
   ],
   bookController.updateBook.bind(bookController)
@@ -117,6 +153,8 @@ router.post(
   requireRole('LIBRARIAN'),
   [
     body('bookId').isInt(),
+    body('loanType').optional().isIn(COPY_LOAN_TYPES),
+    body('homeBranchId').optional().isInt().toInt(),
     body('condition').optional().isIn(['new', 'good', 'fair', 'damaged', 'lost']),
     body('location').optional().isLength({ max: 100 }).trim(),
     validateRequest,
@@ -136,12 +174,26 @@ router.put(
     param('id').isInt(),
     body('condition').optional().isIn(['new', 'good', 'fair', 'damaged', 'lost']),
     body('status').optional().isIn(['available', 'on_loan', 'reserved', 'lost', 'maintenance']),
+    body('loanType').optional().isIn(COPY_LOAN_TYPES),
+    body('homeBranchId').optional().isInt().toInt(),
     body('location').optional().isLength({ max: 100 }).trim(),
     validateRequest,
   ],
   bookController.updateBookCopy.bind(bookController)
 );
 
+/**
+ * GET /api/book-copies/:id/condition-history
+ * Get a copy's condition history (Librarian/Admin only)
+ */
+router.get(
+  '/book-copies/:id/condition-history',
+  authenticate,
+  isLibrarianOrAdmin,
+  [param('id').isInt(), validateRequest],
+  bookController.getCopyConditionHistory.bind(bookController)
+);
+
 /**
  * DELETE /api/book-copies/:id
  * Delete book copy (Librarian only)
@@ -0,0 +1,121 @@
+// FILE: src/routes/branch.routes.ts
+// Branch and copy transfer routes
+
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import branchController from '../controllers/branch.controller';
+import { authenticate, isAdmin, isLibrarianOrAdmin } from '../middleware/auth.middleware';
+import { validateRequest } from '../middleware/validator.middleware';
+import { TRANSFER_STATUSES } from '../services/branch.service';
+
+const router = Router();
+
+/**
+ * GET /api/branches
+ * Get branches (Authenticated)
+ */
+router.get(
+  '/',
+  authenticate,
+  branchController.getBranches.bind(branchController)
+);
+
+/**
+ * GET /api/branches/transfers
+ * Get copy transfers, optionally for one branch (Librarian/Admin only)
+ */
+router.get(
+  '/transfers',
+  authenticate,
+  isLibrarianOrAdmin,
+  [
+    query('status').optional().isIn(TRANSFER_STATUSES),
+    query('branchId').optional().isInt(),
+    validateRequest,
+  ],
+  branchController.getTransfers.bind(branchController)
+);
+
+/**
+ * POST /api/branches/transfers
+ * Move an available copy to another branch (Librarian/Admin only)
+ */
+router.post(
+  '/transfers',
+  authenticate,
+  isLibrarianOrAdmin,
+  [
+    body('bookCopyId').isInt(),
+    body('toBranchId').isInt(),
+    validateRequest,
+  ],
+  branchController.createTransfer.bind(branchController)
+);
+
+/**
+ * POST /api/branches/transfers/:transferId/receive
+ * Check in a copy arriving from another branch (Librarian/Admin only)
+ */
+router.post(
+  '/transfers/:transferId/receive',
+  authenticate,
+  isLibrarianOrAdmin,
+  [param('transferId').isInt(), validateRequest],
+  branchController.receiveTransfer.bind(branchController)
+);
+
+/**
+ * PUT /api/branches/staff/:userId
+ * Set the branch a librarian or admin works at (Admin only)
+ * Body: { branchId } - null to unassign
+ */
+router.put(
+  '/staff/:userId',
+  authenticate,
+  isAdmin,
+  [
+    param('userId').isInt(),
+    body('branchId').optional({ values: 'null' }).isInt(),
+    validateRequest,
+  ],
+  branchController.assignStaffBranch.bind(branchController)
+);
+
+/**
+ * POST /api/branches
+ * Create a branch (Admin only)
+ */
+router.post(
+  '/',
+  authenticate,
+  isAdmin,
+  [
+    body('code').isLength({ min: 1, max: 20 }).trim(),
+    body('name').isLength({ min: 1, max: 200 }).trim(),
+    body('address').optional({ values: 'null' }).isLength({ max: 2000 }).trim(),
+    body('isActive').optional().isBoolean(),
+    validateRequest,
+  ],
+  branchController.createBranch.bind(branchController)
+);
+
+/**
+ * PUT /api/branches/:id
+ * Update a branch (Admin only)
+ */
+router.put(
+  '/:id',
+  authenticate,
+  isAdmin,
+  [
+    param('id').isInt(),
+    body('code').optional().isLength({ min: 1, max: 20 }).trim(),
+    body('name').optional().isLength({ min: 1, max: 200 }).trim(),
+    body('address').optional({ values: 'null' }).isLength({ max: 2000 }).trim(),
+    body('isActive').optional().isBoolean(),
+    validateRequest,
+  ],
+  branchController.updateBranch.bind(branchController)
+);
+
+export default router;
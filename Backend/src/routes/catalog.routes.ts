@@ -0,0 +1,68 @@
+// FILE: src/routes/catalog.routes.ts
+// Catalog import/export routes
+
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import catalogController from '../controllers/catalog.controller';
+import { authenticate, requireRole, isLibrarianOrAdmin } from '../middleware/auth.middleware';
+import { validateRequest } from '../middleware/validator.middleware';
+import { uploadCatalogFile } from '../config/upload';
+
+const router = Router();
+
+/**
+ * POST /api/catalog/import/marc
+ * Import a binary MARC21 or MARCXML file (Librarian only)
+ * homeBranchId is used for items whose record names no known branch
+ */
+router.post(
+  '/import/marc',
+  authenticate,
+  requireRole('LIBRARIAN'),
+  uploadCatalogFile.single('file'),
+  [body('homeBranchId').optional().isInt(), validateRequest],
+  catalogController.importMarc.bind(catalogController)
+);
+
+/**
+ * POST /api/catalog/import/csv
+ * Import books and copies from a CSV or TSV spreadsheet (Librarian only)
+ * dryRun defaults to true: rows are validated and reported without being saved
+ */
+router.post(
+  '/import/csv',
+  authenticate,
+  requireRole('LIBRARIAN'),
+  uploadCatalogFile.single('file'),
+  [
+    body('dryRun').optional().isBoolean(),
+    body('homeBranchId').optional().isInt(),
+    validateRequest,
+  ],
+  catalogController.importCsv.bind(catalogController)
+);
+
+/**
+ * GET /api/catalog/duplicates
+ * Report book records that look like duplicates, for merging (Librarian/Admin)
+ */
+router.get(
+  '/duplicates',
+  authenticate,
+  isLibrarianOrAdmin,
+  catalogController.getDuplicates.bind(catalogController)
+);
+
+/**
+ * GET /api/catalog/export/marcxml
+ * Export the books matching a catalog search as MARCXML (Librarian/Admin)
+ */
+router.get(
+  '/export/marcxml',
+  authenticate,
+  isLibrarianOrAdmin,
+  [query('bookType').optional().isIn(['physical', 'online']), validateRequest],
+  catalogController.exportMarcXml.bind(catalogController)
+);
+
+export default router;
@@ -0,0 +1,112 @@
+// FILE: src/routes/circulation-policy.routes.ts
+// Circulation policy routes
+
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import circulationPolicyController from '../controllers/circulation-policy.controller';
+import { authenticate, isAdmin, isLibrarianOrAdmin } from '../middleware/auth.middleware';
+import { validateRequest } from '../middleware/validator.middleware';
+import { PATRON_TYPES } from '../services/circulation-policy.service';
+
+const router = Router();
+
+/**
+ * GET /api/circulation-policies
+ * Get all circulation policies (Librarian/Admin)
+ */
+router.get(
+  '/',
+  authenticate,
+  isLibrarianOrAdmin,
+  circulationPolicyController.getAllPolicies.bind(circulationPolicyController)
+);
+
+/**
+ * GET /api/circulation-policies/resolve
+ * Preview the rules that apply to a patron type and category (Librarian/Admin)
+ */
+router.get(
+  '/resolve',
+  authenticate,
+  isLibrarianOrAdmin,
+  [
+    query('patronType').isIn(PATRON_TYPES),
+    query('category').isLength({ min: 1, max: 100 }).trim(),
+    validateRequest,
+  ],
+  circulationPolicyController.resolvePolicy.bind(circulationPolicyController)
+);
+
+/**
+ * GET /api/circulation-policies/:id
+ * Get a circulation policy (Librarian/Admin)
+ */
+router.get(
+  '/:id',
+  authenticate,
+  isLibrarianOrAdmin,
+  [param('id').isInt(), validateRequest],
+  circulationPolicyController.getPolicyById.bind(circulationPolicyController)
+);
+
+/**
+ * POST /api/circulation-policies
+ * Create a circulation policy (Admin only)
+ * Leave patronType or category empty for a rule that applies to all of them
+ */
+router.post(
+  '/',
+  authenticate,
+  isAdmin,
+  [
+    body('patronType').optional({ values: 'null' }).isIn(PATRON_TYPES),
+    body('category').optional({ values: 'null' }).isLength({ max: 100 }).trim(),
+    body('loanPeriodDays').isInt({ min: 1, max: 365 }),
+    body('renewalPeriodDays').isInt({ min: 1, max: 365 }),
+    body('maxRenewals').isInt({ min: 0 }),
+    body('finePerDay').isFloat({ min: 0 }),
+    body('maxFine').optional({ values: 'null' }).isFloat({ min: 0 }),
+    body('maxLoans').isInt({ min: 0 }),
+    body('notes').optional({ values: 'null' }).isLength({ max: 5000 }).trim(),
+    validateRequest,
+  ],
+  circulationPolicyController.createPolicy.bind(circulationPolicyController)
+);
+
+/**
+ * PUT /api/circulation-policies/:id
+ * Update a circulation policy (Admin only)
+ */
+router.put(
+  '/:id',
+  authenticate,
+  isAdmin,
+  [
+    param('id').isInt(),
+    body('patronType').optional({ values: 'null' }).isIn(PATRON_TYPES),
+    body('category').optional({ values: 'null' }).isLength({ max: 100 }).trim(),
+    body('loanPeriodDays').optional().isInt({ min: 1, max: 365 }),
+    body('renewalPeriodDays').optional().isInt({ min: 1, max: 365 }),
+    body('maxRenewals').optional().isInt({ min: 0 }),
+    body('finePerDay').optional().isFloat({ min: 0 }),
+    body('maxFine').optional({ values: 'null' }).isFloat({ min: 0 }),
+    body('maxLoans').optional().isInt({ min: 0 }),
+    body('notes').optional({ values: 'null' }).isLength({ max: 5000 }).trim(),
+    validateRequest,
+  ],
+  circulationPolicyController.updatePolicy.bind(circulationPolicyController)
+);
+
+/**
+ * DELETE /api/circulation-policies/:id
+ * Delete a circulation policy (Admin only)
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  isAdmin,
+  [param('id').isInt(), validateRequest],
+  circulationPolicyController.deletePolicy.bind(circulationPolicyController)
+);
+
+export default router;
@@ -0,0 +1,120 @@
+// FILE: src/routes/course.routes.ts
+// Course reserves routes
+
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import courseController from '../controllers/course.controller';
+import { authenticate, isLibrarianOrAdmin } from '../middleware/auth.middleware';
+import { validateRequest } from '../middleware/validator.middleware';
+import { COURSE_LOAN_TYPES } from '../services/course.service';
+
+const router = Router();
+
+/**
+ * GET /api/courses
+ * Get courses with reserve lists (Authenticated)
+ */
+router.get(
+  '/',
+  authenticate,
+  courseController.getCourses.bind(courseController)
+);
+
+/**
+ * GET /api/courses/:id
+ * Get a course and its reserve list (Authenticated)
+ */
+router.get(
+  '/:id',
+  authenticate,
+  [param('id').isInt(), validateRequest],
+  courseController.getCourseById.bind(courseController)
+);
+
+/**
+ * POST /api/courses
+ * Create a course (Librarian/Admin only)
+ */
+router.post(
+  '/',
+  authenticate,
+  isLibrarianOrAdmin,
+  [
+    body('code').isLength({ min: 1, max: 30 }).trim(),
+    body('title').isLength({ min: 1, max: 200 }).trim(),
+    body('instructor').isLength({ min: 1, max: 200 }).trim(),
+    body('termStart').isDate({ format: 'YYYY-MM-DD', strictMode: true }),
+    body('termEnd').isDate({ format: 'YYYY-MM-DD', strictMode: true }),
+    body('loanType').optional().isIn(COURSE_LOAN_TYPES),
+    body('notes').optional({ values: 'null' }).isLength({ max: 5000 }).trim(),
+    validateRequest,
+  ],
+  courseController.createCourse.bind(courseController)
+);
+
+/**
+ * PUT /api/courses/:id
+ * Update a course (Librarian/Admin only)
+ */
+router.put(
+  '/:id',
+  authenticate,
+  isLibrarianOrAdmin,
+  [
+    param('id').isInt(),
+    body('code').optional().isLength({ min: 1, max: 30 }).trim(),
+    body('title').optional().isLength({ min: 1, max: 200 }).trim(),
+    body('instructor').optional().isLength({ min: 1, max: 200 }).trim(),
+    body('termStart').optional().isDate({ format: 'YYYY-MM-DD', strictMode: true }),
+    body('termEnd').optional().isDate({ format: 'YYYY-MM-DD', strictMode: true }),
+    body('loanType').optional().isIn(COURSE_LOAN_TYPES),
+    body('notes').optional({ values: 'null' }).isLength({ max: 5000 }).trim(),
+    validateRequest,
+  ],
+  courseController.updateCourse.bind(courseController)
+);
+
+/**
+ * DELETE /api/courses/:id
+ * Delete a course and release its reserves (Librarian/Admin only)
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  isLibrarianOrAdmin,
+  [param('id').isInt(), validateRequest],
+  courseController.deleteCourse.bind(courseController)
+);
+
+/**
+ * POST /api/courses/:id/reserves
+ * Put a title on reserve for a course (Librarian/Admin only)
+ * Body: { bookId, bookCopyIds? } - copies listed are set aside under the course's loan rules during the term
+ */
+router.post(
+  '/:id/reserves',
+  authenticate,
+  isLibrarianOrAdmin,
+  [
+    param('id').isInt(),
+    body('bookId').isInt(),
+    body('bookCopyIds').optional().isArray({ max: 50 }),
+    body('bookCopyIds.*').isInt(),
+    validateRequest,
+  ],
+  courseController.addReserve.bind(courseController)
+);
+
+/**
+ * DELETE /api/courses/:id/reserves/:reserveId
+ * Take an entry off a course's reserve list (Librarian/Admin only)
+ */
+router.delete(
+  '/:id/reserves/:reserveId',
+  authenticate,
+  isLibrarianOrAdmin,
+  [param('id').isInt(), param('reserveId').isInt(), validateRequest],
+  courseController.removeReserve.bind(courseController)
+);
+
+export default router;
@@ -0,0 +1,85 @@
+// FILE: src/routes/fine-appeal.routes.ts
+// Fine appeal routes
+
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import fineAppealController from '../controllers/fine-appeal.controller';
+import { authenticate, isAdmin, isMember } from '../middleware/auth.middleware';
+import { validateRequest } from '../middleware/validator.middleware';
+import { uploadAppealAttachment } from '../middleware/upload';
+import { APPEAL_DECISIONS } from '../services/fine-appeal.service';
+
+const router = Router();
+
+/**
+ * GET /api/fine-appeals/my
+ * Get current member's appeals (Member only)
+ */
+router.get(
+  '/my',
+  authenticate,
+  isMember,
+  fineAppealController.getMyAppeals.bind(fineAppealController)
+);
+
+/**
+ * POST /api/fine-appeals
+ * Appeal a fine (Member only)
+ * Multipart body: fineId, reason, attachment? (image or PDF)
+ */
+router.post(
+  '/',
+  authenticate,
+  isMember,
+  uploadAppealAttachment.single('attachment'),
+  [
+    body('fineId').isInt(),
+    body('reason').isLength({ min: 10, max: 2000 }).trim(),
+    validateRequest,
+  ],
+  fineAppealController.submitAppeal.bind(fineAppealController)
+);
+
+/**
+ * GET /api/fine-appeals
+ * Get the appeal review queue (Admin only)
+ */
+router.get(
+  '/',
+  authenticate,
+  isAdmin,
+  [query('status').optional().isIn(['pending', 'approved', 'denied']), validateRequest],
+  fineAppealController.getAppeals.bind(fineAppealController)
+);
+
+/**
+ * POST /api/fine-appeals/:id/review
+ * Approve or deny an appeal (Admin only)
+ * Body: { decision: 'approve' | 'deny', waiveAmount? (approve only, defaults to the full fine), notes? }
+ */
+router.post(
+  '/:id/review',
+  authenticate,
+  isAdmin,
+  [
+    param('id').isInt(),
+    body('decision').isIn(APPEAL_DECISIONS),
+    body('waiveAmount').optional().isFloat({ gt: 0 }),
+    body('notes').optional().isLength({ max: 2000 }).trim(),
+    validateRequest,
+  ],
+  fineAppealController.reviewAppeal.bind(fineAppealController)
+);
+
+/**
+ * GET /api/fine-appeals/:id/attachment
+ * Download an appeal's attachment (the appellant, Librarian or Admin)
+ */
+router.get(
+  '/:id/attachment',
+  authenticate,
+  [param('id').isInt(), validateRequest],
+  fineAppealController.downloadAttachment.bind(fineAppealController)
+);
+
+export default router;
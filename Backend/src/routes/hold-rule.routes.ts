@@ -0,0 +1,89 @@
+// FILE: src/routes/hold-rule.routes.ts
+// Hold escalation rule routes
+
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import holdRuleController from '../controllers/hold-rule.controller';
+import { authenticate, isAdmin, isLibrarianOrAdmin } from '../middleware/auth.middleware';
+import { validateRequest } from '../middleware/validator.middleware';
+import { HOLD_RULE_TYPES } from '../services/hold-rule.service';
+
+const router = Router();
+
+/**
+ * GET /api/hold-rules
+ * Get all hold rules (Librarian/Admin)
+ */
+router.get(
+  '/',
+  authenticate,
+  isLibrarianOrAdmin,
+  holdRuleController.getAllRules.bind(holdRuleController)
+);
+
+/**
+ * POST /api/hold-rules/apply
+ * Apply the hold rules now (Admin only)
+ */
+router.post(
+  '/apply',
+  authenticate,
+  isAdmin,
+  holdRuleController.applyRules.bind(holdRuleController)
+);
+
+/**
+ * POST /api/hold-rules
+ * Create a hold rule (Admin only)
+ * threshold is dollars for unpaid_fines and days for overdue_days
+ */
+router.post(
+  '/',
+  authenticate,
+  isAdmin,
+  [
+    body('name').isLength({ min: 1, max: 200 }).trim(),
+    body('type').isIn(HOLD_RULE_TYPES),
+    body('threshold').isFloat({ min: 0 }),
+    body('autoLift').optional().isBoolean(),
+    body('isActive').optional().isBoolean(),
+    body('notes').optional({ values: 'null' }).isLength({ max: 5000 }).trim(),
+    validateRequest,
+  ],
+  holdRuleController.createRule.bind(holdRuleController)
+);
+
+/**
+ * PUT /api/hold-rules/:id
+ * Update a hold rule (Admin only)
+ */
+router.put(
+  '/:id',
+  authenticate,
+  isAdmin,
+  [
+    param('id').isInt(),
+    body('name').optional().isLength({ min: 1, max: 200 }).trim(),
+    body('type').optional().isIn(HOLD_RULE_TYPES),
+    body('threshold').optional().isFloat({ min: 0 }),
+    body('autoLift').optional().isBoolean(),
+    body('isActive').optional().isBoolean(),
+    body('notes').optional({ values: 'null' }).isLength({ max: 5000 }).trim(),
+    validateRequest,
+  ],
+  holdRuleController.updateRule.bind(holdRuleController)
+);
+
+/**
+ * DELETE /api/hold-rules/:id
+ * Delete a hold rule that has never placed a hold (Admin only)
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  isAdmin,
+  [param('id').isInt(), validateRequest],
+  holdRuleController.deleteRule.bind(holdRuleController)
+);
+
+export default router;
@@ -0,0 +1,119 @@
+// FILE: src/routes/library.routes.ts
+// Library calendar routes (opening hours and closures)
+
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import libraryController from '../controllers/library.controller';
+import { authenticate, isAdmin } from '../middleware/auth.middleware';
+import { validateRequest } from '../middleware/validator.middleware';
+import { CALENDAR_EVENT_TYPES } from '../services/library-calendar.service';
+
+const router = Router();
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * GET /api/library/hours
+ * Get today's hours and the calendar for the coming days (Public)
+ */
+router.get(
+  '/hours',
+  [
+    query('from').optional().isDate({ format: 'YYYY-MM-DD', strictMode: true }),
+    query('days').optional().isInt({ min: 1, max: 90 }),
+    validateRequest,
+  ],
+  libraryController.getHours.bind(libraryController)
+);
+
+/**
+ * PUT /api/library/hours/:dayOfWeek
+ * Set the regular opening hours for a weekday, 0 = Sunday (Admin only)
+ */
+router.put(
+  '/hours/:dayOfWeek',
+  authenticate,
+  isAdmin,
+  [
+    param('dayOfWeek').isInt({ min: 0, max: 6 }),
+    body('isClosed').isBoolean(),
+    body('opensAt').optional({ values: 'null' }).matches(TIME_PATTERN),
+    body('closesAt').optional({ values: 'null' }).matches(TIME_PATTERN),
+    validateRequest,
+  ],
+  libraryController.setWeeklyHours.bind(libraryController)
+);
+
+/**
+ * GET /api/library/events
+ * Get closures, holidays and semester breaks (Public)
+ */
+router.get(
+  '/events',
+  [
+    query('from').optional().isDate({ format: 'YYYY-MM-DD', strictMode: true }),
+    query('to').optional().isDate({ format: 'YYYY-MM-DD', strictMode: true }),
+    validateRequest,
+  ],
+  libraryController.getEvents.bind(libraryController)
+);
+
+/**
+ * POST /api/library/events
+ * Create a closure, holiday or semester break (Admin only)
+ * Set isClosed to false with opensAt/closesAt for reduced hours
+ */
+router.post(
+  '/events',
+  authenticate,
+  isAdmin,
+  [
+    body('name').notEmpty().isLength({ max: 200 }).trim(),
+    body('type').optional().isIn(CALENDAR_EVENT_TYPES),
+    body('startDate').isDate({ format: 'YYYY-MM-DD', strictMode: true }),
+    body('endDate').isDate({ format: 'YYYY-MM-DD', strictMode: true }),
+    body('isClosed').optional().isBoolean(),
+    body('opensAt').optional({ values: 'null' }).matches(TIME_PATTERN),
+    body('closesAt').optional({ values: 'null' }).matches(TIME_PATTERN),
+    body('notes').optional({ values: 'null' }).isLength({ max: 5000 }).trim(),
+    validateRequest,
+  ],
+  libraryController.createEvent.bind(libraryController)
+);
+
+/**
+ * PUT /api/library/events/:id
+ * Update a calendar event (Admin only)
+ */
+router.put(
+  '/events/:id',
+  authenticate,
+  isAdmin,
+  [
+    param('id').isInt(),
+    body('name').optional().notEmpty().isLength({ max: 200 }).trim(),
+    body('type').optional().isIn(CALENDAR_EVENT_TYPES),
+    body('startDate').optional().isDate({ format: 'YYYY-MM-DD', strictMode: true }),
+    body('endDate').optional().isDate({ format: 'YYYY-MM-DD', strictMode: true }),
+    body('isClosed').optional().isBoolean(),
+    body('opensAt').optional({ values: 'null' }).matches(TIME_PATTERN),
+    body('closesAt').optional({ values: 'null' }).matches(TIME_PATTERN),
+    body('notes').optional({ values: 'null' }).isLength({ max: 5000 }).trim(),
+    validateRequest,
+  ],
+  libraryController.updateEvent.bind(libraryController)
+);
+
+/**
+ * DELETE /api/library/events/:id
+ * Delete a calendar event (Admin only)
+ */
+router.delete(
+  '/events/:id',
+  authenticate,
+  isAdmin,
+  [param('id').isInt(), validateRequest],
+  libraryController.deleteEvent.bind(libraryController)
+);
+
+export default router;
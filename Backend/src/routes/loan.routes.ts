@@ -4,11 +4,23 @@
 import { Router } from 'express';
 import { body, param } from 'express-validator';
 import loanController from '../controllers/loan.controller';
+import circulationDeskController from '../controllers/circulation-desk.controller';
+import claimsReturnedController from '../controllers/claims-returned.controller';
 import { authenticate, isLibrarianOrAdmin, isMember } from '../middleware/auth.middleware';
 import { validateRequest } from '../middleware/validator.middleware';
+import { COPY_CONDITIONS } from '../services/book.service';
+import { CLAIM_RESOLUTIONS } from '../services/claims-returned.service';
 
 const router = Router();
 
+// Conditions a copy can be checked in with ('lost' goes through the lost-item workflow)
+const returnConditionValidators = [
+  body('condition').optional().isIn(COPY_CONDITIONS.filter((c) => c !== 'lost')),
+  body('conditionNotes').optional().isLength({ max: 1000 }).trim(),
+  body('damageFee').optional().isFloat({ min: 0 }),
+  body('sendToMaintenance').optional().isBoolean().toBoolean(),
+];
+
 /**
  * POST /api/loans/borrow
  * Create new loan by member themselves (Member only)
@@ -19,6 +31,7 @@ router.post(
   isMember,
   [
     body('bookId').isInt(),
+    body('loanType').optional().isIn(['standard', 'short_loan']),
     validateRequest,
   ],
   loanController.borrowBook.bind(loanController)
@@ -41,6 +54,140 @@ router.post(
   loanController.createLoan.bind(loanController)
 );
 
+/**
+ * GET /api/loans/desk/member/:code
+ * Look up a member's blocks and current loans by login ID or student/staff ID (Librarian/Admin only)
+ */
+router.get(
+  '/desk/member/:code',
+  authenticate,
+  isLibrarianOrAdmin,
+  [param('code').notEmpty().isLength({ max: 100 }).trim(), validateRequest],
+  circulationDeskController.lookupMember.bind(circulationDeskController)
+);
+
+/**
+ * POST /api/loans/desk/checkout
+ * Check out by scanning a copy barcode/RFID tag and a member login ID/student or staff ID (Librarian/Admin only)
+ */
+router.post(
+  '/desk/checkout',
+  authenticate,
+  isLibrarianOrAdmin,
+  [
+    body('memberCode').notEmpty().isLength({ max: 100 }).trim(),
+    body('copyCode').notEmpty().isLength({ max: 100 }).trim(),
+    body('durationDays').optional().isInt({ min: 1, max: 90 }),
+    validateRequest,
+  ],
+  circulationDeskController.checkOut.bind(circulationDeskController)
+);
+
+/**
+ * POST /api/loans/desk/checkin
+ * Check in by scanning a copy barcode/RFID tag (Librarian/Admin only)
+ */
+router.post(
+  '/desk/checkin',
+  authenticate,
+  isLibrarianOrAdmin,
+  [
+    body('copyCode').notEmpty().isLength({ max: 100 }).trim(),
+    ...returnConditionValidators,
+    validateRequest,
+  ],
+  circulationDeskController.checkIn.bind(circulationDeskController)
+);
+
+/**
+ * POST /api/loans/desk/batch-checkin
+ * Check in a list of barcodes/RFID tags from the book drop, optionally backdated to when they were dropped (Librarian/Admin only)
+ */
+router.post(
+  '/desk/batch-checkin',
+  authenticate,
+  isLibrarianOrAdmin,
+  [
+    body('copyCodes').isArray({ min: 1, max: 200 }),
+    body('copyCodes.*').isString().isLength({ min: 1, max: 100 }).trim(),
+    body('droppedAt').optional().isISO8601(),
+    validateRequest,
+  ],
+  circulationDeskController.batchCheckIn.bind(circulationDeskController)
+);
+
+/**
+ * GET /api/loans/claims
+ * Get claims-returned search tasks, optionally by status (Librarian/Admin only)
+ */
+router.get(
+  '/claims',
+  authenticate,
+  isLibrarianOrAdmin,
+  claimsReturnedController.getClaims.bind(claimsReturnedController)
+);
+
+/**
+ * GET /api/loans/claims/my
+ * Get current member's claims-returned disputes (Member only)
+ */
+router.get(
+  '/claims/my',
+  authenticate,
+  isMember,
+  claimsReturnedController.getMyClaims.bind(claimsReturnedController)
+);
+
+/**
+ * POST /api/loans/claims/:claimId/search
+ * Record a shelf search that did not find the book (Librarian/Admin only)
+ */
+router.post(
+  '/claims/:claimId/search',
+  authenticate,
+  isLibrarianOrAdmin,
+  [
+    param('claimId').isInt(),
+    body('notes').optional().isLength({ max: 1000 }).trim(),
+    validateRequest,
+  ],
+  claimsReturnedController.recordSearch.bind(claimsReturnedController)
+);
+
+/**
+ * POST /api/loans/claims/:claimId/resolve
+ * Resolve a claims-returned dispute (Librarian/Admin only)
+ */
+router.post(
+  '/claims/:claimId/resolve',
+  authenticate,
+  isLibrarianOrAdmin,
+  [
+    param('claimId').isInt(),
+    body('resolution').isIn(CLAIM_RESOLUTIONS),
+    body('returnedAt').optional().isISO8601(),
+    body('notes').optional().isLength({ max: 1000 }).trim(),
+    validateRequest,
+  ],
+  claimsReturnedController.resolveClaim.bind(claimsReturnedController)
+);
+
+/**
+ * POST /api/loans/:id/claim-returned
+ * Claim a book was returned though it still shows as on loan (Member for their own, Librarian/Admin any)
+ */
+router.post(
+  '/:id/claim-returned',
+  authenticate,
+  [
+    param('id').isInt(),
+    body('claimedReturnedAt').optional().isISO8601(),
+    body('notes').optional().isLength({ max: 1000 }).trim(),
+    validateRequest,
+  ],
+  claimsReturnedController.fileClaim.bind(claimsReturnedController)
+);
+
 /**
  * POST /api/loans/:id/return
  * Return a book (Member can return their own, Librarian/Admin can return any)
@@ -48,7 +195,7 @@ router.post(
 router.post(
   '/:id/return',
   authenticate,
-  [param('id').isInt(), validateRequest],
+  [param('id').isInt(), ...returnConditionValidators, validateRequest],
   loanController.returnLoan.bind(loanController)
 );
 
@@ -63,6 +210,55 @@ router.post(
   loanController.renewLoan.bind(loanController)
 );
 
+/**
+ * POST /api/loans/:id/lost
+ * Declare a loan lost (Member can declare their own, Librarian/Admin any)
+ */
+router.post(
+  '/:id/lost',
+  authenticate,
+  [
+    param('id').isInt(),
+    body('replacementFee').optional().isFloat({ min: 0 }),
+    body('notes').optional().isLength({ max: 1000 }).trim(),
+    validateRequest,
+  ],
+  loanController.declareLost.bind(loanController)
+);
+
+/**
+ * POST /api/loans/:id/found
+ * Mark a lost item as found; refundAmount defaults to the full replacement fee (Librarian/Admin only)
+ */
+router.post(
+  '/:id/found',
+  authenticate,
+  isLibrarianOrAdmin,
+  [
+    param('id').isInt(),
+    body('refundAmount').optional().isFloat({ min: 0 }),
+    body('notes').optional().isLength({ max: 1000 }).trim(),
+    validateRequest,
+  ],
+  loanController.markFound.bind(loanController)
+);
+
+/**
+ * POST /api/loans/:id/recall
+ * Recall a borrowed book early; shortens the due date and blocks renewals (Librarian/Admin only)
+ */
+router.post(
+  '/:id/recall',
+  authenticate,
+  isLibrarianOrAdmin,
+  [
+    param('id').isInt(),
+    body('reason').optional().isLength({ max: 1000 }).trim(),
+    validateRequest,
+  ],
+  loanController.recallLoan.bind(loanController)
+);
+
 /**
  * GET /api/loans/my-loans
  * Get current member's loans (Member only)
@@ -2,9 +2,11 @@
 // Member management routes for admin
 
 import { Router } from 'express';
+import { body, param } from 'express-validator';
 import memberController from '../controllers/member.controller';
 import { authenticate, requireRole } from '../middleware/auth.middleware';
 import { uploadProfilePicture } from '../middleware/upload';
+import { validateRequest } from '../middleware/validator.middleware';
 
 const router = Router();
 
@@ -59,4 +61,16 @@ router.delete('/profile', authenticate, memberController.deleteAccount.bind(memb
  */
 router.get('/:id', authenticate, requireRole('ADMIN'), memberController.getMemberById.bind(memberController));
 
+/**
+ * PUT /api/members/:id/claims-limit
+ * Set how many claims-returned disputes a member may file (Admin only)
+ */
+router.put(
+  '/:id/claims-limit',
+  authenticate,
+  requireRole('ADMIN'),
+  [param('id').isInt(), body('limit').isInt({ min: 0, max: 50 }), validateRequest],
+  memberController.updateClaimsReturnedLimit.bind(memberController)
+);
+
 export default router;
@@ -0,0 +1,155 @@
+// FILE: src/routes/payment.routes.ts
+// Payment ledger routes
+
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import paymentController from '../controllers/payment.controller';
+import { authenticate, isLibrarianOrAdmin, isMember } from '../middleware/auth.middleware';
+import { validateRequest } from '../middleware/validator.middleware';
+import { PAYMENT_METHODS } from '../services/payment.service';
+import { MOCK_PAYMENTS_ENABLED } from '../services/payment-provider.service';
+
+const router = Router();
+
+/**
+ * GET /api/payments/my
+ * Get current member's payment history (Member only)
+ */
+router.get(
+  '/my',
+  authenticate,
+  isMember,
+  paymentController.getMyPayments.bind(paymentController)
+);
+
+/**
+ * GET /api/payments
+ * Get payments (Librarian/Admin only)
+ */
+router.get(
+  '/',
+  authenticate,
+  isLibrarianOrAdmin,
+  [
+    query('memberId').optional().isInt(),
+    query('method').optional().isIn(PAYMENT_METHODS),
+    query('status').optional().isIn(['completed', 'reversed']),
+    validateRequest,
+  ],
+  paymentController.getPayments.bind(paymentController)
+);
+
+/**
+ * POST /api/payments/webhook/:provider
+ * Payment provider webhook (Public - verified by signature, not by login)
+ */
+router.post(
+  '/webhook/:provider',
+  paymentController.handleWebhook.bind(paymentController)
+);
+
+/**
+ * GET /api/payments/checkout
+ * Get checkout sessions (Librarian/Admin only)
+ */
+router.get(
+  '/checkout',
+  authenticate,
+  isLibrarianOrAdmin,
+  [query('status').optional().isIn(['pending', 'completed', 'failed', 'unapplied']), validateRequest],
+  paymentController.getCheckoutSessions.bind(paymentController)
+);
+
+/**
+ * POST /api/payments/checkout
+ * Start an online checkout (Member only)
+ * Body: { fineIds?, amount? } - defaults to everything outstanding
+ */
+router.post(
+  '/checkout',
+  authenticate,
+  isMember,
+  [
+    body('fineIds').optional().isArray({ min: 1 }),
+    body('fineIds.*').isInt().toInt(),
+    body('amount').optional().isFloat({ gt: 0 }),
+    validateRequest,
+  ],
+  paymentController.createCheckout.bind(paymentController)
+);
+
+/**
+ * GET /api/payments/checkout/:sessionId
+ * Get the status of a checkout (Member for their own, Librarian/Admin for any)
+ */
+router.get(
+  '/checkout/:sessionId',
+  authenticate,
+  paymentController.getCheckoutSession.bind(paymentController)
+);
+
+/**
+ * POST /api/payments/checkout/:sessionId/mock-complete
+ * Pay or decline on the mock provider's checkout page (Member only)
+ * Only mounted when PAYMENT_PROVIDER=mock outside production
+ */
+if (MOCK_PAYMENTS_ENABLED) {
+  router.post(
+    '/checkout/:sessionId/mock-complete',
+    authenticate,
+    isMember,
+    [body('outcome').isIn(['succeeded', 'failed']), validateRequest],
+    paymentController.completeMockCheckout.bind(paymentController)
+  );
+}
+
+/**
+ * POST /api/payments
+ * Record a desk payment against one or more fines (Librarian/Admin only)
+ * Body: { memberId, amount, method?, fineIds?, reference?, notes? }
+ */
+router.post(
+  '/',
+  authenticate,
+  isLibrarianOrAdmin,
+  [
+    body('amount').isFloat({ gt: 0 }),
+    body('fineIds').optional().isArray({ min: 1 }),
+    body('fineIds.*').isInt().toInt(),
+    body('memberId').isInt(),
+    body('method').optional().isIn(PAYMENT_METHODS),
+    body('reference').optional().isLength({ max: 100 }).trim(),
+    body('notes').optional().isLength({ max: 2000 }).trim(),
+    validateRequest,
+  ],
+  paymentController.recordPayment.bind(paymentController)
+);
+
+/**
+ * POST /api/payments/:id/reverse
+ * Reverse a payment for a refund (Librarian/Admin only)
+ */
+router.post(
+  '/:id/reverse',
+  authenticate,
+  isLibrarianOrAdmin,
+  [
+    param('id').isInt(),
+    body('reason').isLength({ min: 1, max: 500 }).trim(),
+    validateRequest,
+  ],
+  paymentController.reversePayment.bind(paymentController)
+);
+
+/**
+ * GET /api/payments/:id/receipt
+ * Download a payment receipt (Member for their own, Librarian/Admin for any)
+ */
+router.get(
+  '/:id/receipt',
+  authenticate,
+  [param('id').isInt(), validateRequest],
+  paymentController.downloadReceipt.bind(paymentController)
+);
+
+export default router;
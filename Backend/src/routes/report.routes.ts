@@ -2,15 +2,24 @@
 // Report and analytics routes for admin
 
 import { Router } from 'express';
+import { query } from 'express-validator';
 import reportController from '../controllers/report.controller';
 import { authenticate, requireRole } from '../middleware/auth.middleware';
+import { validateRequest } from '../middleware/validator.middleware';
 
 const router = Router();
 
 /**
  * GET /api/reports/analytics
  * Get comprehensive analytics data (Admin only)
+ * Query: branchId - limit to one branch
  */
-router.get('/analytics', authenticate, requireRole('ADMIN'), reportController.getAnalytics.bind(reportController));
+router.get(
+  '/analytics',
+  authenticate,
+  requireRole('ADMIN'),
+  [query('branchId').optional().isInt(), validateRequest],
+  reportController.getAnalytics.bind(reportController)
+);
 
 export default router;
@@ -0,0 +1,78 @@
+// FILE: src/routes/reservation.routes.ts
+// Reservation routes
+
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import reservationController from '../controllers/reservation.controller';
+import { authenticate, isLibrarianOrAdmin, isMember } from '../middleware/auth.middleware';
+import { validateRequest } from '../middleware/validator.middleware';
+
+const router = Router();
+
+/**
+ * POST /api/reservations
+ * Place a reservation on a book (Member only)
+ * Body: { bookId, pickupBranchId? } - the copy is sent to the pickup branch when it comes back elsewhere
+ */
+router.post(
+  '/',
+  authenticate,
+  isMember,
+  [
+    body('bookId').isInt(),
+    body('pickupBranchId').optional().isInt(),
+    validateRequest,
+  ],
+  reservationController.createReservation.bind(reservationController)
+);
+
+/**
+ * GET /api/reservations/my-reservations
+ * Get current member's reservations with queue positions (Member only)
+ */
+router.get(
+  '/my-reservations',
+  authenticate,
+  isMember,
+  reservationController.getMyReservations.bind(reservationController)
+);
+
+/**
+ * GET /api/reservations/book/:bookId
+ * Get the reservation queue for a book (Librarian/Admin only)
+ */
+router.get(
+  '/book/:bookId',
+  authenticate,
+  isLibrarianOrAdmin,
+  [param('bookId').isInt(), validateRequest],
+  reservationController.getBookQueue.bind(reservationController)
+);
+
+/**
+ * GET /api/reservations/:id/position
+ * Get queue position for a reservation
+ */
+router.get(
+  '/:id/position',
+  authenticate,
+  [param('id').isInt(), validateRequest],
+  reservationController.getQueuePosition.bind(reservationController)
+);
+
+/**
+ * DELETE /api/reservations/:id
+ * Cancel a reservation (Member can cancel their own, Librarian/Admin can cancel any)
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  [
+    param('id').isInt(),
+    body('reason').optional().isLength({ max: 500 }).trim(),
+    validateRequest,
+  ],
+  reservationController.cancelReservation.bind(reservationController)
+);
+
+export default router;
@@ -0,0 +1,64 @@
+import { authorMatchKey, splitAuthorLine, splitAuthorNames } from '../author.service';
+
+describe('authorMatchKey', () => {
+  it('ignores case, punctuation and spacing', () => {
+    expect(authorMatchKey('J.K. Rowling')).toBe('j k rowling');
+    expect(authorMatchKey('  j. k.   ROWLING ')).toBe('j k rowling');
+  });
+
+  it('files "Last, First" the same as "First Last"', () => {
+    expect(authorMatchKey('Rowling, J. K.')).toBe(authorMatchKey('J. K. Rowling'));
+    expect(authorMatchKey('Tolkien, J.R.R.')).toBe('j r r tolkien');
+  });
+
+  it('keeps a generational suffix at the end', () => {
+    expect(authorMatchKey('King, Martin Luther, Jr.')).toBe('martin luther king jr');
+    expect(authorMatchKey('Martin Luther King, Jr.')).toBe('martin luther king jr');
+    expect(authorMatchKey('Smith, Jr.')).toBe('smith jr');
+  });
+
+  it('only reads a single word before the comma as a surname', () => {
+    expect(authorMatchKey('Le Guin, Ursula K.')).toBe('le guin ursula k');
+  });
+
+  it('keeps letters outside ASCII', () => {
+    expect(authorMatchKey('Brontë, Charlotte')).toBe('charlotte brontë');
+  });
+});
+
+describe('splitAuthorLine', () => {
+  it('splits on semicolons, ampersands and "and"', () => {
+    expect(splitAuthorNames('Terry Pratchett & Neil Gaiman')).toEqual(['Terry Pratchett', 'Neil Gaiman']);
+    expect(splitAuthorNames('Kernighan, Brian; Ritchie, Dennis')).toEqual(['Kernighan, Brian', 'Ritchie, Dennis']);
+    expect(splitAuthorNames('Abelson AND Sussman ;; ')).toEqual(['Abelson', 'Sussman']);
+  });
+
+  it('does not split inside a name containing "and"', () => {
+    expect(splitAuthorNames('Alexander Dumas; Sandra Andrews')).toEqual(['Alexander Dumas', 'Sandra Andrews']);
+  });
+
+  it('splits a comma list of full names', () => {
+    expect(splitAuthorLine('Ann Lee, Bo Park, Cy Young')).toEqual({ names: ['Ann Lee', 'Bo Park', 'Cy Young'], ambiguous: false });
+  });
+
+  it('reads a comma after a single word as "Last, First"', () => {
+    expect(splitAuthorLine('Smith, John')).toEqual({ names: ['Smith, John'], ambiguous: false });
+    expect(splitAuthorLine('Smith, John, Jones, Kate')).toEqual({ names: ['Smith, John', 'Jones, Kate'], ambiguous: false });
+    expect(splitAuthorLine('Smith, John, Kate Jones')).toEqual({ names: ['Smith, John', 'Kate Jones'], ambiguous: false });
+  });
+
+  it('keeps a suffix with the name before it', () => {
+    expect(splitAuthorNames('Martin Luther King, Jr., Coretta Scott King')).toEqual(['Martin Luther King, Jr.', 'Coretta Scott King']);
+    expect(splitAuthorNames('King, Martin Luther, Jr.')).toEqual(['King, Martin Luther, Jr.']);
+  });
+
+  it('flags a line where a comma left a one-word name behind', () => {
+    expect(splitAuthorLine('Le Guin, Ursula')).toEqual({ names: ['Le Guin', 'Ursula'], ambiguous: true });
+    expect(splitAuthorLine('Smith, John, Jones').ambiguous).toBe(true);
+    expect(splitAuthorLine('Plato').ambiguous).toBe(false);
+  });
+
+  it('returns nothing for an empty line', () => {
+    expect(splitAuthorLine(' , ; ')).toEqual({ names: [], ambiguous: false });
+  });
+});
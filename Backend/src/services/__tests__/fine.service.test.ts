@@ -0,0 +1,47 @@
+import { fineService } from '../fine.service';
+import libraryCalendarService from '../library-calendar.service';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+describe('countChargeableUnits', () => {
+  const due = new Date('2026-03-02T17:00:00Z');
+  const countChargeableUnits = (asOf: Date, unit: 'day' | 'hour') =>
+    fineService['countChargeableUnits'](due, asOf, unit);
+
+  let countClosedDays: jest.SpyInstance;
+
+  beforeEach(() => {
+    countClosedDays = jest.spyOn(libraryCalendarService, 'countClosedDays').mockResolvedValue(0);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('charges nothing up to the due time', async () => {
+    await expect(countChargeableUnits(due, 'day')).resolves.toBe(0);
+    await expect(countChargeableUnits(new Date(due.getTime() - DAY), 'day')).resolves.toBe(0);
+    await expect(countChargeableUnits(new Date(due.getTime() - HOUR), 'hour')).resolves.toBe(0);
+    expect(countClosedDays).not.toHaveBeenCalled();
+  });
+
+  it('counts every started day', async () => {
+    await expect(countChargeableUnits(new Date(due.getTime() + 1000), 'day')).resolves.toBe(1);
+    await expect(countChargeableUnits(new Date(due.getTime() + DAY), 'day')).resolves.toBe(1);
+    await expect(countChargeableUnits(new Date(due.getTime() + 3 * DAY + HOUR), 'day')).resolves.toBe(4);
+  });
+
+  it('leaves out the days the library was closed', async () => {
+    countClosedDays.mockResolvedValue(2);
+
+    await expect(countChargeableUnits(new Date(due.getTime() + 5 * DAY), 'day')).resolves.toBe(3);
+    expect(countClosedDays).toHaveBeenCalledWith(due, 5);
+  });
+
+  it('counts every started hour for hourly fines, closed days included', async () => {
+    await expect(countChargeableUnits(new Date(due.getTime() + 1000), 'hour')).resolves.toBe(1);
+    await expect(countChargeableUnits(new Date(due.getTime() + 26 * HOUR), 'hour')).resolves.toBe(26);
+    expect(countClosedDays).not.toHaveBeenCalled();
+  });
+});
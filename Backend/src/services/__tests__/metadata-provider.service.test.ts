@@ -0,0 +1,77 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { LocalFileMetadataProvider, getMetadataProvider } from '../metadata-provider.service';
+
+describe('LocalFileMetadataProvider', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'metadata-'));
+    file = path.join(dir, 'book-metadata.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('maps an Open Library record onto book fields, leaving out what it lacks', async () => {
+    await fs.writeFile(file, JSON.stringify({
+      'ISBN:9780131103627': {
+        title: 'The C Programming Language',
+        subtitle: 'ANSI C',
+        authors: [{ name: 'Brian W. Kernighan' }, { name: 'Dennis M. Ritchie' }],
+        publishers: [{ name: 'Prentice Hall' }],
+        publish_date: 'March 1988',
+        description: { value: 'The classic.' },
+        cover: { medium: 'https://covers.example/m.jpg' },
+      },
+    }));
+
+    await expect(new LocalFileMetadataProvider(file).lookupIsbn('9780131103627')).resolves.toEqual({
+      title: 'The C Programming Language: ANSI C',
+      author: 'Brian W. Kernighan; Dennis M. Ritchie',
+      publisher: 'Prentice Hall',
+      publishedYear: 1988,
+      description: 'The classic.',
+      coverImageUrl: 'https://covers.example/m.jpg',
+    });
+  });
+
+  it('accepts keys in either ISBN form, with or without the prefix, and skips invalid ones', async () => {
+    await fs.writeFile(file, JSON.stringify({
+      '0-7475-3269-9': { title: 'Harry Potter' },
+      'ISBN:not-an-isbn': { title: 'Nothing' },
+    }));
+    const provider = new LocalFileMetadataProvider(file);
+
+    await expect(provider.lookupIsbn('9780747532699')).resolves.toEqual({ title: 'Harry Potter' });
+    await expect(provider.lookupIsbn('9780131103627')).resolves.toBeNull();
+  });
+
+  it('re-reads the file when it changes', async () => {
+    await fs.writeFile(file, JSON.stringify({ '9780747532699': { title: 'Old' } }));
+    const provider = new LocalFileMetadataProvider(file);
+    await expect(provider.lookupIsbn('9780747532699')).resolves.toEqual({ title: 'Old' });
+
+    await fs.writeFile(file, JSON.stringify({ '9780747532699': { title: 'New' } }));
+    const later = new Date(Date.now() + 5000);
+    await fs.utimes(file, later, later);
+
+    await expect(provider.lookupIsbn('9780747532699')).resolves.toEqual({ title: 'New' });
+  });
+
+  it('reports a missing file', async () => {
+    await expect(new LocalFileMetadataProvider(path.join(dir, 'missing.json')).lookupIsbn('9780747532699'))
+      .rejects.toThrow('Metadata file not found');
+  });
+});
+
+describe('getMetadataProvider', () => {
+  it('finds the built-in providers and refuses unknown names', () => {
+    expect(getMetadataProvider('local').name).toBe('local');
+    expect(getMetadataProvider('openlibrary').name).toBe('openlibrary');
+    expect(() => getMetadataProvider('worldcat')).toThrow('Unknown metadata provider: worldcat');
+  });
+});
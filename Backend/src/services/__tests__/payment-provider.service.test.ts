@@ -0,0 +1,60 @@
+import { MockPaymentProvider, PaymentWebhookEvent } from '../payment-provider.service';
+
+const event: PaymentWebhookEvent = {
+  type: 'payment.succeeded',
+  sessionId: 'mock_cs_123',
+  amount: 12.5,
+  currency: 'USD',
+  transactionId: 'mock_txn_456',
+};
+
+describe('MockPaymentProvider webhooks', () => {
+  const provider = new MockPaymentProvider();
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('verifies the webhooks it builds', () => {
+    const { body, headers } = provider.buildWebhook(event);
+
+    expect(provider.verifyWebhook(body, headers)).toEqual(event);
+  });
+
+  it('passes a failure reason through', () => {
+    const failed = { ...event, type: 'payment.failed' as const, transactionId: null, failureReason: 'Card declined' };
+    const { body, headers } = provider.buildWebhook(failed);
+
+    expect(provider.verifyWebhook(body, headers)).toEqual(failed);
+  });
+
+  it('rejects a body changed after signing', () => {
+    const { headers } = provider.buildWebhook(event);
+    const tampered = Buffer.from(JSON.stringify({ ...event, amount: 1250 }));
+
+    expect(() => provider.verifyWebhook(tampered, headers)).toThrow('Invalid webhook signature');
+  });
+
+  it('rejects missing and malformed signatures', () => {
+    const { body } = provider.buildWebhook(event);
+
+    expect(() => provider.verifyWebhook(body, {})).toThrow('Missing webhook signature');
+    expect(() => provider.verifyWebhook(body, { 'x-payment-signature': 'v1=abc' })).toThrow('Malformed webhook signature');
+    expect(() => provider.verifyWebhook(body, { 'x-payment-signature': `t=${Math.floor(Date.now() / 1000)},v1=00` }))
+      .toThrow('Invalid webhook signature');
+  });
+
+  it('rejects a webhook replayed after the tolerance window', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() - 10 * 60 * 1000);
+    const { body, headers } = provider.buildWebhook(event);
+    jest.restoreAllMocks();
+
+    expect(() => provider.verifyWebhook(body, headers)).toThrow('Webhook signature has expired');
+  });
+
+  it('rejects signed events it does not handle', () => {
+    const { body, headers } = provider.buildWebhook({ ...event, type: 'payment.refunded' } as unknown as PaymentWebhookEvent);
+
+    expect(() => provider.verifyWebhook(body, headers)).toThrow('Unrecognised webhook event');
+  });
+});
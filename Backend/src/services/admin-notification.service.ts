@@ -268,6 +268,76 @@ class AdminNotificationService {
 
     return notifications;
   }
+
+  /**
+   * Notify all admins that a member claims to have returned a book still on loan
+   */
+  async notifyClaimReturned(
+    memberName: string,
+    memberLoginId: string,
+    bookTitle: string,
+    barcode: string,
+    loanId: number,
+    claimId: number
+  ) {
+    const adminIds = await this.getAllAdminUserIds();
+
+    const notifications = [];
+    for (const adminId of adminIds) {
+      const notification = await notificationService.createNotification({
+        userId: adminId,
+        type: 'ADMIN_CLAIM_RETURNED',
+        title: 'Shelf Search Needed',
+        message: `${memberName} (${memberLoginId}) says they returned "${bookTitle}" (${barcode}). Please search the shelves.`,
+        priority: 'normal',
+        payload: {
+          loanId,
+          claimId,
+          memberLoginId,
+          memberName,
+          bookTitle,
+          barcode,
+        },
+      });
+      notifications.push(notification);
+    }
+
+    return notifications;
+  }
+
+  /**
+   * Notify all admins that a fine appeal is waiting for review
+   */
+  async notifyFineAppeal(
+    memberName: string,
+    memberLoginId: string,
+    fineId: number,
+    amount: number,
+    appealId: number
+  ) {
+    const adminIds = await this.getAllAdminUserIds();
+
+    const notifications = [];
+    for (const adminId of adminIds) {
+      const notification = await notificationService.createNotification({
+        userId: adminId,
+        type: 'ADMIN_FINE_APPEAL',
+        title: 'Fine Appeal Submitted',
+        message: `${memberName} (${memberLoginId}) appealed a fine of $${amount.toFixed(2)}. Please review it.`,
+        priority: 'normal',
+        payload: {
+          appealId,
+          fineId,
+          memberLoginId,
+          memberName,
+          amount,
+        },
+      });
+      notifications.push(notification);
+    }
+
+    return notifications;
+  }
 }
 
 export const adminNotificationService = new AdminNotificationService();
@@ -0,0 +1,452 @@
+// FILE: src/services/author.service.ts
+// Author authority records: contributors on books, name variants, merging and author pages
+
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { logger, LogAction } from '../utils/logger';
+
+// A contributor's part in a book, in the order books are credited
+export const AUTHOR_ROLES = ['author', 'editor', 'translator', 'illustrator'];
+
+export interface ContributorInput {
+  name?: string; // Matched against existing authors and their variants, created when new
+  authorId?: number; // Credit a known author record directly
+  role?: string; // Defaults to "author"
+}
+
+export interface UpdateAuthorData {
+  name?: string;
+  notes?: string;
+}
+
+// Generational suffixes written after a comma ("King, Jr.") belong to the name before them
+const NAME_SUFFIX = /^(?:jr|sr|ii|iii|iv)\.?$/i;
+
+/**
+ * Key a name is matched on: no case or punctuation ("J.K." and "J. K." agree), and "Smith, John" filed the same as
+ * "John Smith". Only a single word before the comma is read as a surname; "Le Guin, Ursula" is left as written
+ */
+export function authorMatchKey(name: string): string {
+  const trimmed = name.trim();
+  const inverted = trimmed.match(/^([^\s,]+),(?!\s*(?:jr|sr|ii|iii|iv)\.?(?:,|$))\s*([^,]+?)(,\s*(?:jr|sr|ii|iii|iv)\.?)?$/i);
+  const direct = inverted ? `${inverted[2]} ${inverted[1]}${inverted[3] ?? ''}` : trimmed;
+
+  return direct
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Split an author line into people. ";", "&" and "and" always separate names; a comma does too ("Ann Lee, Bo Park"),
+ * except after a single word, where it is read as "Smith, John". The line is ambiguous when a comma left a
+ * one-word name behind ("Le Guin, Ursula"), which may be half of one person rather than a person of its own
+ */
+export function splitAuthorLine(text: string): { names: string[]; ambiguous: boolean } {
+  const names: string[] = [];
+  let ambiguous = false;
+
+  for (const part of text.split(/\s*;\s*|\s+&\s+|\s+and\s+/i)) {
+    const pieces = part.split(',').map((piece) => piece.trim()).filter(Boolean);
+
+    for (let i = 0; i < pieces.length; ) {
+      let name = pieces[i++];
+      if (i < pieces.length && !/\s/.test(name) && !NAME_SUFFIX.test(pieces[i])) {
+        name += `, ${pieces[i++]}`;
+      }
+      if (i < pieces.length && NAME_SUFFIX.test(pieces[i])) {
+        name += `, ${pieces[i++]}`;
+      }
+      if (pieces.length > 1 && !/[\s,]/.test(name)) {
+        ambiguous = true;
+      }
+      names.push(name);
+    }
+  }
+
+  return { names, ambiguous };
+}
+
+/**
+ * The people on an author line, see splitAuthorLine
+ */
+export function splitAuthorNames(text: string): string[] {
+  return splitAuthorLine(text).names;
+}
+
+/**
+ * Book filter matching any contributor by name or by a known variant of their name
+ */
+export function contributorSearchWhere(search: string): Prisma.BookWhereInput {
+  return {
+    contributors: {
+      some: {
+        author: {
+          OR: [
+            { name: { contains: search, mode: 'insensitive' } },
+            { matchKeys: { has: authorMatchKey(search) } },
+          ],
+        },
+      },
+    },
+  };
+}
+
+const contributionInclude = {
+  author: true,
+};
+
+class AuthorService {
+  /**
+   * Search authors by name or variant, with how many books credit each
+   */
+  async searchAuthors(search?: string, page: number = 1, limit: number = 20) {
+    const where: Prisma.AuthorWhereInput = search
+      ? {
+          OR: [
+            { name: { contains: search, mode: 'insensitive' } },
+            { matchKeys: { has: authorMatchKey(search) } },
+          ],
+        }
+      : {};
+
+    const [authors, total] = await Promise.all([
+      prisma.author.findMany({
+        where,
+        include: {
+          _count: { select: { contributions: true } },
+        },
+        orderBy: { name: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.author.count({ where }),
+    ]);
+
+    return {
+      authors,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Author page: the record, every book they contributed to (with their role), and records that may be
+   * the same person under another form of the name
+   */
+  async getAuthorById(authorId: number) {
+    const author = await prisma.author.findUnique({
+      where: { id: authorId },
+      include: {
+        contributions: {
+          include: {
+            book: {
+              include: {
+                contributors: {
+                  include: contributionInclude,
+                  orderBy: { position: 'asc' },
+                },
+              },
+            },
+          },
+          orderBy: { book: { title: 'asc' } },
+        },
+      },
+    });
+
+    if (!author) {
+      throw new Error('Author not found');
+    }
+
+    const possibleVariants = await this.findPossibleVariants(author);
+
+    return { author, possibleVariants };
+  }
+
+  /**
+   * Find the author record a name belongs to, creating one for a name not seen before
+   */
+  async findOrCreateAuthor(tx: Prisma.TransactionClient, name: string) {
+    const key = authorMatchKey(name);
+    if (!key) {
+      throw new Error(`"${name}" is not a usable author name`);
+    }
+
+    const existing = await tx.author.findFirst({
+      where: { matchKeys: { has: key } },
+      orderBy: { id: 'asc' },
+    });
+
+    if (existing) {
+      // Remember a new spelling that matched ("Smith, John" for "John Smith")
+      if (existing.name !== name.trim() && !existing.variants.includes(name.trim())) {
+        return tx.author.update({
+          where: { id: existing.id },
+          data: { variants: [...existing.variants, name.trim()] },
+        });
+      }
+      return existing;
+    }
+
+    return tx.author.create({
+      data: {
+        name: name.trim().substring(0, 255),
+        matchKeys: [key],
+      },
+    });
+  }
+
+  /**
+   * Replace a book's contributors and refresh its author line
+   * PERSISTENCE: Replaces BOOK_CONTRIBUTOR rows, creates AUTHOR rows for new names, updates BOOK
+   */
+  async setBookContributors(tx: Prisma.TransactionClient, bookId: number, contributors: ContributorInput[]) {
+    if (contributors.length === 0) {
+      throw new Error('A book needs at least one contributor');
+    }
+
+    const resolved: { authorId: number; role: string }[] = [];
+    for (const contributor of contributors) {
+      const role = contributor.role || 'author';
+      if (!AUTHOR_ROLES.includes(role)) {
+        throw new Error(`Role must be one of: ${AUTHOR_ROLES.join(', ')}`);
+      }
+
+      let authorId = contributor.authorId;
+      if (authorId) {
+        const author = await tx.author.findUnique({ where: { id: authorId } });
+        if (!author) {
+          throw new Error(`Author #${authorId} not found`);
+        }
+      } else if (contributor.name) {
+        authorId = (await this.findOrCreateAuthor(tx, contributor.name)).id;
+      } else {
+        throw new Error('Each contributor needs a name or an authorId');
+      }
+
+      // The same person twice in one role ("J. Smith; John Smith" after a merge) is credited once
+      if (!resolved.some((r) => r.authorId === authorId && r.role === role)) {
+        resolved.push({ authorId, role });
+      }
+    }
+
+    await tx.bookContributor.deleteMany({ where: { bookId } });
+    await tx.bookContributor.createMany({
+      data: resolved.map((r, position) => ({ bookId, authorId: r.authorId, role: r.role, position })),
+    });
+
+    return this.refreshAuthorLine(tx, bookId);
+  }
+
+  /**
+   * Replace the people credited as "author" from an author line, keeping editors, translators and illustrators
+   * Used when the line itself is edited (book form, metadata enrichment)
+   */
+  async setBookAuthorsFromText(tx: Prisma.TransactionClient, bookId: number, text: string) {
+    const others = await tx.bookContributor.findMany({
+      where: { bookId, role: { not: 'author' } },
+      orderBy: { position: 'asc' },
+    });
+
+    return this.setBookContributors(tx, bookId, [
+      ...splitAuthorNames(text).map((name) => ({ name, role: 'author' })),
+      ...others.map((c) => ({ authorId: c.authorId, role: c.role })),
+    ]);
+  }
+
+  /**
+   * Rename an author or edit their notes (Librarian)
+   * The old name is kept as a variant so books and searches using it still find the record
+   * PERSISTENCE: Updates AUTHOR and the author line of their books, logs to SYSTEM_LOG
+   */
+  async updateAuthor(authorId: number, data: UpdateAuthorData, userId: number) {
+    const author = await prisma.author.findUnique({ where: { id: authorId } });
+
+    if (!author) {
+      throw new Error('Author not found');
+    }
+
+    const name = data.name?.trim();
+    const renamed = !!name && name !== author.name;
+
+    if (renamed) {
+      const key = authorMatchKey(name);
+      const clash = await prisma.author.findFirst({
+        where: { matchKeys: { has: key }, id: { not: authorId } },
+      });
+      if (clash) {
+        throw new Error(`"${name}" is already used by author #${clash.id}; merge the two records instead`);
+      }
+    }
+
+    const updatedAuthor = await prisma.$transaction(async (tx) => {
+      const updated = await tx.author.update({
+        where: { id: authorId },
+        data: {
+          ...(renamed && {
+            name,
+            variants: [...new Set([...author.variants, author.name])].filter((v) => v !== name),
+            matchKeys: [...new Set([...author.matchKeys, authorMatchKey(name)])],
+          }),
+          notes: data.notes !== undefined ? data.notes || null : undefined,
+        },
+      });
+
+      if (renamed) {
+        const contributions = await tx.bookContributor.findMany({
+          where: { authorId },
+          select: { bookId: true },
+        });
+        for (const bookId of new Set(contributions.map((c) => c.bookId))) {
+          await this.refreshAuthorLine(tx, bookId);
+        }
+      }
+
+      return updated;
+    });
+
+    await logger.info(LogAction.UPDATE_AUTHOR, {
+      authorId,
+      previousName: author.name,
+      changes: data,
+    }, userId);
+
+    return updatedAuthor;
+  }
+
+  /**
+   * Merge other records for the same person into this one (Librarian)
+   * Their books move over, their names become variants, and the merged records are deleted
+   * PERSISTENCE: Updates AUTHOR and BOOK_CONTRIBUTOR, deletes the merged AUTHOR rows, logs to SYSTEM_LOG
+   */
+  async mergeAuthors(targetId: number, sourceIds: number[], userId: number) {
+    const ids = [...new Set(sourceIds)].filter((id) => id !== targetId);
+    if (ids.length === 0) {
+      throw new Error('Choose at least one other author to merge');
+    }
+
+    const target = await prisma.author.findUnique({ where: { id: targetId } });
+    if (!target) {
+      throw new Error('Author not found');
+    }
+
+    const sources = await prisma.author.findMany({ where: { id: { in: ids } } });
+    if (sources.length !== ids.length) {
+      throw new Error('One or more authors to merge were not found');
+    }
+
+    const merged = await prisma.$transaction(async (tx) => {
+      const contributions = await tx.bookContributor.findMany({
+        where: { authorId: { in: ids } },
+      });
+      const existing = await tx.bookContributor.findMany({
+        where: { authorId: targetId },
+      });
+
+      for (const contribution of contributions) {
+        // A book already crediting the target in this role keeps just that credit
+        const duplicate = existing.some((e) => e.bookId === contribution.bookId && e.role === contribution.role);
+        if (duplicate) {
+          await tx.bookContributor.delete({ where: { id: contribution.id } });
+        } else {
+          await tx.bookContributor.update({
+            where: { id: contribution.id },
+            data: { authorId: targetId },
+          });
+          existing.push({ ...contribution, authorId: targetId });
+        }
+      }
+
+      const names = sources.flatMap((s) => [s.name, ...s.variants]);
+      const updated = await tx.author.update({
+        where: { id: targetId },
+        data: {
+          variants: [...new Set([...target.variants, ...names])].filter((v) => v !== target.name),
+          matchKeys: [...new Set([...target.matchKeys, ...sources.flatMap((s) => s.matchKeys)])],
+          notes: [target.notes, ...sources.map((s) => s.notes)].filter(Boolean).join('\n\n') || null,
+        },
+      });
+
+      await tx.author.deleteMany({ where: { id: { in: ids } } });
+
+      for (const bookId of new Set(contributions.map((c) => c.bookId))) {
+        await this.refreshAuthorLine(tx, bookId);
+      }
+
+      return { author: updated, booksMoved: new Set(contributions.map((c) => c.bookId)).size };
+    });
+
+    await logger.info(LogAction.MERGE_AUTHORS, {
+      targetId,
+      targetName: target.name,
+      merged: sources.map((s) => ({ id: s.id, name: s.name })),
+      booksMoved: merged.booksMoved,
+    }, userId);
+
+    return merged;
+  }
+
+  /**
+   * Helper: Rebuild a book's author line from its contributors
+   * Authors are listed by name; a book with none (an edited anthology) lists its other contributors with their role
+   */
+  private async refreshAuthorLine(tx: Prisma.TransactionClient, bookId: number) {
+    const contributors = await tx.bookContributor.findMany({
+      where: { bookId },
+      include: contributionInclude,
+      orderBy: { position: 'asc' },
+    });
+
+    const authors = contributors.filter((c) => c.role === 'author');
+    const line = authors.length > 0
+      ? authors.map((c) => c.author.name).join('; ')
+      : contributors.map((c) => `${c.author.name} (${c.role})`).join('; ');
+
+    return tx.book.update({
+      where: { id: bookId },
+      data: { author: line.substring(0, 255) },
+    });
+  }
+
+  /**
+   * Helper: Other records that may be the same person - same surname, and first names that agree
+   * allowing for initials ("J. Smith" and "John Smith", but not "Jane Smith" and "John Smith")
+   */
+  private async findPossibleVariants(author: { id: number; name: string }) {
+    const words = authorMatchKey(author.name).split(' ');
+    const surname = words[words.length - 1];
+    if (!surname || words.length < 2) {
+      return [];
+    }
+
+    const candidates = await prisma.author.findMany({
+      where: {
+        id: { not: author.id },
+        name: { contains: surname, mode: 'insensitive' },
+      },
+      include: {
+        _count: { select: { contributions: true } },
+      },
+      take: 50,
+    });
+
+    const given = words[0];
+    return candidates.filter((candidate) => {
+      const other = authorMatchKey(candidate.name).split(' ');
+      if (other[other.length - 1] !== surname || other.length < 2) {
+        return false;
+      }
+      const otherGiven = other[0];
+      return given === otherGiven
+        || (given.length === 1 && otherGiven.startsWith(given))
+        || (otherGiven.length === 1 && given.startsWith(otherGiven));
+    });
+  }
+}
+
+export default new AuthorService();
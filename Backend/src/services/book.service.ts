@@ -4,11 +4,16 @@
 import prisma from '../config/database';
 import { logger, LogAction } from '../utils/logger';
 import { generateBookBarcode, generateRFIDTag } from '../utils/idGenerator';
+import { isbnLookupForms, normalizeIsbn } from '../utils/isbn';
+import branchService from './branch.service';
+import authorService, { ContributorInput, contributorSearchWhere, splitAuthorLine } from './author.service';
+import { BookMetadata, ENRICHABLE_FIELDS, getMetadataProvider } from './metadata-provider.service';
 
-interface CreateBookData {
+export interface CreateBookData {
   title: string;
-  author: string;
-  isbn: string;
+  author: string; // Author line; split on ";" into contributors unless contributors are given
+  contributors?: ContributorInput[];
+  isbn: string; // ISBN-10 or ISBN-13 in any form; stored as canonical ISBN-13
   publishedYear?: number;
   category: string;
   publisher?: string;
@@ -17,47 +22,142 @@ interface CreateBookData {
   bookType?: string;
   totalCopies?: number;
   availableCopies?: number;
+  enrichedFields?: string[]; // Fields the librarian kept as prefilled from a metadata lookup
+  metadataSource?: string; // Provider those fields came from
 }
 
-interface CreateBookCopyData {
+// Copy conditions from best to worst
+export const COPY_CONDITIONS = ['new', 'good', 'fair', 'damaged', 'lost'];
+
+/**
+ * True when a condition is worse than another one
+ */
+export function isWorseCondition(condition: string, than: string): boolean {
+  return COPY_CONDITIONS.indexOf(condition) > COPY_CONDITIONS.indexOf(than);
+}
+
+// How a copy circulates: standard day-based loans, short loans measured in hours, or in-library use only
+export const COPY_LOAN_TYPES = ['standard', 'short_loan', 'reference'];
+
+export interface CreateBookCopyData {
   bookId: number;
+  barcode?: string; // Keep a barcode already on the item (catalog imports); generated when omitted
+  loanType?: string;
+  homeBranchId?: number; // Defaults to the branch of the librarian adding the copy
   condition?: string;
   location?: string;
   notes?: string;
 }
 
+export interface BookSearchParams {
+  search?: string;
+  category?: string;
+  author?: string;
+  bookType?: string;
+}
+
+/**
+ * Build the book filter shared by catalog search and catalog export
+ */
+export function buildBookSearchWhere(params: BookSearchParams) {
+  const where: any = {};
+
+  // Search across multiple fields
+  if (params.search) {
+    where.OR = [
+      { title: { contains: params.search, mode: 'insensitive' } },
+      { author: { contains: params.search, mode: 'insensitive' } },
+      contributorSearchWhere(params.search),
+      { isbn: { contains: params.search, mode: 'insensitive' } },
+      { category: { contains: params.search, mode: 'insensitive' } },
+      { description: { contains: params.search, mode: 'insensitive' } },
+    ];
+  }
+
+  // Filter by category
+  if (params.category) {
+    where.category = params.category;
+  }
+
+  // Filter by author, matching any contributor
+  if (params.author) {
+    where.AND = [{
+      OR: [
+        { author: { contains: params.author, mode: 'insensitive' } },
+        contributorSearchWhere(params.author),
+      ],
+    }];
+  }
+
+  // Filter by book type
+  if (params.bookType) {
+    where.bookType = params.bookType;
+  }
+
+  return where;
+}
+
 class BookService {
   /**
    * Create a new book
    * PERSISTENCE: Stores in BOOK table, logs to SYSTEM_LOG
    */
   async createBook(data: CreateBookData, userId: number) {
+    const isbn = normalizeIsbn(data.isbn);
+
     // Check if ISBN already exists
     const existingBook = await prisma.book.findUnique({
-      where: { isbn: data.isbn },
+      where: { isbn },
     });
 
     if (existingBook) {
       throw new Error('Book with this ISBN already exists');
     }
 
-    // Create book
-    const book = await prisma.book.create({
-      data: {
-        title: data.title,
-        author: data.author,
-        isbn: data.isbn,
-        publishedYear: data.publishedYear,
-        category: data.category,
-        publisher: data.publisher,
-        description: data.description,
-        coverImageUrl: data.coverImageUrl,
-        bookType: data.bookType || 'physical',
-        totalCopies: data.totalCopies || 0,
-        availableCopies: data.availableCopies || 0,
-      },
+    const enrichedFields = (data.enrichedFields ?? []).filter((field) =>
+      ENRICHABLE_FIELDS.includes(field as keyof BookMetadata)
+    );
+
+    // Without a contributor list the author line is split here; a guess at its commas is flagged for review
+    const authorLine = splitAuthorLine(data.author);
+
+    // Create book with its contributors
+    const book = await prisma.$transaction(async (tx) => {
+      const created = await tx.book.create({
+        data: {
+          title: data.title,
+          author: data.author,
+          isbn,
+          publishedYear: data.publishedYear,
+          category: data.category,
+          publisher: data.publisher,
+          description: data.description,
+          coverImageUrl: data.coverImageUrl,
+          bookType: data.bookType || 'physical',
+          totalCopies: data.totalCopies || 0,
+          availableCopies: data.availableCopies || 0,
+          enrichedFields,
+          metadataSource: enrichedFields.length > 0 ? data.metadataSource || null : null,
+          enrichedAt: enrichedFields.length > 0 ? new Date() : null,
+        },
+      });
+
+      return authorService.setBookContributors(
+        tx,
+        created.id,
+        data.contributors ?? authorLine.names.map((name) => ({ name }))
+      );
     });
 
+    if (!data.contributors && authorLine.ambiguous) {
+      await logger.warn(LogAction.CREATE_BOOK, {
+        bookId: book.id,
+        author: data.author,
+        credited: authorLine.names,
+        message: 'Author line may have been split at the wrong comma; check its author records',
+      }, userId);
+    }
+
     // Log to SYSTEM_LOG
     await logger.info(LogAction.CREATE_BOOK, {
       bookId: book.id,
@@ -80,30 +180,131 @@ class BookService {
       throw new Error('Book not found');
     }
 
+    // Enrichment tracking is only changed by enrichBook and by the hand edits below
+    const { enrichedFields: _enrichedFields, metadataSource: _metadataSource, contributors, ...changes } = data;
+
+    if (changes.isbn) {
+      changes.isbn = normalizeIsbn(changes.isbn);
+    }
+
+    // A field typed over by hand is no longer an enriched value
+    const handEdited = book.enrichedFields.filter((field) =>
+      field in changes && String(changes[field as keyof BookMetadata] ?? '') !== String(book[field as keyof BookMetadata] ?? '')
+    );
+
     // If ISBN is being changed, check for duplicates
-    if (data.isbn && data.isbn !== book.isbn) {
+    if (changes.isbn && changes.isbn !== book.isbn) {
       const existingBook = await prisma.book.findUnique({
-        where: { isbn: data.isbn },
+        where: { isbn: changes.isbn },
       });
       if (existingBook) {
         throw new Error('Another book with this ISBN already exists');
       }
     }
 
-    const updatedBook = await prisma.book.update({
-      where: { id: bookId },
-      data,
+    const updatedBook = await prisma.$transaction(async (tx) => {
+      const updated = await tx.book.update({
+        where: { id: bookId },
+        data: {
+          ...changes,
+          ...(handEdited.length > 0 && {
+            enrichedFields: book.enrichedFields.filter((field) => !handEdited.includes(field)),
+          }),
+        },
+      });
+
+      // Contributors given in full win; otherwise an edited author line re-credits the authors
+      if (contributors) {
+        return authorService.setBookContributors(tx, bookId, contributors);
+      }
+      if (changes.author && changes.author !== book.author) {
+        return authorService.setBookAuthorsFromText(tx, bookId, changes.author);
+      }
+      return updated;
     });
 
     await logger.info(LogAction.UPDATE_BOOK, {
       bookId,
-      changes: data,
+      changes: contributors ? { ...changes, contributors } : changes,
       updatedBy: userId,
     }, userId);
 
     return updatedBook;
   }
 
+  /**
+   * Look up bibliographic metadata for an ISBN from the configured provider, to prefill the create form
+   */
+  async lookupMetadata(isbn: string) {
+    const isbn13 = normalizeIsbn(isbn);
+    const provider = getMetadataProvider();
+    const metadata = await provider.lookupIsbn(isbn13);
+
+    if (!metadata || Object.keys(metadata).length === 0) {
+      throw new Error(`No metadata found for ISBN ${isbn13}`);
+    }
+
+    return {
+      isbn: isbn13,
+      provider: provider.name,
+      metadata,
+    };
+  }
+
+  /**
+   * Enrich an existing book from the metadata provider
+   * Empty fields and fields enrichment filled before are updated; hand-entered values are kept unless overwrite
+   * PERSISTENCE: Updates BOOK table, logs to SYSTEM_LOG
+   */
+  async enrichBook(bookId: number, userId: number, overwrite: boolean = false) {
+    const book = await prisma.book.findUnique({ where: { id: bookId } });
+
+    if (!book) {
+      throw new Error('Book not found');
+    }
+
+    const { provider, metadata } = await this.lookupMetadata(book.isbn);
+
+    const updates: BookMetadata = {};
+    for (const field of ENRICHABLE_FIELDS) {
+      const value = metadata[field];
+      const current = book[field];
+      const replaceable = current === null || current === '' || book.enrichedFields.includes(field) || overwrite;
+
+      if (value !== undefined && replaceable && value !== current) {
+        (updates as Record<string, unknown>)[field] = value;
+      }
+    }
+
+    const fields = Object.keys(updates);
+    if (fields.length === 0) {
+      return { book, provider, fields };
+    }
+
+    const updatedBook = await prisma.$transaction(async (tx) => {
+      const updated = await tx.book.update({
+        where: { id: bookId },
+        data: {
+          ...updates,
+          enrichedFields: [...new Set([...book.enrichedFields, ...fields])],
+          metadataSource: provider,
+          enrichedAt: new Date(),
+        },
+      });
+
+      return updates.author ? authorService.setBookAuthorsFromText(tx, bookId, updates.author) : updated;
+    });
+
+    await logger.info(LogAction.ENRICH_BOOK, {
+      bookId,
+      provider,
+      fields,
+      overwrite,
+    }, userId);
+
+    return { book: updatedBook, provider, fields };
+  }
+
   /**
    * Delete book (soft delete by checking if copies exist)
    * PERSISTENCE: Deletes from BOOK table, logs to SYSTEM_LOG
@@ -137,7 +338,16 @@ class BookService {
     return prisma.book.findUnique({
       where: { id: bookId },
       include: {
-        bookCopies: true,
+        contributors: {
+          include: { author: true },
+          orderBy: { position: 'asc' },
+        },
+        bookCopies: {
+          include: {
+            homeBranch: true,
+            currentBranch: true,
+          },
+        },
         reservations: {
           where: { status: 'active' },
           include: {
@@ -157,14 +367,28 @@ class BookService {
     });
   }
 
+  /**
+   * Find a book by ISBN-10 or ISBN-13, hyphenated or not
+   */
+  async getBookByIsbn(isbn: string) {
+    const forms = isbnLookupForms(isbn);
+    const books = await prisma.book.findMany({
+      where: { isbn: { in: forms } },
+      include: {
+        bookCopies: {
+          where: { status: 'available' },
+        },
+      },
+    });
+
+    // Prefer the canonical record over an unconverted duplicate
+    return books.sort((a, b) => forms.indexOf(a.isbn) - forms.indexOf(b.isbn))[0] ?? null;
+  }
+
   /**
    * Search and filter books
    */
-  async searchBooks(params: {
-    search?: string;
-    category?: string;
-    author?: string;
-    bookType?: string;
+  async searchBooks(params: BookSearchParams & {
     page?: number;
     limit?: number;
   }) {
@@ -172,33 +396,7 @@ class BookService {
     const limit = params.limit || 20;
     const skip = (page - 1) * limit;
 
-    const where: any = {};
-
-    // Search across multiple fields
-    if (params.search) {
-      where.OR = [
-        { title: { contains: params.search, mode: 'insensitive' } },
-        { author: { contains: params.search, mode: 'insensitive' } },
-        { isbn: { contains: params.search, mode: 'insensitive' } },
-        { category: { contains: params.search, mode: 'insensitive' } },
-        { description: { contains: params.search, mode: 'insensitive' } },
-      ];
-    }
-
-    // Filter by category
-    if (params.category) {
-      where.category = params.category;
-    }
-
-    // Filter by author
-    if (params.author) {
-      where.author = { contains: params.author, mode: 'insensitive' };
-    }
-
-    // Filter by book type
-    if (params.bookType) {
-      where.bookType = params.bookType;
-    }
+    const where = buildBookSearchWhere(params);
 
     const [books, total] = await Promise.all([
       prisma.book.findMany({
@@ -248,9 +446,17 @@ class BookService {
       throw new Error('Book not found');
     }
 
-    // Generate unique barcode
-    let barcode = generateBookBarcode();
+    const homeBranchId = data.homeBranchId ?? (await branchService.getStaffBranchId(userId));
+    if (data.homeBranchId) {
+      await branchService.getBranchById(data.homeBranchId);
+    }
+
+    // Keep a supplied barcode, otherwise generate a unique one
+    let barcode = data.barcode || generateBookBarcode();
     let barcodeExists = await prisma.bookCopy.findUnique({ where: { barcode } });
+    if (barcodeExists && data.barcode) {
+      throw new Error(`Barcode ${data.barcode} is already in use`);
+    }
     while (barcodeExists) {
       barcode = generateBookBarcode();
       barcodeExists = await prisma.bookCopy.findUnique({ where: { barcode } });
@@ -271,6 +477,9 @@ class BookService {
         rfidTag,
         condition: data.condition || 'good',
         status: 'available',
+        loanType: data.loanType || 'standard',
+        homeBranchId,
+        currentBranchId: homeBranchId,
         location: data.location,
         notes: data.notes,
       },
@@ -300,6 +509,8 @@ class BookService {
   async updateBookCopy(copyId: number, data: {
     condition?: string;
     status?: string;
+    loanType?: string;
+    homeBranchId?: number;
     location?: string;
     notes?: string;
   }, userId: number) {
@@ -320,11 +531,32 @@ class BookService {
       }
     }
 
+    if (data.homeBranchId) {
+      await branchService.getBranchById(data.homeBranchId);
+    }
+
     const updatedCopy = await prisma.bookCopy.update({
       where: { id: copyId },
-      data,
+      data: {
+        ...data,
+        // A copy not yet placed anywhere is at its home branch
+        currentBranchId: data.homeBranchId && !copy.currentBranchId ? data.homeBranchId : undefined,
+      },
     });
 
+    // Keep the copy's condition history
+    if (data.condition && data.condition !== copy.condition) {
+      await prisma.copyConditionRecord.create({
+        data: {
+          bookCopyId: copyId,
+          previousCondition: copy.condition,
+          condition: data.condition,
+          notes: data.notes || null,
+          recordedBy: userId,
+        },
+      });
+    }
+
     // Update book's available copies count
     await this.updateBookCopyCount(copy.bookId);
 
@@ -376,6 +608,43 @@ class BookService {
     return { message: 'Book copy deleted successfully' };
   }
 
+  /**
+   * Get a copy's condition history, newest first, with the borrower behind each check-in
+   */
+  async getCopyConditionHistory(copyId: number) {
+    const copy = await prisma.bookCopy.findUnique({
+      where: { id: copyId },
+      include: { book: true },
+    });
+
+    if (!copy) {
+      throw new Error('Book copy not found');
+    }
+
+    const records = await prisma.copyConditionRecord.findMany({
+      where: { bookCopyId: copyId },
+      include: {
+        loan: {
+          include: {
+            member: {
+              include: {
+                user: {
+                  select: {
+                    username: true,
+                    loginId: true,
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      orderBy: { recordedAt: 'desc' },
+    });
+
+    return { bookCopy: copy, records };
+  }
+
   /**
    * Helper: Update book's total and available copies count
    */
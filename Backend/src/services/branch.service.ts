@@ -0,0 +1,460 @@
+// FILE: src/services/branch.service.ts
+// Library branches, staff home branches and copy transfers between buildings
+
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { logger, LogAction } from '../utils/logger';
+import { env } from '../config/env';
+
+export const TRANSFER_STATUSES = ['in_transit', 'received'];
+
+export interface BranchData {
+  code: string;
+  name: string;
+  address?: string | null;
+  isActive?: boolean;
+}
+
+export interface StartTransferData {
+  bookCopyId: number;
+  fromBranchId: number;
+  toBranchId: number;
+  reason: 'return' | 'reservation' | 'manual';
+  reservationId?: number;
+  sentBy?: number;
+}
+
+const transferInclude = {
+  bookCopy: {
+    include: { book: true },
+  },
+  fromBranch: true,
+  toBranch: true,
+  reservation: {
+    include: {
+      member: {
+        include: {
+          user: {
+            select: { username: true, loginId: true },
+          },
+        },
+      },
+    },
+  },
+} satisfies Prisma.CopyTransferInclude;
+
+class BranchService {
+  /**
+   * Get branches; inactive ones only for staff screens
+   */
+  async getBranches(includeInactive = false) {
+    return prisma.branch.findMany({
+      where: includeInactive ? {} : { isActive: true },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /**
+   * Get a branch by ID
+   */
+  async getBranchById(branchId: number) {
+    const branch = await prisma.branch.findUnique({
+      where: { id: branchId },
+    });
+
+    if (!branch) {
+      throw new Error('Branch not found');
+    }
+
+    return branch;
+  }
+
+  /**
+   * Get a branch that can take loans, returns and pickups
+   */
+  async getActiveBranch(branchId: number) {
+    const branch = await this.getBranchById(branchId);
+
+    if (!branch.isActive) {
+      throw new Error(`${branch.name} is not currently open for circulation`);
+    }
+
+    return branch;
+  }
+
+  /**
+   * Create a branch
+   * PERSISTENCE: Stores in BRANCH table, logs to SYSTEM_LOG
+   */
+  async createBranch(data: BranchData, userId: number) {
+    await this.assertCodeAvailable(data.code);
+
+    const branch = await prisma.branch.create({
+      data: {
+        code: data.code.toUpperCase(),
+        name: data.name,
+        address: data.address || null,
+        isActive: data.isActive ?? true,
+      },
+    });
+
+    await logger.info(LogAction.CREATE_BRANCH, {
+      branchId: branch.id,
+      code: branch.code,
+      name: branch.name,
+      createdBy: userId,
+    }, userId);
+
+    return branch;
+  }
+
+  /**
+   * Update a branch; closing one keeps its history but stops new pickups there
+   * PERSISTENCE: Updates BRANCH table, logs to SYSTEM_LOG
+   */
+  async updateBranch(branchId: number, data: Partial<BranchData>, userId: number) {
+    const branch = await this.getBranchById(branchId);
+
+    if (data.code && data.code.toUpperCase() !== branch.code) {
+      await this.assertCodeAvailable(data.code);
+    }
+
+    const updatedBranch = await prisma.branch.update({
+      where: { id: branchId },
+      data: {
+        code: data.code ? data.code.toUpperCase() : undefined,
+        name: data.name,
+        address: data.address,
+        isActive: data.isActive,
+      },
+    });
+
+    await logger.info(LogAction.UPDATE_BRANCH, {
+      branchId,
+      changes: data,
+      updatedBy: userId,
+    }, userId);
+
+    return updatedBranch;
+  }
+
+  /**
+   * Set the branch a librarian or admin works at
+   * PERSISTENCE: Updates USER table, logs to SYSTEM_LOG
+   */
+  async assignStaffBranch(userId: number, branchId: number | null, assignedBy: number) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.accountType === 'MEMBER') {
+      throw new Error('Only staff accounts belong to a branch');
+    }
+
+    if (branchId !== null) {
+      await this.getActiveBranch(branchId);
+    }
+
+    const updatedUser = await prisma.user.update({
+      where: { id: userId },
+      data: { branchId },
+      select: {
+        id: true,
+        username: true,
+        loginId: true,
+        accountType: true,
+        branch: true,
+      },
+    });
+
+    await logger.info(LogAction.ASSIGN_STAFF_BRANCH, {
+      userId,
+      previousBranchId: user.branchId,
+      branchId,
+      assignedBy,
+    }, assignedBy);
+
+    return updatedUser;
+  }
+
+  /**
+   * Branch a staff member works at, null for members and unassigned staff
+   */
+  async getStaffBranchId(userId: number): Promise<number | null> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { accountType: true, branchId: true },
+    });
+
+    return user && user.accountType !== 'MEMBER' ? user.branchId : null;
+  }
+
+  /**
+   * Start moving a copy to another branch
+   * Runs inside the caller's transaction; the copy stays in_transit until the receiving branch checks it in
+   */
+  async startTransfer(tx: Prisma.TransactionClient, data: StartTransferData) {
+    await tx.bookCopy.update({
+      where: { id: data.bookCopyId },
+      data: { status: 'in_transit' },
+    });
+
+    return tx.copyTransfer.create({
+      data: {
+        bookCopyId: data.bookCopyId,
+        fromBranchId: data.fromBranchId,
+        toBranchId: data.toBranchId,
+        reason: data.reason,
+        reservationId: data.reservationId ?? null,
+        sentBy: data.sentBy ?? null,
+      },
+      include: { fromBranch: true, toBranch: true },
+    });
+  }
+
+  /**
+   * Put a copy nobody is waiting for back into circulation: on the shelf where it is,
+   * or in transit when it is away from its home branch
+   * Runs inside the caller's transaction; returns the transfer when one was started
+   */
+  async shelveCopy(tx: Prisma.TransactionClient, bookCopyId: number, actedBy?: number) {
+    const copy = await tx.bookCopy.findUnique({
+      where: { id: bookCopyId },
+    });
+
+    if (copy?.homeBranchId && copy.currentBranchId && copy.homeBranchId !== copy.currentBranchId) {
+      return this.startTransfer(tx, {
+        bookCopyId,
+        fromBranchId: copy.currentBranchId,
+        toBranchId: copy.homeBranchId,
+        reason: 'return',
+        sentBy: actedBy,
+      });
+    }
+
+    await tx.bookCopy.update({
+      where: { id: bookCopyId },
+      data: { status: 'available' },
+    });
+
+    return null;
+  }
+
+  /**
+   * Move an available copy to another branch for good (Librarian/Admin)
+   * PERSISTENCE: Creates COPY_TRANSFER, updates BOOK_COPY and BOOK available count, logs to SYSTEM_LOG
+   */
+  async createTransfer(bookCopyId: number, toBranchId: number, sentBy: number) {
+    const copy = await prisma.bookCopy.findUnique({
+      where: { id: bookCopyId },
+    });
+
+    if (!copy) {
+      throw new Error('Book copy not found');
+    }
+
+    if (copy.status !== 'available') {
+      throw new Error(`Only copies on the shelf can be transferred (current status: ${copy.status})`);
+    }
+
+    const fromBranchId = copy.currentBranchId ?? copy.homeBranchId ?? (await this.getStaffBranchId(sentBy));
+
+    if (!fromBranchId) {
+      throw new Error('This copy is not at any branch yet. Set its home branch first.');
+    }
+
+    if (fromBranchId === toBranchId) {
+      throw new Error('The copy is already at that branch');
+    }
+
+    await this.getActiveBranch(toBranchId);
+
+    const transfer = await prisma.$transaction(async (tx) => {
+      // Take the copy off the shelf only if it is still there, so a loan or hold placed meanwhile wins
+      const taken = await tx.bookCopy.updateMany({
+        where: { id: bookCopyId, status: 'available' },
+        data: { status: 'in_transit' },
+      });
+
+      if (taken.count === 0) {
+        throw new Error('This copy is no longer on the shelf');
+      }
+
+      const created = await this.startTransfer(tx, {
+        bookCopyId,
+        fromBranchId,
+        toBranchId,
+        reason: 'manual',
+        sentBy,
+      });
+
+      await this.refreshAvailableCount(tx, copy.bookId);
+
+      return created;
+    });
+
+    await logger.info(LogAction.SEND_TRANSFER, {
+      transferId: transfer.id,
+      bookCopyId,
+      barcode: copy.barcode,
+      fromBranchId,
+      toBranchId,
+      reason: 'manual',
+      sentBy,
+    }, sentBy);
+
+    return transfer;
+  }
+
+  /**
+   * Get transfers, optionally those going to or leaving one branch
+   */
+  async getTransfers(filters: { status?: string; branchId?: number } = {}) {
+    const where: Prisma.CopyTransferWhereInput = {};
+
+    if (filters.status) {
+      where.status = filters.status;
+    }
+
+    if (filters.branchId) {
+      where.OR = [{ toBranchId: filters.branchId }, { fromBranchId: filters.branchId }];
+    }
+
+    return prisma.copyTransfer.findMany({
+      where,
+      include: transferInclude,
+      orderBy: [{ status: 'asc' }, { sentAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Check in a copy arriving at a branch (Librarian/Admin)
+   * A copy sent for a reservation goes onto that branch's pickup shelf; anything else goes back into circulation
+   * PERSISTENCE: Updates COPY_TRANSFER, BOOK_COPY and RESERVATION, logs to SYSTEM_LOG
+   */
+  async receiveTransfer(transferId: number, receivedBy: number) {
+    const transfer = await prisma.copyTransfer.findUnique({
+      where: { id: transferId },
+      include: transferInclude,
+    });
+
+    if (!transfer) {
+      throw new Error('Transfer not found');
+    }
+
+    if (transfer.status !== 'in_transit') {
+      throw new Error('This transfer has already been received');
+    }
+
+    const { default: reservationService } = await import('./reservation.service');
+    let nextReservation: Awaited<ReturnType<typeof reservationService.placeReleasedCopy>> = null;
+
+    // PERSISTENCE: Receive the transfer and pass the copy on in one transaction, so it is received only once
+    // and never shows as available before it has been offered to the queue
+    const readyReservation = await prisma.$transaction(async (tx) => {
+      const received = await tx.copyTransfer.updateMany({
+        where: { id: transferId, status: 'in_transit' },
+        data: {
+          status: 'received',
+          receivedBy,
+          receivedAt: new Date(),
+        },
+      });
+
+      if (received.count === 0) {
+        throw new Error('This transfer has already been received');
+      }
+
+      // Read after the claim: the reservation may have been cancelled while the copy was on its way
+      const { reservation } = await tx.copyTransfer.findUniqueOrThrow({
+        where: { id: transferId },
+        include: { reservation: true },
+      });
+      const forReservation = !!reservation && reservation.status === 'active' && reservation.bookCopyId === transfer.bookCopyId;
+
+      // On a shelf here until it is passed on below; a manual transfer moves the copy for good
+      await tx.bookCopy.update({
+        where: { id: transfer.bookCopyId },
+        data: {
+          currentBranchId: transfer.toBranchId,
+          homeBranchId: transfer.reason === 'manual' ? transfer.toBranchId : undefined,
+          status: forReservation ? 'reserved' : 'available',
+        },
+      });
+
+      if (!forReservation) {
+        // Next in the queue, on to its home branch, or onto the shelf here
+        nextReservation = await reservationService.placeReleasedCopy(tx, transfer.bookCopyId, transfer.bookCopy.bookId, receivedBy);
+        return null;
+      }
+
+      const readyAt = new Date();
+      const expiresAt = new Date(readyAt);
+      expiresAt.setDate(expiresAt.getDate() + env.RESERVATION_EXPIRY_DAYS);
+
+      return tx.reservation.update({
+        where: { id: reservation.id },
+        data: { readyAt, expiresAt },
+        include: {
+          member: { include: { user: true } },
+          book: true,
+          bookCopy: true,
+        },
+      });
+    });
+
+    await logger.info(LogAction.RECEIVE_TRANSFER, {
+      transferId,
+      bookCopyId: transfer.bookCopyId,
+      barcode: transfer.bookCopy.barcode,
+      fromBranchId: transfer.fromBranchId,
+      toBranchId: transfer.toBranchId,
+      reservationId: readyReservation?.id ?? nextReservation?.id,
+      receivedBy,
+    }, receivedBy);
+
+    const pickup = readyReservation ?? nextReservation;
+    if (pickup) {
+      await reservationService.notifyReadyForPickup(pickup, receivedBy);
+    }
+
+    return prisma.copyTransfer.findUnique({
+      where: { id: transferId },
+      include: transferInclude,
+    });
+  }
+
+  /**
+   * Helper: Recount a book's copies on the shelf
+   */
+  private async refreshAvailableCount(tx: Prisma.TransactionClient, bookId: number) {
+    const copies = await tx.bookCopy.findMany({
+      where: { bookId },
+    });
+    await tx.book.update({
+      where: { id: bookId },
+      data: {
+        availableCopies: copies.filter((c) => c.status === 'available').length,
+      },
+    });
+  }
+
+  /**
+   * Helper: Ensure no other branch uses a code
+   */
+  private async assertCodeAvailable(code: string) {
+    const existing = await prisma.branch.findUnique({
+      where: { code: code.toUpperCase() },
+    });
+
+    if (existing) {
+      throw new Error(`A branch with code ${code.toUpperCase()} already exists`);
+    }
+  }
+}
+
+export default new BranchService();
@@ -0,0 +1,841 @@
+// FILE: src/services/catalog.service.ts
+// Bulk catalog import and export in the formats catalogers work in (MARC21, MARCXML, CSV/TSV)
+
+import prisma from '../config/database';
+import { logger, LogAction } from '../utils/logger';
+import authorService, { ContributorInput } from './author.service';
+import bookService, { BookSearchParams, COPY_LOAN_TYPES, CreateBookData, buildBookSearchWhere } from './book.service';
+import branchService from './branch.service';
+import { generateBookBarcode, generateRFIDTag } from '../utils/idGenerator';
+import { parseDelimited, toCsv } from '../utils/csv';
+import { cleanIsbn, normalizeIsbn, parseIsbn } from '../utils/isbn';
+import {
+  MarcDataField,
+  MarcRecord,
+  getFields,
+  getSubfield,
+  parseMarcFile,
+  toMarcXml,
+  trimPunctuation,
+} from '../utils/marc';
+
+const DEFAULT_CATEGORY = 'General';
+
+// MARC relator terms ($e) and codes ($4) for the contributor roles books record
+const MARC_RELATORS: Record<string, string> = {
+  aut: 'author',
+  author: 'author',
+  edt: 'editor',
+  editor: 'editor',
+  trl: 'translator',
+  translator: 'translator',
+  ill: 'illustrator',
+  illustrator: 'illustrator',
+};
+const MAX_EXPORT_RECORDS = 10000;
+const MAX_CSV_ROWS = 5000;
+const MAX_COPIES_PER_ROW = 100;
+
+// Spreadsheet column names accepted for each book field, compared without case, spaces or underscores
+const CSV_COLUMNS: Record<string, string[]> = {
+  title: ['title'],
+  author: ['author'],
+  isbn: ['isbn'],
+  category: ['category', 'subject'],
+  publishedYear: ['publishedyear', 'year'],
+  publisher: ['publisher'],
+  description: ['description'],
+  copies: ['copies', 'quantity'],
+  loanType: ['loantype'],
+  branch: ['branch', 'branchcode'],
+  location: ['location', 'shelf'],
+};
+const REQUIRED_CSV_COLUMNS = ['title', 'author', 'isbn', 'category'];
+
+export interface ImportOptions {
+  homeBranchId?: number; // Branch for items whose record names no known branch
+}
+
+/**
+ * Outcome of one record in an import file
+ */
+export interface ImportRecordResult {
+  record: number; // 1-based position in the file
+  isbn: string | null;
+  title: string | null;
+  action: 'created' | 'updated' | 'rejected';
+  bookId: number | null;
+  copiesCreated: number;
+  messages: string[]; // Why it was rejected, or what was skipped on the way
+}
+
+export interface ImportReport {
+  filename: string;
+  format: string;
+  total: number;
+  created: number;
+  updated: number;
+  rejected: number;
+  copiesCreated: number;
+  records: ImportRecordResult[];
+}
+
+/**
+ * One spreadsheet row after validation; only rows without errors are imported
+ */
+export interface CsvImportRow {
+  row: number; // Line in the file, counting the header as row 1
+  isbn: string | null;
+  title: string | null;
+  category: string | null;
+  copies: number;
+  errors: string[];
+  warnings: string[];
+  bookId: number | null; // Set once committed
+}
+
+export interface CsvImportResult {
+  filename: string;
+  format: 'csv' | 'tsv';
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  failed: number;
+  booksCreated: number;
+  copiesCreated: number;
+  rows: CsvImportRow[];
+  errorCsv: string | null; // The failed rows with an "error" column, ready to fix and re-upload
+}
+
+/**
+ * A validated row ready to insert
+ */
+interface CsvBook {
+  result: CsvImportRow;
+  data: Omit<CreateBookData, 'contributors'>;
+  loanType: string;
+  homeBranchId: number | null;
+  location: string | null;
+}
+
+const duplicateBookSelect = {
+  id: true,
+  title: true,
+  author: true,
+  isbn: true,
+  publishedYear: true,
+  publisher: true,
+  bookType: true,
+  totalCopies: true,
+  createdAt: true,
+};
+
+/**
+ * Books that look like the same title catalogued more than once
+ * same_isbn: their ISBNs are the same ISBN in different forms (left over from before ISBNs were normalized)
+ * same_title_author: different ISBNs, but the same title and author once case, punctuation and subtitles are ignored
+ */
+export interface DuplicateGroup {
+  reason: 'same_isbn' | 'same_title_author';
+  key: string;
+  books: DuplicateBook[];
+}
+
+export interface DuplicateBook {
+  id: number;
+  title: string;
+  author: string;
+  isbn: string;
+  canonicalIsbn: string | null; // null when the stored ISBN is not a valid ISBN
+  publishedYear: number | null;
+  publisher: string | null;
+  bookType: string;
+  totalCopies: number;
+  createdAt: Date;
+}
+
+/**
+ * A physical item described in the record's holdings
+ */
+interface ImportItem {
+  barcode?: string;
+  branchCode?: string;
+  location?: string;
+}
+
+class CatalogService {
+  /**
+   * Import a binary MARC21 (.mrc) or MARCXML file (Librarian)
+   * Books are matched on ISBN: new ones are created, existing ones updated from the record.
+   * Holdings in 852 ($b branch code, $c shelf, $p barcode) and 949 ($m branch code, $l shelf, $i barcode)
+   * become copies; items whose barcode is already in the catalog are skipped so a file can be re-imported
+   * PERSISTENCE: Creates/updates BOOK and BOOK_COPY, logs to SYSTEM_LOG
+   */
+  async importMarc(buffer: Buffer, filename: string, userId: number, options: ImportOptions = {}): Promise<ImportReport> {
+    const { format, records: parsed } = parseMarcFile(buffer);
+    const results: ImportRecordResult[] = [];
+
+    for (let i = 0; i < parsed.length; i++) {
+      const entry = parsed[i];
+      const result: ImportRecordResult = {
+        record: i + 1,
+        isbn: null,
+        title: null,
+        action: 'rejected',
+        bookId: null,
+        copiesCreated: 0,
+        messages: [],
+      };
+
+      if (entry instanceof Error) {
+        result.messages.push(`Unreadable record: ${entry.message}`);
+        results.push(result);
+        continue;
+      }
+
+      try {
+        await this.importRecord(entry, result, userId, options);
+      } catch (error) {
+        // Item problems are noted as they happen, so this is the book itself failing
+        result.messages.push((error as Error).message);
+      }
+
+      results.push(result);
+    }
+
+    const report: ImportReport = {
+      filename,
+      format,
+      total: results.length,
+      created: results.filter((r) => r.action === 'created').length,
+      updated: results.filter((r) => r.action === 'updated').length,
+      rejected: results.filter((r) => r.action === 'rejected').length,
+      copiesCreated: results.reduce((sum, r) => sum + r.copiesCreated, 0),
+      records: results,
+    };
+
+    await logger.info(LogAction.IMPORT_CATALOG, {
+      filename,
+      format,
+      total: report.total,
+      created: report.created,
+      updated: report.updated,
+      rejected: report.rejected,
+      copiesCreated: report.copiesCreated,
+    }, userId);
+
+    return report;
+  }
+
+  /**
+   * Import books and copies from a CSV or TSV spreadsheet (Librarian)
+   * Every row is validated first: required fields, lengths, ISBN check digits, ISBNs already in the catalog
+   * or repeated in the file, publication year and copy counts. A dry run stops there and returns the diff;
+   * otherwise all valid rows are created in one transaction, each with its copies under generated barcodes.
+   * PERSISTENCE: Creates BOOK and BOOK_COPY rows (unless dryRun), logs to SYSTEM_LOG
+   */
+  async importCsv(
+    buffer: Buffer,
+    filename: string,
+    userId: number,
+    options: ImportOptions & { dryRun: boolean }
+  ): Promise<CsvImportResult> {
+    const { delimiter, rows } = parseDelimited(buffer.toString('utf8'));
+
+    if (rows.length < 2) {
+      throw new Error('The file has no rows below its header');
+    }
+
+    if (rows.length - 1 > MAX_CSV_ROWS) {
+      throw new Error(`A file can hold at most ${MAX_CSV_ROWS} rows; split it and upload the parts`);
+    }
+
+    const [header, ...dataRows] = rows;
+    const columns = this.mapCsvColumns(header);
+    const books = await this.validateCsvRows(dataRows, columns, options);
+    const results = books.map((b) => b.result);
+    const valid = books.filter((b) => b.result.errors.length === 0);
+
+    let copiesCreated = 0;
+    if (!options.dryRun && valid.length > 0) {
+      const defaultBranchId = options.homeBranchId ?? (await branchService.getStaffBranchId(userId));
+      copiesCreated = await this.insertCsvBooks(valid, defaultBranchId);
+
+      await logger.info(LogAction.IMPORT_CATALOG, {
+        filename,
+        format: delimiter === '\t' ? 'tsv' : 'csv',
+        total: results.length,
+        created: valid.length,
+        rejected: results.length - valid.length,
+        copiesCreated,
+        bookIds: valid.map((b) => b.result.bookId),
+      }, userId);
+    }
+
+    const failed = dataRows
+      .map((cells, i) => ({ cells, result: results[i] }))
+      .filter(({ result }) => result.errors.length > 0);
+
+    return {
+      filename,
+      format: delimiter === '\t' ? 'tsv' : 'csv',
+      dryRun: options.dryRun,
+      total: results.length,
+      valid: valid.length,
+      failed: failed.length,
+      booksCreated: options.dryRun ? 0 : valid.length,
+      copiesCreated,
+      rows: results,
+      errorCsv: failed.length > 0
+        ? toCsv([
+            [...header, 'error'],
+            ...failed.map(({ cells, result }) => [...header.map((_, c) => cells[c] ?? ''), result.errors.join('; ')]),
+          ])
+        : null,
+    };
+  }
+
+  /**
+   * Export the books matching a catalog search as MARCXML, with one 852 per copy
+   */
+  async exportMarcXml(params: BookSearchParams, userId: number) {
+    const books = await prisma.book.findMany({
+      where: buildBookSearchWhere(params),
+      include: {
+        bookCopies: {
+          include: { homeBranch: true },
+          orderBy: { id: 'asc' },
+        },
+        contributors: {
+          include: { author: true },
+          orderBy: { position: 'asc' },
+        },
+      },
+      orderBy: { id: 'asc' },
+      take: MAX_EXPORT_RECORDS,
+    });
+
+    await logger.info(LogAction.EXPORT_CATALOG, {
+      format: 'marcxml',
+      filters: params,
+      count: books.length,
+    }, userId);
+
+    return {
+      filename: `catalog-${new Date().toISOString().split('T')[0]}.xml`,
+      count: books.length,
+      xml: toMarcXml(books.map((book) => this.bookToMarc(book))),
+    };
+  }
+
+  /**
+   * List near-duplicate book records for a librarian to merge, and books whose ISBN is not a valid ISBN
+   */
+  async findDuplicates() {
+    const books = await prisma.book.findMany({
+      select: duplicateBookSelect,
+      orderBy: { id: 'asc' },
+    });
+
+    const withCanonical: DuplicateBook[] = books.map((book) => ({
+      ...book,
+      canonicalIsbn: parseIsbn(book.isbn)?.isbn13 ?? null,
+    }));
+    const byIsbn = new Map<string, DuplicateBook[]>();
+    const byTitle = new Map<string, DuplicateBook[]>();
+
+    for (const book of withCanonical) {
+      const isbnKey = book.canonicalIsbn ?? cleanIsbn(book.isbn);
+      byIsbn.set(isbnKey, [...(byIsbn.get(isbnKey) ?? []), book]);
+
+      const titleKey = `${this.matchTitle(book.title)} / ${this.matchAuthor(book.author)}`;
+      byTitle.set(titleKey, [...(byTitle.get(titleKey) ?? []), book]);
+    }
+
+    const groups: DuplicateGroup[] = [];
+    const isbnGroupOf = new Map<number, string>();
+
+    for (const [key, group] of byIsbn) {
+      if (group.length > 1) {
+        groups.push({ reason: 'same_isbn', key, books: group });
+        group.forEach((book) => isbnGroupOf.set(book.id, key));
+      }
+    }
+
+    for (const [key, group] of byTitle) {
+      // Skip groups the ISBN pass has already reported in full
+      const isbnKey = isbnGroupOf.get(group[0].id);
+      if (group.length > 1 && !(isbnKey && group.every((book) => isbnGroupOf.get(book.id) === isbnKey))) {
+        groups.push({ reason: 'same_title_author', key, books: group });
+      }
+    }
+
+    return {
+      scanned: books.length,
+      groups,
+      invalidIsbns: withCanonical.filter((book) => !book.canonicalIsbn),
+    };
+  }
+
+  /**
+   * Helper: Title reduced for duplicate matching - no case, punctuation, leading article or subtitle
+   */
+  private matchTitle(title: string): string {
+    return title
+      .toLowerCase()
+      .split(/\s*[:\/]\s*/)[0]
+      .replace(/[^\p{L}\p{N}\s]/gu, '')
+      .replace(/^(the|a|an)\s+/, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Helper: Author reduced to their sorted name words, so "Martin, Robert C." matches "Robert C. Martin"
+   * Initials are dropped because they are written too many ways ("J.K. Rowling", "Rowling, J. K.")
+   */
+  private matchAuthor(author: string): string {
+    return author
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length > 1)
+      .sort()
+      .join(' ');
+  }
+
+  /**
+   * Helper: Find which spreadsheet column holds each book field
+   */
+  private mapCsvColumns(header: string[]): Record<string, number> {
+    const normalized = header.map((name) => name.toLowerCase().replace(/[\s_-]/g, ''));
+    const columns: Record<string, number> = {};
+
+    for (const [field, aliases] of Object.entries(CSV_COLUMNS)) {
+      const index = normalized.findIndex((name) => aliases.includes(name));
+      if (index !== -1) {
+        columns[field] = index;
+      }
+    }
+
+    const missing = REQUIRED_CSV_COLUMNS.filter((field) => columns[field] === undefined);
+    if (missing.length > 0) {
+      throw new Error(`Missing required column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`);
+    }
+
+    return columns;
+  }
+
+  /**
+   * Helper: Validate every row against the catalog and the rest of the file
+   */
+  private async validateCsvRows(
+    dataRows: string[][],
+    columns: Record<string, number>,
+    options: ImportOptions
+  ): Promise<CsvBook[]> {
+    const cell = (cells: string[], field: string) =>
+      columns[field] !== undefined ? (cells[columns[field]] ?? '').trim() : '';
+
+    const isbns = dataRows.map((cells) => parseIsbn(cell(cells, 'isbn'))?.isbn13).filter((isbn): isbn is string => !!isbn);
+    const [existingBooks, categories, branches] = await Promise.all([
+      prisma.book.findMany({
+        where: { isbn: { in: isbns } },
+        select: { id: true, isbn: true },
+      }),
+      bookService.getCategories(),
+      prisma.branch.findMany(),
+    ]);
+
+    const existingIsbns = new Map(existingBooks.map((b) => [b.isbn, b.id]));
+    const knownCategories = new Set(categories.map((c) => c.toLowerCase()));
+    const branchesByCode = new Map(branches.map((b) => [b.code, b]));
+    const seenIsbns = new Map<string, number>();
+    const maxYear = new Date().getFullYear() + 1;
+
+    return dataRows.map((cells, i) => {
+      const row = i + 2;
+      const errors: string[] = [];
+      const warnings: string[] = [];
+
+      const title = cell(cells, 'title');
+      const author = cell(cells, 'author');
+      const isbnText = cell(cells, 'isbn');
+      const isbn = parseIsbn(isbnText)?.isbn13 ?? cleanIsbn(isbnText);
+      const category = cell(cells, 'category');
+      const yearText = cell(cells, 'publishedYear');
+      const copiesText = cell(cells, 'copies');
+      const loanType = cell(cells, 'loanType') || 'standard';
+      const branchCode = cell(cells, 'branch').toUpperCase();
+      const location = cell(cells, 'location');
+      const publisher = cell(cells, 'publisher');
+      const description = cell(cells, 'description');
+
+      if (!title) errors.push('Title is required');
+      else if (title.length > 500) errors.push('Title is longer than 500 characters');
+
+      if (!author) errors.push('Author is required');
+      else if (author.length > 255) errors.push('Author is longer than 255 characters');
+
+      if (!isbn) {
+        errors.push('ISBN is required');
+      } else if (!parseIsbn(isbn)) {
+        errors.push(`"${isbnText}" is not a valid ISBN-10 or ISBN-13`);
+      } else if (existingIsbns.has(isbn)) {
+        errors.push(`ISBN ${isbn} is already in the catalog (book #${existingIsbns.get(isbn)})`);
+      } else if (seenIsbns.has(isbn)) {
+        errors.push(`ISBN ${isbn} repeats row ${seenIsbns.get(isbn)}`);
+      } else {
+        seenIsbns.set(isbn, row);
+      }
+
+      if (!category) {
+        errors.push('Category is required');
+      } else if (category.length > 100) {
+        errors.push('Category is longer than 100 characters');
+      } else if (!knownCategories.has(category.toLowerCase())) {
+        warnings.push(`New category "${category}"`);
+      }
+
+      const publishedYear = yearText ? Number(yearText) : undefined;
+      if (publishedYear !== undefined && (!Number.isInteger(publishedYear) || publishedYear < 1000 || publishedYear > maxYear)) {
+        errors.push(`Year must be a whole number from 1000 to ${maxYear}`);
+      }
+
+      const copies = copiesText ? Number(copiesText) : 1;
+      if (!Number.isInteger(copies) || copies < 0 || copies > MAX_COPIES_PER_ROW) {
+        errors.push(`Copies must be a whole number from 0 to ${MAX_COPIES_PER_ROW}`);
+      }
+
+      if (!COPY_LOAN_TYPES.includes(loanType)) {
+        errors.push(`Loan type must be one of: ${COPY_LOAN_TYPES.join(', ')}`);
+      }
+
+      let homeBranchId = options.homeBranchId ?? null;
+      if (branchCode) {
+        const branch = branchesByCode.get(branchCode);
+        if (!branch) {
+          errors.push(`Unknown branch code "${branchCode}"`);
+        } else {
+          homeBranchId = branch.id;
+        }
+      }
+
+      if (location.length > 100) errors.push('Location is longer than 100 characters');
+      if (publisher.length > 255) errors.push('Publisher is longer than 255 characters');
+      if (description.length > 5000) errors.push('Description is longer than 5000 characters');
+
+      return {
+        result: {
+          row,
+          isbn: isbn || null,
+          title: title || null,
+          category: category || null,
+          copies: Number.isInteger(copies) ? copies : 0,
+          errors,
+          warnings,
+          bookId: null,
+        },
+        data: {
+          title,
+          author,
+          isbn,
+          category,
+          publishedYear,
+          publisher: publisher || undefined,
+          description: description || undefined,
+        },
+        loanType,
+        homeBranchId,
+        location: location || null,
+      };
+    });
+  }
+
+  /**
+   * Helper: Create the validated books and their copies in one transaction, so a failure leaves nothing behind
+   * Returns the number of copies created
+   */
+  private async insertCsvBooks(books: CsvBook[], defaultBranchId: number | null) {
+    return prisma.$transaction(async (tx) => {
+      const barcodes = new Set<string>();
+      const newBarcode = async () => {
+        let barcode = generateBookBarcode();
+        while (barcodes.has(barcode) || (await tx.bookCopy.findUnique({ where: { barcode } }))) {
+          barcode = generateBookBarcode();
+        }
+        barcodes.add(barcode);
+        return barcode;
+      };
+
+      let copiesCreated = 0;
+      for (const { result, data, loanType, homeBranchId, location } of books) {
+        const created = await tx.book.create({
+          data: {
+            ...data,
+            bookType: 'physical',
+            totalCopies: result.copies,
+            availableCopies: result.copies,
+          },
+        });
+        result.bookId = created.id;
+        await authorService.setBookAuthorsFromText(tx, created.id, data.author);
+
+        const branchId = homeBranchId ?? defaultBranchId;
+        for (let i = 0; i < result.copies; i++) {
+          await tx.bookCopy.create({
+            data: {
+              bookId: created.id,
+              barcode: await newBarcode(),
+              rfidTag: generateRFIDTag(),
+              loanType,
+              homeBranchId: branchId,
+              currentBranchId: branchId,
+              location,
+            },
+          });
+        }
+        copiesCreated += result.copies;
+      }
+
+      return copiesCreated;
+    }, {
+      // Large donations take longer than the default interactive transaction allows
+      timeout: 120000,
+    });
+  }
+
+  /**
+   * Helper: Create or update the book a record describes, then add its items
+   */
+  private async importRecord(record: MarcRecord, result: ImportRecordResult, userId: number, options: ImportOptions) {
+    const book = this.marcToBook(record, result.messages);
+    result.isbn = book.isbn || null;
+    result.title = book.title || null;
+
+    const missing = [
+      !book.isbn && 'ISBN (020 $a)',
+      !book.title && 'title (245 $a)',
+      !book.author && 'author (100 $a)',
+    ].filter(Boolean);
+
+    if (missing.length > 0) {
+      throw new Error(`Missing ${missing.join(', ')}`);
+    }
+
+    book.isbn = normalizeIsbn(book.isbn);
+
+    const existing = await prisma.book.findUnique({
+      where: { isbn: book.isbn },
+    });
+
+    if (existing) {
+      await bookService.updateBook(existing.id, {
+        title: book.title,
+        author: book.author,
+        category: book.category,
+        publishedYear: book.publishedYear ?? undefined,
+        publisher: book.publisher ?? undefined,
+        description: book.description ?? undefined,
+        contributors: book.contributors,
+      }, userId);
+      result.action = 'updated';
+      result.bookId = existing.id;
+    } else {
+      const created = await bookService.createBook(book, userId);
+      result.action = 'created';
+      result.bookId = created.id;
+    }
+
+    for (const item of this.getItems(record)) {
+      await this.importItem(item, result, userId, options);
+    }
+  }
+
+  /**
+   * Helper: Add one holdings item as a copy, noting anything skipped
+   */
+  private async importItem(item: ImportItem, result: ImportRecordResult, userId: number, options: ImportOptions) {
+    if (item.barcode) {
+      const existingCopy = await prisma.bookCopy.findUnique({
+        where: { barcode: item.barcode },
+      });
+
+      if (existingCopy) {
+        result.messages.push(existingCopy.bookId === result.bookId
+          ? `Item ${item.barcode} is already in the catalog`
+          : `Item ${item.barcode} skipped: barcode belongs to another book`);
+        return;
+      }
+    }
+
+    let homeBranchId = options.homeBranchId;
+    if (item.branchCode) {
+      const branch = await prisma.branch.findUnique({
+        where: { code: item.branchCode.toUpperCase() },
+      });
+
+      if (branch) {
+        homeBranchId = branch.id;
+      } else {
+        result.messages.push(`Unknown branch code "${item.branchCode}"${item.barcode ? ` on item ${item.barcode}` : ''}`);
+      }
+    }
+
+    try {
+      await bookService.createBookCopy({
+        bookId: result.bookId!,
+        barcode: item.barcode,
+        homeBranchId,
+        location: item.location?.substring(0, 100),
+      }, userId);
+      result.copiesCreated++;
+    } catch (error) {
+      result.messages.push(`Item ${item.barcode || 'without barcode'} not added: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Helper: Map 020/100/245/260/264/520/650 onto book fields
+   */
+  private marcToBook(record: MarcRecord, messages: string[]): CreateBookData {
+    // 020 $a may carry a qualifier: "0306406152 (pbk.)"; with several 020s the first valid ISBN wins
+    const isbns = getFields(record, '020')
+      .map((f) => getSubfield(f, 'a')?.split(/\s/)[0])
+      .filter((value): value is string => !!value);
+    const isbn = isbns.map((value) => parseIsbn(value)?.isbn13).find(Boolean) ?? cleanIsbn(isbns[0] ?? '');
+
+    const title245 = getFields(record, '245')[0];
+    const title = [trimPunctuation(getSubfield(title245, 'a')), trimPunctuation(getSubfield(title245, 'b'))]
+      .filter(Boolean)
+      .join(': ');
+
+    const contributors = this.marcContributors(record);
+    const author = contributors
+      .filter((c) => c.role === 'author')
+      .map((c) => c.name)
+      .join('; ');
+
+    // RDA records use 264 with second indicator 1 for publication; older ones use 260
+    const imprint = getFields(record, '264').find((f) => f.ind2 === '1') ?? getFields(record, '260')[0];
+    const year = getSubfield(imprint, 'c')?.match(/\d{4}/)?.[0];
+
+    const category = trimPunctuation(getSubfield(getFields(record, '650')[0], 'a'));
+    if (!category) {
+      messages.push(`No subject (650 $a); filed under ${DEFAULT_CATEGORY}`);
+    }
+
+    const description = getFields(record, '520')
+      .map((f) => getSubfield(f, 'a'))
+      .filter(Boolean)
+      .join('\n\n');
+
+    return {
+      isbn: isbn.substring(0, 20),
+      title: title.substring(0, 500),
+      author: author?.substring(0, 255) || '',
+      category: (category || DEFAULT_CATEGORY).substring(0, 100),
+      publisher: trimPunctuation(getSubfield(imprint, 'b'))?.substring(0, 255),
+      publishedYear: year ? parseInt(year) : undefined,
+      description: description ? description.substring(0, 5000) : undefined,
+      contributors: author ? contributors : undefined,
+    };
+  }
+
+  /**
+   * Helper: Contributors from the main entry (100/110) and added entries (700/710), with roles from
+   * relator terms ($e) or codes ($4); unrecognised or missing relators are credited as author
+   */
+  private marcContributors(record: MarcRecord): ContributorInput[] {
+    const main = getFields(record, '100')[0] ?? getFields(record, '110')[0];
+    const fields = [...(main ? [main] : []), ...getFields(record, '700'), ...getFields(record, '710')];
+
+    return fields
+      .map((f) => {
+        const relator = trimPunctuation(getSubfield(f, 'e') ?? getSubfield(f, '4'))?.toLowerCase();
+        return {
+          name: trimPunctuation(getSubfield(f, 'a'))?.substring(0, 255),
+          role: (relator && MARC_RELATORS[relator]) || 'author',
+        };
+      })
+      .filter((c): c is { name: string; role: string } => !!c.name);
+  }
+
+  /**
+   * Helper: Holdings items from 852 (standard location) and 949 (local item) fields
+   */
+  private getItems(record: MarcRecord): ImportItem[] {
+    const fromField = (field: MarcDataField, barcode: string, branch: string, location: string): ImportItem => ({
+      barcode: getSubfield(field, barcode),
+      branchCode: getSubfield(field, branch),
+      location: getSubfield(field, location),
+    });
+
+    return [
+      ...getFields(record, '852').map((f) => fromField(f, 'p', 'b', 'c')),
+      ...getFields(record, '949').map((f) => fromField(f, 'i', 'm', 'l')),
+    ];
+  }
+
+  /**
+   * Helper: Build the MARC record for a book and its copies
+   */
+  private bookToMarc(book: {
+    id: number;
+    isbn: string;
+    title: string;
+    author: string;
+    category: string;
+    publisher: string | null;
+    publishedYear: number | null;
+    description: string | null;
+    updatedAt: Date;
+    contributors: { role: string; author: { name: string } }[];
+    bookCopies: { barcode: string; location: string | null; homeBranch: { code: string } | null }[];
+  }): MarcRecord {
+    const field = (tag: string, ind1: string, ind2: string, subfields: [string, string | null | undefined][]): MarcDataField => ({
+      tag,
+      ind1,
+      ind2,
+      subfields: subfields
+        .filter(([, value]) => value !== null && value !== undefined && value !== '')
+        .map(([code, value]) => ({ code, value: value as string })),
+    });
+
+    const imprint: [string, string | null | undefined][] = [
+      ['b', book.publisher],
+      ['c', book.publishedYear?.toString()],
+    ];
+
+    // The first author is the main entry (100); everyone else is an added entry (700) with their role
+    const [main, ...added] = book.contributors.length > 0
+      ? [...book.contributors].sort((a, b) => Number(b.role === 'author') - Number(a.role === 'author'))
+      : [{ role: 'author', author: { name: book.author } }];
+
+    const dataFields = [
+      field('020', ' ', ' ', [['a', book.isbn]]),
+      field('100', '1', ' ', [['a', main.author.name], ['e', main.role === 'author' ? null : main.role]]),
+      ...added.map((c) => field('700', '1', ' ', [['a', c.author.name], ['e', c.role]])),
+      field('245', '1', '0', [['a', book.title]]),
+      field('264', ' ', '1', imprint),
+      field('520', ' ', ' ', [['a', book.description]]),
+      field('650', ' ', '4', [['a', book.category]]),
+      ...book.bookCopies.map((copy) => field('852', ' ', ' ', [
+        ['b', copy.homeBranch?.code],
+        ['c', copy.location],
+        ['p', copy.barcode],
+      ])),
+    ].filter((f) => f.subfields.length > 0);
+
+    return {
+      // Leader/09 "a": the export is UTF-8
+      leader: '00000nam a2200000   4500',
+      controlFields: [
+        { tag: '001', value: book.id.toString() },
+        { tag: '005', value: book.updatedAt.toISOString().replace(/[-:T]/g, '').substring(0, 14) + '.0' },
+      ],
+      dataFields,
+    };
+  }
+}
+
+export default new CatalogService();
@@ -0,0 +1,430 @@
+// FILE: src/services/circulation-desk.service.ts
+// Scanner-driven check-out and check-in for the circulation desk
+
+import prisma from '../config/database';
+import loanService, { ReturnLoanOptions } from './loan.service';
+import { fineService } from './fine.service';
+import { logger, LogAction } from '../utils/logger';
+
+export interface DeskSlip {
+  type: 'checkout' | 'checkin';
+  printedAt: Date;
+  text: string; // Plain-text receipt, fixed width for slip printers
+}
+
+/**
+ * Outcome of one scanned item in a batch check-in
+ */
+export interface BatchCheckInItem {
+  code: string;
+  status: 'returned' | 'found' | 'not_on_loan' | 'not_found' | 'error';
+  loanId: number | null;
+  bookTitle: string | null;
+  memberName: string | null;
+  isOverdue: boolean;
+  fineId: number | null;
+  fineAmount: number;
+  reservationAlert: ReturnType<CirculationDeskService['buildReservationAlert']>;
+  message: string;
+}
+
+const SLIP_WIDTH = 40;
+
+class CirculationDeskService {
+  /**
+   * Find a copy by scanning its barcode or RFID tag
+   */
+  async findCopyByCode(code: string) {
+    const bookCopy = await prisma.bookCopy.findFirst({
+      where: {
+        OR: [{ barcode: code }, { rfidTag: code }],
+      },
+      include: { book: true },
+    });
+
+    if (!bookCopy) {
+      throw new Error(`No book copy found for barcode or RFID tag "${code}"`);
+    }
+
+    return bookCopy;
+  }
+
+  /**
+   * Find a member by their login ID or student/staff ID card
+   */
+  async findMemberByCode(code: string) {
+    const member = await prisma.member.findFirst({
+      where: {
+        OR: [
+          { studentOrStaffId: { equals: code, mode: 'insensitive' } },
+          { user: { loginId: { equals: code, mode: 'insensitive' } } },
+        ],
+      },
+      include: { user: true },
+    });
+
+    if (!member) {
+      throw new Error(`No member found for ID "${code}"`);
+    }
+
+    return member;
+  }
+
+  /**
+   * Build the desk view of a member: who they are, what blocks them and what they have out
+   */
+  async getMemberSummary(memberId: number) {
+    const member = await prisma.member.findUnique({
+      where: { id: memberId },
+      include: {
+        user: true,
+        holds: {
+          where: { status: 'active' },
+          orderBy: { placedAt: 'desc' },
+        },
+        loans: {
+          where: { returnDatetime: null },
+          include: {
+            bookCopy: {
+              include: { book: true },
+            },
+          },
+          orderBy: { dueDatetime: 'asc' },
+        },
+      },
+    });
+
+    if (!member) {
+      throw new Error('Member not found');
+    }
+
+    const unpaidFines = await fineService.getMemberUnpaidFines(memberId);
+    const totalUnpaid = await fineService.getMemberTotalUnpaid(memberId);
+    const now = new Date();
+
+    return {
+      member: {
+        id: member.id,
+        username: member.user.username,
+        email: member.user.email,
+        loginId: member.user.loginId,
+        studentOrStaffId: member.studentOrStaffId,
+        isActive: member.user.isActive,
+      },
+      blocks: {
+        canBorrow: member.user.isActive && member.holds.length === 0,
+        holds: member.holds.map((hold) => ({
+          id: hold.id,
+          reason: hold.reason,
+          placedAt: hold.placedAt,
+        })),
+        unpaidFines: unpaidFines.map((fine) => ({
+          id: fine.id,
+          amount: fine.amount,
+          paidAmount: fine.paidAmount,
+          reason: fine.reason,
+          status: fine.status,
+        })),
+        totalUnpaid,
+      },
+      currentLoans: member.loans.map((loan) => ({
+        id: loan.id,
+        bookTitle: loan.bookCopy.book.title,
+        barcode: loan.bookCopy.barcode,
+        borrowDatetime: loan.borrowDatetime,
+        dueDatetime: loan.dueDatetime,
+        status: loan.status,
+        isOverdue: loan.dueDatetime < now,
+      })),
+    };
+  }
+
+  /**
+   * Look up a member by scanned ID and return their desk summary
+   */
+  async lookupMember(memberCode: string) {
+    const member = await this.findMemberByCode(memberCode);
+    return this.getMemberSummary(member.id);
+  }
+
+  /**
+   * Check a scanned copy out to a scanned member
+   * Loan rules (holds, limits, reservations, policy) are enforced by loanService.createLoan
+   */
+  async checkOut(memberCode: string, copyCode: string, checkedOutBy: number, durationDays?: number) {
+    const member = await this.findMemberByCode(memberCode);
+    const bookCopy = await this.findCopyByCode(copyCode);
+
+    const loan = await loanService.createLoan(
+      {
+        memberId: member.id,
+        bookCopyId: bookCopy.id,
+        durationDays,
+      },
+      checkedOutBy
+    );
+
+    const summary = await this.getMemberSummary(member.id);
+
+    const slip = this.buildSlip('checkout', [
+      `Member: ${member.user.username}`,
+      `ID: ${member.studentOrStaffId}`,
+      '',
+      `Title: ${bookCopy.book.title}`,
+      `Barcode: ${bookCopy.barcode}`,
+      `Due: ${loan.dueDatetime.toLocaleString()}`,
+      ...(loan.loanType === 'short_loan' ? ['SHORT LOAN - hourly fines apply after the due time'] : []),
+      '',
+      `Items on loan: ${summary.currentLoans.length}`,
+      ...summary.currentLoans
+        .filter((l) => l.id !== loan.id)
+        .map((l) => `- ${l.bookTitle} (due ${l.dueDatetime.toLocaleDateString()})`),
+    ]);
+
+    return { loan, ...summary, slip };
+  }
+
+  /**
+   * Check in a scanned copy, whoever has it out (copies declared lost are marked found)
+   * Returns the fine, where the item should go next and the borrower's updated summary
+   * Condition assessment (damage fee, maintenance routing) applies to regular returns only
+   */
+  async checkIn(copyCode: string, checkedInBy: number, assessment: ReturnLoanOptions = {}) {
+    const bookCopy = await this.findCopyByCode(copyCode);
+
+    const activeLoan = await prisma.loan.findFirst({
+      where: {
+        bookCopyId: bookCopy.id,
+        returnDatetime: null,
+      },
+    });
+
+    if (!activeLoan) {
+      throw new Error(`Copy ${bookCopy.barcode} is not on loan (current status: ${bookCopy.status})`);
+    }
+
+    // A copy declared lost that turns up at the desk is processed as found
+    const wasLost = activeLoan.status === 'lost';
+    const result = wasLost
+      ? await loanService.markFound(activeLoan.id, checkedInBy).then((found) => ({
+          loan: found.loan,
+          fine: null,
+          isOverdue: false,
+          reservation: found.reservation,
+          credit: found.credit,
+          damageFine: null,
+          conditionRecord: null,
+          sentToMaintenance: false,
+          transfer: null,
+        }))
+      : { ...(await loanService.returnLoan(activeLoan.id, checkedInBy, assessment)), credit: 0 };
+    const summary = await this.getMemberSummary(activeLoan.memberId);
+
+    const reservationAlert = this.buildReservationAlert(result.reservation);
+
+    const slip = this.buildSlip('checkin', [
+      `Member: ${summary.member.username}`,
+      `ID: ${summary.member.studentOrStaffId}`,
+      '',
+      `Title: ${bookCopy.book.title}`,
+      `Barcode: ${bookCopy.barcode}`,
+      `Returned: ${result.loan.returnDatetime?.toLocaleString()}`,
+      ...(result.fine ? [`Overdue fine: $${parseFloat(result.fine.amount.toString()).toFixed(2)}`] : []),
+      ...(wasLost ? [`Lost item found, credited: $${result.credit.toFixed(2)}`] : []),
+      ...(result.conditionRecord ? [`Condition: ${result.conditionRecord.condition}`] : []),
+      ...(result.damageFine ? [`Damage fee: $${parseFloat(result.damageFine.amount.toString()).toFixed(2)}`] : []),
+      ...(result.sentToMaintenance ? ['Sent to maintenance'] : []),
+      ...(result.transfer ? [`Route to: ${result.transfer.toBranch.name}`] : []),
+      '',
+      `Outstanding fines: $${summary.blocks.totalUnpaid.toFixed(2)}`,
+      `Items still on loan: ${summary.currentLoans.length}`,
+    ]);
+
+    return {
+      loan: result.loan,
+      fine: result.fine,
+      isOverdue: result.isOverdue,
+      wasLost,
+      damageFine: result.damageFine,
+      conditionRecord: result.conditionRecord,
+      sentToMaintenance: result.sentToMaintenance,
+      transfer: result.transfer,
+      reservationAlert,
+      ...summary,
+      slip,
+    };
+  }
+
+  /**
+   * Check in a pile of items from the book drop in one go
+   * droppedAt backdates the returns so the time the drop sat unprocessed is not fined
+   * Each item is processed on its own; one bad scan does not stop the rest
+   * PERSISTENCE: Returns each loan (see loanService.returnLoan), logs a summary to SYSTEM_LOG
+   */
+  async batchCheckIn(copyCodes: string[], checkedInBy: number, droppedAt?: Date) {
+    if (droppedAt && droppedAt > new Date()) {
+      throw new Error('Drop time cannot be in the future');
+    }
+
+    // Items scanned twice are only processed once
+    const codes = [...new Set(copyCodes.map((code) => code.trim()).filter((code) => code))];
+    const items: BatchCheckInItem[] = [];
+
+    for (const code of codes) {
+      const item: BatchCheckInItem = {
+        code,
+        status: 'error',
+        loanId: null,
+        bookTitle: null,
+        memberName: null,
+        isOverdue: false,
+        fineId: null,
+        fineAmount: 0,
+        reservationAlert: null,
+        message: '',
+      };
+
+      try {
+        const bookCopy = await prisma.bookCopy.findFirst({
+          where: {
+            OR: [{ barcode: code }, { rfidTag: code }],
+          },
+          include: { book: true },
+        });
+
+        if (!bookCopy) {
+          items.push({ ...item, status: 'not_found', message: 'No copy with this barcode or RFID tag' });
+          continue;
+        }
+
+        item.bookTitle = bookCopy.book.title;
+
+        const activeLoan = await prisma.loan.findFirst({
+          where: {
+            bookCopyId: bookCopy.id,
+            returnDatetime: null,
+          },
+          include: {
+            member: {
+              include: { user: true },
+            },
+          },
+        });
+
+        if (!activeLoan) {
+          items.push({ ...item, status: 'not_on_loan', message: `Not on loan (current status: ${bookCopy.status})` });
+          continue;
+        }
+
+        item.loanId = activeLoan.id;
+        item.memberName = activeLoan.member.user.username;
+
+        if (activeLoan.status === 'lost') {
+          const found = await loanService.markFound(activeLoan.id, checkedInBy);
+          items.push({
+            ...item,
+            status: 'found',
+            reservationAlert: this.buildReservationAlert(found.reservation),
+            message: `Lost item found, credited $${found.credit.toFixed(2)}`,
+          });
+          continue;
+        }
+
+        // A drop time before the loan started can't apply to this item
+        const returnedAt = droppedAt && droppedAt > activeLoan.borrowDatetime ? droppedAt : undefined;
+        const result = await loanService.returnLoan(activeLoan.id, checkedInBy, { returnedAt });
+        const fineAmount = result.fine ? parseFloat(result.fine.amount.toString()) : 0;
+        const reservationAlert = this.buildReservationAlert(result.reservation);
+
+        items.push({
+          ...item,
+          status: 'returned',
+          isOverdue: result.isOverdue,
+          fineId: result.fine?.id || null,
+          fineAmount,
+          reservationAlert,
+          message: reservationAlert
+            ? reservationAlert.message
+            : result.transfer
+              ? `Returned, send to ${result.transfer.toBranch.name}`
+              : fineAmount > 0
+              ? `Returned late, fine $${fineAmount.toFixed(2)}`
+              : 'Returned',
+        });
+      } catch (error) {
+        items.push({ ...item, status: 'error', message: (error as Error).message });
+      }
+    }
+
+    const count = (status: BatchCheckInItem['status']) => items.filter((i) => i.status === status).length;
+    const summary = {
+      total: items.length,
+      returned: count('returned'),
+      found: count('found'),
+      notOnLoan: count('not_on_loan'),
+      notFound: count('not_found'),
+      errors: count('error'),
+      finesCharged: items.filter((i) => i.fineAmount > 0).length,
+      toHoldShelf: items.filter((i) => i.reservationAlert && !i.reservationAlert.inTransit).length,
+    };
+
+    await logger.info(LogAction.BATCH_CHECKIN, {
+      ...summary,
+      droppedAt,
+      loanIds: items.filter((i) => i.loanId).map((i) => i.loanId),
+      checkedInBy,
+    }, checkedInBy);
+
+    return { droppedAt: droppedAt || null, summary, items };
+  }
+
+  /**
+   * Helper: Tell the desk where a returned copy held for a reservation should go
+   */
+  private buildReservationAlert(
+    reservation: Awaited<ReturnType<typeof loanService.returnLoan>>['reservation']
+  ) {
+    if (!reservation) {
+      return null;
+    }
+
+    // Not ready yet: the copy has to travel to the member's pickup branch first
+    const inTransit = !reservation.readyAt;
+
+    return {
+      reservationId: reservation.id,
+      memberName: reservation.member.user.username,
+      loginId: reservation.member.user.loginId,
+      pickupBy: inTransit ? null : reservation.expiresAt,
+      pickupBranch: reservation.pickupBranch?.name || null,
+      inTransit,
+      message: inTransit
+        ? `Send to ${reservation.pickupBranch?.name} for ${reservation.member.user.username} (${reservation.member.user.loginId})`
+        : `Place on the hold shelf for ${reservation.member.user.username} (${reservation.member.user.loginId})`,
+    };
+  }
+
+  /**
+   * Helper: Lay out a printable slip
+   */
+  private buildSlip(type: DeskSlip['type'], lines: string[]): DeskSlip {
+    const printedAt = new Date();
+    const rule = '='.repeat(SLIP_WIDTH);
+    const heading = type === 'checkout' ? 'CHECK-OUT RECEIPT' : 'CHECK-IN RECEIPT';
+    const center = (text: string) => text.padStart(Math.floor((SLIP_WIDTH + text.length) / 2)).padEnd(SLIP_WIDTH);
+
+    const text = [
+      rule,
+      center('PolyBookShop Library'),
+      center(heading),
+      rule,
+      ...lines,
+      rule,
+      printedAt.toLocaleString(),
+    ].join('\n');
+
+    return { type, printedAt, text };
+  }
+}
+
+export default new CirculationDeskService();
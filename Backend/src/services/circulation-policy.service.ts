@@ -0,0 +1,285 @@
+// FILE: src/services/circulation-policy.service.ts
+// Circulation policy matrix keyed by patron type and book category
+
+import { Decimal } from '@prisma/client/runtime/library';
+import prisma from '../config/database';
+import { logger, LogAction } from '../utils/logger';
+import { env } from '../config/env';
+
+export type PatronType = 'STUDENT' | 'STAFF';
+
+export const PATRON_TYPES: PatronType[] = ['STUDENT', 'STAFF'];
+
+export interface CirculationPolicyData {
+  patronType?: PatronType | null;
+  category?: string | null;
+  loanPeriodDays: number;
+  renewalPeriodDays: number;
+  maxRenewals: number;
+  finePerDay: number;
+  maxFine?: number | null;
+  maxLoans: number;
+  notes?: string | null;
+}
+
+/**
+ * Rules that apply to a single loan after resolving the policy matrix
+ */
+export interface ResolvedPolicy {
+  policyId: number | null; // null when falling back to environment defaults
+  patronType: PatronType;
+  category: string | null; // Category the borrowing limit is counted within, null for all loans
+  loanPeriodDays: number;
+  renewalPeriodDays: number;
+  maxRenewals: number;
+  finePerDay: number; // Per hour when fineUnit is "hour"
+  fineUnit: 'day' | 'hour';
+  maxFine: number | null;
+  maxLoans: number;
+}
+
+/**
+ * Determine patron type from a member's student/staff ID (STU-XXXX or STF-XXXX)
+ */
+export function getPatronType(studentOrStaffId: string): PatronType {
+  return studentOrStaffId.toUpperCase().startsWith('STF-') ? 'STAFF' : 'STUDENT';
+}
+
+class CirculationPolicyService {
+  /**
+   * Resolve the rules for a patron type and book category
+   * Most specific match wins: type+category, type only, category only, catch-all, then env defaults
+   * A null category resolves the patron-wide rules, ignoring category-specific policies
+   */
+  async resolvePolicy(patronType: PatronType, category: string | null): Promise<ResolvedPolicy> {
+    const policies = await prisma.circulationPolicy.findMany({
+      where: {
+        OR: [
+          { patronType, category },
+          { patronType, category: null },
+          { patronType: null, category },
+          { patronType: null, category: null },
+        ],
+      },
+    });
+
+    const specificity = (p: { patronType: string | null; category: string | null }) =>
+      (p.patronType ? 2 : 0) + (p.category ? 1 : 0);
+    const policy = policies.sort((a, b) => specificity(b) - specificity(a))[0];
+
+    if (!policy) {
+      return {
+        policyId: null,
+        patronType,
+        category: null,
+        loanPeriodDays: env.DEFAULT_LOAN_PERIOD_DAYS,
+        renewalPeriodDays: env.DEFAULT_LOAN_PERIOD_DAYS,
+        maxRenewals: env.DEFAULT_MAX_RENEWALS,
+        finePerDay: env.FINE_PER_DAY,
+        fineUnit: 'day',
+        maxFine: env.MAX_OVERDUE_FINE > 0 ? env.MAX_OVERDUE_FINE : null,
+        maxLoans: env.DEFAULT_MAX_BORROWED_BOOKS,
+      };
+    }
+
+    return {
+      policyId: policy.id,
+      patronType,
+      category: policy.category,
+      loanPeriodDays: policy.loanPeriodDays,
+      renewalPeriodDays: policy.renewalPeriodDays,
+      maxRenewals: policy.maxRenewals,
+      finePerDay: parseFloat(policy.finePerDay.toString()),
+      fineUnit: 'day',
+      maxFine: policy.maxFine ? parseFloat(policy.maxFine.toString()) : null,
+      maxLoans: policy.maxLoans,
+    };
+  }
+
+  /**
+   * How long each kind of copy of a book goes out for, as shown to patrons on the book page
+   */
+  async getCopyLoanTerms(patronType: PatronType, category: string) {
+    const policy = await this.resolvePolicy(patronType, category);
+
+    return {
+      standardDays: policy.loanPeriodDays,
+      shortLoanHours: env.SHORT_LOAN_HOURS,
+      shortLoanFinePerHour: env.SHORT_LOAN_FINE_PER_HOUR,
+    };
+  }
+
+  /**
+   * Resolve the rules that govern an existing loan
+   * Short loans are fined by the hour; recalled loans at the escalated recall rate
+   */
+  async resolvePolicyForLoan(loanId: number): Promise<ResolvedPolicy> {
+    const loan = await prisma.loan.findUnique({
+      where: { id: loanId },
+      include: {
+        member: true,
+        bookCopy: {
+          include: { book: true },
+        },
+      },
+    });
+
+    if (!loan) {
+      throw new Error('Loan not found');
+    }
+
+    const policy = await this.resolvePolicy(getPatronType(loan.member.studentOrStaffId), loan.bookCopy.book.category);
+
+    if (loan.loanType === 'short_loan') {
+      return { ...policy, finePerDay: env.SHORT_LOAN_FINE_PER_HOUR, fineUnit: 'hour' };
+    }
+
+    return loan.recalledAt
+      ? { ...policy, finePerDay: Math.max(policy.finePerDay, env.RECALL_FINE_PER_DAY) }
+      : policy;
+  }
+
+  /**
+   * Calculate the overdue fine for a number of days under a policy, applying the fine cap
+   */
+  calculateFine(daysOverdue: number, policy: Pick<ResolvedPolicy, 'finePerDay' | 'maxFine'>): number {
+    const amount = Math.max(daysOverdue, 0) * policy.finePerDay;
+    const capped = policy.maxFine !== null ? Math.min(amount, policy.maxFine) : amount;
+    return Math.round(capped * 100) / 100;
+  }
+
+  /**
+   * Get all policies
+   */
+  async getAllPolicies() {
+    return prisma.circulationPolicy.findMany({
+      orderBy: [{ patronType: 'asc' }, { category: 'asc' }],
+    });
+  }
+
+  /**
+   * Get a policy by ID
+   */
+  async getPolicyById(policyId: number) {
+    const policy = await prisma.circulationPolicy.findUnique({
+      where: { id: policyId },
+    });
+
+    if (!policy) {
+      throw new Error('Circulation policy not found');
+    }
+
+    return policy;
+  }
+
+  /**
+   * Create a policy
+   * PERSISTENCE: Stores in CIRCULATION_POLICY table, logs to SYSTEM_LOG
+   */
+  async createPolicy(data: CirculationPolicyData, userId: number) {
+    const patronType = data.patronType || null;
+    const category = data.category || null;
+
+    // Nullable columns don't conflict in a unique index, so check explicitly
+    await this.assertUnique(patronType, category);
+
+    const policy = await prisma.circulationPolicy.create({
+      data: {
+        patronType,
+        category,
+        loanPeriodDays: data.loanPeriodDays,
+        renewalPeriodDays: data.renewalPeriodDays,
+        maxRenewals: data.maxRenewals,
+        finePerDay: new Decimal(data.finePerDay),
+        maxFine: data.maxFine !== undefined && data.maxFine !== null ? new Decimal(data.maxFine) : null,
+        maxLoans: data.maxLoans,
+        notes: data.notes || null,
+      },
+    });
+
+    await logger.info(LogAction.CREATE_POLICY, {
+      policyId: policy.id,
+      patronType,
+      category,
+      createdBy: userId,
+    }, userId);
+
+    return policy;
+  }
+
+  /**
+   * Update a policy
+   * PERSISTENCE: Updates CIRCULATION_POLICY table, logs to SYSTEM_LOG
+   */
+  async updatePolicy(policyId: number, data: Partial<CirculationPolicyData>, userId: number) {
+    const policy = await this.getPolicyById(policyId);
+
+    const patronType = data.patronType !== undefined ? data.patronType || null : policy.patronType;
+    const category = data.category !== undefined ? data.category || null : policy.category;
+
+    if (patronType !== policy.patronType || category !== policy.category) {
+      await this.assertUnique(patronType, category);
+    }
+
+    const updatedPolicy = await prisma.circulationPolicy.update({
+      where: { id: policyId },
+      data: {
+        patronType,
+        category,
+        loanPeriodDays: data.loanPeriodDays,
+        renewalPeriodDays: data.renewalPeriodDays,
+        maxRenewals: data.maxRenewals,
+        finePerDay: data.finePerDay !== undefined ? new Decimal(data.finePerDay) : undefined,
+        maxFine: data.maxFine !== undefined
+          ? (data.maxFine !== null ? new Decimal(data.maxFine) : null)
+          : undefined,
+        maxLoans: data.maxLoans,
+        notes: data.notes,
+      },
+    });
+
+    await logger.info(LogAction.UPDATE_POLICY, {
+      policyId,
+      changes: data,
+      updatedBy: userId,
+    }, userId);
+
+    return updatedPolicy;
+  }
+
+  /**
+   * Delete a policy
+   * PERSISTENCE: Deletes from CIRCULATION_POLICY table, logs to SYSTEM_LOG
+   */
+  async deletePolicy(policyId: number, userId: number) {
+    const policy = await this.getPolicyById(policyId);
+
+    await prisma.circulationPolicy.delete({
+      where: { id: policyId },
+    });
+
+    await logger.info(LogAction.DELETE_POLICY, {
+      policyId,
+      patronType: policy.patronType,
+      category: policy.category,
+      deletedBy: userId,
+    }, userId);
+
+    return { message: 'Circulation policy deleted successfully' };
+  }
+
+  /**
+   * Helper: Ensure no other policy exists for the same patron type and category
+   */
+  private async assertUnique(patronType: string | null, category: string | null) {
+    const existing = await prisma.circulationPolicy.findFirst({
+      where: { patronType, category },
+    });
+
+    if (existing) {
+      throw new Error('A circulation policy for this patron type and category already exists');
+    }
+  }
+}
+
+export default new CirculationPolicyService();
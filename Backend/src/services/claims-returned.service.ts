@@ -0,0 +1,439 @@
+// FILE: src/services/claims-returned.service.ts
+// Claims-returned disputes: a member says a book is back, the system still shows it out
+
+import { Fine, LoanClaim, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { logger, LogAction } from '../utils/logger';
+import { CreditedFine, SettledFine, fineService } from './fine.service';
+import { holdService } from './hold.service';
+import loanService from './loan.service';
+import reservationService from './reservation.service';
+
+export const CLAIM_RESOLUTIONS = ['found_on_shelf', 'returned_late', 'lost'];
+
+export interface FileClaimData {
+  claimedReturnedAt?: Date; // When the member says they returned it, defaults to now
+  notes?: string;
+}
+
+export interface ResolveClaimData {
+  resolution: string;
+  returnedAt?: Date; // returned_late only: when the book actually came back, defaults to the claimed date
+  notes?: string;
+}
+
+class ClaimsReturnedService {
+  /**
+   * File a claims-returned dispute (Member for their own loan, Librarian/Admin for any)
+   * The loan leaves the overdue workflow, so fines stop accruing and no automatic holds are placed while staff search
+   * PERSISTENCE: Updates LOAN status, creates LOAN_CLAIM, logs to SYSTEM_LOG
+   */
+  async fileClaim(loanId: number, filedBy: number, accountType: string, data: FileClaimData = {}) {
+    const loan = await prisma.loan.findUnique({
+      where: { id: loanId },
+      include: {
+        member: {
+          include: { user: true },
+        },
+        bookCopy: {
+          include: { book: true },
+        },
+      },
+    });
+
+    if (!loan) {
+      throw new Error('Loan not found');
+    }
+
+    if (accountType === 'MEMBER' && loan.member.userId !== filedBy) {
+      throw new Error('You can only file claims for your own loans');
+    }
+
+    if (loan.status !== 'ongoing' && loan.status !== 'overdue') {
+      throw new Error(`Only books still on loan can be claimed as returned (current status: ${loan.status})`);
+    }
+
+    // Claims the library upheld (found on the shelf) don't count against the member
+    const claimCount = await prisma.loanClaim.count({
+      where: {
+        memberId: loan.memberId,
+        OR: [{ resolution: null }, { resolution: { not: 'found_on_shelf' } }],
+      },
+    });
+
+    if (claimCount >= loan.member.claimsReturnedLimit) {
+      throw new Error(
+        `Claims-returned limit reached (${loan.member.claimsReturnedLimit}). Please contact the library.`
+      );
+    }
+
+    const now = new Date();
+    const claimedReturnedAt = data.claimedReturnedAt ?? now;
+
+    if (claimedReturnedAt > now) {
+      throw new Error('Claimed return date cannot be in the future');
+    }
+
+    if (claimedReturnedAt < loan.borrowDatetime) {
+      throw new Error('Claimed return date cannot be before the book was borrowed');
+    }
+
+    // Bring the running fine up to date; it stays paused until the claim is resolved
+    if (loan.status === 'overdue') {
+      await fineService.accrueOverdueFine(loan.id, now, filedBy);
+    }
+
+    const claim = await prisma.$transaction(async (tx) => {
+      await tx.loan.update({
+        where: { id: loanId },
+        data: { status: 'claimed_returned' },
+      });
+
+      return tx.loanClaim.create({
+        data: {
+          loanId,
+          memberId: loan.memberId,
+          claimedReturnedAt,
+          previousStatus: loan.status,
+          memberNotes: data.notes || null,
+          filedBy,
+        },
+      });
+    });
+
+    await logger.info(LogAction.FILE_CLAIM, {
+      claimId: claim.id,
+      loanId,
+      memberId: loan.memberId,
+      bookCopyId: loan.bookCopyId,
+      barcode: loan.bookCopy.barcode,
+      claimedReturnedAt,
+      claimNumber: claimCount + 1,
+      claimsLimit: loan.member.claimsReturnedLimit,
+      filedBy,
+    }, filedBy);
+
+    // Staff pick the search task up from their notifications
+    try {
+      const { adminNotificationService } = await import('./admin-notification.service');
+      await adminNotificationService.notifyClaimReturned(
+        loan.member.user.username,
+        loan.member.user.loginId,
+        loan.bookCopy.book.title,
+        loan.bookCopy.barcode,
+        loan.id,
+        claim.id
+      );
+    } catch (adminNotifError) {
+      await logger.error(LogAction.CREATE_NOTIFICATION, {
+        error: (adminNotifError as Error).message,
+        claimId: claim.id,
+        type: 'admin_notification',
+      });
+    }
+
+    return claim;
+  }
+
+  /**
+   * Get claims, open search tasks first (Librarian/Admin view)
+   */
+  async getClaims(status?: string) {
+    const where: any = {};
+    if (status) {
+      where.status = status;
+    }
+
+    return prisma.loanClaim.findMany({
+      where,
+      include: {
+        loan: {
+          include: {
+            bookCopy: {
+              include: { book: true },
+            },
+          },
+        },
+        member: {
+          include: {
+            user: {
+              select: {
+                username: true,
+                email: true,
+                loginId: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: [{ status: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Get a member's claims with how many they have left
+   */
+  async getMemberClaims(memberId: number) {
+    const member = await prisma.member.findUnique({
+      where: { id: memberId },
+    });
+
+    if (!member) {
+      throw new Error('Member not found');
+    }
+
+    const claims = await prisma.loanClaim.findMany({
+      where: { memberId },
+      include: {
+        loan: {
+          include: {
+            bookCopy: {
+              include: { book: true },
+            },
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const counted = claims.filter((c) => c.resolution !== 'found_on_shelf').length;
+
+    return {
+      claims,
+      limit: member.claimsReturnedLimit,
+      remaining: Math.max(member.claimsReturnedLimit - counted, 0),
+    };
+  }
+
+  /**
+   * Get a claim by ID
+   */
+  async getClaimById(claimId: number) {
+    const claim = await prisma.loanClaim.findUnique({
+      where: { id: claimId },
+      include: {
+        loan: {
+          include: {
+            bookCopy: {
+              include: { book: true },
+            },
+          },
+        },
+        member: {
+          include: { user: true },
+        },
+      },
+    });
+
+    if (!claim) {
+      throw new Error('Claim not found');
+    }
+
+    return claim;
+  }
+
+  /**
+   * Record a shelf search that did not turn the book up (Librarian/Admin only)
+   * PERSISTENCE: Updates LOAN_CLAIM, logs to SYSTEM_LOG
+   */
+  async recordSearch(claimId: number, searchedBy: number, notes?: string) {
+    const claim = await this.getClaimById(claimId);
+
+    if (claim.status !== 'open') {
+      throw new Error('This claim has already been resolved');
+    }
+
+    const searchedAt = new Date();
+    const entry = `[${searchedAt.toLocaleString()}] Searched${notes ? `: ${notes}` : ''}`;
+
+    const updatedClaim = await prisma.loanClaim.update({
+      where: { id: claimId },
+      data: {
+        searchCount: { increment: 1 },
+        lastSearchedAt: searchedAt,
+        searchNotes: `${claim.searchNotes || ''}\n${entry}`.trim(),
+      },
+    });
+
+    await logger.info(LogAction.SEARCH_CLAIM, {
+      claimId,
+      loanId: claim.loanId,
+      searchCount: updatedClaim.searchCount,
+      notes,
+      searchedBy,
+    }, searchedBy);
+
+    return updatedClaim;
+  }
+
+  /**
+   * Close a claim (Librarian/Admin only)
+   * found_on_shelf: the member was right - the loan closes on the claimed date and the overdue fine is credited in full
+   * returned_late: the book came back, but late - the fine is settled up to the return date
+   * lost: the book is not coming back - the loan goes through the lost-item workflow, fined up to when the claim was filed
+   * PERSISTENCE: Updates LOAN_CLAIM, LOAN, BOOK_COPY and FINE, logs to SYSTEM_LOG
+   */
+  async resolveClaim(claimId: number, resolvedBy: number, data: ResolveClaimData) {
+    const claim = await this.getClaimById(claimId);
+
+    if (claim.status !== 'open') {
+      throw new Error('This claim has already been resolved');
+    }
+
+    if (!CLAIM_RESOLUTIONS.includes(data.resolution)) {
+      throw new Error(`Resolution must be one of: ${CLAIM_RESOLUTIONS.join(', ')}`);
+    }
+
+    const loan = claim.loan;
+    const resolution = {
+      status: 'resolved',
+      resolution: data.resolution,
+      resolvedAt: new Date(),
+      resolvedBy,
+      resolutionNotes: data.notes || null,
+    };
+    let fine: Fine | null = null;
+    let updatedClaim: LoanClaim;
+
+    if (data.resolution === 'lost') {
+      const lost = await loanService.declareLost(loan.id, resolvedBy, 'ADMIN', {
+        notes: data.notes,
+        accrueUntil: claim.createdAt,
+      });
+      fine = lost.overdueFine;
+
+      updatedClaim = await prisma.loanClaim.update({
+        where: { id: claimId },
+        data: resolution,
+      });
+    } else {
+      const returnedAt = data.resolution === 'returned_late'
+        ? data.returnedAt ?? claim.claimedReturnedAt
+        : claim.claimedReturnedAt;
+
+      if (returnedAt > new Date() || returnedAt < loan.borrowDatetime) {
+        throw new Error('Return date must be between the borrow date and now');
+      }
+
+      let credited: CreditedFine | null = null;
+      let settled: SettledFine | null = null;
+      let reservation: Awaited<ReturnType<typeof reservationService.placeReleasedCopy>> = null;
+
+      // PERSISTENCE: Close the claim, check the loan in, settle its fine and route the copy in one transaction,
+      // so a claim resolved twice at once only checks the book in once
+      updatedClaim = await prisma.$transaction(async (tx) => {
+        const closed = await tx.loanClaim.updateMany({
+          where: { id: claimId, status: 'open' },
+          data: resolution,
+        });
+
+        if (closed.count === 0) {
+          throw new Error('This claim has already been resolved');
+        }
+
+        await tx.loan.update({
+          where: { id: loan.id },
+          data: {
+            returnDatetime: returnedAt,
+            status: data.resolution === 'returned_late' && returnedAt > loan.dueDatetime ? 'returned_late' : 'returned',
+          },
+        });
+
+        if (data.resolution === 'found_on_shelf') {
+          ({ fine, credited } = await this.creditOverdueFine(tx, loan.id, returnedAt, resolvedBy));
+        } else {
+          settled = await fineService.settleOverdueFine(tx, loan.id, returnedAt, resolvedBy);
+          fine = settled?.fine ?? null;
+        }
+
+        // The copy is back: to the next member in the reservation queue, or onto the shelf
+        reservation = await reservationService.placeReleasedCopy(tx, loan.bookCopyId, loan.bookCopy.bookId, resolvedBy);
+
+        return tx.loanClaim.findUniqueOrThrow({ where: { id: claimId } });
+      });
+
+      if (credited) {
+        await fineService.reportFineCredit(credited, resolvedBy);
+        await holdService.applyHoldRules(claim.memberId, resolvedBy);
+      }
+      await fineService.reportSettledFine(settled, resolvedBy);
+
+      if (reservation) {
+        await reservationService.notifyReadyForPickup(reservation, resolvedBy);
+      }
+    }
+
+    await logger.info(LogAction.RESOLVE_CLAIM, {
+      claimId,
+      loanId: loan.id,
+      memberId: claim.memberId,
+      resolution: data.resolution,
+      fineId: fine?.id,
+      fineAmount: fine?.amount,
+      searchCount: claim.searchCount,
+      resolvedBy,
+    }, resolvedBy);
+
+    try {
+      const { notificationService } = await import('./notification.service');
+      await notificationService.createNotification({
+        userId: claim.member.userId,
+        type: 'CLAIM_RESOLVED',
+        title: 'Returned-Book Claim Resolved',
+        message: data.resolution === 'found_on_shelf'
+          ? `We found "${loan.bookCopy.book.title}" on our shelves. The loan is closed and no overdue fine applies.`
+          : data.resolution === 'returned_late'
+            ? `"${loan.bookCopy.book.title}" has been checked in as a late return. Any overdue fine has been settled up to the return date.`
+            : `We could not find "${loan.bookCopy.book.title}". It has been declared lost and replacement fees have been charged.`,
+        priority: data.resolution === 'lost' ? 'high' : 'normal',
+        payload: {
+          claimId,
+          loanId: loan.id,
+          bookTitle: loan.bookCopy.book.title,
+          resolution: data.resolution,
+        },
+      });
+    } catch (notifError) {
+      await logger.error(LogAction.CREATE_NOTIFICATION, {
+        error: (notifError as Error).message,
+        claimId,
+      });
+    }
+
+    return { claim: updatedClaim, fine };
+  }
+
+  /**
+   * Helper: Credit a loan's overdue fine in full and stop it accruing
+   * Runs inside the caller's transaction; pass the credit to reportFineCredit once it has committed
+   */
+  private async creditOverdueFine(tx: Prisma.TransactionClient, loanId: number, returnedAt: Date, creditedBy: number) {
+    const fine = await tx.fine.findFirst({
+      where: { loanId, type: 'overdue', finalizedAt: null },
+      orderBy: { chargedAt: 'desc' },
+    });
+
+    if (!fine) {
+      return { fine: null, credited: null };
+    }
+
+    const credited = fine.status !== 'waived' && fine.status !== 'refunded'
+      ? await fineService.applyFineCredit(
+          tx,
+          fine.id,
+          parseFloat(fine.amount.toString()),
+          creditedBy,
+          'Claimed-returned book found on the shelf'
+        )
+      : null;
+
+    const finalized = await tx.fine.update({
+      where: { id: fine.id },
+      data: { finalizedAt: returnedAt },
+    });
+
+    return { fine: finalized, credited };
+  }
+}
+
+export default new ClaimsReturnedService();
@@ -0,0 +1,426 @@
+// FILE: src/services/course.service.ts
+// Course reserves: reading lists set aside for a course under restricted loan rules for the term
+
+import { Course, CourseReserve, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { logger, LogAction } from '../utils/logger';
+import { toDateKey } from '../utils/date';
+
+export const COURSE_LOAN_TYPES = ['short_loan', 'reference'];
+
+export interface CourseData {
+  code: string;
+  title: string;
+  instructor: string;
+  termStart: string; // YYYY-MM-DD
+  termEnd: string; // YYYY-MM-DD, inclusive
+  loanType?: string;
+  notes?: string | null;
+}
+
+export interface AddReserveData {
+  bookId: number;
+  bookCopyIds?: number[]; // Copies to set aside; none lists the title only
+}
+
+/**
+ * Where a course's term stands on a given day
+ */
+function getTermPhase(course: Pick<Course, 'termStart' | 'termEnd'>, asOf: Date): 'upcoming' | 'current' | 'ended' {
+  const key = toDateKey(asOf);
+  if (toDateKey(course.termStart) > key) {
+    return 'upcoming';
+  }
+  return toDateKey(course.termEnd) >= key ? 'current' : 'ended';
+}
+
+const reserveInclude = {
+  book: true,
+  bookCopy: true,
+} satisfies Prisma.CourseReserveInclude;
+
+class CourseService {
+  /**
+   * Get courses; members only see courses whose term has not ended
+   */
+  async getCourses(includeEnded = false) {
+    const courses = await prisma.course.findMany({
+      include: {
+        _count: {
+          select: { reserves: { where: { status: { not: 'released' } } } },
+        },
+      },
+      orderBy: [{ termStart: 'desc' }, { code: 'asc' }],
+    });
+
+    const now = new Date();
+    return courses
+      .map((course) => ({ ...course, phase: getTermPhase(course, now) }))
+      .filter((course) => includeEnded || course.phase !== 'ended');
+  }
+
+  /**
+   * Get a course with its reserve list
+   */
+  async getCourseById(courseId: number) {
+    const course = await prisma.course.findUnique({
+      where: { id: courseId },
+      include: {
+        reserves: {
+          include: reserveInclude,
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!course) {
+      throw new Error('Course not found');
+    }
+
+    return { ...course, phase: getTermPhase(course, new Date()) };
+  }
+
+  /**
+   * Create a course
+   * PERSISTENCE: Stores in COURSE table, logs to SYSTEM_LOG
+   */
+  async createCourse(data: CourseData, userId: number) {
+    this.assertValidTerm(data.termStart, data.termEnd);
+    await this.assertCodeAvailable(data.code);
+
+    const course = await prisma.course.create({
+      data: {
+        code: data.code.toUpperCase(),
+        title: data.title,
+        instructor: data.instructor,
+        termStart: new Date(data.termStart),
+        termEnd: new Date(data.termEnd),
+        loanType: data.loanType || 'short_loan',
+        notes: data.notes || null,
+        createdBy: userId,
+      },
+    });
+
+    await logger.info(LogAction.CREATE_COURSE, {
+      courseId: course.id,
+      code: course.code,
+      termStart: data.termStart,
+      termEnd: data.termEnd,
+      loanType: course.loanType,
+      createdBy: userId,
+    }, userId);
+
+    return course;
+  }
+
+  /**
+   * Update a course; reserved copies pick up new term dates or loan rules straight away
+   * PERSISTENCE: Updates COURSE table (and BOOK_COPY loan types via sync), logs to SYSTEM_LOG
+   */
+  async updateCourse(courseId: number, data: Partial<CourseData>, userId: number) {
+    const course = await this.getCourseById(courseId);
+
+    const termStart = data.termStart ?? toDateKey(course.termStart);
+    const termEnd = data.termEnd ?? toDateKey(course.termEnd);
+    this.assertValidTerm(termStart, termEnd);
+
+    if (data.code && data.code.toUpperCase() !== course.code) {
+      await this.assertCodeAvailable(data.code);
+    }
+
+    const updatedCourse = await prisma.course.update({
+      where: { id: courseId },
+      data: {
+        code: data.code ? data.code.toUpperCase() : undefined,
+        title: data.title,
+        instructor: data.instructor,
+        termStart: data.termStart ? new Date(data.termStart) : undefined,
+        termEnd: data.termEnd ? new Date(data.termEnd) : undefined,
+        loanType: data.loanType,
+        notes: data.notes,
+      },
+    });
+
+    // Copies already on reserve take the new loan type now rather than next term
+    if (data.loanType && data.loanType !== course.loanType) {
+      const activeCopies = course.reserves.filter((r) => r.status === 'active' && r.bookCopyId);
+      await prisma.bookCopy.updateMany({
+        where: { id: { in: activeCopies.map((r) => r.bookCopyId as number) } },
+        data: { loanType: data.loanType },
+      });
+    }
+
+    await logger.info(LogAction.UPDATE_COURSE, {
+      courseId,
+      changes: data,
+      updatedBy: userId,
+    }, userId);
+
+    await this.syncCourseReserves(new Date(), userId, courseId);
+
+    return updatedCourse;
+  }
+
+  /**
+   * Delete a course, returning any reserved copies to normal circulation first
+   * PERSISTENCE: Restores BOOK_COPY loan types, deletes from COURSE and COURSE_RESERVE tables, logs to SYSTEM_LOG
+   */
+  async deleteCourse(courseId: number, userId: number) {
+    const course = await this.getCourseById(courseId);
+
+    await prisma.$transaction(async (tx) => {
+      for (const reserve of course.reserves.filter((r) => r.status === 'active')) {
+        await this.releaseReserve(tx, reserve);
+      }
+
+      await tx.course.delete({
+        where: { id: courseId },
+      });
+    });
+
+    await logger.info(LogAction.DELETE_COURSE, {
+      courseId,
+      code: course.code,
+      reserveCount: course.reserves.length,
+      deletedBy: userId,
+    }, userId);
+
+    return { message: 'Course deleted successfully' };
+  }
+
+  /**
+   * Put a title on a course's reserve list, setting aside the given copies
+   * Copies go onto reserve loan rules at once when the term is under way, otherwise when it starts
+   * PERSISTENCE: Stores in COURSE_RESERVE table, updates BOOK_COPY loan type, logs to SYSTEM_LOG
+   */
+  async addReserve(courseId: number, data: AddReserveData, userId: number) {
+    const course = await this.getCourseById(courseId);
+
+    if (course.phase === 'ended') {
+      throw new Error('This course term has ended');
+    }
+
+    const book = await prisma.book.findUnique({
+      where: { id: data.bookId },
+      include: { bookCopies: true },
+    });
+
+    if (!book) {
+      throw new Error('Book not found');
+    }
+
+    const copyIds = [...new Set(data.bookCopyIds || [])];
+
+    for (const copyId of copyIds) {
+      const copy = book.bookCopies.find((c) => c.id === copyId);
+
+      if (!copy) {
+        throw new Error(`Copy ${copyId} does not belong to this book`);
+      }
+
+      if (copy.status === 'lost') {
+        throw new Error(`Copy ${copy.barcode} is lost and cannot be placed on reserve`);
+      }
+
+      const existing = await prisma.courseReserve.findFirst({
+        where: { bookCopyId: copyId, status: { not: 'released' } },
+        include: { course: true },
+      });
+
+      if (existing) {
+        throw new Error(`Copy ${copy.barcode} is already on reserve for ${existing.course.code}`);
+      }
+    }
+
+    if (copyIds.length === 0 && course.reserves.some((r) => r.bookId === book.id && r.status !== 'released')) {
+      throw new Error('This title is already on the course reserve list');
+    }
+
+    const reserves = await prisma.$transaction(async (tx) => {
+      const created = [];
+      for (const bookCopyId of copyIds.length > 0 ? copyIds : [null]) {
+        const reserve = await tx.courseReserve.create({
+          data: {
+            courseId,
+            bookId: book.id,
+            bookCopyId,
+            addedBy: userId,
+          },
+          include: reserveInclude,
+        });
+
+        created.push(course.phase === 'current' ? await this.activateReserve(tx, reserve, course) : reserve);
+      }
+      return created;
+    });
+
+    await logger.info(LogAction.ADD_COURSE_RESERVE, {
+      courseId,
+      code: course.code,
+      bookId: book.id,
+      bookCopyIds: copyIds,
+      activated: course.phase === 'current',
+      addedBy: userId,
+    }, userId);
+
+    return reserves;
+  }
+
+  /**
+   * Take an entry off a course's reserve list, returning its copy to normal circulation
+   * PERSISTENCE: Restores BOOK_COPY loan type, deletes from COURSE_RESERVE table, logs to SYSTEM_LOG
+   */
+  async removeReserve(courseId: number, reserveId: number, userId: number) {
+    const reserve = await prisma.courseReserve.findFirst({
+      where: { id: reserveId, courseId },
+    });
+
+    if (!reserve) {
+      throw new Error('Course reserve not found');
+    }
+
+    await prisma.$transaction(async (tx) => {
+      if (reserve.status === 'active') {
+        await this.releaseReserve(tx, reserve);
+      }
+
+      await tx.courseReserve.delete({
+        where: { id: reserveId },
+      });
+    });
+
+    await logger.info(LogAction.REMOVE_COURSE_RESERVE, {
+      courseId,
+      reserveId,
+      bookId: reserve.bookId,
+      bookCopyId: reserve.bookCopyId,
+      removedBy: userId,
+    }, userId);
+
+    return { message: 'Removed from course reserves' };
+  }
+
+  /**
+   * Start reserves whose term has begun and release those whose term has ended
+   * Runs daily from the scheduler, and for a single course when its term changes
+   * PERSISTENCE: Updates COURSE_RESERVE and BOOK_COPY loan types, logs to SYSTEM_LOG
+   */
+  async syncCourseReserves(asOf: Date = new Date(), actedBy?: number, courseId?: number) {
+    const reserves = await prisma.courseReserve.findMany({
+      where: {
+        status: { in: ['pending', 'active'] },
+        ...(courseId && { courseId }),
+      },
+      include: { course: true },
+    });
+
+    let activated = 0;
+    let released = 0;
+
+    for (const reserve of reserves) {
+      const phase = getTermPhase(reserve.course, asOf);
+
+      if (reserve.status === 'pending' && phase === 'current') {
+        await prisma.$transaction((tx) => this.activateReserve(tx, reserve, reserve.course));
+        activated++;
+      } else if (reserve.status === 'active' && phase !== 'current') {
+        // An ended term releases for good; a term moved into the future waits to start again
+        await prisma.$transaction((tx) => this.releaseReserve(tx, reserve, phase === 'upcoming' ? 'pending' : 'released'));
+        released++;
+      }
+    }
+
+    if (activated > 0 || released > 0) {
+      await logger.info(LogAction.SYNC_COURSE_RESERVES, {
+        courseId,
+        activated,
+        released,
+        asOf,
+      }, actedBy);
+    }
+
+    return { activated, released };
+  }
+
+  /**
+   * Helper: Put a reserved copy onto the course's loan rules, remembering its own
+   */
+  private async activateReserve<T extends CourseReserve>(
+    tx: Prisma.TransactionClient,
+    reserve: T,
+    course: Pick<Course, 'loanType'>
+  ) {
+    let previousLoanType: string | null = null;
+
+    if (reserve.bookCopyId) {
+      const copy = await tx.bookCopy.findUnique({
+        where: { id: reserve.bookCopyId },
+      });
+      previousLoanType = copy?.loanType ?? null;
+
+      await tx.bookCopy.update({
+        where: { id: reserve.bookCopyId },
+        data: { loanType: course.loanType },
+      });
+    }
+
+    return tx.courseReserve.update({
+      where: { id: reserve.id },
+      data: {
+        status: 'active',
+        previousLoanType,
+        activatedAt: new Date(),
+      },
+      include: reserveInclude,
+    });
+  }
+
+  /**
+   * Helper: Give a reserved copy back its own loan type
+   */
+  private async releaseReserve(
+    tx: Prisma.TransactionClient,
+    reserve: CourseReserve,
+    status: 'pending' | 'released' = 'released'
+  ) {
+    if (reserve.bookCopyId) {
+      await tx.bookCopy.update({
+        where: { id: reserve.bookCopyId },
+        data: { loanType: reserve.previousLoanType || 'standard' },
+      });
+    }
+
+    return tx.courseReserve.update({
+      where: { id: reserve.id },
+      data: {
+        status,
+        previousLoanType: null,
+        releasedAt: status === 'released' ? new Date() : null,
+      },
+    });
+  }
+
+  /**
+   * Helper: Ensure the term ends on or after it starts
+   */
+  private assertValidTerm(termStart: string, termEnd: string) {
+    if (termEnd < termStart) {
+      throw new Error('Term end must be on or after the term start');
+    }
+  }
+
+  /**
+   * Helper: Ensure no other course uses a code
+   */
+  private async assertCodeAvailable(code: string) {
+    const existing = await prisma.course.findUnique({
+      where: { code: code.toUpperCase() },
+    });
+
+    if (existing) {
+      throw new Error(`A course with code ${code.toUpperCase()} already exists`);
+    }
+  }
+}
+
+export default new CourseService();
@@ -330,6 +330,154 @@ class EmailService {
       });
     }
   }
+  /**
+   * Send recall notice when the library needs a borrowed book back early
+   */
+  async sendRecallEmail(
+    email: string,
+    username: string,
+    recallDetails: {
+      bookTitle: string;
+      originalDueDate: Date;
+      dueDate: Date;
+      finePerDay: number;
+      reason?: string;
+      loanId: number;
+    },
+    userId: number
+  ): Promise<void> {
+    const formatDate = (date: Date) => {
+      return new Intl.DateTimeFormat('en-US', { dateStyle: 'full' }).format(date);
+    };
+
+    const htmlContent = `
+      <!DOCTYPE html>
+      <html>
+      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+        <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #dc2626;">📢 Library Recall Notice</h2>
+          <p>Hello ${username},</p>
+          <p>The library needs the following book back before its original due date:</p>
+          <div style="background: #fee2e2; padding: 15px; border-radius: 5px; margin: 20px 0;">
+            <p><strong>📚 Book:</strong> ${recallDetails.bookTitle}</p>
+            <p><strong>📅 New Due Date:</strong> ${formatDate(recallDetails.dueDate)}</p>
+            <p><strong>Original Due Date:</strong> ${formatDate(recallDetails.originalDueDate)}</p>
+            ${recallDetails.reason ? `<p><strong>Reason:</strong> ${recallDetails.reason}</p>` : ''}
+          </div>
+          <p>Recalled books cannot be renewed. If it is returned late, a fine of $${recallDetails.finePerDay.toFixed(2)} per day applies.</p>
+          <p>Thank you!</p>
+          <p style="color: #6b7280; font-size: 12px;">Loan ID: #${recallDetails.loanId}</p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    try {
+      await this.transporter.sendMail({
+        from: env.EMAIL_FROM,
+        to: email,
+        subject: `📢 Recall: Please Return "${recallDetails.bookTitle}"`,
+        html: htmlContent,
+      });
+
+      await prisma.notification.create({
+        data: {
+          userId,
+          type: 'LOAN_RECALLED',
+          channel: 'email',
+          title: `Recall: Please Return "${recallDetails.bookTitle}"`,
+          message: `Your loan has been recalled and is now due on ${recallDetails.dueDate}`,
+          payload: JSON.stringify(recallDetails),
+          status: 'sent',
+        },
+      });
+    } catch (error) {
+      await prisma.notification.create({
+        data: {
+          userId,
+          type: 'LOAN_RECALLED',
+          channel: 'email',
+          title: 'Recall Notice',
+          message: 'Failed to send recall email',
+          payload: JSON.stringify({ ...recallDetails, error: (error as Error).message }),
+          status: 'failed',
+        },
+      });
+    }
+  }
+
+  /**
+   * Send "ready for pickup" email when a reserved copy is set aside for a member
+   */
+  async sendReservationReadyEmail(
+    email: string,
+    username: string,
+    reservationDetails: {
+      bookTitle: string;
+      barcode: string;
+      pickupBy: Date;
+      reservationId: number;
+    },
+    userId: number
+  ): Promise<void> {
+    const formatDate = (date: Date) => {
+      return new Intl.DateTimeFormat('en-US', { dateStyle: 'full' }).format(date);
+    };
+
+    const htmlContent = `
+      <!DOCTYPE html>
+      <html>
+      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+        <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #059669;">📬 Your Reserved Book Is Ready</h2>
+          <p>Hello ${username},</p>
+          <p>A copy of the book you reserved has been returned and is now waiting for you at the pickup shelf:</p>
+          <div style="background: #d1fae5; padding: 15px; border-radius: 5px; margin: 20px 0;">
+            <p><strong>📚 Book:</strong> ${reservationDetails.bookTitle}</p>
+            <p><strong>🏷️ Barcode:</strong> ${reservationDetails.barcode}</p>
+            <p><strong>📅 Pick up by:</strong> ${formatDate(reservationDetails.pickupBy)}</p>
+          </div>
+          <p>If the book is not collected by this date, it will be offered to the next member in the queue.</p>
+          <p>Thank you!</p>
+          <p style="color: #6b7280; font-size: 12px;">Reservation ID: #${reservationDetails.reservationId}</p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    try {
+      await this.transporter.sendMail({
+        from: env.EMAIL_FROM,
+        to: email,
+        subject: `📬 Ready for Pickup: "${reservationDetails.bookTitle}"`,
+        html: htmlContent,
+      });
+
+      await prisma.notification.create({
+        data: {
+          userId,
+          type: 'RESERVATION_READY',
+          channel: 'email',
+          title: `Ready for Pickup: "${reservationDetails.bookTitle}"`,
+          message: `Your reserved book is ready for pickup until ${reservationDetails.pickupBy}`,
+          payload: JSON.stringify(reservationDetails),
+          status: 'sent',
+        },
+      });
+    } catch (error) {
+      await prisma.notification.create({
+        data: {
+          userId,
+          type: 'RESERVATION_READY',
+          channel: 'email',
+          title: 'Reservation Ready',
+          message: 'Failed to send reservation pickup email',
+          payload: JSON.stringify({ ...reservationDetails, error: (error as Error).message }),
+          status: 'failed',
+        },
+      });
+    }
+  }
 }
 
 export default new EmailService();
@@ -0,0 +1,315 @@
+// FILE: src/services/fine-appeal.service.ts
+// Fine appeals: a member asks for a fine to be waived, an admin approves (fully or partly) or denies it
+
+import fs from 'fs';
+import path from 'path';
+import prisma from '../config/database';
+import { env } from '../config/env';
+import { appealsDir } from '../middleware/upload';
+import { logger, LogAction } from '../utils/logger';
+import { fineService } from './fine.service';
+import { holdService } from './hold.service';
+import { notificationService } from './notification.service';
+
+export const APPEAL_DECISIONS = ['approve', 'deny'];
+
+export interface SubmitAppealData {
+  reason: string;
+  attachmentFile?: string; // Name the upload was stored under in storage/appeals
+  attachmentName?: string;
+}
+
+export interface ReviewAppealData {
+  decision: string;
+  waiveAmount?: number; // approve only: defaults to the whole fine
+  notes?: string;
+}
+
+const appealInclude = {
+  fine: {
+    include: {
+      loan: {
+        include: {
+          bookCopy: {
+            include: { book: true },
+          },
+        },
+      },
+    },
+  },
+  member: {
+    include: {
+      user: {
+        select: {
+          username: true,
+          email: true,
+          loginId: true,
+        },
+      },
+    },
+  },
+};
+
+class FineAppealService {
+  /**
+   * Appeal a fine (Member only, for their own fines)
+   * While the appeal is pending the fine's loan is skipped by automatic hold escalation
+   * PERSISTENCE: Creates FINE_APPEAL, logs to SYSTEM_LOG
+   */
+  async submitAppeal(fineId: number, userId: number, data: SubmitAppealData) {
+    const fine = await prisma.fine.findUnique({
+      where: { id: fineId },
+      include: {
+        member: {
+          include: { user: true },
+        },
+        appeals: true,
+      },
+    });
+
+    if (!fine || fine.member.userId !== userId) {
+      throw new Error('Fine not found');
+    }
+
+    if (fine.status === 'waived' || fine.status === 'refunded') {
+      throw new Error(`This fine cannot be appealed (current status: ${fine.status})`);
+    }
+
+    if (fine.appeals.some((a) => a.status === 'pending')) {
+      throw new Error('This fine already has an appeal under review');
+    }
+
+    if (fine.appeals.length > 0) {
+      throw new Error('This fine has already been appealed');
+    }
+
+    const appeal = await prisma.$transaction(async (tx) => {
+      const created = await tx.fineAppeal.create({
+        data: {
+          fineId,
+          memberId: fine.memberId,
+          reason: data.reason,
+          attachmentFile: data.attachmentFile || null,
+          attachmentName: data.attachmentFile ? data.attachmentName || null : null,
+        },
+      });
+
+      if (!data.attachmentFile) {
+        return created;
+      }
+
+      // Evidence is only reachable through the authenticated download endpoint
+      return tx.fineAppeal.update({
+        where: { id: created.id },
+        data: { attachmentUrl: `${env.API_PREFIX}/fine-appeals/${created.id}/attachment` },
+      });
+    });
+
+    await logger.info(LogAction.SUBMIT_FINE_APPEAL, {
+      appealId: appeal.id,
+      fineId,
+      memberId: fine.memberId,
+      amount: fine.amount,
+      hasAttachment: !!data.attachmentFile,
+    }, userId);
+
+    try {
+      const { adminNotificationService } = await import('./admin-notification.service');
+      await adminNotificationService.notifyFineAppeal(
+        fine.member.user.username,
+        fine.member.user.loginId,
+        fineId,
+        parseFloat(fine.amount.toString()),
+        appeal.id
+      );
+    } catch (adminNotifError) {
+      await logger.error(LogAction.CREATE_NOTIFICATION, {
+        error: (adminNotifError as Error).message,
+        appealId: appeal.id,
+        type: 'admin_notification',
+      });
+    }
+
+    return appeal;
+  }
+
+  /**
+   * Get appeals, pending ones first and oldest first (Admin review queue)
+   */
+  async getAppeals(status?: string) {
+    return prisma.fineAppeal.findMany({
+      where: status ? { status } : {},
+      include: appealInclude,
+      orderBy: [{ status: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Get a member's appeals
+   */
+  async getMemberAppeals(memberId: number) {
+    return prisma.fineAppeal.findMany({
+      where: { memberId },
+      include: appealInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Get an appeal by ID
+   */
+  async getAppealById(appealId: number) {
+    const appeal = await prisma.fineAppeal.findUnique({
+      where: { id: appealId },
+      include: appealInclude,
+    });
+
+    if (!appeal) {
+      throw new Error('Appeal not found');
+    }
+
+    return appeal;
+  }
+
+  /**
+   * Locate an appeal's attachment (the appellant, Librarian or Admin)
+   */
+  async getAttachment(appealId: number, userId: number, accountType: string) {
+    const appeal = await this.getAppealById(appealId);
+
+    if (accountType === 'MEMBER' && appeal.member.userId !== userId) {
+      throw new Error('Appeal not found');
+    }
+
+    const filePath = appeal.attachmentFile && path.join(appealsDir, path.basename(appeal.attachmentFile));
+    if (!filePath || !fs.existsSync(filePath)) {
+      throw new Error('This appeal has no attachment');
+    }
+
+    return {
+      path: filePath,
+      filename: appeal.attachmentName || path.basename(filePath),
+    };
+  }
+
+  /**
+   * Decide an appeal (Admin only)
+   * approve: waive the whole fine, or just waiveAmount of it - anything already paid beyond the new amount is refunded
+   * deny: the fine stands and goes back into normal hold escalation
+   * PERSISTENCE: Updates FINE_APPEAL and FINE, logs to SYSTEM_LOG
+   */
+  async reviewAppeal(appealId: number, reviewedBy: number, data: ReviewAppealData) {
+    const appeal = await this.getAppealById(appealId);
+
+    if (appeal.status !== 'pending') {
+      throw new Error('This appeal has already been decided');
+    }
+
+    if (!APPEAL_DECISIONS.includes(data.decision)) {
+      throw new Error(`Decision must be one of: ${APPEAL_DECISIONS.join(', ')}`);
+    }
+
+    const fineAmount = parseFloat(appeal.fine.amount.toString());
+    let waivedAmount: number | null = null;
+
+    if (data.decision === 'approve') {
+      waivedAmount = data.waiveAmount !== undefined ? Math.round(data.waiveAmount * 100) / 100 : fineAmount;
+
+      if (!(waivedAmount > 0) || waivedAmount > fineAmount) {
+        throw new Error(`Waiver must be between $0.01 and the fine amount of $${fineAmount.toFixed(2)}`);
+      }
+    }
+
+    // PERSISTENCE: Decide the appeal and credit the fine in one transaction
+    const { updatedAppeal, credited } = await prisma.$transaction(async (tx) => {
+      // Only a still-pending appeal is decided, so two reviewers cannot both waive the fine
+      const decided = await tx.fineAppeal.updateMany({
+        where: { id: appealId, status: 'pending' },
+        data: {
+          status: data.decision === 'approve' ? 'approved' : 'denied',
+          waivedAmount,
+          reviewedBy,
+          reviewedAt: new Date(),
+          reviewNotes: data.notes || null,
+        },
+      });
+
+      if (decided.count === 0) {
+        throw new Error('This appeal has already been decided');
+      }
+
+      const credited = waivedAmount !== null
+        ? await fineService.applyFineCredit(
+            tx,
+            appeal.fineId,
+            waivedAmount,
+            reviewedBy,
+            `Appeal #${appeal.id} approved${data.notes ? ` - ${data.notes}` : ''}`
+          )
+        : null;
+
+      const updatedAppeal = await tx.fineAppeal.findUniqueOrThrow({
+        where: { id: appealId },
+        include: appealInclude,
+      });
+
+      return { updatedAppeal, credited };
+    });
+
+    if (credited) {
+      await fineService.reportFineCredit(credited, reviewedBy);
+    }
+
+    await logger.info(LogAction.REVIEW_FINE_APPEAL, {
+      appealId,
+      fineId: appeal.fineId,
+      memberId: appeal.memberId,
+      decision: data.decision,
+      fineAmount,
+      waivedAmount,
+      notes: data.notes,
+    }, reviewedBy);
+
+    // The fine is no longer frozen: a denied appeal puts it back under the hold rules
+    try {
+      await holdService.applyHoldRules(appeal.memberId, reviewedBy);
+    } catch (holdError) {
+      await logger.error(LogAction.PLACE_HOLD, {
+        error: (holdError as Error).message,
+        appealId,
+        memberId: appeal.memberId,
+      });
+    }
+
+    const fineLabel = appeal.fine.loan ? `your fine for "${appeal.fine.loan.bookCopy.book.title}"` : `your fine "${appeal.fine.reason}"`;
+
+    try {
+      await notificationService.createNotification({
+        userId: appeal.member.userId,
+        type: 'FINE_APPEAL_DECIDED',
+        title: data.decision === 'approve' ? 'Fine Appeal Approved' : 'Fine Appeal Denied',
+        message: data.decision === 'deny'
+          ? `Your appeal on ${fineLabel} was denied.${data.notes ? ` ${data.notes}` : ''}`
+          : waivedAmount === fineAmount
+            ? `Your appeal was approved and ${fineLabel} has been waived in full.`
+            : `Your appeal was approved and $${waivedAmount!.toFixed(2)} of ${fineLabel} has been waived.`,
+        priority: 'normal',
+        payload: {
+          appealId,
+          fineId: appeal.fineId,
+          decision: data.decision,
+          waivedAmount,
+        },
+      });
+    } catch (notifError) {
+      await logger.error(LogAction.CREATE_NOTIFICATION, {
+        error: (notifError as Error).message,
+        appealId,
+      });
+    }
+
+    return updatedAppeal;
+  }
+}
+
+export default new FineAppealService();
@@ -1,9 +1,35 @@
+import { Fine, Prisma } from '@prisma/client';
 import prisma from '../config/database';
 import { logger, LogAction } from '../utils/logger';
 import { notificationService } from './notification.service';
 import { holdService } from './hold.service';
+import { paymentService } from './payment.service';
+import circulationPolicyService, { ResolvedPolicy } from './circulation-policy.service';
+import libraryCalendarService from './library-calendar.service';
 import { Decimal } from '@prisma/client/runtime/library';
 
+/**
+ * What settling a loan's overdue fine changed, for reporting once the transaction has committed
+ */
+export interface SettledFine {
+  fine: Fine;
+  charged: boolean; // Created at settlement because the daily job had not charged it yet
+  increase: number; // Accrued since the last run of the daily job
+  credit: number; // Credited back for time accrued after a backdated return
+  refund: number;
+}
+
+/**
+ * What crediting a fine changed, for reporting once the transaction has committed
+ */
+export interface CreditedFine {
+  fine: Fine;
+  previousAmount: Decimal;
+  credit: number;
+  refund: number;
+  notes?: string;
+}
+
 class FineService {
   /**
    * Charge a fine to a member
@@ -14,7 +40,8 @@ class FineService {
     reason: string,
     chargedByAdminId: number,
     loanId?: number,
-    notes?: string
+    notes?: string,
+    type: string = 'manual'
   ) {
     // Check if member exists
     const member = await prisma.member.findUnique({
@@ -31,6 +58,7 @@ class FineService {
       data: {
         memberId,
         loanId: loanId || null,
+        type,
         amount: new Decimal(amount),
         currency: 'USD',
         reason,
@@ -40,52 +68,20 @@ class FineService {
       },
     });
 
-    // Send notification to member
-    await notificationService.notifyFineCharged(memberId, fine.id, amount, reason);
+    await this.announceCharge(fine, member.user, chargedByAdminId);
 
-    // Notify all admins about the fine
-    try {
-      const { adminNotificationService } = await import('./admin-notification.service');
-      await adminNotificationService.notifyFineCharged(
-        member.user.username,
-        member.user.loginId,
-        fine.id,
-        amount,
-        reason,
-        loanId
-      );
-    } catch (adminNotifError) {
-      await logger.error(LogAction.CREATE_NOTIFICATION, {
-        error: (adminNotifError as Error).message,
-        fineId: fine.id,
-        type: 'admin_fine_notification',
-      });
-    }
-
-    await logger.info(LogAction.CHARGE_FINE, {
-      fineId: fine.id,
-      memberId,
-      amount,
-      reason,
-      loanId,
-    }, chargedByAdminId);
+    await holdService.applyHoldRules(memberId, chargedByAdminId);
 
     return fine;
   }
 
   /**
    * Pay a fine
+   * Recorded in the payment ledger as a payment covering this one fine
    */
-  async payFine(fineId: number, paidAmount: number, paidByUserId: number) {
+  async payFine(fineId: number, paidAmount: number, paidByUserId: number, method: string = 'cash', reference?: string) {
     const fine = await prisma.fine.findUnique({
       where: { id: fineId },
-      include: {
-        member: {
-          include: {
-            user: true,
-          },
-        },
-      },
     });
 
     if (!fine) {
@@ -96,86 +92,19 @@ class FineService {
       throw new Error('Fine is already paid');
     }
 
-    const totalPaid = fine.paidAmount 
-      ? parseFloat(fine.paidAmount.toString()) + paidAmount 
-      : paidAmount;
-    const totalDue = parseFloat(fine.amount.toString());
-
-    let status: string;
-    if (totalPaid >= totalDue) {
-      status = 'paid';
-    } else {
-      status = 'partially_paid';
-    }
-
-    // Update the fine
-    const updatedFine = await prisma.fine.update({
-      where: { id: fineId },
-      data: {
-        paidAmount: new Decimal(totalPaid),
-        paidAt: status === 'paid' ? new Date() : fine.paidAt,
-        status,
-      },
-    });
-
-    await logger.info(LogAction.PAY_FINE, {
-      fineId,
+    const payment = await paymentService.recordPayment({
       memberId: fine.memberId,
-      paidAmount,
-      totalPaid,
-      status,
+      amount: paidAmount,
+      method,
+      reference,
+      fineIds: [fineId],
     }, paidByUserId);
 
-    // Send notification for fine payment
-    if (status === 'paid') {
-      await notificationService.createNotification({
-        userId: fine.member.userId,
-        type: 'FINE_PAID',
-        title: 'Fine Paid Successfully',
-        message: `Your fine of $${fine.amount.toString()} has been paid in full. Thank you for your payment.`,
-        priority: 'normal',
-        payload: {
-          fineId: fine.id,
-          amount: parseFloat(fine.amount.toString()),
-          reason: fine.reason,
-        },
-      });
-
-      // Notify admins about fine payment
-      try {
-        const { adminNotificationService } = await import('./admin-notification.service');
-        await adminNotificationService.notifyFinePaid(
-          fine.member.user.username,
-          fine.member.user.loginId,
-          fine.member.id,
-          fine.id,
-          parseFloat(fine.amount.toString())
-        );
-      } catch (adminNotifError) {
-        await logger.error(LogAction.CREATE_NOTIFICATION, {
-          error: (adminNotifError as Error).message,
-          fineId: fine.id,
-          type: 'admin_fine_paid_notification',
-        });
-      }
-    }
-
-    // Check if member has 3+ holds and all fines paid, then remove holds
-    if (status === 'paid') {
-      const hasThreeHolds = await holdService.hasThreeOrMoreHolds(fine.memberId);
-      if (hasThreeHolds) {
-        const unpaidFines = await this.getMemberUnpaidFines(fine.memberId);
-        if (unpaidFines.length === 0) {
-          // All fines paid, remove all holds
-          const activeHolds = await holdService.getMemberHolds(fine.memberId, true);
-          for (const hold of activeHolds) {
-            await holdService.removeHold(hold.id, paidByUserId, 'All fines paid');
-          }
-        }
-      }
-    }
+    const updatedFine = await prisma.fine.findUnique({
+      where: { id: fineId },
+    });
 
-    return updatedFine;
+    return { fine: updatedFine!, payment };
   }
 
   /**
@@ -211,22 +140,78 @@ class FineService {
       amount: fine.amount,
     }, waivedByAdminId);
 
-    // Check if member has 3+ holds and all fines paid/waived, then remove holds
-    const hasThreeHolds = await holdService.hasThreeOrMoreHolds(fine.memberId);
-    if (hasThreeHolds) {
-      const unpaidFines = await this.getMemberUnpaidFines(fine.memberId);
-      if (unpaidFines.length === 0) {
-        // All fines paid/waived, remove all holds
-        const activeHolds = await holdService.getMemberHolds(fine.memberId, true);
-        for (const hold of activeHolds) {
-          await holdService.removeHold(hold.id, waivedByAdminId, 'All fines resolved');
-        }
-      }
-    }
+    // Lift any rule-placed holds the waiver has cleared
+    await holdService.applyHoldRules(fine.memberId, waivedByAdminId);
 
     return updatedFine;
   }
 
+  /**
+   * Reduce a fine by a credit, refunding anything already paid beyond the reduced amount
+   * A fine credited down to nothing is waived, or refunded if money had been paid
+   * PERSISTENCE: Updates FINE, logs to SYSTEM_LOG
+   */
+  async creditFine(fineId: number, creditAmount: number, creditedBy: number, notes?: string) {
+    const credited = await prisma.$transaction((tx) => this.applyFineCredit(tx, fineId, creditAmount, creditedBy, notes));
+
+    await this.reportFineCredit(credited, creditedBy);
+    await holdService.applyHoldRules(credited.fine.memberId, creditedBy);
+
+    return { fine: credited.fine, credit: credited.credit, refund: credited.refund };
+  }
+
+  /**
+   * Credit a fine with its row locked, so two credits (or a credit and a payment) never start from the same balance
+   * Runs inside the caller's transaction; pass the result to reportFineCredit once it has committed
+   */
+  async applyFineCredit(
+    tx: Prisma.TransactionClient,
+    fineId: number,
+    creditAmount: number,
+    creditedBy: number,
+    notes?: string
+  ): Promise<CreditedFine> {
+    await tx.$queryRaw`SELECT "id" FROM "fines" WHERE "id" = ${fineId} FOR UPDATE`;
+
+    const fine = await tx.fine.findUnique({
+      where: { id: fineId },
+    });
+
+    if (!fine) {
+      throw new Error('Fine not found');
+    }
+
+    if (fine.status === 'waived' || fine.status === 'refunded') {
+      throw new Error(`Fine cannot be credited (current status: ${fine.status})`);
+    }
+
+    const { data, credit, refund } = this.creditChanges(fine, creditAmount, creditedBy, notes);
+
+    const updatedFine = await tx.fine.update({
+      where: { id: fineId },
+      data,
+    });
+
+    return { fine: updatedFine, previousAmount: fine.amount, credit, refund, notes };
+  }
+
+  /**
+   * Log what applyFineCredit changed, after the caller's transaction has committed
+   * Hold rules are left to the caller
+   */
+  async reportFineCredit(credited: CreditedFine, creditedBy: number) {
+    await logger.info(LogAction.CREDIT_FINE, {
+      fineId: credited.fine.id,
+      memberId: credited.fine.memberId,
+      previousAmount: credited.previousAmount,
+      credit: credited.credit,
+      newAmount: credited.fine.amount,
+      refund: credited.refund,
+      status: credited.fine.status,
+      notes: credited.notes,
+    }, creditedBy);
+  }
+
   /**
    * Get member's fines
    */
@@ -239,6 +224,12 @@ class FineService {
     const fines = await prisma.fine.findMany({
       where,
       include: {
+        accruals: {
+          orderBy: { accruedAt: 'asc' },
+        },
+        appeals: {
+          orderBy: { createdAt: 'desc' },
+        },
         loan: {
           include: {
             bookCopy: {
@@ -312,60 +303,328 @@ class FineService {
 
   /**
    * Calculate overdue fine amount
-   * Rate: $0.50 per day overdue
+   * Rate and cap come from the loan's circulation policy
    */
-  calculateOverdueFine(daysOverdue: number): number {
-    const ratePerDay = 0.50;
-    return daysOverdue * ratePerDay;
+  calculateOverdueFine(daysOverdue: number, policy: ResolvedPolicy): number {
+    return circulationPolicyService.calculateFine(daysOverdue, policy);
   }
 
   /**
-   * Auto-charge fines for overdue books
+   * Bring the running overdue fine for a loan up to date as of a point in time
+   * The fine is created on the first overdue day the library is open and grows once per open day until it reaches the policy cap
+   * Short-loan fines count overdue hours instead of days
+   * Returns the fine when it was created or grew, null when nothing changed
+   * PERSISTENCE: Creates/updates FINE, records FINE_ACCRUAL, logs to SYSTEM_LOG
    */
-  async autoChargeOverdueFines() {
-    const now = new Date();
-
-    const overdueLoans = await prisma.loan.findMany({
-      where: {
-        status: 'overdue',
-        returnDatetime: null,
-      },
+  async accrueOverdueFine(loanId: number, asOf: Date = new Date(), actedBy: number = 1) {
+    const loan = await prisma.loan.findUnique({
+      where: { id: loanId },
       include: {
         member: true,
         bookCopy: {
-          include: {
-            book: true,
+          include: { book: true },
+        },
+      },
+    });
+
+    if (!loan) {
+      throw new Error('Loan not found');
+    }
+
+    const policy = await circulationPolicyService.resolvePolicyForLoan(loanId);
+    const daysOverdue = await this.countChargeableUnits(loan.dueDatetime, asOf, policy.fineUnit);
+
+    if (daysOverdue <= 0) {
+      return null;
+    }
+
+    const existingFine = await prisma.fine.findFirst({
+      where: { loanId, type: 'overdue' },
+      orderBy: { chargedAt: 'desc' },
+    });
+
+    // Finalized and waived fines no longer accrue
+    if (existingFine && (existingFine.finalizedAt || existingFine.status === 'waived')) {
+      return null;
+    }
+
+    if (existingFine && existingFine.daysAccrued !== null && existingFine.daysAccrued >= daysOverdue) {
+      return null;
+    }
+
+    const totalAmount = this.calculateOverdueFine(daysOverdue, policy);
+    const capped = policy.maxFine !== null && totalAmount >= policy.maxFine;
+    const reason = `Overdue fine for "${loan.bookCopy.book.title}" (${daysOverdue} ${policy.fineUnit}(s))`;
+
+    if (!existingFine) {
+      if (totalAmount <= 0) {
+        return null;
+      }
+
+      const fine = await this.chargeFine(
+        loan.memberId,
+        totalAmount,
+        reason,
+        actedBy,
+        loan.id,
+        policy.fineUnit === 'hour' ? 'Accrues hourly until the book is returned' : 'Accrues daily until the book is returned',
+        'overdue'
+      );
+
+      return prisma.fine.update({
+        where: { id: fine.id },
+        data: {
+          accrualUnit: policy.fineUnit,
+          daysAccrued: daysOverdue,
+          lastAccruedAt: asOf,
+          accruals: {
+            create: {
+              daysOverdue,
+              amount: new Decimal(totalAmount),
+              totalAmount: new Decimal(totalAmount),
+              capped,
+              accruedAt: asOf,
+            },
+          },
+        },
+      });
+    }
+
+    const previousAmount = parseFloat(existingFine.amount.toString());
+    const increase = Math.round((totalAmount - previousAmount) * 100) / 100;
+
+    if (increase <= 0) {
+      // Cap already reached: keep the day count current without another accrual entry
+      await prisma.fine.update({
+        where: { id: existingFine.id },
+        data: {
+          daysAccrued: daysOverdue,
+          lastAccruedAt: asOf,
+        },
+      });
+      return null;
+    }
+
+    // A fine paid off while the book was still out is owed again once it grows
+    const paid = existingFine.paidAmount ? parseFloat(existingFine.paidAmount.toString()) : 0;
+    const status = paid > 0 ? (paid >= totalAmount ? 'paid' : 'partially_paid') : 'unpaid';
+
+    const updatedFine = await prisma.fine.update({
+      where: { id: existingFine.id },
+      data: {
+        amount: new Decimal(totalAmount),
+        reason,
+        status,
+        daysAccrued: daysOverdue,
+        lastAccruedAt: asOf,
+        accruals: {
+          create: {
+            daysOverdue,
+            amount: new Decimal(increase),
+            totalAmount: new Decimal(totalAmount),
+            capped,
+            accruedAt: asOf,
           },
         },
       },
     });
 
-    const finesCharged = [];
-    for (const loan of overdueLoans) {
-      // Check if fine already exists for this loan
-      const existingFine = await prisma.fine.findFirst({
-        where: {
-          loanId: loan.id,
-          status: { in: ['unpaid', 'partially_paid'] },
+    await logger.info(LogAction.ACCRUE_FINE, {
+      fineId: existingFine.id,
+      loanId,
+      memberId: loan.memberId,
+      daysOverdue,
+      increase,
+      totalAmount,
+      capped,
+    }, actedBy);
+
+    return updatedFine;
+  }
+
+  /**
+   * Settle the running overdue fine when a loan is returned or declared lost
+   * Brings the fine to what is owed up to returnedAt - charging it if the daily job never did, or crediting
+   * back time it accrued after a backdated return - then stops it from growing any further
+   * Runs inside the caller's transaction; pass the result to reportSettledFine once it has committed
+   */
+  async settleOverdueFine(
+    tx: Prisma.TransactionClient,
+    loanId: number,
+    returnedAt: Date,
+    actedBy: number
+  ): Promise<SettledFine | null> {
+    const loan = await tx.loan.findUnique({
+      where: { id: loanId },
+      include: {
+        bookCopy: {
+          include: { book: true },
+        },
+      },
+    });
+
+    if (!loan) {
+      throw new Error('Loan not found');
+    }
+
+    const fine = await tx.fine.findFirst({
+      where: { loanId, type: 'overdue' },
+      orderBy: { chargedAt: 'desc' },
+    });
+
+    if (fine?.finalizedAt) {
+      return null;
+    }
+
+    const policy = await circulationPolicyService.resolvePolicyForLoan(loanId);
+    const units = await this.countChargeableUnits(loan.dueDatetime, returnedAt, policy.fineUnit);
+    const totalAmount = this.calculateOverdueFine(units, policy);
+    const capped = policy.maxFine !== null && totalAmount >= policy.maxFine;
+    const reason = `Overdue fine for "${loan.bookCopy.book.title}" (${units} ${policy.fineUnit}(s))`;
+    const accrual = (amount: number) => ({
+      create: {
+        daysOverdue: units,
+        amount: new Decimal(amount),
+        totalAmount: new Decimal(totalAmount),
+        capped,
+        accruedAt: returnedAt,
+      },
+    });
+
+    if (!fine) {
+      if (units <= 0 || totalAmount <= 0) {
+        return null;
+      }
+
+      const created = await tx.fine.create({
+        data: {
+          memberId: loan.memberId,
+          loanId,
+          type: 'overdue',
+          amount: new Decimal(totalAmount),
+          currency: 'USD',
+          reason,
+          chargedBy: actedBy,
+          status: 'unpaid',
+          accrualUnit: policy.fineUnit,
+          daysAccrued: units,
+          lastAccruedAt: returnedAt,
+          finalizedAt: returnedAt,
+          accruals: accrual(totalAmount),
         },
       });
 
-      // Calculate days overdue
-      const daysOverdue = Math.floor(
-        (now.getTime() - new Date(loan.dueDatetime).getTime()) / (1000 * 60 * 60 * 24)
+      return { fine: created, charged: true, increase: 0, credit: 0, refund: 0 };
+    }
+
+    const settled: SettledFine = { fine, charged: false, increase: 0, credit: 0, refund: 0 };
+    const previousAmount = parseFloat(fine.amount.toString());
+    const closed = fine.status === 'waived' || fine.status === 'refunded';
+    let data: Prisma.FineUpdateInput = {};
+
+    if (!closed && fine.daysAccrued !== null && fine.daysAccrued > units) {
+      // Backdated return: credit back what the daily job accrued after it
+      const changes = this.creditChanges(
+        fine,
+        previousAmount - totalAmount,
+        actedBy,
+        `Returned ${returnedAt.toLocaleString()}, ${fine.daysAccrued - units} ${policy.fineUnit}(s) accrued after the return`
       );
+      settled.credit = changes.credit;
+      settled.refund = changes.refund;
+      data = { ...changes.data, accruals: accrual(-changes.credit) };
+    } else if (!closed && totalAmount > previousAmount) {
+      // Time since the daily job last ran; a fine paid off while the book was out is owed again
+      const paid = fine.paidAmount ? parseFloat(fine.paidAmount.toString()) : 0;
+      settled.increase = Math.round((totalAmount - previousAmount) * 100) / 100;
+      data = {
+        amount: new Decimal(totalAmount),
+        reason,
+        status: paid > 0 ? (paid >= totalAmount ? 'paid' : 'partially_paid') : 'unpaid',
+        accruals: accrual(settled.increase),
+      };
+    }
+
+    settled.fine = await tx.fine.update({
+      where: { id: fine.id },
+      data: {
+        ...data,
+        ...(!closed && { daysAccrued: units, lastAccruedAt: returnedAt }),
+        finalizedAt: returnedAt,
+      },
+    });
+
+    return settled;
+  }
+
+  /**
+   * Log and announce what settleOverdueFine changed, after the caller's transaction has committed
+   */
+  async reportSettledFine(settled: SettledFine | null, actedBy: number) {
+    if (!settled) {
+      return;
+    }
+
+    const { fine } = settled;
+
+    if (settled.charged) {
+      const member = await prisma.member.findUnique({
+        where: { id: fine.memberId },
+        include: { user: true },
+      });
+      if (member) {
+        await this.announceCharge(fine, member.user, actedBy);
+      }
+    } else if (settled.increase > 0) {
+      await logger.info(LogAction.ACCRUE_FINE, {
+        fineId: fine.id,
+        loanId: fine.loanId,
+        memberId: fine.memberId,
+        daysOverdue: fine.daysAccrued,
+        increase: settled.increase,
+        totalAmount: fine.amount,
+      }, actedBy);
+    } else if (settled.credit > 0) {
+      await logger.info(LogAction.CREDIT_FINE, {
+        fineId: fine.id,
+        memberId: fine.memberId,
+        credit: settled.credit,
+        newAmount: fine.amount,
+        refund: settled.refund,
+        status: fine.status,
+      }, actedBy);
+    }
+
+    await logger.info(LogAction.FINALIZE_FINE, {
+      fineId: fine.id,
+      loanId: fine.loanId,
+      memberId: fine.memberId,
+      amount: fine.amount,
+      daysAccrued: fine.daysAccrued,
+    }, actedBy);
 
-      if (!existingFine && daysOverdue > 0) {
-        // Charge new fine
-        const amount = this.calculateOverdueFine(daysOverdue);
-        const fine = await this.chargeFine(
-          loan.memberId,
-          amount,
-          `Overdue fine for "${loan.bookCopy.book.title}" (${daysOverdue} days)`,
-          1, // System admin ID
-          loan.id,
-          'Automatically charged by system'
-        );
+    if (settled.charged || settled.increase > 0 || settled.credit > 0) {
+      await holdService.applyHoldRules(fine.memberId, actedBy);
+    }
+  }
+
+  /**
+   * Accrue the running fines for overdue books (called daily by scheduled job)
+   */
+  async autoChargeOverdueFines() {
+    const now = new Date();
+
+    const overdueLoans = await prisma.loan.findMany({
+      where: {
+        status: 'overdue',
+        returnDatetime: null,
+      },
+    });
+
+    const finesCharged = [];
+    for (const loan of overdueLoans) {
+      const fine = await this.accrueOverdueFine(loan.id, now);
+      if (fine) {
         finesCharged.push(fine);
       }
     }
@@ -378,6 +637,105 @@ class FineService {
 
     return finesCharged;
   }
+
+  /**
+   * Helper: Notify the member and admins about a new fine and log the charge
+   */
+  private async announceCharge(
+    fine: Fine,
+    user: { username: string; loginId: string },
+    chargedBy: number
+  ) {
+    const amount = parseFloat(fine.amount.toString());
+
+    // Send notification to member
+    await notificationService.notifyFineCharged(fine.memberId, fine.id, amount, fine.reason);
+
+    // Notify all admins about the fine
+    try {
+      const { adminNotificationService } = await import('./admin-notification.service');
+      await adminNotificationService.notifyFineCharged(
+        user.username,
+        user.loginId,
+        fine.id,
+        amount,
+        fine.reason,
+        fine.loanId ?? undefined
+      );
+    } catch (adminNotifError) {
+      await logger.error(LogAction.CREATE_NOTIFICATION, {
+        error: (adminNotifError as Error).message,
+        fineId: fine.id,
+        type: 'admin_fine_notification',
+      });
+    }
+
+    await logger.info(LogAction.CHARGE_FINE, {
+      fineId: fine.id,
+      memberId: fine.memberId,
+      amount,
+      reason: fine.reason,
+      loanId: fine.loanId ?? undefined,
+    }, chargedBy);
+  }
+
+  /**
+   * Helper: The update that reduces a fine by a credit, refunding anything already paid beyond the reduced amount
+   */
+  private creditChanges(fine: Fine, creditAmount: number, creditedBy: number, notes?: string) {
+    const amount = parseFloat(fine.amount.toString());
+    const credit = Math.round(Math.min(Math.max(creditAmount, 0), amount) * 100) / 100;
+    const newAmount = Math.round((amount - credit) * 100) / 100;
+    const paid = fine.paidAmount ? parseFloat(fine.paidAmount.toString()) : 0;
+    const refund = Math.round(Math.max(paid - newAmount, 0) * 100) / 100;
+    const newPaid = Math.round((paid - refund) * 100) / 100;
+
+    let status: string;
+    if (newAmount === 0) {
+      status = refund > 0 ? 'refunded' : 'waived';
+    } else if (newPaid >= newAmount) {
+      status = 'paid';
+    } else {
+      status = newPaid > 0 ? 'partially_paid' : 'unpaid';
+    }
+
+    const previousRefund = fine.refundedAmount ? parseFloat(fine.refundedAmount.toString()) : 0;
+    const creditNote = `Credited $${credit.toFixed(2)}${refund > 0 ? `, refunded $${refund.toFixed(2)}` : ''}${notes ? `: ${notes}` : ''}`;
+
+    const data = {
+      amount: new Decimal(newAmount),
+      paidAmount: fine.paidAmount ? new Decimal(newPaid) : null,
+      status,
+      refundedAmount: refund > 0 ? new Decimal(previousRefund + refund) : fine.refundedAmount,
+      refundedAt: refund > 0 ? new Date() : fine.refundedAt,
+      waivedAt: status === 'waived' ? new Date() : fine.waivedAt,
+      waivedBy: status === 'waived' ? creditedBy : fine.waivedBy,
+      notes: `${fine.notes || ''}\n${creditNote}`.trim(),
+    } satisfies Prisma.FineUpdateInput;
+
+    return { data, credit, refund };
+  }
+
+  /**
+   * Helper: Count the overdue days (or hours) that can be charged as of a point in time
+   * Days the library was closed are not charged; hourly fines count every started hour
+   */
+  private async countChargeableUnits(dueDatetime: Date, asOf: Date, unit: 'day' | 'hour'): Promise<number> {
+    if (unit === 'hour') {
+      return Math.max(Math.ceil((asOf.getTime() - dueDatetime.getTime()) / (1000 * 60 * 60)), 0);
+    }
+
+    const calendarDaysOverdue = Math.ceil(
+      (asOf.getTime() - dueDatetime.getTime()) / (1000 * 60 * 60 * 24)
+    );
+
+    if (calendarDaysOverdue <= 0) {
+      return 0;
+    }
+
+    const closedDays = await libraryCalendarService.countClosedDays(dueDatetime, calendarDaysOverdue);
+    return calendarDaysOverdue - closedDays;
+  }
 }
 
 export const fineService = new FineService();
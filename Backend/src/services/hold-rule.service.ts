@@ -0,0 +1,164 @@
+// FILE: src/services/hold-rule.service.ts
+// Admin-configured hold escalation rules; HoldService applies them
+
+import { Decimal } from '@prisma/client/runtime/library';
+import prisma from '../config/database';
+import { logger, LogAction } from '../utils/logger';
+import { holdService } from './hold.service';
+
+export const HOLD_RULE_TYPES = ['unpaid_fines', 'overdue_days'];
+
+export interface HoldRuleData {
+  name: string;
+  type: string;
+  threshold: number;
+  autoLift?: boolean;
+  isActive?: boolean;
+  notes?: string | null;
+}
+
+class HoldRuleService {
+  /**
+   * Get all rules with how many holds each currently has in place
+   */
+  async getAllRules() {
+    return prisma.holdRule.findMany({
+      include: {
+        _count: {
+          select: { holds: { where: { status: 'active' } } },
+        },
+      },
+      orderBy: [{ isActive: 'desc' }, { type: 'asc' }, { threshold: 'asc' }],
+    });
+  }
+
+  /**
+   * Get a rule by ID
+   */
+  async getRuleById(ruleId: number) {
+    const rule = await prisma.holdRule.findUnique({
+      where: { id: ruleId },
+    });
+
+    if (!rule) {
+      throw new Error('Hold rule not found');
+    }
+
+    return rule;
+  }
+
+  /**
+   * Create a rule and apply it straight away
+   * PERSISTENCE: Stores in HOLD_RULE table, logs to SYSTEM_LOG
+   */
+  async createRule(data: HoldRuleData, userId: number) {
+    this.assertValid(data.type, data.threshold);
+
+    const rule = await prisma.holdRule.create({
+      data: {
+        name: data.name,
+        type: data.type,
+        threshold: new Decimal(data.threshold),
+        autoLift: data.autoLift ?? true,
+        isActive: data.isActive ?? true,
+        notes: data.notes || null,
+      },
+    });
+
+    await logger.info(LogAction.CREATE_HOLD_RULE, {
+      ruleId: rule.id,
+      name: rule.name,
+      type: rule.type,
+      threshold: data.threshold,
+      autoLift: rule.autoLift,
+      createdBy: userId,
+    }, userId);
+
+    const applied = await holdService.applyHoldRules(undefined, userId);
+
+    return { rule, placed: applied.placed.length, lifted: applied.lifted.length };
+  }
+
+  /**
+   * Update a rule and re-apply the rules; deactivating one lifts its holds when it auto-lifts
+   * PERSISTENCE: Updates HOLD_RULE table, logs to SYSTEM_LOG
+   */
+  async updateRule(ruleId: number, data: Partial<HoldRuleData>, userId: number) {
+    const rule = await this.getRuleById(ruleId);
+
+    this.assertValid(
+      data.type ?? rule.type,
+      data.threshold ?? parseFloat(rule.threshold.toString())
+    );
+
+    const updatedRule = await prisma.holdRule.update({
+      where: { id: ruleId },
+      data: {
+        name: data.name,
+        type: data.type,
+        threshold: data.threshold !== undefined ? new Decimal(data.threshold) : undefined,
+        autoLift: data.autoLift,
+        isActive: data.isActive,
+        notes: data.notes,
+      },
+    });
+
+    await logger.info(LogAction.UPDATE_HOLD_RULE, {
+      ruleId,
+      changes: data,
+      updatedBy: userId,
+    }, userId);
+
+    const applied = await holdService.applyHoldRules(undefined, userId);
+
+    return { rule: updatedRule, placed: applied.placed.length, lifted: applied.lifted.length };
+  }
+
+  /**
+   * Delete a rule that has never placed a hold; rules with history are deactivated instead
+   * PERSISTENCE: Deletes from HOLD_RULE table, logs to SYSTEM_LOG
+   */
+  async deleteRule(ruleId: number, userId: number) {
+    const rule = await this.getRuleById(ruleId);
+
+    const holdCount = await prisma.hold.count({
+      where: { ruleId },
+    });
+
+    if (holdCount > 0) {
+      throw new Error('This rule has placed holds and is kept for their history. Deactivate it instead.');
+    }
+
+    await prisma.holdRule.delete({
+      where: { id: ruleId },
+    });
+
+    await logger.info(LogAction.DELETE_HOLD_RULE, {
+      ruleId,
+      name: rule.name,
+      type: rule.type,
+      deletedBy: userId,
+    }, userId);
+
+    return { message: 'Hold rule deleted successfully' };
+  }
+
+  /**
+   * Helper: Check the rule type and that the threshold makes sense for it
+   */
+  private assertValid(type: string, threshold: number) {
+    if (!HOLD_RULE_TYPES.includes(type)) {
+      throw new Error(`Rule type must be one of: ${HOLD_RULE_TYPES.join(', ')}`);
+    }
+
+    if (type === 'overdue_days' && (!Number.isInteger(threshold) || threshold < 1)) {
+      throw new Error('Overdue rules need a whole number of days, at least 1');
+    }
+
+    if (threshold < 0) {
+      throw new Error('Threshold cannot be negative');
+    }
+  }
+}
+
+export default new HoldRuleService();
@@ -1,17 +1,31 @@
+import { HoldRule } from '@prisma/client';
 import prisma from '../config/database';
 import { logger, LogAction } from '../utils/logger';
 import { notificationService } from './notification.service';
 
+export interface PlaceHoldOptions {
+  ruleId?: number; // Set when an escalation rule placed the hold
+  expiresAt?: Date; // Timed hold: expired by the scheduled job at this time
+}
+
+interface RuleMatch {
+  rule: HoldRule;
+  memberId: number;
+  loanId: number | null;
+  reason: string;
+}
+
 class HoldService {
   /**
-   * Place a hold on a member's account
+   * Place a hold on a member's account, optionally until a set time
    */
   async placeHold(
     memberId: number,
     reason: string,
     placedByAdminId: number,
     loanId?: number,
-    notes?: string
+    notes?: string,
+    options: PlaceHoldOptions = {}
   ) {
     // Check if member exists
     const member = await prisma.member.findUnique({
@@ -23,6 +37,10 @@ class HoldService {
       throw new Error('Member not found');
     }
 
+    if (options.expiresAt && options.expiresAt <= new Date()) {
+      throw new Error('Hold end date must be in the future');
+    }
+
     // Create the hold
     const hold = await prisma.hold.create({
       data: {
@@ -30,13 +48,15 @@ class HoldService {
         loanId: loanId || null,
         reason,
         placedBy: placedByAdminId,
+        ruleId: options.ruleId || null,
+        expiresAt: options.expiresAt || null,
         status: 'active',
         notes: notes || null,
       },
     });
 
     // Send notification to member
-    await notificationService.notifyHoldPlaced(memberId, hold.id, reason);
+    await notificationService.notifyHoldPlaced(memberId, hold.id, reason, hold.expiresAt);
 
     // Notify all admins about the hold
     try {
@@ -60,6 +80,8 @@ class HoldService {
       memberId,
       reason,
       loanId,
+      ruleId: options.ruleId,
+      expiresAt: options.expiresAt,
     }, placedByAdminId);
 
     return hold;
@@ -103,6 +125,44 @@ class HoldService {
     return updatedHold;
   }
 
+  /**
+   * Expire timed holds whose end date has passed (called by scheduled job)
+   * PERSISTENCE: Updates HOLD table, logs REMOVE_HOLD to SYSTEM_LOG
+   */
+  async expireHolds() {
+    const dueHolds = await prisma.hold.findMany({
+      where: {
+        status: 'active',
+        expiresAt: { lte: new Date() },
+      },
+    });
+
+    const expired = [];
+    for (const hold of dueHolds) {
+      const updatedHold = await prisma.hold.update({
+        where: { id: hold.id },
+        data: {
+          status: 'expired',
+          removedAt: new Date(),
+          removedBy: 1, // System admin ID
+        },
+      });
+
+      await notificationService.notifyHoldRemoved(hold.memberId, hold.id);
+
+      await logger.info(LogAction.REMOVE_HOLD, {
+        holdId: hold.id,
+        memberId: hold.memberId,
+        expiresAt: hold.expiresAt,
+        type: 'expired',
+      }, 1);
+
+      expired.push(updatedHold);
+    }
+
+    return expired;
+  }
+
   /**
    * Get active holds for a member
    */
@@ -115,6 +175,7 @@ class HoldService {
     const holds = await prisma.hold.findMany({
       where,
       include: {
+        rule: true,
         loan: {
           include: {
             bookCopy: {
@@ -153,14 +214,6 @@ class HoldService {
     return count > 0;
   }
 
-  /**
-   * Check if member has 3 or more holds (requires fine payment)
-   */
-  async hasThreeOrMoreHolds(memberId: number): Promise<boolean> {
-    const count = await this.getActiveHoldCount(memberId);
-    return count >= 3;
-  }
-
   /**
    * Get all holds (Admin view)
    */
@@ -178,6 +231,7 @@ class HoldService {
             user: true,
           },
         },
+        rule: true,
         loan: {
           include: {
             bookCopy: {
@@ -195,66 +249,148 @@ class HoldService {
   }
 
   /**
-   * Auto-place hold for overdue books (called by scheduled job)
-   * Grace period: 7 days after due date
+   * Apply the active hold rules (scheduled job, and after anything that changes a member's fines or loans)
+   * Places a hold for every rule match that doesn't have one yet, and lifts auto-lift holds whose rule no longer matches
+   * Pass a memberId to re-check just that member
    */
-  async autoPlaceOverdueHolds() {
-    const gracePeriodDays = 7;
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - gracePeriodDays);
+  async applyHoldRules(memberId?: number, actedBy: number = 1) {
+    const rules = await prisma.holdRule.findMany({
+      where: { isActive: true },
+    });
+
+    const matches = new Map<string, RuleMatch>();
+    for (const rule of rules) {
+      for (const match of await this.findRuleMatches(rule, memberId)) {
+        matches.set(this.matchKey(rule.id, match.memberId, match.loanId), match);
+      }
+    }
 
-    // Find overdue loans beyond grace period
-    const overdueLoans = await prisma.loan.findMany({
+    const ruleHolds = await prisma.hold.findMany({
       where: {
-        status: 'overdue',
-        dueDatetime: {
-          lt: cutoffDate,
-        },
-      },
-      include: {
-        member: true,
-        bookCopy: {
-          include: {
-            book: true,
-          },
-        },
+        status: 'active',
+        ruleId: { not: null },
+        ...(memberId && { memberId }),
       },
+      include: { rule: true },
     });
 
-    const holdsPlaced = [];
-    for (const loan of overdueLoans) {
-      // Check if hold already exists for this loan
-      const existingHold = await prisma.hold.findFirst({
+    const lifted = [];
+    const heldKeys = new Set<string>();
+    for (const hold of ruleHolds) {
+      const key = this.matchKey(hold.ruleId!, hold.memberId, hold.loanId);
+
+      if (matches.has(key) || !hold.rule!.autoLift) {
+        heldKeys.add(key);
+        continue;
+      }
+
+      lifted.push(await this.removeHold(
+        hold.id,
+        actedBy,
+        `Lifted automatically: "${hold.rule!.name}" no longer applies`
+      ));
+    }
+
+    const placed = [];
+    for (const [key, match] of matches) {
+      if (heldKeys.has(key)) {
+        continue;
+      }
+
+      placed.push(await this.placeHold(
+        match.memberId,
+        match.reason,
+        1, // System admin ID
+        match.loanId ?? undefined,
+        `Automatically placed by rule "${match.rule.name}"`,
+        { ruleId: match.rule.id }
+      ));
+    }
+
+    if (placed.length > 0 || lifted.length > 0) {
+      await logger.info(LogAction.PLACE_HOLD, {
+        type: 'hold_rules',
+        memberId,
+        placed: placed.map((h) => h.id),
+        lifted: lifted.map((h) => h.id),
+      }, actedBy);
+    }
+
+    return { placed, lifted };
+  }
+
+  /**
+   * Helper: Members (and for overdue rules, loans) a rule currently applies to
+   * Fines under a pending appeal are frozen and never count towards a rule
+   */
+  private async findRuleMatches(rule: HoldRule, memberId?: number): Promise<RuleMatch[]> {
+    const threshold = parseFloat(rule.threshold.toString());
+
+    if (rule.type === 'overdue_days') {
+      const cutoffDate = new Date();
+      cutoffDate.setDate(cutoffDate.getDate() - threshold);
+
+      const overdueLoans = await prisma.loan.findMany({
         where: {
-          loanId: loan.id,
-          status: 'active',
+          status: 'overdue',
+          dueDatetime: { lt: cutoffDate },
+          fines: {
+            none: {
+              appeals: { some: { status: 'pending' } },
+            },
+          },
+          ...(memberId && { memberId }),
+        },
+        include: {
+          bookCopy: {
+            include: { book: true },
+          },
         },
       });
 
-      if (!existingHold) {
-        const daysOverdue = Math.floor(
+      return overdueLoans.map((loan) => ({
+        rule,
+        memberId: loan.memberId,
+        loanId: loan.id,
+        reason: `Book "${loan.bookCopy.book.title}" overdue by ${Math.floor(
           (Date.now() - new Date(loan.dueDatetime).getTime()) / (1000 * 60 * 60 * 24)
-        );
+        )} days`,
+      }));
+    }
 
-        const hold = await this.placeHold(
-          loan.memberId,
-          `Book "${loan.bookCopy.book.title}" overdue by ${daysOverdue} days`,
-          1, // System admin ID
-          loan.id,
-          'Automatically placed by system'
-        );
+    if (rule.type === 'unpaid_fines') {
+      const totals = await prisma.fine.groupBy({
+        by: ['memberId'],
+        where: {
+          status: { in: ['unpaid', 'partially_paid'] },
+          appeals: { none: { status: 'pending' } },
+          ...(memberId && { memberId }),
+        },
+        _sum: { amount: true, paidAmount: true },
+      });
 
-        holdsPlaced.push(hold);
-      }
+      return totals
+        .map((t) => ({
+          memberId: t.memberId,
+          outstanding: parseFloat((t._sum.amount ?? 0).toString()) - parseFloat((t._sum.paidAmount ?? 0).toString()),
+        }))
+        .filter((t) => t.outstanding > threshold)
+        .map((t) => ({
+          rule,
+          memberId: t.memberId,
+          loanId: null,
+          reason: `Unpaid fines of $${t.outstanding.toFixed(2)} exceed $${threshold.toFixed(2)}`,
+        }));
     }
 
-    await logger.info(LogAction.PLACE_HOLD, {
-      type: 'auto_overdue_holds',
-      count: holdsPlaced.length,
-      loanIds: overdueLoans.map((l) => l.id),
-    }, 1);
+    return [];
+  }
 
-    return holdsPlaced;
+  /**
+   * Helper: Identify one rule match; overdue rules hold each loan separately
+   */
+  private matchKey(ruleId: number, memberId: number, loanId: number | null) {
+    return `${ruleId}:${memberId}:${loanId ?? ''}`;
   }
 }
 
@@ -0,0 +1,347 @@
+// FILE: src/services/library-calendar.service.ts
+// Library calendar: weekly opening hours and closures that shape due dates and fines
+
+import { CalendarEvent, LibraryHours } from '@prisma/client';
+import prisma from '../config/database';
+import { logger, LogAction } from '../utils/logger';
+import { addDays, toDateKey } from '../utils/date';
+
+export const CALENDAR_EVENT_TYPES = ['closure', 'holiday', 'semester_break'];
+
+export interface LibraryHoursData {
+  opensAt?: string | null;
+  closesAt?: string | null;
+  isClosed: boolean;
+}
+
+export interface CalendarEventData {
+  name: string;
+  type?: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+  isClosed?: boolean;
+  opensAt?: string | null;
+  closesAt?: string | null;
+  notes?: string | null;
+}
+
+/**
+ * Opening hours for a single calendar day after applying closures and special hours
+ */
+export interface DayHours {
+  date: string; // YYYY-MM-DD
+  dayOfWeek: number;
+  isOpen: boolean;
+  opensAt: string | null;
+  closesAt: string | null;
+  event: { id: number; name: string; type: string } | null;
+}
+
+// Give up looking for an open day after a year so a misconfigured calendar can't loop forever
+const MAX_LOOKAHEAD_DAYS = 366;
+
+class LibraryCalendarService {
+  /**
+   * Get hours for a single day (defaults to today)
+   */
+  async getHoursForDate(date: Date = new Date()): Promise<DayHours> {
+    const [day] = await this.getCalendar(date, 1);
+    return day;
+  }
+
+  /**
+   * Get hours for a run of consecutive days starting at a date
+   */
+  async getCalendar(from: Date, days: number): Promise<DayHours[]> {
+    const to = addDays(from, days - 1);
+    const { weeklyHours, events } = await this.loadCalendar(from, to);
+
+    const calendar: DayHours[] = [];
+    for (let i = 0; i < days; i++) {
+      calendar.push(this.resolveDay(addDays(from, i), weeklyHours, events));
+    }
+
+    return calendar;
+  }
+
+  /**
+   * Move a due date that lands on a closed day to the same time on the next open day
+   */
+  async nextOpenDay(date: Date): Promise<Date> {
+    const { weeklyHours, events } = await this.loadCalendar(date, addDays(date, MAX_LOOKAHEAD_DAYS));
+
+    for (let i = 0; i <= MAX_LOOKAHEAD_DAYS; i++) {
+      const candidate = addDays(date, i);
+      if (this.resolveDay(candidate, weeklyHours, events).isOpen) {
+        return candidate;
+      }
+    }
+
+    return date;
+  }
+
+  /**
+   * Count closed days among the days that follow a date (day 1 is the day after)
+   * Used to leave closed days out of overdue fines
+   */
+  async countClosedDays(after: Date, days: number): Promise<number> {
+    if (days <= 0) {
+      return 0;
+    }
+
+    const { weeklyHours, events } = await this.loadCalendar(addDays(after, 1), addDays(after, days));
+
+    let closed = 0;
+    for (let i = 1; i <= days; i++) {
+      if (!this.resolveDay(addDays(after, i), weeklyHours, events).isOpen) {
+        closed++;
+      }
+    }
+
+    return closed;
+  }
+
+  /**
+   * Get the regular weekly opening hours
+   */
+  async getWeeklyHours() {
+    return prisma.libraryHours.findMany({
+      orderBy: { dayOfWeek: 'asc' },
+    });
+  }
+
+  /**
+   * Set the regular opening hours for a weekday
+   * PERSISTENCE: Upserts LIBRARY_HOURS, logs to SYSTEM_LOG
+   */
+  async setWeeklyHours(dayOfWeek: number, data: LibraryHoursData, userId: number) {
+    if (!data.isClosed) {
+      this.assertValidHours(data.opensAt, data.closesAt);
+    }
+
+    const values = {
+      opensAt: data.isClosed ? null : data.opensAt,
+      closesAt: data.isClosed ? null : data.closesAt,
+      isClosed: data.isClosed,
+    };
+
+    const hours = await prisma.libraryHours.upsert({
+      where: { dayOfWeek },
+      create: { dayOfWeek, ...values },
+      update: values,
+    });
+
+    await logger.info(LogAction.UPDATE_LIBRARY_HOURS, {
+      dayOfWeek,
+      ...values,
+      updatedBy: userId,
+    }, userId);
+
+    return hours;
+  }
+
+  /**
+   * Get calendar events, optionally only those overlapping a date range
+   */
+  async getEvents(from?: Date, to?: Date) {
+    const where: any = {};
+    if (from) {
+      where.endDate = { gte: new Date(toDateKey(from)) };
+    }
+    if (to) {
+      where.startDate = { lte: new Date(toDateKey(to)) };
+    }
+
+    return prisma.calendarEvent.findMany({
+      where,
+      orderBy: { startDate: 'asc' },
+    });
+  }
+
+  /**
+   * Get a calendar event by ID
+   */
+  async getEventById(eventId: number) {
+    const event = await prisma.calendarEvent.findUnique({
+      where: { id: eventId },
+    });
+
+    if (!event) {
+      throw new Error('Calendar event not found');
+    }
+
+    return event;
+  }
+
+  /**
+   * Create a closure, holiday or semester break
+   * PERSISTENCE: Stores in CALENDAR_EVENT table, logs to SYSTEM_LOG
+   */
+  async createEvent(data: CalendarEventData, userId: number) {
+    const isClosed = data.isClosed ?? true;
+    this.assertValidRange(data.startDate, data.endDate);
+    if (!isClosed) {
+      this.assertValidHours(data.opensAt, data.closesAt);
+    }
+
+    const event = await prisma.calendarEvent.create({
+      data: {
+        name: data.name,
+        type: data.type || 'closure',
+        startDate: new Date(data.startDate),
+        endDate: new Date(data.endDate),
+        isClosed,
+        opensAt: isClosed ? null : data.opensAt,
+        closesAt: isClosed ? null : data.closesAt,
+        notes: data.notes || null,
+        createdBy: userId,
+      },
+    });
+
+    await logger.info(LogAction.CREATE_CALENDAR_EVENT, {
+      eventId: event.id,
+      name: event.name,
+      type: event.type,
+      startDate: data.startDate,
+      endDate: data.endDate,
+      isClosed,
+      createdBy: userId,
+    }, userId);
+
+    return event;
+  }
+
+  /**
+   * Update a calendar event
+   * PERSISTENCE: Updates CALENDAR_EVENT table, logs to SYSTEM_LOG
+   */
+  async updateEvent(eventId: number, data: Partial<CalendarEventData>, userId: number) {
+    const event = await this.getEventById(eventId);
+
+    const startDate = data.startDate ?? toDateKey(event.startDate);
+    const endDate = data.endDate ?? toDateKey(event.endDate);
+    const isClosed = data.isClosed ?? event.isClosed;
+    const opensAt = data.opensAt !== undefined ? data.opensAt : event.opensAt;
+    const closesAt = data.closesAt !== undefined ? data.closesAt : event.closesAt;
+
+    this.assertValidRange(startDate, endDate);
+    if (!isClosed) {
+      this.assertValidHours(opensAt, closesAt);
+    }
+
+    const updatedEvent = await prisma.calendarEvent.update({
+      where: { id: eventId },
+      data: {
+        name: data.name,
+        type: data.type,
+        startDate: data.startDate ? new Date(data.startDate) : undefined,
+        endDate: data.endDate ? new Date(data.endDate) : undefined,
+        isClosed,
+        opensAt: isClosed ? null : opensAt,
+        closesAt: isClosed ? null : closesAt,
+        notes: data.notes,
+      },
+    });
+
+    await logger.info(LogAction.UPDATE_CALENDAR_EVENT, {
+      eventId,
+      changes: data,
+      updatedBy: userId,
+    }, userId);
+
+    return updatedEvent;
+  }
+
+  /**
+   * Delete a calendar event
+   * PERSISTENCE: Deletes from CALENDAR_EVENT table, logs to SYSTEM_LOG
+   */
+  async deleteEvent(eventId: number, userId: number) {
+    const event = await this.getEventById(eventId);
+
+    await prisma.calendarEvent.delete({
+      where: { id: eventId },
+    });
+
+    await logger.info(LogAction.DELETE_CALENDAR_EVENT, {
+      eventId,
+      name: event.name,
+      type: event.type,
+      deletedBy: userId,
+    }, userId);
+
+    return { message: 'Calendar event deleted successfully' };
+  }
+
+  /**
+   * Helper: Load weekly hours and the events overlapping a date range
+   */
+  private async loadCalendar(from: Date, to: Date) {
+    const [weeklyHours, events] = await Promise.all([
+      this.getWeeklyHours(),
+      this.getEvents(from, to),
+    ]);
+
+    return { weeklyHours, events };
+  }
+
+  /**
+   * Helper: Work out a day's hours; closing events win over special hours, which win over the weekly schedule
+   * Weekdays with no configured hours count as open
+   */
+  private resolveDay(date: Date, weeklyHours: LibraryHours[], events: CalendarEvent[]): DayHours {
+    const key = toDateKey(date);
+    const dayOfWeek = date.getUTCDay();
+
+    const matching = events
+      .filter((e) => toDateKey(e.startDate) <= key && toDateKey(e.endDate) >= key)
+      .sort((a, b) => Number(b.isClosed) - Number(a.isClosed));
+    const event = matching[0];
+
+    if (event) {
+      return {
+        date: key,
+        dayOfWeek,
+        isOpen: !event.isClosed,
+        opensAt: event.isClosed ? null : event.opensAt,
+        closesAt: event.isClosed ? null : event.closesAt,
+        event: { id: event.id, name: event.name, type: event.type },
+      };
+    }
+
+    const hours = weeklyHours.find((h) => h.dayOfWeek === dayOfWeek);
+
+    return {
+      date: key,
+      dayOfWeek,
+      isOpen: !hours?.isClosed,
+      opensAt: hours && !hours.isClosed ? hours.opensAt : null,
+      closesAt: hours && !hours.isClosed ? hours.closesAt : null,
+      event: null,
+    };
+  }
+
+  /**
+   * Helper: Ensure a date range is in order
+   */
+  private assertValidRange(startDate: string, endDate: string) {
+    if (endDate < startDate) {
+      throw new Error('End date must be on or after the start date');
+    }
+  }
+
+  /**
+   * Helper: Ensure an open day has opening and closing times in order
+   */
+  private assertValidHours(opensAt?: string | null, closesAt?: string | null) {
+    if (!opensAt || !closesAt) {
+      throw new Error('Opening and closing times are required when the library is open');
+    }
+
+    if (closesAt <= opensAt) {
+      throw new Error('Closing time must be after opening time');
+    }
+  }
+}
+
+export default new LibraryCalendarService();
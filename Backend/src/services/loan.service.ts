@@ -4,12 +4,32 @@
 import prisma from '../config/database';
 import { logger, LogAction } from '../utils/logger';
 import emailService from './email.service';
+import reservationService from './reservation.service';
+import circulationPolicyService, { getPatronType } from './circulation-policy.service';
+import { CreditedFine, SettledFine, fineService } from './fine.service';
+import { holdService } from './hold.service';
 import { env } from '../config/env';
+import libraryCalendarService from './library-calendar.service';
+import { isWorseCondition } from './book.service';
+import branchService from './branch.service';
 
 interface CreateLoanData {
   memberId: number;
   bookCopyId: number;
   durationDays?: number;
+  branchId?: number; // Branch the copy is handed over at; defaults to the staff member's branch
+}
+
+/**
+ * Condition assessment staff may record when checking a copy in
+ */
+export interface ReturnLoanOptions {
+  condition?: string; // Condition the copy came back in
+  conditionNotes?: string;
+  damageFee?: number; // Charged only when the condition is worse than at checkout
+  sendToMaintenance?: boolean; // Defaults to true for damaged copies
+  returnedAt?: Date; // Backdated return time (e.g. when the item was dropped in the book drop)
+  branchId?: number; // Branch the copy came back to; defaults to the staff member's branch
 }
 
 class LoanService {
@@ -24,7 +44,13 @@ class LoanService {
       include: {
         user: true,
         loans: {
-          where: { status: 'ongoing' },
+          // Lost items stay on the member's record but don't use up a borrowing slot
+          where: { returnDatetime: null, status: { not: 'lost' } },
+          include: {
+            bookCopy: {
+              include: { book: true },
+            },
+          },
         },
         holds: {
           where: { status: 'active' },
@@ -42,11 +68,6 @@ class LoanService {
       throw new Error(`Cannot create loan. Member account has active holds: ${holdReasons}`);
     }
 
-    // Check max borrowed books limit
-    if (member.loans.length >= member.maxBorrowedBooks) {
-      throw new Error(`Member has reached the maximum limit of ${member.maxBorrowedBooks} borrowed books`);
-    }
-
     // Get book copy details
     const bookCopy = await prisma.bookCopy.findUnique({
       where: { id: data.bookCopyId },
@@ -59,16 +80,60 @@ class LoanService {
       throw new Error('Book copy not found');
     }
 
-    // Check if copy is available
-    if (bookCopy.status !== 'available') {
+    if (bookCopy.loanType === 'reference') {
+      throw new Error('This copy is reference-only and cannot be checked out');
+    }
+
+    // Resolve loan rules for this patron type and book category
+    const patronType = getPatronType(member.studentOrStaffId);
+    const policy = await circulationPolicyService.resolvePolicy(patronType, bookCopy.book.category);
+    const patronPolicy = policy.category
+      ? await circulationPolicyService.resolvePolicy(patronType, null)
+      : policy;
+
+    // Check borrowing limits: the member's own limit and the patron-wide limit always apply,
+    // and a category-specific policy adds its own limit within that category on top of them
+    const overallLimit = Math.min(member.maxBorrowedBooks, patronPolicy.maxLoans);
+    if (member.loans.length >= overallLimit) {
+      throw new Error(`Member has reached the maximum limit of ${overallLimit} borrowed books`);
+    }
+
+    if (policy.category) {
+      const categoryLoans = member.loans.filter((l) => l.bookCopy.book.category === policy.category);
+      if (categoryLoans.length >= policy.maxLoans) {
+        throw new Error(`Member has reached the maximum limit of ${policy.maxLoans} borrowed books in ${policy.category}`);
+      }
+    }
+
+    // A member's own active reservation for this book is fulfilled by the loan
+    const reservation = await prisma.reservation.findFirst({
+      where: {
+        memberId: data.memberId,
+        bookId: bookCopy.bookId,
+        status: 'active',
+      },
+    });
+
+    // Reserved copies on the pickup shelf may only go to the member they are held for
+    if (bookCopy.status === 'reserved') {
+      if (!reservation || reservation.bookCopyId !== bookCopy.id) {
+        throw new Error('This copy is reserved for another member');
+      }
+    } else if (bookCopy.status !== 'available') {
       throw new Error(`Book copy is not available (current status: ${bookCopy.status})`);
     }
 
     // Calculate dates
+    // Borrowing works at any branch; the copy's location follows it
+    const checkoutBranchId = data.branchId
+      ?? (await branchService.getStaffBranchId(createdBy))
+      ?? bookCopy.currentBranchId
+      ?? bookCopy.homeBranchId;
+
     const borrowDatetime = new Date();
-    const durationDays = data.durationDays || env.DEFAULT_LOAN_PERIOD_DAYS;
-    const dueDatetime = new Date();
-    dueDatetime.setDate(dueDatetime.getDate() + durationDays);
+    const dueDatetime = bookCopy.loanType === 'short_loan'
+      ? await this.getShortLoanDue(borrowDatetime)
+      : await this.getStandardDue(borrowDatetime, data.durationDays || policy.loanPeriodDays);
 
     // PERSISTENCE: Create loan and update book copy status in transaction
     const loan = await prisma.$transaction(async (tx) => {
@@ -80,6 +145,8 @@ class LoanService {
           borrowDatetime,
           dueDatetime,
           status: 'ongoing',
+          loanType: bookCopy.loanType,
+          checkoutBranchId,
         },
         include: {
           member: {
@@ -98,9 +165,16 @@ class LoanService {
       // Update book copy status to 'on_loan'
       await tx.bookCopy.update({
         where: { id: data.bookCopyId },
-        data: { status: 'on_loan' },
+        data: { status: 'on_loan', currentBranchId: checkoutBranchId },
       });
 
+      if (reservation) {
+        await tx.reservation.update({
+          where: { id: reservation.id },
+          data: { status: 'fulfilled' },
+        });
+      }
+
       // Update book's available copies count
       const copies = await tx.bookCopy.findMany({
         where: { bookId: bookCopy.bookId },
@@ -115,6 +189,20 @@ class LoanService {
       return newLoan;
     });
 
+    if (reservation) {
+      await logger.info(LogAction.FULFILL_RESERVATION, {
+        reservationId: reservation.id,
+        loanId: loan.id,
+        memberId: data.memberId,
+        bookCopyId: data.bookCopyId,
+      }, createdBy);
+
+      // The member took a different copy than the one held for them; pass the held copy on
+      if (reservation.bookCopyId && reservation.bookCopyId !== data.bookCopyId) {
+        await reservationService.releaseCopy(reservation.bookCopyId, bookCopy.bookId, createdBy);
+      }
+    }
+
     // PERSISTENCE: Send loan confirmation email with borrow and return dates
     try {
       await emailService.sendLoanConfirmationEmail(
@@ -200,9 +288,11 @@ class LoanService {
 
   /**
    * Return a book
-   * PERSISTENCE: Updates LOAN, updates BOOK_COPY status, creates fine if overdue, logs to SYSTEM_LOG
+   * Copies returned in worse condition can be charged for and sent to maintenance instead of the shelf
+   * PERSISTENCE: Updates LOAN, updates BOOK_COPY status, finalizes the running overdue fine,
+   * records COPY_CONDITION_RECORD, logs to SYSTEM_LOG
    */
-  async returnLoan(loanId: number, returnedBy: number) {
+  async returnLoan(loanId: number, returnedBy: number, options: ReturnLoanOptions = {}) {
     const loan = await prisma.loan.findUnique({
       where: { id: loanId },
       include: {
@@ -219,23 +309,58 @@ class LoanService {
       throw new Error('Loan not found');
     }
 
-    if (loan.status === 'returned') {
+    if (loan.returnDatetime || loan.status === 'returned' || loan.status === 'returned_late') {
       throw new Error('Book has already been returned');
     }
 
-    const returnDatetime = new Date();
+    if (loan.status === 'lost') {
+      throw new Error('This loan was declared lost. Mark it as found instead.');
+    }
+
+    if (loan.status === 'claimed_returned') {
+      throw new Error('The member claims this book was already returned. Resolve the claim instead.');
+    }
+
+    const returnDatetime = options.returnedAt ?? new Date();
+
+    if (returnDatetime > new Date()) {
+      throw new Error('Return time cannot be in the future');
+    }
+
+    if (returnDatetime < loan.borrowDatetime) {
+      throw new Error('Return time cannot be before the book was borrowed');
+    }
+
     const isOverdue = returnDatetime > loan.dueDatetime;
+
+    const previousCondition = loan.bookCopy.condition;
+    const condition = options.condition || previousCondition;
+    const isWorse = isWorseCondition(condition, previousCondition);
+
+    if (options.damageFee && options.damageFee > 0 && !isWorse) {
+      throw new Error(`A damage fee can only be charged when the copy comes back worse than "${previousCondition}"`);
+    }
+
+    const toMaintenance = options.sendToMaintenance ?? condition === 'damaged';
+
+    // Returns are accepted at any branch; a copy away from home is sent back once it is checked in
+    const returnBranchId = options.branchId
+      ?? (await branchService.getStaffBranchId(returnedBy))
+      ?? loan.bookCopy.currentBranchId;
     
-    let fine: any = null;
+    let reservation: Awaited<ReturnType<typeof reservationService.assignCopyToNextInQueue>> = null;
+    let transfer: Awaited<ReturnType<typeof branchService.shelveCopy>> = null;
+    let settledFine: SettledFine | null = null;
 
-    // PERSISTENCE: Update loan and book copy in transaction
+    // PERSISTENCE: Update loan, book copy and the overdue fine in transaction
     const updatedLoan = await prisma.$transaction(async (tx) => {
       // Update loan status
       const updated = await tx.loan.update({
         where: { id: loanId },
         data: {
           returnDatetime,
-          status: isOverdue ? 'overdue' : 'returned',
+          status: isOverdue ? 'returned_late' : 'returned',
+          returnBranchId,
         },
         include: {
           bookCopy: {
@@ -247,11 +372,27 @@ class LoanService {
         },
       });
 
-      // Update book copy status back to available
-      await tx.bookCopy.update({
-        where: { id: loan.bookCopyId },
-        data: { status: 'available' },
-      });
+      if (condition !== previousCondition || returnBranchId !== loan.bookCopy.currentBranchId) {
+        await tx.bookCopy.update({
+          where: { id: loan.bookCopyId },
+          data: { condition, currentBranchId: returnBranchId },
+        });
+      }
+
+      if (toMaintenance) {
+        // Needs repair before anyone else can borrow it
+        await tx.bookCopy.update({
+          where: { id: loan.bookCopyId },
+          data: { status: 'maintenance' },
+        });
+      } else {
+        // Hold the copy for the next member in the reservation queue, otherwise make it available
+        reservation = await reservationService.assignCopyToNextInQueue(tx, loan.bookCopyId, loan.bookCopy.bookId);
+
+        if (!reservation) {
+          transfer = await branchService.shelveCopy(tx, loan.bookCopyId, returnedBy);
+        }
+      }
 
       // Update book's available copies count
       const copies = await tx.bookCopy.findMany({
@@ -264,56 +405,85 @@ class LoanService {
         },
       });
 
-      // Create fine if overdue
-      if (isOverdue) {
-        const daysOverdue = Math.ceil((returnDatetime.getTime() - loan.dueDatetime.getTime()) / (1000 * 60 * 60 * 24));
-        const fineAmount = daysOverdue * env.FINE_PER_DAY;
+      // Settle the running overdue fine instead of charging a second one, so a return is never
+      // recorded with its fine still accruing (a loan already marked overdue may only have
+      // accrued after a backdated return time)
+      if (isOverdue || loan.status === 'overdue') {
+        settledFine = await fineService.settleOverdueFine(tx, loan.id, returnDatetime, returnedBy);
+      }
 
-        // Get admin user ID for charging fine
-        const adminUser = await tx.user.findFirst({
-          where: { accountType: 'ADMIN', isActive: true },
-        });
+      return updated;
+    });
 
-        if (!adminUser) {
-          throw new Error('No active admin user found to charge fine');
-        }
+    await fineService.reportSettledFine(settledFine, returnedBy);
+    const fine = settledFine?.fine ?? null;
+
+    const damageFine = options.damageFee && options.damageFee > 0
+      ? await fineService.chargeFine(
+          loan.memberId,
+          options.damageFee,
+          `Damage to "${loan.bookCopy.book.title}" (${previousCondition} to ${condition})`,
+          returnedBy,
+          loan.id,
+          options.conditionNotes,
+          'damage'
+        )
+      : null;
 
-        fine = await tx.fine.create({
+    // Condition history: every staff assessment is kept, even when nothing changed
+    const conditionRecord = options.condition
+      ? await prisma.copyConditionRecord.create({
           data: {
-            memberId: loan.memberId,
+            bookCopyId: loan.bookCopyId,
             loanId: loan.id,
-            amount: fineAmount,
-            currency: 'USD',
-            status: 'unpaid',
-            reason: `Overdue fine: ${daysOverdue} day(s) late`,
-            chargedBy: adminUser.id,
+            memberId: loan.memberId,
+            previousCondition,
+            condition,
+            notes: options.conditionNotes || null,
+            fineId: damageFine?.id || null,
+            recordedBy: returnedBy,
           },
-        });
-
-        await logger.info(LogAction.CREATE_FINE, {
-          fineId: fine.id,
-          loanId: loan.id,
-          memberId: loan.memberId,
-          amount: fineAmount,
-          reason: fine.reason,
-        }, returnedBy);
-      }
+        })
+      : null;
 
-      return updated;
-    });
+    if (conditionRecord) {
+      await logger.info(LogAction.RECORD_CONDITION, {
+        conditionRecordId: conditionRecord.id,
+        bookCopyId: loan.bookCopyId,
+        loanId: loan.id,
+        memberId: loan.memberId,
+        previousCondition,
+        condition,
+        damageFineId: damageFine?.id,
+        damageFee: options.damageFee,
+        sentToMaintenance: toMaintenance,
+      }, returnedBy);
+    }
 
     // Log return
-    const logAction = isOverdue ? LogAction.MARK_OVERDUE : LogAction.RETURN_LOAN;
-    await logger.info(logAction, {
+    await logger.info(LogAction.RETURN_LOAN, {
       loanId,
       returnDatetime,
       isOverdue,
       daysOverdue: isOverdue ? Math.ceil((returnDatetime.getTime() - loan.dueDatetime.getTime()) / (1000 * 60 * 60 * 24)) : 0,
       fineId: fine?.id,
       fineAmount: fine?.amount,
+      condition,
+      damageFineId: damageFine?.id,
+      sentToMaintenance: toMaintenance,
+      reservationId: reservation?.id,
+      returnBranchId,
+      transferId: transfer?.id,
       returnedBy,
     }, returnedBy);
 
+    // Returning the book clears overdue holds on it
+    await holdService.applyHoldRules(loan.memberId, returnedBy);
+
+    if (reservation) {
+      await reservationService.notifyReadyForPickup(reservation, returnedBy);
+    }
+
     // Create notification for book return
     try {
       const { notificationService } = await import('./notification.service');
@@ -391,6 +561,11 @@ class LoanService {
       loan: updatedLoan,
       fine,
       isOverdue,
+      reservation,
+      damageFine,
+      conditionRecord,
+      sentToMaintenance: toMaintenance,
+      transfer,
     };
   }
 
@@ -401,6 +576,7 @@ class LoanService {
     const loan = await prisma.loan.findUnique({
       where: { id: loanId },
       include: {
+        member: true,
         bookCopy: {
           include: { book: true },
         },
@@ -415,6 +591,23 @@ class LoanService {
       throw new Error('Only ongoing loans can be renewed');
     }
 
+    if (loan.recalledAt) {
+      throw new Error('Cannot renew: this book has been recalled by the library');
+    }
+
+    if (loan.loanType === 'short_loan') {
+      throw new Error('Short loans cannot be renewed');
+    }
+
+    const policy = await circulationPolicyService.resolvePolicy(
+      getPatronType(loan.member.studentOrStaffId),
+      loan.bookCopy.book.category
+    );
+
+    if (loan.renewalCount >= policy.maxRenewals) {
+      throw new Error(`Cannot renew: maximum of ${policy.maxRenewals} renewal(s) reached`);
+    }
+
     // Check if there are active reservations for this book
     const reservations = await prisma.reservation.findMany({
       where: {
@@ -428,8 +621,9 @@ class LoanService {
     }
 
     // Extend due date
-    const newDueDate = new Date(loan.dueDatetime);
-    newDueDate.setDate(newDueDate.getDate() + env.DEFAULT_LOAN_PERIOD_DAYS);
+    const extendedDueDate = new Date(loan.dueDatetime);
+    extendedDueDate.setDate(extendedDueDate.getDate() + policy.renewalPeriodDays);
+    const newDueDate = await libraryCalendarService.nextOpenDay(extendedDueDate);
 
     const updatedLoan = await prisma.loan.update({
       where: { id: loanId },
@@ -444,12 +638,427 @@ class LoanService {
       oldDueDate: loan.dueDatetime,
       newDueDate,
       renewalCount: updatedLoan.renewalCount,
+      policyId: policy.policyId,
       renewedBy,
     }, renewedBy);
 
     return updatedLoan;
   }
 
+  /**
+   * Recall a borrowed book early (Librarian/Admin only)
+   * The new due date keeps the borrower's guaranteed minimum loan period and notice, and never extends the loan
+   * Recalled loans cannot be renewed and are fined at the recall rate once late
+   * PERSISTENCE: Updates LOAN, creates NOTIFICATION, logs to SYSTEM_LOG
+   */
+  async recallLoan(loanId: number, recalledBy: number, reason?: string) {
+    const loan = await prisma.loan.findUnique({
+      where: { id: loanId },
+      include: {
+        member: {
+          include: { user: true },
+        },
+        bookCopy: {
+          include: { book: true },
+        },
+      },
+    });
+
+    if (!loan) {
+      throw new Error('Loan not found');
+    }
+
+    if (loan.status !== 'ongoing') {
+      throw new Error(`Only ongoing loans can be recalled (current status: ${loan.status})`);
+    }
+
+    if (loan.recalledAt) {
+      throw new Error('This loan has already been recalled');
+    }
+
+    const recalledAt = new Date();
+
+    // Whichever is later: the end of the guaranteed loan period, or the notice period from today
+    const minimumDue = new Date(loan.borrowDatetime);
+    minimumDue.setDate(minimumDue.getDate() + env.RECALL_MIN_LOAN_DAYS);
+    const noticeDue = new Date(recalledAt);
+    noticeDue.setDate(noticeDue.getDate() + env.RECALL_NOTICE_DAYS);
+    const recallDue = await libraryCalendarService.nextOpenDay(minimumDue > noticeDue ? minimumDue : noticeDue);
+
+    if (recallDue >= loan.dueDatetime) {
+      throw new Error(`Cannot recall: the book is already due ${loan.dueDatetime.toLocaleDateString()}, before the earliest recall date`);
+    }
+
+    const updatedLoan = await prisma.loan.update({
+      where: { id: loanId },
+      data: {
+        dueDatetime: recallDue,
+        originalDueDatetime: loan.dueDatetime,
+        recalledAt,
+        recalledBy,
+        recallReason: reason || null,
+      },
+    });
+
+    await logger.info(LogAction.RECALL_LOAN, {
+      loanId,
+      memberId: loan.memberId,
+      bookCopyId: loan.bookCopyId,
+      bookTitle: loan.bookCopy.book.title,
+      oldDueDate: loan.dueDatetime,
+      newDueDate: recallDue,
+      reason,
+      recalledBy,
+    }, recalledBy);
+
+    try {
+      const { notificationService } = await import('./notification.service');
+      await notificationService.createNotification({
+        userId: loan.member.userId,
+        type: 'LOAN_RECALLED',
+        title: 'Book Recalled',
+        message: `The library needs "${loan.bookCopy.book.title}" back. Please return it by ${recallDue.toLocaleDateString()}. Recalled books cannot be renewed and are fined $${env.RECALL_FINE_PER_DAY.toFixed(2)} per day if late.`,
+        priority: 'high',
+        payload: {
+          loanId,
+          bookId: loan.bookCopy.bookId,
+          bookTitle: loan.bookCopy.book.title,
+          originalDueDate: loan.dueDatetime.toISOString(),
+          dueDate: recallDue.toISOString(),
+          reason,
+        },
+      });
+    } catch (notifError) {
+      await logger.error(LogAction.CREATE_NOTIFICATION, {
+        error: (notifError as Error).message,
+        loanId,
+      });
+    }
+
+    await emailService.sendRecallEmail(
+      loan.member.user.email,
+      loan.member.user.username,
+      {
+        bookTitle: loan.bookCopy.book.title,
+        originalDueDate: loan.dueDatetime,
+        dueDate: recallDue,
+        finePerDay: env.RECALL_FINE_PER_DAY,
+        reason,
+        loanId,
+      },
+      loan.member.userId
+    );
+
+    return updatedLoan;
+  }
+
+  /**
+   * Declare a loan lost (Member can declare their own, Librarian/Admin any)
+   * Stops the overdue fine, charges the replacement and processing fees and takes the copy out of circulation
+   * PERSISTENCE: Updates LOAN and BOOK_COPY, creates FINE records, logs to SYSTEM_LOG
+   */
+  async declareLost(
+    loanId: number,
+    declaredBy: number,
+    accountType: string,
+    options: { replacementFee?: number; notes?: string; accrueUntil?: Date } = {}
+  ) {
+    const loan = await prisma.loan.findUnique({
+      where: { id: loanId },
+      include: {
+        member: {
+          include: { user: true },
+        },
+        bookCopy: {
+          include: { book: true },
+        },
+      },
+    });
+
+    if (!loan) {
+      throw new Error('Loan not found');
+    }
+
+    if (accountType === 'MEMBER' && loan.member.userId !== declaredBy) {
+      throw new Error('You can only declare your own loans lost');
+    }
+
+    if (loan.returnDatetime || loan.status === 'returned' || loan.status === 'returned_late') {
+      throw new Error('Book has already been returned');
+    }
+
+    if (loan.status === 'lost') {
+      throw new Error('This loan has already been declared lost');
+    }
+
+    const lostAt = new Date();
+
+    let settledFine: SettledFine | null = null;
+
+    const updatedLoan = await prisma.$transaction(async (tx) => {
+      // Overdue days up to now (or the given cut-off) are still owed, but the fine stops growing
+      settledFine = await fineService.settleOverdueFine(tx, loan.id, options.accrueUntil ?? lostAt, declaredBy);
+
+      const updated = await tx.loan.update({
+        where: { id: loanId },
+        data: {
+          status: 'lost',
+          lostAt,
+          notes: options.notes ? `${loan.notes || ''}\n${options.notes}`.trim() : loan.notes,
+        },
+      });
+
+      await tx.bookCopy.update({
+        where: { id: loan.bookCopyId },
+        data: { status: 'lost' },
+      });
+
+      // Update book's available copies count
+      const copies = await tx.bookCopy.findMany({
+        where: { bookId: loan.bookCopy.bookId },
+      });
+      await tx.book.update({
+        where: { id: loan.bookCopy.bookId },
+        data: {
+          availableCopies: copies.filter((c) => c.status === 'available').length,
+        },
+      });
+
+      return updated;
+    });
+
+    await fineService.reportSettledFine(settledFine, declaredBy);
+    const overdueFine = settledFine?.fine ?? null;
+
+    const replacementFee = options.replacementFee ?? env.LOST_ITEM_REPLACEMENT_FEE;
+    const replacementFine = replacementFee > 0
+      ? await fineService.chargeFine(
+          loan.memberId,
+          replacementFee,
+          `Replacement fee for lost book "${loan.bookCopy.book.title}"`,
+          declaredBy,
+          loan.id,
+          'Refundable if the book is found',
+          'replacement'
+        )
+      : null;
+
+    const processingFine = env.LOST_ITEM_PROCESSING_FEE > 0
+      ? await fineService.chargeFine(
+          loan.memberId,
+          env.LOST_ITEM_PROCESSING_FEE,
+          `Processing fee for lost book "${loan.bookCopy.book.title}"`,
+          declaredBy,
+          loan.id,
+          undefined,
+          'processing'
+        )
+      : null;
+
+    await logger.info(LogAction.DECLARE_LOST, {
+      loanId,
+      memberId: loan.memberId,
+      bookCopyId: loan.bookCopyId,
+      barcode: loan.bookCopy.barcode,
+      bookTitle: loan.bookCopy.book.title,
+      lostAt,
+      overdueFineId: overdueFine?.id,
+      replacementFineId: replacementFine?.id,
+      replacementFee,
+      processingFineId: processingFine?.id,
+      processingFee: env.LOST_ITEM_PROCESSING_FEE,
+      declaredBy,
+    }, declaredBy);
+
+    return {
+      loan: updatedLoan,
+      overdueFine,
+      replacementFine,
+      processingFine,
+    };
+  }
+
+  /**
+   * Mark a lost item as found (Librarian/Admin only)
+   * Credits the replacement fee back (in full unless a smaller refund is given) and returns the copy to circulation
+   * The processing fee is not refunded
+   * PERSISTENCE: Updates LOAN, BOOK_COPY and FINE, logs to SYSTEM_LOG
+   */
+  async markFound(loanId: number, foundBy: number, options: { refundAmount?: number; notes?: string } = {}) {
+    const loan = await prisma.loan.findUnique({
+      where: { id: loanId },
+      include: {
+        member: true,
+        bookCopy: {
+          include: { book: true },
+        },
+      },
+    });
+
+    if (!loan) {
+      throw new Error('Loan not found');
+    }
+
+    if (loan.status !== 'lost') {
+      throw new Error(`Only loans declared lost can be marked found (current status: ${loan.status})`);
+    }
+
+    const foundAt = new Date();
+    const returnBranchId = (await branchService.getStaffBranchId(foundBy)) ?? loan.bookCopy.currentBranchId;
+
+    let credit: CreditedFine | null = null;
+    let reservation: Awaited<ReturnType<typeof reservationService.placeReleasedCopy>> = null;
+
+    // PERSISTENCE: Check the loan in, credit the replacement fee and route the copy in one transaction,
+    // so a loan found twice at once is only credited and released once
+    const { updatedLoan, replacementFine } = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.loan.updateMany({
+        where: { id: loanId, status: 'lost' },
+        data: {
+          returnDatetime: foundAt,
+          foundAt,
+          status: foundAt > loan.dueDatetime ? 'returned_late' : 'returned',
+          returnBranchId,
+          notes: options.notes ? `${loan.notes || ''}\n${options.notes}`.trim() : loan.notes,
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new Error('This loan has already been marked found');
+      }
+
+      await tx.bookCopy.update({
+        where: { id: loan.bookCopyId },
+        data: { currentBranchId: returnBranchId },
+      });
+
+      const replacementFine = await tx.fine.findFirst({
+        where: {
+          loanId,
+          type: 'replacement',
+          status: { notIn: ['waived', 'refunded'] },
+        },
+      });
+
+      if (replacementFine) {
+        credit = await fineService.applyFineCredit(
+          tx,
+          replacementFine.id,
+          options.refundAmount ?? parseFloat(replacementFine.amount.toString()),
+          foundBy,
+          'Lost book found'
+        );
+      }
+
+      // Back into circulation: to the next member in the reservation queue, or onto the shelf
+      reservation = await reservationService.placeReleasedCopy(tx, loan.bookCopyId, loan.bookCopy.bookId, foundBy);
+
+      return {
+        updatedLoan: await tx.loan.findUniqueOrThrow({ where: { id: loanId } }),
+        replacementFine,
+      };
+    });
+
+    if (credit) {
+      await fineService.reportFineCredit(credit, foundBy);
+      await holdService.applyHoldRules(loan.memberId, foundBy);
+    }
+
+    if (reservation) {
+      await reservationService.notifyReadyForPickup(reservation, foundBy);
+    }
+
+    await logger.info(LogAction.MARK_FOUND, {
+      loanId,
+      memberId: loan.memberId,
+      bookCopyId: loan.bookCopyId,
+      barcode: loan.bookCopy.barcode,
+      bookTitle: loan.bookCopy.book.title,
+      lostAt: loan.lostAt,
+      foundAt,
+      replacementFineId: replacementFine?.id,
+      credit: credit?.credit,
+      refund: credit?.refund,
+      reservationId: reservation?.id,
+      foundBy,
+    }, foundBy);
+
+    try {
+      const { notificationService } = await import('./notification.service');
+      await notificationService.createNotification({
+        userId: loan.member.userId,
+        type: 'LOAN_FOUND',
+        title: 'Lost Book Found',
+        message: credit
+          ? `"${loan.bookCopy.book.title}" has been found. $${credit.credit.toFixed(2)} of the replacement fee has been credited${credit.refund > 0 ? ` and $${credit.refund.toFixed(2)} will be refunded` : ''}.`
+          : `"${loan.bookCopy.book.title}" has been found and checked back in.`,
+        priority: 'normal',
+        payload: {
+          loanId,
+          bookId: loan.bookCopy.bookId,
+          bookTitle: loan.bookCopy.book.title,
+          fineId: replacementFine?.id,
+          credit: credit?.credit,
+          refund: credit?.refund,
+        },
+      });
+    } catch (notifError) {
+      await logger.error(LogAction.CREATE_NOTIFICATION, {
+        error: (notifError as Error).message,
+        loanId,
+      });
+    }
+
+    return {
+      loan: updatedLoan,
+      replacementFine: credit?.fine || null,
+      credit: credit?.credit || 0,
+      refund: credit?.refund || 0,
+      reservation,
+    };
+  }
+
+  /**
+   * Move unreturned loans past their due date from ongoing to overdue (called by scheduled job)
+   * PERSISTENCE: Updates LOAN status, logs MARK_OVERDUE to SYSTEM_LOG
+   */
+  async markOverdueLoans() {
+    const now = new Date();
+
+    const loans = await prisma.loan.findMany({
+      where: {
+        status: 'ongoing',
+        returnDatetime: null,
+        dueDatetime: { lt: now },
+      },
+    });
+
+    const markedLoans = [];
+    for (const loan of loans) {
+      // Guard on status so a loan returned in the meantime is left alone
+      const result = await prisma.loan.updateMany({
+        where: { id: loan.id, status: 'ongoing', returnDatetime: null },
+        data: { status: 'overdue' },
+      });
+
+      if (result.count === 0) {
+        continue;
+      }
+
+      await logger.info(LogAction.MARK_OVERDUE, {
+        loanId: loan.id,
+        memberId: loan.memberId,
+        bookCopyId: loan.bookCopyId,
+        dueDatetime: loan.dueDatetime,
+        daysOverdue: Math.floor((now.getTime() - loan.dueDatetime.getTime()) / (1000 * 60 * 60 * 24)),
+      });
+
+      markedLoans.push(loan);
+    }
+
+    return markedLoans;
+  }
+
   /**
    * Get member's loans
    */
@@ -517,6 +1126,35 @@ class LoanService {
       },
     };
   }
+
+  /**
+   * Helper: Due date for a standard loan, never on a day the library is closed
+   */
+  private async getStandardDue(from: Date, durationDays: number): Promise<Date> {
+    const dueDate = new Date(from);
+    dueDate.setDate(dueDate.getDate() + durationDays);
+    return libraryCalendarService.nextOpenDay(dueDate);
+  }
+
+  /**
+   * Helper: Due time for a short loan - a few hours out, but no later than today's closing time
+   */
+  private async getShortLoanDue(from: Date): Promise<Date> {
+    const dueDatetime = new Date(from.getTime() + env.SHORT_LOAN_HOURS * 60 * 60 * 1000);
+    const today = await libraryCalendarService.getHoursForDate(from);
+
+    if (today.isOpen && today.closesAt) {
+      const [hours, minutes] = today.closesAt.split(':').map(Number);
+      const closing = new Date(from);
+      closing.setHours(hours, minutes, 0, 0);
+
+      if (closing > from && closing < dueDatetime) {
+        return closing;
+      }
+    }
+
+    return dueDatetime;
+  }
 }
 
 export default new LoanService();
@@ -2,6 +2,7 @@
 // Member management service
 
 import prisma from '../config/database';
+import { logger, LogAction } from '../utils/logger';
 
 export class MemberService {
   /**
@@ -30,6 +31,7 @@ export class MemberService {
             reason: true,
             status: true,
             createdAt: true,
+            expiresAt: true,
           },
         },
         fines: {
@@ -105,6 +107,7 @@ export class MemberService {
             createdAt: true,
             updatedAt: true,
             removedAt: true,
+            expiresAt: true,
           },
           orderBy: {
             createdAt: 'desc',
@@ -172,6 +175,7 @@ export class MemberService {
       address: member.address,
       phoneNumber: member.phoneNumber,
       maxBorrowedBooks: member.maxBorrowedBooks,
+      claimsReturnedLimit: member.claimsReturnedLimit,
       createdAt: member.createdAt,
       totalLoans: member._count.loans,
       activeHoldsCount,
@@ -221,6 +225,35 @@ export class MemberService {
     }
   }
 
+  /**
+   * Set how many claims-returned disputes a member may file (Admin only)
+   * PERSISTENCE: Updates MEMBER, logs to SYSTEM_LOG
+   */
+  async updateClaimsReturnedLimit(memberId: number, limit: number, updatedBy: number) {
+    const member = await prisma.member.findUnique({
+      where: { id: memberId },
+    });
+
+    if (!member) {
+      throw new Error('Member not found');
+    }
+
+    const updatedMember = await prisma.member.update({
+      where: { id: memberId },
+      data: { claimsReturnedLimit: limit },
+    });
+
+    await logger.info(LogAction.UPDATE_USER, {
+      memberId,
+      userId: member.userId,
+      oldClaimsReturnedLimit: member.claimsReturnedLimit,
+      claimsReturnedLimit: limit,
+      updatedBy,
+    }, updatedBy);
+
+    return updatedMember;
+  }
+
   /**
    * Update member profile
    */
@@ -351,6 +384,7 @@ export class MemberService {
         where: {
           memberId: member.id,
           returnDatetime: null,
+          status: { not: 'lost' },
         },
       });
 
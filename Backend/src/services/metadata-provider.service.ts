@@ -0,0 +1,155 @@
+// FILE: src/services/metadata-provider.service.ts
+// Bibliographic metadata sources that can prefill or enrich book records by ISBN
+
+import fs from 'fs/promises';
+import path from 'path';
+import { env } from '../config/env';
+import { parseIsbn } from '../utils/isbn';
+
+/**
+ * Book fields a provider can supply; anything it does not know is left out
+ */
+export interface BookMetadata {
+  title?: string;
+  author?: string;
+  publisher?: string;
+  publishedYear?: number;
+  description?: string;
+  coverImageUrl?: string;
+  category?: string;
+}
+
+// Fields enrichment may fill, in form order
+export const ENRICHABLE_FIELDS: (keyof BookMetadata)[] = [
+  'title',
+  'author',
+  'publisher',
+  'publishedYear',
+  'description',
+  'coverImageUrl',
+  'category',
+];
+
+/**
+ * A metadata source. lookupIsbn receives a canonical ISBN-13 and resolves to null when the ISBN is unknown
+ */
+export interface MetadataProvider {
+  name: string;
+  lookupIsbn(isbn13: string): Promise<BookMetadata | null>;
+}
+
+/**
+ * Helper: Map an Open Library "data" record (api/books?jscmd=data) onto book fields
+ * Both providers read this shape, so a local file can be built by saving Open Library responses
+ */
+function fromOpenLibraryRecord(record: any): BookMetadata {
+  const year = String(record.publish_date ?? '').match(/\d{4}/)?.[0];
+  // Works records carry description as a string or { value }; edition data only has excerpts
+  const description: string | undefined = typeof record.description === 'string'
+    ? record.description
+    : record.description?.value ?? record.excerpts?.[0]?.text;
+
+  const metadata: BookMetadata = {
+    title: [record.title, record.subtitle].filter(Boolean).join(': ').substring(0, 500) || undefined,
+    author: record.authors?.map((a: { name: string }) => a.name).join('; ').substring(0, 255) || undefined,
+    publisher: record.publishers?.[0]?.name?.substring(0, 255),
+    publishedYear: year ? parseInt(year) : undefined,
+    description: description?.substring(0, 5000),
+    coverImageUrl: record.cover?.large ?? record.cover?.medium,
+    category: record.subjects?.[0]?.name?.substring(0, 100),
+  };
+
+  // Drop what the record did not have so callers can tell "unknown" from "empty"
+  return Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined && value !== ''));
+}
+
+/**
+ * Open Library books API
+ */
+export class OpenLibraryMetadataProvider implements MetadataProvider {
+  name = 'openlibrary';
+
+  async lookupIsbn(isbn13: string): Promise<BookMetadata | null> {
+    const url = `${env.OPEN_LIBRARY_URL}/api/books?bibkeys=ISBN:${isbn13}&format=json&jscmd=data`;
+    const response = await fetch(url, { signal: AbortSignal.timeout(env.METADATA_TIMEOUT_MS) });
+
+    if (!response.ok) {
+      throw new Error(`Open Library lookup failed (HTTP ${response.status})`);
+    }
+
+    const body = await response.json();
+    const record = body[`ISBN:${isbn13}`];
+    return record ? fromOpenLibraryRecord(record) : null;
+  }
+}
+
+/**
+ * Offline provider reading Open Library-style records from a JSON file keyed by ISBN:
+ * { "ISBN:9780747532699": { "title": ..., "authors": [{ "name": ... }], ... } }
+ * Keys may drop the "ISBN:" prefix and use either ISBN form. The file is re-read when it changes,
+ * so records can be added without a restart.
+ */
+export class LocalFileMetadataProvider implements MetadataProvider {
+  name = 'local';
+
+  private records = new Map<string, any>();
+  private loadedAt = 0;
+
+  constructor(private filePath: string = env.METADATA_LOCAL_FILE) {}
+
+  async lookupIsbn(isbn13: string): Promise<BookMetadata | null> {
+    await this.load();
+    const record = this.records.get(isbn13);
+    return record ? fromOpenLibraryRecord(record) : null;
+  }
+
+  /**
+   * Helper: (Re)load the file when it has changed since the last lookup
+   */
+  private async load() {
+    const file = path.resolve(this.filePath);
+
+    let stats;
+    try {
+      stats = await fs.stat(file);
+    } catch {
+      throw new Error(`Metadata file not found: ${file}`);
+    }
+
+    if (stats.mtimeMs === this.loadedAt) {
+      return;
+    }
+
+    const entries = JSON.parse(await fs.readFile(file, 'utf8'));
+    this.records = new Map();
+    for (const [key, record] of Object.entries(entries)) {
+      const parsed = parseIsbn(key.replace(/^ISBN:/i, ''));
+      if (parsed) {
+        this.records.set(parsed.isbn13, record);
+      }
+    }
+    this.loadedAt = stats.mtimeMs;
+  }
+}
+
+export const localMetadataProvider = new LocalFileMetadataProvider();
+export const openLibraryMetadataProvider = new OpenLibraryMetadataProvider();
+
+// Further sources register here alongside the built-in ones
+const providers: Record<string, MetadataProvider> = {
+  [localMetadataProvider.name]: localMetadataProvider,
+  [openLibraryMetadataProvider.name]: openLibraryMetadataProvider,
+};
+
+/**
+ * Get a metadata provider by name, defaulting to the one configured in METADATA_PROVIDER
+ */
+export function getMetadataProvider(name: string = env.METADATA_PROVIDER): MetadataProvider {
+  const provider = providers[name];
+
+  if (!provider) {
+    throw new Error(`Unknown metadata provider: ${name}`);
+  }
+
+  return provider;
+}
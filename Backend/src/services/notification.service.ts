@@ -116,13 +116,15 @@ class NotificationService {
 
   /**
    * Send overdue warnings
+   * Status transitions to 'overdue' are handled by LoanService.markOverdueLoans
    */
   async sendOverdueWarnings() {
     const now = new Date();
 
     const overdueLoans = await prisma.loan.findMany({
       where: {
-        status: 'ongoing',
+        status: { in: ['ongoing', 'overdue'] },
+        returnDatetime: null,
         dueDatetime: {
           lt: now,
         },
@@ -145,12 +147,6 @@ class NotificationService {
     const adminNotifications = [];
     
     for (const loan of overdueLoans) {
-      // Update loan status to overdue
-      await prisma.loan.update({
-        where: { id: loan.id },
-        data: { status: 'overdue' },
-      });
-
       // Check if notification already sent today
       const existingNotification = await prisma.notification.findFirst({
         where: {
@@ -338,7 +334,7 @@ class NotificationService {
   /**
    * Notify member when hold is placed
    */
-  async notifyHoldPlaced(memberId: number, holdId: number, reason: string) {
+  async notifyHoldPlaced(memberId: number, holdId: number, reason: string, expiresAt?: Date | null) {
     const member = await prisma.member.findUnique({
       where: { id: memberId },
       include: { user: true },
@@ -352,11 +348,14 @@ class NotificationService {
       userId: member.userId,
       type: 'HOLD_PLACED',
       title: 'Account Hold Placed',
-      message: `A hold has been placed on your account. Reason: ${reason}. Please contact the library to resolve this issue.`,
+      message: expiresAt
+        ? `A hold has been placed on your account until ${expiresAt.toLocaleString()}. Reason: ${reason}. It will be lifted automatically at that time.`
+        : `A hold has been placed on your account. Reason: ${reason}. Please contact the library to resolve this issue.`,
       priority: 'urgent',
       payload: {
         holdId,
         reason,
+        expiresAt,
       },
     });
 
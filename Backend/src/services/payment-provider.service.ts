@@ -0,0 +1,150 @@
+// FILE: src/services/payment-provider.service.ts
+// Online payment gateways: hosted checkout sessions and signed webhook verification
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { env } from '../config/env';
+
+const SIGNATURE_HEADER = 'x-payment-signature';
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export interface CheckoutRequest {
+  amount: number;
+  currency: string;
+  description: string;
+  metadata: Record<string, string>;
+}
+
+export interface CheckoutSession {
+  sessionId: string;
+  checkoutUrl: string;
+}
+
+export interface PaymentWebhookEvent {
+  type: 'payment.succeeded' | 'payment.failed';
+  sessionId: string;
+  amount: number;
+  currency: string;
+  transactionId: string | null;
+  failureReason?: string;
+}
+
+/**
+ * A payment gateway. Only verifyWebhook may tell us money has moved;
+ * anything the member's browser says about a checkout is never trusted.
+ */
+export interface PaymentProvider {
+  name: string;
+  createCheckoutSession(request: CheckoutRequest): Promise<CheckoutSession>;
+  verifyWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): PaymentWebhookEvent;
+}
+
+/**
+ * Local stand-in for a real gateway
+ * Checkout happens on a page in this app, and webhooks are HMAC-signed with PAYMENT_WEBHOOK_SECRET
+ * the same way a real provider would sign them, so the whole flow can be exercised offline
+ */
+export class MockPaymentProvider implements PaymentProvider {
+  name = 'mock';
+
+  async createCheckoutSession(_request: CheckoutRequest): Promise<CheckoutSession> {
+    const sessionId = `mock_cs_${uuidv4().replace(/-/g, '')}`;
+
+    return {
+      sessionId,
+      checkoutUrl: `${env.FRONTEND_URL}/payments/mock-checkout/${sessionId}`,
+    };
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): PaymentWebhookEvent {
+    const header = headers[SIGNATURE_HEADER];
+    if (typeof header !== 'string') {
+      throw new Error('Missing webhook signature');
+    }
+
+    // Format: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+    const parts = Object.fromEntries(header.split(',').map((part) => part.split('=', 2)));
+    const timestamp = parseInt(parts.t);
+    if (!timestamp || !parts.v1) {
+      throw new Error('Malformed webhook signature');
+    }
+
+    if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+      throw new Error('Webhook signature has expired');
+    }
+
+    const expected = this.sign(timestamp, rawBody);
+    const received = Buffer.from(parts.v1, 'hex');
+    if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+      throw new Error('Invalid webhook signature');
+    }
+
+    const event = JSON.parse(rawBody.toString('utf8'));
+    if (!['payment.succeeded', 'payment.failed'].includes(event.type) || !event.sessionId) {
+      throw new Error('Unrecognised webhook event');
+    }
+
+    return {
+      type: event.type,
+      sessionId: event.sessionId,
+      amount: Number(event.amount),
+      currency: event.currency,
+      transactionId: event.transactionId ?? null,
+      failureReason: event.failureReason,
+    };
+  }
+
+  /**
+   * Build the signed webhook the mock gateway sends when its checkout page is completed
+   */
+  buildWebhook(event: PaymentWebhookEvent) {
+    const body = Buffer.from(JSON.stringify(event));
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    return {
+      body,
+      headers: {
+        'content-type': 'application/json',
+        [SIGNATURE_HEADER]: `t=${timestamp},v1=${this.sign(timestamp, body).toString('hex')}`,
+      },
+    };
+  }
+
+  /**
+   * Helper: HMAC over the timestamp and body so a captured webhook cannot be replayed later
+   */
+  private sign(timestamp: number, body: Buffer) {
+    return crypto
+      .createHmac('sha256', env.PAYMENT_WEBHOOK_SECRET)
+      .update(`${timestamp}.`)
+      .update(body)
+      .digest();
+  }
+}
+
+export const mockPaymentProvider = new MockPaymentProvider();
+
+// The mock lets a member settle fines without paying, so it is only offered when chosen outside production
+export const MOCK_PAYMENTS_ENABLED = env.PAYMENT_PROVIDER === mockPaymentProvider.name && env.NODE_ENV !== 'production';
+
+// Real gateways register here
+const providers: Record<string, PaymentProvider> = {
+  ...(MOCK_PAYMENTS_ENABLED && { [mockPaymentProvider.name]: mockPaymentProvider }),
+};
+
+/**
+ * Get a payment provider by name, defaulting to the one configured in PAYMENT_PROVIDER
+ */
+export function getPaymentProvider(name: string = env.PAYMENT_PROVIDER): PaymentProvider {
+  if (!name) {
+    throw new Error('Online payments are not configured');
+  }
+
+  const provider = providers[name];
+
+  if (!provider) {
+    throw new Error(`Unknown payment provider: ${name}`);
+  }
+
+  return provider;
+}
@@ -0,0 +1,726 @@
+// FILE: src/services/payment.service.ts
+// Payment ledger: money taken from members, how it was split across fines, reversals and receipts
+
+import { Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import prisma from '../config/database';
+import { logger, LogAction } from '../utils/logger';
+import { env } from '../config/env';
+import { notificationService } from './notification.service';
+import { holdService } from './hold.service';
+import { MOCK_PAYMENTS_ENABLED, getPaymentProvider, mockPaymentProvider } from './payment-provider.service';
+
+export const PAYMENT_METHODS = ['cash', 'card', 'online', 'adjustment'];
+
+const RECEIPT_WIDTH = 40;
+
+export interface RecordPaymentData {
+  memberId: number;
+  amount: number;
+  method: string;
+  reference?: string;
+  fineIds?: number[]; // Fines to settle, in this order; defaults to every outstanding fine, oldest first
+  notes?: string;
+}
+
+const paymentInclude = {
+  member: {
+    include: {
+      user: {
+        select: { username: true, loginId: true, email: true },
+      },
+    },
+  },
+  allocations: {
+    include: {
+      fine: {
+        include: {
+          loan: {
+            include: {
+              bookCopy: {
+                include: { book: true },
+              },
+            },
+          },
+        },
+      },
+    },
+    orderBy: { id: 'asc' },
+  },
+} satisfies Prisma.PaymentInclude;
+
+type PaymentWithDetails = Prisma.PaymentGetPayload<{ include: typeof paymentInclude }>;
+
+type AppliedPayment = Awaited<ReturnType<PaymentService['applyPayment']>>;
+
+class PaymentService {
+  /**
+   * Take a payment and apply it to one or more of a member's outstanding fines
+   * PERSISTENCE: Creates PAYMENT and PAYMENT_ALLOCATION, updates FINE, logs to SYSTEM_LOG
+   */
+  async recordPayment(data: RecordPaymentData, receivedBy: number) {
+    const applied = await prisma.$transaction((tx) => this.applyPayment(tx, data, receivedBy));
+
+    await this.reportPayment(applied, data, receivedBy);
+
+    return this.getPaymentById(applied.payment.id);
+  }
+
+  /**
+   * Start an online checkout for some or all of a member's outstanding fines (Member only)
+   * Nothing is paid yet: the fines are settled when the provider's signed webhook confirms the payment
+   * PERSISTENCE: Creates PAYMENT_SESSION, logs to SYSTEM_LOG
+   */
+  async createCheckoutSession(memberId: number, userId: number, fineIds?: number[], requestedAmount?: number) {
+    const member = await prisma.member.findUnique({
+      where: { id: memberId },
+      include: { user: true },
+    });
+
+    if (!member) {
+      throw new Error('Member not found');
+    }
+
+    const fines = await this.getOpenFines(memberId, fineIds);
+    const outstanding = this.getOutstanding(fines);
+    const amount = requestedAmount !== undefined ? Math.round(requestedAmount * 100) / 100 : outstanding;
+
+    if (!(amount > 0)) {
+      throw new Error('Payment amount must be greater than zero');
+    }
+
+    if (amount > outstanding) {
+      throw new Error(`Payment of $${amount.toFixed(2)} is more than the $${outstanding.toFixed(2)} outstanding`);
+    }
+
+    const provider = getPaymentProvider();
+    const checkout = await provider.createCheckoutSession({
+      amount,
+      currency: 'USD',
+      description: `Library fines for ${member.user.loginId}`,
+      metadata: {
+        memberId: String(memberId),
+        fineIds: fines.map((f) => f.id).join(','),
+      },
+    });
+
+    const expiresAt = new Date();
+    expiresAt.setMinutes(expiresAt.getMinutes() + env.PAYMENT_SESSION_MINUTES);
+
+    const session = await prisma.paymentSession.create({
+      data: {
+        memberId,
+        provider: provider.name,
+        providerSessionId: checkout.sessionId,
+        amount: new Decimal(amount),
+        fineIds: fines.map((f) => f.id),
+        checkoutUrl: checkout.checkoutUrl,
+        createdBy: userId,
+        expiresAt,
+      },
+    });
+
+    await logger.info(LogAction.CREATE_PAYMENT_SESSION, {
+      sessionId: session.id,
+      provider: provider.name,
+      providerSessionId: checkout.sessionId,
+      memberId,
+      amount,
+      fineIds: session.fineIds,
+    }, userId);
+
+    return session;
+  }
+
+  /**
+   * Get a checkout session (Member for their own, Librarian/Admin for any)
+   */
+  async getCheckoutSession(providerSessionId: string, userId: number, accountType: string) {
+    const session = await prisma.paymentSession.findUnique({
+      where: { providerSessionId },
+      include: {
+        member: true,
+        payment: true,
+      },
+    });
+
+    if (!session || (accountType === 'MEMBER' && session.member.userId !== userId)) {
+      throw new Error('Checkout session not found');
+    }
+
+    return session;
+  }
+
+  /**
+   * Get checkout sessions, e.g. paid-but-unapplied ones that need a refund (Librarian/Admin view)
+   */
+  async getCheckoutSessions(status?: string) {
+    return prisma.paymentSession.findMany({
+      where: status ? { status } : {},
+      include: {
+        member: {
+          include: {
+            user: {
+              select: { username: true, loginId: true },
+            },
+          },
+        },
+        payment: true,
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Handle a payment provider webhook; the only way an online payment reaches the ledger
+   * Retried deliveries for a session that is already settled are acknowledged and ignored
+   * The payment and the session result are written in one transaction, so a session is never settled twice
+   * PERSISTENCE: Updates PAYMENT_SESSION, creates PAYMENT and PAYMENT_ALLOCATION, updates FINE, logs to SYSTEM_LOG
+   */
+  async handleWebhook(providerName: string, rawBody: Buffer, headers: Record<string, string | string[] | undefined>) {
+    const provider = getPaymentProvider(providerName);
+    const event = provider.verifyWebhook(rawBody, headers);
+
+    const session = await prisma.paymentSession.findUnique({
+      where: { providerSessionId: event.sessionId },
+    });
+
+    if (!session || session.provider !== provider.name) {
+      throw new Error('Unknown checkout session');
+    }
+
+    const paymentData: RecordPaymentData = {
+      memberId: session.memberId,
+      amount: event.amount,
+      method: 'online',
+      reference: event.transactionId || session.providerSessionId,
+      fineIds: session.fineIds,
+    };
+
+    if (session.status !== 'pending') {
+      return session;
+    }
+
+    const outcome = await prisma.$transaction(async (tx) => {
+      // Claim the session first: a retried delivery racing this one waits on the row lock,
+      // then finds it no longer pending once this transaction has written the result
+      const claimed = await tx.paymentSession.updateMany({
+        where: { id: session.id, status: 'pending' },
+        data: { status: 'processing' },
+      });
+
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      let status = 'completed';
+      let failureReason: string | null = null;
+      let applied: AppliedPayment | null = null;
+
+      if (event.type === 'payment.failed') {
+        status = 'failed';
+        failureReason = event.failureReason || 'Payment was declined';
+      } else if (event.amount !== parseFloat(session.amount.toString()) || event.currency !== session.currency) {
+        status = 'unapplied';
+        failureReason = `Provider reported ${event.currency} ${event.amount.toFixed(2)}, checkout was for ${session.currency} ${session.amount.toString()}`;
+      } else {
+        try {
+          applied = await this.applyPayment(tx, paymentData, session.createdBy);
+        } catch (error) {
+          // Money was taken but the fines changed since checkout (paid at the desk, waived...); staff refund it
+          status = 'unapplied';
+          failureReason = (error as Error).message;
+        }
+      }
+
+      const updatedSession = await tx.paymentSession.update({
+        where: { id: session.id },
+        data: {
+          status,
+          failureReason,
+          paymentId: applied?.payment.id ?? null,
+          providerReference: event.transactionId,
+          completedAt: new Date(),
+        },
+      });
+
+      return { session: updatedSession, applied };
+    });
+
+    if (!outcome) {
+      return prisma.paymentSession.findUniqueOrThrow({ where: { id: session.id } });
+    }
+
+    const { session: updatedSession, applied } = outcome;
+    const { status, failureReason, paymentId } = updatedSession;
+
+    if (applied) {
+      await this.reportPayment(applied, paymentData, session.createdBy);
+    }
+
+    const logDetails = {
+      sessionId: session.id,
+      provider: provider.name,
+      providerSessionId: session.providerSessionId,
+      event: event.type,
+      status,
+      paymentId,
+      failureReason,
+    };
+
+    if (status === 'unapplied') {
+      await logger.error(LogAction.PAYMENT_WEBHOOK, logDetails, session.createdBy);
+    } else {
+      await logger.info(LogAction.PAYMENT_WEBHOOK, logDetails, session.createdBy);
+    }
+
+    return updatedSession;
+  }
+
+  /**
+   * Finish a checkout on the mock provider's page (Member only)
+   * Sends the same signed webhook a real gateway would, through the normal verification path
+   */
+  async completeMockCheckout(providerSessionId: string, outcome: 'succeeded' | 'failed', userId: number) {
+    if (!MOCK_PAYMENTS_ENABLED) {
+      throw new Error('Mock payments are not enabled');
+    }
+
+    const session = await this.getCheckoutSession(providerSessionId, userId, 'MEMBER');
+
+    if (session.provider !== mockPaymentProvider.name) {
+      throw new Error('Only mock checkouts can be completed here');
+    }
+
+    if (session.status !== 'pending') {
+      throw new Error('This checkout has already been completed');
+    }
+
+    if (session.expiresAt < new Date()) {
+      throw new Error('This checkout has expired');
+    }
+
+    const webhook = mockPaymentProvider.buildWebhook({
+      type: outcome === 'succeeded' ? 'payment.succeeded' : 'payment.failed',
+      sessionId: session.providerSessionId,
+      amount: parseFloat(session.amount.toString()),
+      currency: session.currency,
+      transactionId: outcome === 'succeeded' ? `mock_txn_${Date.now()}` : null,
+      failureReason: outcome === 'failed' ? 'Card declined (mock)' : undefined,
+    });
+
+    return this.handleWebhook(mockPaymentProvider.name, webhook.body, webhook.headers);
+  }
+
+  /**
+   * Reverse a payment so the money can be refunded; the fines it paid are owed again
+   * PERSISTENCE: Updates PAYMENT and FINE, logs to SYSTEM_LOG
+   */
+  async reversePayment(paymentId: number, reversedBy: number, reason: string) {
+    const payment = await this.getPaymentById(paymentId);
+
+    if (payment.status === 'reversed') {
+      throw new Error('This payment has already been reversed');
+    }
+
+    const reversedAt = new Date();
+    const fineIds = payment.allocations.map((a) => a.fineId);
+
+    await prisma.$transaction(async (tx) => {
+      // Flip the status first so a second reversal racing this one finds nothing to reverse
+      const reversed = await tx.payment.updateMany({
+        where: { id: paymentId, status: { not: 'reversed' } },
+        data: {
+          status: 'reversed',
+          reversedBy,
+          reversedAt,
+          reversalReason: reason,
+        },
+      });
+
+      if (reversed.count === 0) {
+        throw new Error('This payment has already been reversed');
+      }
+
+      // Lock the fines and work from their current balances, not the ones read before the transaction
+      await tx.$queryRaw`SELECT "id" FROM "fines" WHERE "id" IN (${Prisma.join(fineIds)}) FOR UPDATE`;
+      const fines = await tx.fine.findMany({
+        where: { id: { in: fineIds } },
+      });
+
+      for (const allocation of payment.allocations) {
+        const fine = fines.find((f) => f.id === allocation.fineId)!;
+        const paid = fine.paidAmount ? parseFloat(fine.paidAmount.toString()) : 0;
+        const newPaid = Math.round(Math.max(paid - parseFloat(allocation.amount.toString()), 0) * 100) / 100;
+
+        // Waived and refunded fines keep their status; only the money record changes
+        let status = fine.status;
+        if (['paid', 'partially_paid', 'unpaid'].includes(fine.status)) {
+          if (newPaid >= parseFloat(fine.amount.toString())) {
+            status = 'paid';
+          } else {
+            status = newPaid > 0 ? 'partially_paid' : 'unpaid';
+          }
+        }
+
+        await tx.fine.update({
+          where: { id: fine.id },
+          data: {
+            paidAmount: new Decimal(newPaid),
+            paidAt: status === 'paid' ? fine.paidAt : null,
+            status,
+          },
+        });
+      }
+    });
+
+    await logger.info(LogAction.REVERSE_PAYMENT, {
+      paymentId,
+      memberId: payment.memberId,
+      amount: payment.amount,
+      method: payment.method,
+      fineIds,
+      reason,
+      reversedBy,
+    }, reversedBy);
+
+    await holdService.applyHoldRules(payment.memberId, reversedBy);
+
+    try {
+      await notificationService.createNotification({
+        userId: payment.member.userId,
+        type: 'PAYMENT_REVERSED',
+        title: 'Payment Reversed',
+        message: `Your payment ${this.formatReceiptNumber(payment.id)} of $${parseFloat(payment.amount.toString()).toFixed(2)} has been reversed: ${reason}. The fines it covered are outstanding again.`,
+        priority: 'high',
+        payload: {
+          paymentId,
+          amount: parseFloat(payment.amount.toString()),
+          fineIds,
+        },
+      });
+    } catch (notifError) {
+      await logger.error(LogAction.CREATE_NOTIFICATION, {
+        error: (notifError as Error).message,
+        paymentId,
+      });
+    }
+
+    return this.getPaymentById(paymentId);
+  }
+
+  /**
+   * Get a payment with the fines it covered
+   */
+  async getPaymentById(paymentId: number) {
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: paymentInclude,
+    });
+
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+
+    return payment;
+  }
+
+  /**
+   * Get a member's payment history, newest first
+   */
+  async getMemberPayments(memberId: number) {
+    return prisma.payment.findMany({
+      where: { memberId },
+      include: paymentInclude,
+      orderBy: { paidAt: 'desc' },
+    });
+  }
+
+  /**
+   * Get payments across all members (Librarian/Admin view)
+   */
+  async getPayments(filters: { memberId?: number; method?: string; status?: string } = {}) {
+    const where: Prisma.PaymentWhereInput = {};
+
+    if (filters.memberId) {
+      where.memberId = filters.memberId;
+    }
+
+    if (filters.method) {
+      where.method = filters.method;
+    }
+
+    if (filters.status) {
+      where.status = filters.status;
+    }
+
+    return prisma.payment.findMany({
+      where,
+      include: paymentInclude,
+      orderBy: { paidAt: 'desc' },
+    });
+  }
+
+  /**
+   * Plain-text receipt for a payment (Member for their own payments, Librarian/Admin for any)
+   */
+  async getReceipt(paymentId: number, userId: number, accountType: string) {
+    const payment = await this.getPaymentById(paymentId);
+
+    if (accountType === 'MEMBER' && payment.member.userId !== userId) {
+      throw new Error('You can only download receipts for your own payments');
+    }
+
+    const receiptNumber = this.formatReceiptNumber(payment.id);
+
+    return {
+      filename: `receipt-${receiptNumber}.txt`,
+      text: this.buildReceipt(payment, receiptNumber),
+    };
+  }
+
+  /**
+   * Helper: Receipt number printed on slips and used in file names
+   */
+  private formatReceiptNumber(paymentId: number) {
+    return `R-${String(paymentId).padStart(6, '0')}`;
+  }
+
+  /**
+   * Helper: Validate a payment and split it across the member's fines, oldest (or first listed) first
+   * Runs inside the caller's transaction; pass the result to reportPayment once it has committed
+   */
+  private async applyPayment(tx: Prisma.TransactionClient, data: RecordPaymentData, receivedBy: number) {
+    if (!PAYMENT_METHODS.includes(data.method)) {
+      throw new Error(`Payment method must be one of: ${PAYMENT_METHODS.join(', ')}`);
+    }
+
+    const amount = Math.round(data.amount * 100) / 100;
+    if (!(amount > 0)) {
+      throw new Error('Payment amount must be greater than zero');
+    }
+
+    const member = await tx.member.findUnique({
+      where: { id: data.memberId },
+      include: { user: true },
+    });
+
+    if (!member) {
+      throw new Error('Member not found');
+    }
+
+    // Lock the member's fines so a concurrent payment waits, then sees the balances this one leaves
+    await tx.$queryRaw`SELECT "id" FROM "fines" WHERE "member_id" = ${data.memberId} FOR UPDATE`;
+
+    const fines = await this.getOpenFines(data.memberId, data.fineIds, tx);
+    const outstanding = this.getOutstanding(fines);
+    if (amount > outstanding) {
+      throw new Error(`Payment of $${amount.toFixed(2)} is more than the $${outstanding.toFixed(2)} outstanding`);
+    }
+
+    // Oldest (or first listed) fine is settled first; whatever is left goes to the next
+    let remaining = amount;
+    const allocations: { fine: (typeof fines)[number]; amount: number }[] = [];
+    for (const fine of fines) {
+      const share = Math.round(Math.min(remaining, this.getBalance(fine)) * 100) / 100;
+      if (share <= 0) {
+        break;
+      }
+      allocations.push({ fine, amount: share });
+      remaining = Math.round((remaining - share) * 100) / 100;
+    }
+
+    const paidAt = new Date();
+    const settledFineIds: number[] = [];
+
+    const payment = await tx.payment.create({
+      data: {
+        memberId: data.memberId,
+        amount: new Decimal(amount),
+        method: data.method,
+        reference: data.reference || null,
+        receivedBy,
+        notes: data.notes || null,
+        paidAt,
+        allocations: {
+          create: allocations.map((a) => ({
+            fineId: a.fine.id,
+            amount: new Decimal(a.amount),
+          })),
+        },
+      },
+    });
+
+    for (const allocation of allocations) {
+      const fine = allocation.fine;
+      const totalPaid = Math.round(((fine.paidAmount ? parseFloat(fine.paidAmount.toString()) : 0) + allocation.amount) * 100) / 100;
+      const status = totalPaid >= parseFloat(fine.amount.toString()) ? 'paid' : 'partially_paid';
+
+      if (status === 'paid') {
+        settledFineIds.push(fine.id);
+      }
+
+      await tx.fine.update({
+        where: { id: fine.id },
+        data: {
+          paidAmount: new Decimal(totalPaid),
+          paidAt: status === 'paid' ? paidAt : fine.paidAt,
+          status,
+        },
+      });
+    }
+
+    return { payment, member, amount, allocations, settledFineIds };
+  }
+
+  /**
+   * Helper: Log a payment applied by applyPayment and tell the member, after its transaction has committed
+   */
+  private async reportPayment(applied: AppliedPayment, data: RecordPaymentData, receivedBy: number) {
+    const { payment, member, amount, allocations, settledFineIds } = applied;
+
+    await logger.info(LogAction.RECORD_PAYMENT, {
+      paymentId: payment.id,
+      memberId: data.memberId,
+      amount,
+      method: data.method,
+      reference: data.reference,
+      allocations: allocations.map((a) => ({ fineId: a.fine.id, amount: a.amount })),
+      settledFineIds,
+    }, receivedBy);
+
+    for (const fineId of settledFineIds) {
+      const { fine } = allocations.find((a) => a.fine.id === fineId)!;
+      await this.notifyFinePaid(member, fine.id, parseFloat(fine.amount.toString()), fine.reason);
+    }
+
+    await holdService.applyHoldRules(data.memberId, receivedBy);
+  }
+
+  /**
+   * Helper: A member's unsettled fines, the listed ones in that order or all of them oldest first
+   */
+  private async getOpenFines(memberId: number, fineIds?: number[], db: Prisma.TransactionClient = prisma) {
+    const openFines = await db.fine.findMany({
+      where: {
+        memberId,
+        status: { in: ['unpaid', 'partially_paid'] },
+        ...(fineIds && { id: { in: fineIds } }),
+      },
+      orderBy: { chargedAt: 'asc' },
+    });
+
+    let fines = openFines;
+    if (fineIds) {
+      const missing = fineIds.filter((id) => !openFines.some((f) => f.id === id));
+      if (missing.length > 0) {
+        throw new Error(`Fine ${missing.join(', ')} is not an outstanding fine for this member`);
+      }
+      fines = fineIds.map((id) => openFines.find((f) => f.id === id)!);
+    }
+
+    if (fines.length === 0) {
+      throw new Error('This member has no outstanding fines');
+    }
+
+    return fines;
+  }
+
+  /**
+   * Helper: Total still owed across fines
+   */
+  private getOutstanding(fines: { amount: Decimal; paidAmount: Decimal | null }[]) {
+    return Math.round(fines.reduce((sum, fine) => sum + this.getBalance(fine), 0) * 100) / 100;
+  }
+
+  /**
+   * Helper: Amount still owed on a fine
+   */
+  private getBalance(fine: { amount: Decimal; paidAmount: Decimal | null }) {
+    const paid = fine.paidAmount ? parseFloat(fine.paidAmount.toString()) : 0;
+    return Math.max(parseFloat(fine.amount.toString()) - paid, 0);
+  }
+
+  /**
+   * Helper: Lay out a receipt the same width as the desk slips
+   */
+  private buildReceipt(payment: PaymentWithDetails, receiptNumber: string) {
+    const rule = '='.repeat(RECEIPT_WIDTH);
+    const center = (text: string) => text.padStart(Math.floor((RECEIPT_WIDTH + text.length) / 2)).padEnd(RECEIPT_WIDTH);
+    const row = (label: string, value: string) =>
+      `${label.slice(0, RECEIPT_WIDTH - value.length - 1).padEnd(RECEIPT_WIDTH - value.length)}${value}`;
+    const money = (value: Decimal) => `$${parseFloat(value.toString()).toFixed(2)}`;
+
+    const lines = [
+      rule,
+      center('PolyBookShop Library'),
+      center('PAYMENT RECEIPT'),
+      rule,
+      row('Receipt', receiptNumber),
+      row('Date', payment.paidAt.toLocaleString()),
+      row('Member', `${payment.member.user.username} (${payment.member.user.loginId})`),
+      row('Method', payment.method.toUpperCase()),
+      ...(payment.reference ? [row('Reference', payment.reference)] : []),
+      '-'.repeat(RECEIPT_WIDTH),
+      ...payment.allocations.flatMap((allocation) => [
+        row(`Fine #${allocation.fineId}`, money(allocation.amount)),
+        `  ${(allocation.fine.loan?.bookCopy.book.title || allocation.fine.reason).slice(0, RECEIPT_WIDTH - 2)}`,
+      ]),
+      '-'.repeat(RECEIPT_WIDTH),
+      row('TOTAL PAID', money(payment.amount)),
+    ];
+
+    if (payment.status === 'reversed' && payment.reversedAt) {
+      lines.push('', center('*** REVERSED ***'), row('Reversed', payment.reversedAt.toLocaleString()));
+      if (payment.reversalReason) {
+        lines.push(`  ${payment.reversalReason.slice(0, RECEIPT_WIDTH - 2)}`);
+      }
+    }
+
+    lines.push(rule, `Printed ${new Date().toLocaleString()}`);
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Helper: Tell the member and admins a fine is settled
+   */
+  private async notifyFinePaid(
+    member: { id: number; userId: number; user: { username: string; loginId: string } },
+    fineId: number,
+    amount: number,
+    reason: string
+  ) {
+    await notificationService.createNotification({
+      userId: member.userId,
+      type: 'FINE_PAID',
+      title: 'Fine Paid Successfully',
+      message: `Your fine of $${amount.toFixed(2)} has been paid in full. Thank you for your payment.`,
+      priority: 'normal',
+      payload: {
+        fineId,
+        amount,
+        reason,
+      },
+    });
+
+    try {
+      const { adminNotificationService } = await import('./admin-notification.service');
+      await adminNotificationService.notifyFinePaid(
+        member.user.username,
+        member.user.loginId,
+        member.id,
+        fineId,
+        amount
+      );
+    } catch (adminNotifError) {
+      await logger.error(LogAction.CREATE_NOTIFICATION, {
+        error: (adminNotifError as Error).message,
+        fineId,
+        type: 'admin_fine_paid_notification',
+      });
+    }
+  }
+}
+
+export const paymentService = new PaymentService();
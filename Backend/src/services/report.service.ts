@@ -1,16 +1,24 @@
 // FILE: src/services/report.service.ts
 // Report and analytics service
 
+import { Prisma } from '@prisma/client';
 import prisma from '../config/database';
 
 export class ReportService {
   /**
    * Get comprehensive analytics data
+   * With a branch: loans and fines by checkout branch, copies and books by home branch; members stay library-wide
    */
-  async getAnalytics() {
+  async getAnalytics(branchId?: number) {
+    const loanWhere: Prisma.LoanWhereInput = branchId ? { checkoutBranchId: branchId } : {};
+    const fineWhere: Prisma.FineWhereInput = branchId ? { loan: { checkoutBranchId: branchId } } : {};
+    const copyWhere: Prisma.BookCopyWhereInput = branchId ? { homeBranchId: branchId } : {};
+    const bookWhere: Prisma.BookWhereInput = branchId ? { bookCopies: { some: { homeBranchId: branchId } } } : {};
+
     // Most borrowed books
     const mostBorrowedBooks = await prisma.loan.groupBy({
       by: ['bookCopyId'],
+      where: loanWhere,
       _count: {
         id: true,
       },
@@ -56,12 +64,14 @@ export class ReportService {
     // Overdue loans statistics
     const overdueLoans = await prisma.loan.count({
       where: {
+        ...loanWhere,
         status: 'overdue',
       },
     });
 
     const totalActiveLoans = await prisma.loan.count({
       where: {
+        ...loanWhere,
         status: {
           in: ['ongoing', 'overdue'],
         },
@@ -71,6 +81,7 @@ export class ReportService {
     // Category distribution
     const categoryDistribution = await prisma.book.groupBy({
       by: ['category'],
+      where: bookWhere,
       _count: {
         id: true,
       },
@@ -84,6 +95,7 @@ export class ReportService {
     // Revenue from fines
     const totalFinesRevenue = await prisma.fine.aggregate({
       where: {
+        ...fineWhere,
         status: 'paid',
       },
       _sum: {
@@ -93,6 +105,7 @@ export class ReportService {
 
     const unpaidFines = await prisma.fine.aggregate({
       where: {
+        ...fineWhere,
         status: 'unpaid',
       },
       _sum: {
@@ -107,6 +120,7 @@ export class ReportService {
     const loanTrends = await prisma.loan.groupBy({
       by: ['borrowDatetime'],
       where: {
+        ...loanWhere,
         borrowDatetime: {
           gte: sixMonthsAgo,
         },
@@ -139,6 +153,7 @@ export class ReportService {
     // Members with most loans
     const topBorrowers = await prisma.loan.groupBy({
       by: ['memberId'],
+      where: loanWhere,
       _count: {
         id: true,
       },
@@ -177,13 +192,20 @@ export class ReportService {
     });
 
     // Book availability statistics
-    const totalBooks = await prisma.book.count();
-    const totalCopies = await prisma.bookCopy.count();
+    const totalBooks = await prisma.book.count({ where: bookWhere });
+    const totalCopies = await prisma.bookCopy.count({ where: copyWhere });
     const availableCopies = await prisma.bookCopy.count({
       where: {
+        ...copyWhere,
         status: 'available',
       },
     });
+    const inTransitCopies = await prisma.bookCopy.count({
+      where: {
+        ...copyWhere,
+        status: 'in_transit',
+      },
+    });
 
     return {
       mostBorrowedBooks: mostBorrowedBooksWithDetails,
@@ -214,7 +236,8 @@ export class ReportService {
         totalBooks,
         totalCopies,
         availableCopies,
-        borrowedCopies: totalCopies - availableCopies,
+        inTransitCopies,
+        borrowedCopies: totalCopies - availableCopies - inTransitCopies,
       },
     };
   }
@@ -0,0 +1,577 @@
+// FILE: src/services/reservation.service.ts
+// Reservation queue service for physical books
+
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { logger, LogAction } from '../utils/logger';
+import { env } from '../config/env';
+import { notificationService } from './notification.service';
+import emailService from './email.service';
+import branchService from './branch.service';
+
+class ReservationService {
+  /**
+   * Place a reservation on a physical book, optionally to be collected at a chosen branch
+   * A reservation no copy has come free for within RESERVATION_QUEUE_DAYS lapses; the member is told the date now
+   * and again when it lapses
+   * PERSISTENCE: Creates RESERVATION, logs to SYSTEM_LOG, creates NOTIFICATION
+   */
+  async createReservation(memberId: number, bookId: number, createdBy: number, pickupBranchId?: number) {
+    const member = await prisma.member.findUnique({
+      where: { id: memberId },
+      include: {
+        holds: {
+          where: { status: 'active' },
+        },
+      },
+    });
+
+    if (!member) {
+      throw new Error('Member not found');
+    }
+
+    if (member.holds.length > 0) {
+      throw new Error('Cannot reserve books while your account has active holds');
+    }
+
+    const book = await prisma.book.findUnique({
+      where: { id: bookId },
+      include: { bookCopies: true },
+    });
+
+    if (!book) {
+      throw new Error('Book not found');
+    }
+
+    if (book.bookType !== 'physical') {
+      throw new Error('Only physical books can be reserved');
+    }
+
+    if (book.bookCopies.length === 0) {
+      throw new Error('This book has no copies in the library');
+    }
+
+    const lendableCopies = book.bookCopies.filter((copy) => copy.loanType !== 'reference');
+
+    if (lendableCopies.length === 0) {
+      throw new Error('This book is reference-only and cannot be reserved');
+    }
+
+    if (lendableCopies.some((copy) => copy.status === 'available')) {
+      throw new Error('A copy of this book is available. Please borrow it directly.');
+    }
+
+    // Prevent duplicate reservations for the same book
+    const existingReservation = await prisma.reservation.findFirst({
+      where: {
+        memberId,
+        bookId,
+        status: 'active',
+      },
+    });
+
+    if (existingReservation) {
+      throw new Error('You already have an active reservation for this book');
+    }
+
+    // A member cannot reserve a book they currently have on loan
+    const currentLoan = await prisma.loan.findFirst({
+      where: {
+        memberId,
+        returnDatetime: null,
+        bookCopy: { bookId },
+      },
+    });
+
+    if (currentLoan) {
+      throw new Error('You already have this book on loan');
+    }
+
+    if (pickupBranchId) {
+      await branchService.getActiveBranch(pickupBranchId);
+    }
+
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + env.RESERVATION_QUEUE_DAYS);
+
+    const reservation = await prisma.reservation.create({
+      data: {
+        memberId,
+        bookId,
+        pickupBranchId: pickupBranchId || null,
+        expiresAt,
+        status: 'active',
+      },
+      include: {
+        book: true,
+        pickupBranch: true,
+      },
+    });
+
+    const queuePosition = await this.getQueuePosition(reservation.id);
+
+    await logger.info(LogAction.CREATE_RESERVATION, {
+      reservationId: reservation.id,
+      memberId,
+      bookId,
+      bookTitle: book.title,
+      queuePosition,
+      pickupBranchId,
+      expiresAt,
+    }, createdBy);
+
+    try {
+      await notificationService.createNotification({
+        userId: member.userId,
+        type: 'RESERVATION_PLACED',
+        title: 'Reservation Placed',
+        message: `You are number ${queuePosition} in the queue for "${book.title}". If no copy comes free by ${expiresAt.toLocaleDateString()}, the reservation lapses and you can reserve the book again.`,
+        priority: 'low',
+        payload: {
+          reservationId: reservation.id,
+          bookId,
+          bookTitle: book.title,
+          queuePosition,
+          expiresAt: expiresAt.toISOString(),
+        },
+      });
+    } catch (notifError) {
+      await logger.error(LogAction.CREATE_NOTIFICATION, {
+        error: (notifError as Error).message,
+        reservationId: reservation.id,
+      });
+    }
+
+    return { ...reservation, queuePosition };
+  }
+
+  /**
+   * Cancel an active reservation
+   * Members may only cancel their own reservations; staff may cancel any
+   * PERSISTENCE: Updates RESERVATION, logs to SYSTEM_LOG
+   */
+  async cancelReservation(
+    reservationId: number,
+    cancelledBy: number,
+    accountType: string,
+    reason?: string
+  ) {
+    const reservation = await prisma.reservation.findUnique({
+      where: { id: reservationId },
+      include: {
+        member: true,
+        book: true,
+      },
+    });
+
+    if (!reservation) {
+      throw new Error('Reservation not found');
+    }
+
+    if (accountType === 'MEMBER' && reservation.member.userId !== cancelledBy) {
+      throw new Error('You can only cancel your own reservations');
+    }
+
+    if (reservation.status !== 'active') {
+      throw new Error(`Reservation is not active (current status: ${reservation.status})`);
+    }
+
+    const updatedReservation = await prisma.reservation.update({
+      where: { id: reservationId },
+      data: {
+        status: 'cancelled',
+        notes: reason ? `${reservation.notes || ''}\n${reason}`.trim() : reservation.notes,
+      },
+    });
+
+    await logger.info(LogAction.CANCEL_RESERVATION, {
+      reservationId,
+      memberId: reservation.memberId,
+      bookId: reservation.bookId,
+      bookTitle: reservation.book.title,
+      bookCopyId: reservation.bookCopyId,
+      reason,
+      cancelledBy,
+    }, cancelledBy);
+
+    // A copy waiting on the pickup shelf goes to the next member in line
+    if (reservation.bookCopyId) {
+      await this.releaseCopy(reservation.bookCopyId, reservation.bookId, cancelledBy);
+    }
+
+    return updatedReservation;
+  }
+
+  /**
+   * Set a returned copy aside for the first member in the book's queue
+   * A copy at another branch than the member's pickup branch is sent there first and is ready once received
+   * Runs inside the caller's transaction; returns null when nobody is waiting or the copy is reference-only
+   */
+  async assignCopyToNextInQueue(tx: Prisma.TransactionClient, bookCopyId: number, bookId: number) {
+    const copy = await tx.bookCopy.findUnique({
+      where: { id: bookCopyId },
+    });
+
+    if (copy?.loanType === 'reference') {
+      return null;
+    }
+
+    const nextReservation = await tx.reservation.findFirst({
+      where: {
+        bookId,
+        status: 'active',
+        bookCopyId: null,
+      },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    if (!nextReservation) {
+      return null;
+    }
+
+    const include = {
+      member: {
+        include: { user: true },
+      },
+      book: true,
+      bookCopy: true,
+      pickupBranch: true,
+    } satisfies Prisma.ReservationInclude;
+
+    const pickupBranchId = nextReservation.pickupBranchId;
+    if (pickupBranchId && copy?.currentBranchId && copy.currentBranchId !== pickupBranchId) {
+      await branchService.startTransfer(tx, {
+        bookCopyId,
+        fromBranchId: copy.currentBranchId,
+        toBranchId: pickupBranchId,
+        reason: 'reservation',
+        reservationId: nextReservation.id,
+      });
+
+      // readyAt stays empty until the pickup branch receives the copy
+      return tx.reservation.update({
+        where: { id: nextReservation.id },
+        data: { bookCopyId },
+        include,
+      });
+    }
+
+    const readyAt = new Date();
+    const expiresAt = new Date(readyAt);
+    expiresAt.setDate(expiresAt.getDate() + env.RESERVATION_EXPIRY_DAYS);
+
+    await tx.bookCopy.update({
+      where: { id: bookCopyId },
+      data: { status: 'reserved' },
+    });
+
+    return tx.reservation.update({
+      where: { id: nextReservation.id },
+      data: {
+        bookCopyId,
+        readyAt,
+        expiresAt,
+      },
+      include,
+    });
+  }
+
+  /**
+   * Put a copy that is no longer held for its reservation back into circulation:
+   * pass it to the next member in line, or make it available again (at its home branch)
+   * PERSISTENCE: Updates BOOK_COPY, RESERVATION, COPY_TRANSFER and BOOK available count
+   */
+  async releaseCopy(bookCopyId: number, bookId: number, actedBy?: number) {
+    const nextReservation = await prisma.$transaction((tx) => this.placeReleasedCopy(tx, bookCopyId, bookId, actedBy));
+
+    if (nextReservation) {
+      await this.notifyReadyForPickup(nextReservation, actedBy);
+    }
+
+    return nextReservation;
+  }
+
+  /**
+   * Route a released copy to the next member in line or back onto the shelf, and recount the book's available copies
+   * Runs inside the caller's transaction; pass a returned reservation to notifyReadyForPickup once it has committed
+   */
+  async placeReleasedCopy(tx: Prisma.TransactionClient, bookCopyId: number, bookId: number, actedBy?: number) {
+    const copy = await tx.bookCopy.findUnique({
+      where: { id: bookCopyId },
+    });
+
+    // Still on its way to a pickup branch: it is passed on when that branch receives it
+    if (copy?.status === 'in_transit') {
+      await tx.copyTransfer.updateMany({
+        where: { bookCopyId, status: 'in_transit' },
+        data: { reservationId: null },
+      });
+      return null;
+    }
+
+    const assigned = await this.assignCopyToNextInQueue(tx, bookCopyId, bookId);
+
+    if (!assigned) {
+      await branchService.shelveCopy(tx, bookCopyId, actedBy);
+    }
+
+    // Update book's available copies count
+    const copies = await tx.bookCopy.findMany({
+      where: { bookId },
+    });
+    await tx.book.update({
+      where: { id: bookId },
+      data: {
+        availableCopies: copies.filter((c) => c.status === 'available').length,
+      },
+    });
+
+    return assigned;
+  }
+
+  /**
+   * Tell a member their reserved copy is on the pickup shelf (in-app + email)
+   */
+  async notifyReadyForPickup(
+    reservation: Prisma.ReservationGetPayload<{
+      include: { member: { include: { user: true } }; book: true; bookCopy: true };
+    }>,
+    actedBy?: number
+  ) {
+    // Still in transit to the pickup branch; the member is told once it is received
+    if (!reservation.readyAt) {
+      return;
+    }
+
+    await logger.info(LogAction.UPDATE_RESERVATION, {
+      reservationId: reservation.id,
+      memberId: reservation.memberId,
+      bookId: reservation.bookId,
+      bookCopyId: reservation.bookCopyId,
+      readyAt: reservation.readyAt,
+      pickupBy: reservation.expiresAt,
+      context: 'ready_for_pickup',
+    }, actedBy);
+
+    try {
+      await notificationService.createNotification({
+        userId: reservation.member.userId,
+        type: 'RESERVATION_READY',
+        title: 'Reserved Book Ready for Pickup',
+        message: `"${reservation.book.title}" is waiting for you at the library. Please pick it up by ${reservation.expiresAt.toLocaleDateString()} or it will go to the next member in the queue.`,
+        priority: 'high',
+        payload: {
+          reservationId: reservation.id,
+          bookId: reservation.bookId,
+          bookCopyId: reservation.bookCopyId,
+          bookTitle: reservation.book.title,
+          pickupBy: reservation.expiresAt.toISOString(),
+        },
+      });
+    } catch (notifError) {
+      await logger.error(LogAction.CREATE_NOTIFICATION, {
+        error: (notifError as Error).message,
+        reservationId: reservation.id,
+      });
+    }
+
+    try {
+      await emailService.sendReservationReadyEmail(
+        reservation.member.user.email,
+        reservation.member.user.username,
+        {
+          bookTitle: reservation.book.title,
+          barcode: reservation.bookCopy?.barcode || '',
+          pickupBy: reservation.expiresAt,
+          reservationId: reservation.id,
+        },
+        reservation.member.userId
+      );
+    } catch (emailError) {
+      await logger.error(LogAction.CREATE_NOTIFICATION, {
+        error: (emailError as Error).message,
+        reservationId: reservation.id,
+        context: 'reservation_ready_email',
+      });
+    }
+  }
+
+  /**
+   * Expire uncollected pickups and lapsed queue entries (called by scheduled job)
+   * Copies left on the pickup shelf are passed to the next member in line
+   */
+  async expireReservations() {
+    const now = new Date();
+
+    const expiredReservations = await prisma.reservation.findMany({
+      where: {
+        status: 'active',
+        expiresAt: { lt: now },
+        // Copies in transit to a pickup branch don't count against the member
+        OR: [{ bookCopyId: null }, { readyAt: { not: null } }],
+      },
+      include: {
+        member: true,
+        book: true,
+      },
+      orderBy: { expiresAt: 'asc' },
+    });
+
+    for (const reservation of expiredReservations) {
+      await prisma.reservation.update({
+        where: { id: reservation.id },
+        data: { status: 'expired' },
+      });
+
+      await logger.info(LogAction.EXPIRE_RESERVATION, {
+        reservationId: reservation.id,
+        memberId: reservation.memberId,
+        bookId: reservation.bookId,
+        bookCopyId: reservation.bookCopyId,
+        expiresAt: reservation.expiresAt,
+        uncollectedPickup: !!reservation.bookCopyId,
+      });
+
+      try {
+        await notificationService.createNotification({
+          userId: reservation.member.userId,
+          type: 'RESERVATION_EXPIRED',
+          title: 'Reservation Expired',
+          message: reservation.bookCopyId
+            ? `Your reserved copy of "${reservation.book.title}" was not picked up in time and has been offered to the next member.`
+            : `No copy of "${reservation.book.title}" came free within ${env.RESERVATION_QUEUE_DAYS} days, so your reservation has lapsed. Reserve the book again to rejoin the queue.`,
+          priority: 'normal',
+          payload: {
+            reservationId: reservation.id,
+            bookId: reservation.bookId,
+            bookTitle: reservation.book.title,
+          },
+        });
+      } catch (notifError) {
+        await logger.error(LogAction.CREATE_NOTIFICATION, {
+          error: (notifError as Error).message,
+          reservationId: reservation.id,
+        });
+      }
+
+      if (reservation.bookCopyId) {
+        await this.releaseCopy(reservation.bookCopyId, reservation.bookId);
+      }
+    }
+
+    return expiredReservations;
+  }
+
+  /**
+   * Find the ready-for-pickup reservation a member holds for a book, if any
+   */
+  async getReadyReservation(memberId: number, bookId: number) {
+    return prisma.reservation.findFirst({
+      where: {
+        memberId,
+        bookId,
+        status: 'active',
+        bookCopyId: { not: null },
+        readyAt: { not: null },
+      },
+    });
+  }
+
+  /**
+   * Get a member's place in the queue for a reservation (1-based)
+   * Returns null when the reservation is no longer active
+   */
+  async getQueuePosition(reservationId: number): Promise<number | null> {
+    const reservation = await prisma.reservation.findUnique({
+      where: { id: reservationId },
+    });
+
+    if (!reservation || reservation.status !== 'active') {
+      return null;
+    }
+
+    const ahead = await prisma.reservation.count({
+      where: {
+        bookId: reservation.bookId,
+        status: 'active',
+        OR: [
+          { createdAt: { lt: reservation.createdAt } },
+          { createdAt: reservation.createdAt, id: { lt: reservation.id } },
+        ],
+      },
+    });
+
+    return ahead + 1;
+  }
+
+  /**
+   * Get a member's reservations with their queue positions
+   */
+  async getMemberReservations(memberId: number, activeOnly: boolean = true) {
+    const where: any = { memberId };
+    if (activeOnly) {
+      where.status = 'active';
+    }
+
+    const reservations = await prisma.reservation.findMany({
+      where,
+      include: {
+        book: true,
+        pickupBranch: true,
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return Promise.all(
+      reservations.map(async (reservation) => ({
+        ...reservation,
+        queuePosition: await this.getQueuePosition(reservation.id),
+      }))
+    );
+  }
+
+  /**
+   * Get the active reservation queue for a book, in order (Librarian/Admin view)
+   */
+  async getBookQueue(bookId: number) {
+    const book = await prisma.book.findUnique({
+      where: { id: bookId },
+    });
+
+    if (!book) {
+      throw new Error('Book not found');
+    }
+
+    const reservations = await prisma.reservation.findMany({
+      where: {
+        bookId,
+        status: 'active',
+      },
+      include: {
+        member: {
+          include: {
+            user: {
+              select: {
+                username: true,
+                email: true,
+                loginId: true,
+              },
+            },
+          },
+        },
+        pickupBranch: true,
+      },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    return {
+      book,
+      queue: reservations.map((reservation, index) => ({
+        ...reservation,
+        queuePosition: index + 1,
+      })),
+    };
+  }
+}
+
+export default new ReservationService();
@@ -2,6 +2,9 @@ import cron from 'node-cron';
 import { notificationService } from '../services/notification.service';
 import { holdService } from '../services/hold.service';
 import { fineService } from '../services/fine.service';
+import loanService from '../services/loan.service';
+import reservationService from '../services/reservation.service';
+import courseService from '../services/course.service';
 import { logger, LogAction } from '../utils/logger';
 
 class ScheduledJobsService {
@@ -51,17 +54,18 @@ class ScheduledJobsService {
       }
     });
 
-    // Run auto-place holds for severely overdue books daily at 11:00 AM
-    // Grace period: 7 days after due date
+    // Apply the admin-configured hold rules daily at 11:00 AM
+    // Places holds for new matches and lifts auto-lift holds whose condition has cleared
     cron.schedule('0 11 * * *', async () => {
       try {
-        console.log('Running auto-place holds job...');
-        const holds = await holdService.autoPlaceOverdueHolds();
-        console.log(`Placed ${holds.length} automatic holds`);
+        console.log('Running hold rules job...');
+        const { placed, lifted } = await holdService.applyHoldRules();
+        console.log(`Placed ${placed.length} and lifted ${lifted.length} automatic holds`);
         
         await logger.info(LogAction.PLACE_HOLD, {
           jobType: 'scheduled_auto',
-          count: holds.length,
+          placed: placed.length,
+          lifted: lifted.length,
           timestamp: new Date(),
         });
       } catch (error: any) {
@@ -73,12 +77,12 @@ class ScheduledJobsService {
       }
     });
 
-    // Run auto-charge overdue fines daily at 12:00 PM
+    // Accrue running overdue fines daily at 12:00 PM (one fine per loan, capped by policy)
     cron.schedule('0 12 * * *', async () => {
       try {
         console.log('Running auto-charge fines job...');
         const fines = await fineService.autoChargeOverdueFines();
-        console.log(`Charged ${fines.length} automatic fines`);
+        console.log(`Accrued ${fines.length} overdue fines`);
         
         await logger.info(LogAction.CHARGE_FINE, {
           jobType: 'scheduled_auto',
@@ -94,11 +98,94 @@ class ScheduledJobsService {
       }
     });
 
+    // Move unreturned loans past their due date to overdue every hour
+    cron.schedule('0 * * * *', async () => {
+      try {
+        console.log('Running overdue status job...');
+        const loans = await loanService.markOverdueLoans();
+        console.log(`Marked ${loans.length} loans as overdue`);
+
+        await logger.info(LogAction.MARK_OVERDUE, {
+          jobType: 'scheduled',
+          count: loans.length,
+          timestamp: new Date(),
+        });
+      } catch (error: any) {
+        console.error('Error in overdue status job:', error);
+        await logger.error(LogAction.SYSTEM_ERROR, {
+          job: 'mark_overdue_loans',
+          error: error.message,
+        });
+      }
+    });
+
+    // Expire timed holds every hour, a few minutes past so they don't pile onto the overdue job
+    cron.schedule('5 * * * *', async () => {
+      try {
+        console.log('Running hold expiry job...');
+        const holds = await holdService.expireHolds();
+        console.log(`Expired ${holds.length} timed holds`);
+      } catch (error: any) {
+        console.error('Error in hold expiry job:', error);
+        await logger.error(LogAction.SYSTEM_ERROR, {
+          job: 'expire_holds',
+          error: error.message,
+        });
+      }
+    });
+
+    // Expire uncollected reservation pickups daily at 8:00 AM
+    cron.schedule('0 8 * * *', async () => {
+      try {
+        console.log('Running reservation expiry job...');
+        const reservations = await reservationService.expireReservations();
+        console.log(`Expired ${reservations.length} reservations`);
+
+        await logger.info(LogAction.EXPIRE_RESERVATION, {
+          jobType: 'scheduled',
+          count: reservations.length,
+          timestamp: new Date(),
+        });
+      } catch (error: any) {
+        console.error('Error in reservation expiry job:', error);
+        await logger.error(LogAction.SYSTEM_ERROR, {
+          job: 'expire_reservations',
+          error: error.message,
+        });
+      }
+    });
+
+    // Start and end course reserve terms daily at 6:00 AM, before the library opens
+    cron.schedule('0 6 * * *', async () => {
+      try {
+        console.log('Running course reserves job...');
+        const result = await courseService.syncCourseReserves();
+        console.log(`Started ${result.activated} and released ${result.released} course reserves`);
+      } catch (error: any) {
+        console.error('Error in course reserves job:', error);
+        await logger.error(LogAction.SYSTEM_ERROR, {
+          job: 'sync_course_reserves',
+          error: error.message,
+        });
+      }
+    });
+
     console.log('✅ Scheduled jobs initialized:');
+    console.log('  - Overdue status transitions: Hourly');
+    console.log('  - Timed hold expiry: Hourly');
+    console.log('  - Course reserve terms: Daily at 6:00 AM');
+    console.log('  - Reservation pickup expiry: Daily at 8:00 AM');
     console.log('  - Due date reminders: Daily at 9:00 AM');
     console.log('  - Overdue warnings: Daily at 10:00 AM');
-    console.log('  - Auto-place holds: Daily at 11:00 AM (7-day grace period)');
-    console.log('  - Auto-charge fines: Daily at 12:00 PM');
+    console.log('  - Hold rules: Daily at 11:00 AM');
+    console.log('  - Overdue fine accrual: Daily at 12:00 PM');
+  }
+
+  /**
+   * Manually trigger overdue status transitions (for testing)
+   */
+  async runMarkOverdueLoans() {
+    return await loanService.markOverdueLoans();
   }
 
   /**
@@ -116,10 +203,17 @@ class ScheduledJobsService {
   }
 
   /**
-   * Manually trigger auto-place holds (for testing)
+   * Manually trigger the hold rules (for testing)
    */
   async runAutoPlaceHolds() {
-    return await holdService.autoPlaceOverdueHolds();
+    return await holdService.applyHoldRules();
+  }
+
+  /**
+   * Manually trigger timed hold expiry (for testing)
+   */
+  async runExpireHolds() {
+    return await holdService.expireHolds();
   }
 
   /**
@@ -128,6 +222,20 @@ class ScheduledJobsService {
   async runAutoChargeFines() {
     return await fineService.autoChargeOverdueFines();
   }
+
+  /**
+   * Manually trigger reservation expiry (for testing)
+   */
+  async runExpireReservations() {
+    return await reservationService.expireReservations();
+  }
+
+  /**
+   * Manually trigger course reserve term start/end (for testing)
+   */
+  async runSyncCourseReserves() {
+    return await courseService.syncCourseReserves();
+  }
 }
 
 export const scheduledJobsService = new ScheduledJobsService();
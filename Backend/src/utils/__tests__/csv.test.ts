@@ -0,0 +1,43 @@
+import { parseDelimited, toCsv } from '../csv';
+
+describe('parseDelimited', () => {
+  it('parses comma-separated rows', () => {
+    expect(parseDelimited('title,author\nDune,Frank Herbert\n')).toEqual({
+      delimiter: ',',
+      rows: [['title', 'author'], ['Dune', 'Frank Herbert']],
+    });
+  });
+
+  it('picks tabs when the header has more tabs than commas', () => {
+    const { delimiter, rows } = parseDelimited('title\tauthor\nWar, and Peace\tLeo Tolstoy');
+    expect(delimiter).toBe('\t');
+    expect(rows[1]).toEqual(['War, and Peace', 'Leo Tolstoy']);
+  });
+
+  it('handles quoted cells with delimiters, doubled quotes and line breaks', () => {
+    const { rows } = parseDelimited('title,notes\r\n"Smith, John","He said ""hi""\nand left"\r\n');
+    expect(rows).toEqual([['title', 'notes'], ['Smith, John', 'He said "hi"\nand left']]);
+  });
+
+  it('strips a byte order mark, keeps empty cells and drops blank lines', () => {
+    const { rows } = parseDelimited('\uFEFFa,b,c\n\n1,,3\n , \n');
+    expect(rows).toEqual([['a', 'b', 'c'], ['1', '', '3']]);
+  });
+
+  it('keeps a last row without a trailing line break', () => {
+    expect(parseDelimited('a,b\n1,2').rows).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes only the cells that need it and ends lines with CRLF', () => {
+    expect(toCsv([['title', 'copies'], ['Smith, "J"', 3], ['Line\nbreak', null], [undefined, 'plain']])).toBe(
+      'title,copies\r\n"Smith, ""J""",3\r\n"Line\nbreak",\r\n,plain\r\n'
+    );
+  });
+
+  it('round-trips through parseDelimited', () => {
+    const rows = [['title', 'notes'], ['A, B', 'say "yes"\r\nplease'], ['C', '']];
+    expect(parseDelimited(toCsv(rows)).rows).toEqual(rows);
+  });
+});
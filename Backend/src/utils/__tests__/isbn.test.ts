@@ -0,0 +1,59 @@
+import { cleanIsbn, isbn10To13, isbn13To10, isbnLookupForms, normalizeIsbn, parseIsbn } from '../isbn';
+
+describe('parseIsbn', () => {
+  it('reads an ISBN-10 in any common form', () => {
+    for (const input of ['0747532699', '0-7475-3269-9', 'ISBN 0 7475 3269 9', 'ISBN-10: 0-7475-3269-9']) {
+      expect(parseIsbn(input)).toEqual({ isbn13: '9780747532699', isbn10: '0747532699' });
+    }
+  });
+
+  it('reads an ISBN-10 ending in an X check digit, in either case', () => {
+    expect(parseIsbn('0-8044-2957-x')).toEqual({ isbn13: '9780804429573', isbn10: '080442957X' });
+  });
+
+  it('reads an ISBN-13 and gives the ISBN-10 form of 978 numbers only', () => {
+    expect(parseIsbn('978-0-7475-3269-9')).toEqual({ isbn13: '9780747532699', isbn10: '0747532699' });
+    expect(parseIsbn('979-10-90636-07-1')).toEqual({ isbn13: '9791090636071', isbn10: null });
+  });
+
+  it('rejects wrong check digits, lengths and prefixes', () => {
+    expect(parseIsbn('0747532698')).toBeNull();
+    expect(parseIsbn('9780747532690')).toBeNull();
+    expect(parseIsbn('074753269')).toBeNull();
+    expect(parseIsbn('9770747532699')).toBeNull();
+    expect(parseIsbn('')).toBeNull();
+  });
+});
+
+describe('normalizeIsbn', () => {
+  it('returns the canonical ISBN-13', () => {
+    expect(normalizeIsbn('0-7475-3269-9')).toBe('9780747532699');
+  });
+
+  it('throws on an invalid ISBN', () => {
+    expect(() => normalizeIsbn('0-7475-3269-0')).toThrow('"0-7475-3269-0" is not a valid ISBN-10 or ISBN-13');
+  });
+});
+
+describe('isbnLookupForms', () => {
+  it('lists the ISBN-13 first, then the ISBN-10 and the input as typed', () => {
+    expect(isbnLookupForms(' 0-7475-3269-9 ')).toEqual(['9780747532699', '0747532699', '0-7475-3269-9']);
+  });
+
+  it('falls back to the cleaned and typed input for an unparseable ISBN', () => {
+    expect(isbnLookupForms('12-34')).toEqual(['1234', '12-34']);
+  });
+});
+
+describe('conversions', () => {
+  it('cleans labels, separators and the X check digit', () => {
+    expect(cleanIsbn('isbn-13: 978 0-7475 3269-9')).toBe('9780747532699');
+    expect(cleanIsbn('080442957x')).toBe('080442957X');
+  });
+
+  it('converts between ISBN-10 and ISBN-13 both ways', () => {
+    expect(isbn10To13('080442957X')).toBe('9780804429573');
+    expect(isbn13To10('9780804429573')).toBe('080442957X');
+    expect(isbn13To10(isbn10To13('0747532699'))).toBe('0747532699');
+  });
+});
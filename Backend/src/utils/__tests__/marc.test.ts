@@ -0,0 +1,151 @@
+import { getFields, getSubfield, parseMarc21, parseMarcFile, parseMarcXml, toMarcXml, trimPunctuation, MarcRecord } from '../marc';
+
+/**
+ * Helper: Build a binary ISO 2709 record; leader/09 "a" writes it as UTF-8, anything else as Latin-1
+ */
+function buildMarc21(encoding: ' ' | 'a', fields: { tag: string; data: string }[]): Buffer {
+  const bodies = fields.map((field) => Buffer.from(`${field.data}\x1e`, encoding === 'a' ? 'utf8' : 'latin1'));
+
+  let directory = '';
+  let start = 0;
+  fields.forEach((field, i) => {
+    directory += `${field.tag}${String(bodies[i].length).padStart(4, '0')}${String(start).padStart(5, '0')}`;
+    start += bodies[i].length;
+  });
+
+  const baseAddress = 24 + directory.length + 1;
+  const length = baseAddress + start + 1;
+  const leader = `${String(length).padStart(5, '0')}nam ${encoding}22${String(baseAddress).padStart(5, '0')}   4500`;
+
+  return Buffer.concat([Buffer.from(`${leader}${directory}\x1e`, 'latin1'), ...bodies, Buffer.from([0x1d])]);
+}
+
+const duneFields = [
+  { tag: '001', data: 'ocm00123' },
+  { tag: '020', data: '  \x1fa9780441013593 (pbk.)' },
+  { tag: '100', data: '1 \x1faHerbert, Frank,\x1fd1920-1986.' },
+  { tag: '245', data: '10\x1faDune /\x1fcFrank Herbert.' },
+];
+
+describe('parseMarc21', () => {
+  it('reads control and data fields with their indicators and subfields', () => {
+    const [record] = parseMarc21(buildMarc21('a', duneFields)) as MarcRecord[];
+
+    expect(record.leader).toHaveLength(24);
+    expect(record.controlFields).toEqual([{ tag: '001', value: 'ocm00123' }]);
+    expect(record.dataFields[2]).toEqual({
+      tag: '245',
+      ind1: '1',
+      ind2: '0',
+      subfields: [{ code: 'a', value: 'Dune /' }, { code: 'c', value: 'Frank Herbert.' }],
+    });
+  });
+
+  it('slices fields by byte offsets before decoding UTF-8 and Latin-1 records', () => {
+    const fields = [
+      { tag: '100', data: '1 \x1faBrontë, Charlotte,' },
+      { tag: '245', data: '10\x1faJane Eyre' },
+    ];
+
+    for (const encoding of ['a', ' '] as const) {
+      const [record] = parseMarc21(buildMarc21(encoding, fields)) as MarcRecord[];
+      expect(getSubfield(record.dataFields[0], 'a')).toBe('Brontë, Charlotte,');
+      expect(getSubfield(record.dataFields[1], 'a')).toBe('Jane Eyre');
+    }
+  });
+
+  it('returns a broken record as an error in its place and keeps reading', () => {
+    const file = Buffer.concat([
+      buildMarc21('a', duneFields),
+      Buffer.from('\r\n'),
+      Buffer.from('00010nam\x1d', 'latin1'),
+      buildMarc21('a', [{ tag: '245', data: '10\x1faEmma' }]),
+    ]);
+
+    const records = parseMarc21(file);
+
+    expect(records).toHaveLength(3);
+    expect(records[1]).toBeInstanceOf(Error);
+    expect(getSubfield((records[2] as MarcRecord).dataFields[0], 'a')).toBe('Emma');
+  });
+});
+
+describe('parseMarcXml', () => {
+  it('reads prefixed elements, entities and CDATA', () => {
+    const [record] = parseMarcXml(`
+      <marc:collection xmlns:marc="http://www.loc.gov/MARC21/slim">
+        <marc:record>
+          <marc:leader>00000nam a2200000   4500</marc:leader>
+          <marc:controlfield tag="001">ocm00123</marc:controlfield>
+          <marc:datafield tag="245" ind1="1" ind2="4">
+            <marc:subfield code="a">The Lord &amp; the Rings &#x2014;</marc:subfield>
+            <marc:subfield code='b'><![CDATA[<draft>]]></marc:subfield>
+          </marc:datafield>
+        </marc:record>
+      </marc:collection>`) as MarcRecord[];
+
+    expect(record.controlFields).toEqual([{ tag: '001', value: 'ocm00123' }]);
+    expect(record.dataFields[0]).toEqual({
+      tag: '245',
+      ind1: '1',
+      ind2: '4',
+      subfields: [{ code: 'a', value: 'The Lord & the Rings —' }, { code: 'b', value: '<draft>' }],
+    });
+  });
+
+  it('returns a record with a bad tag as an error, and throws when there are no records', () => {
+    const records = parseMarcXml('<collection><record><datafield tag="24">x</datafield></record><record></record></collection>');
+
+    expect(records[0]).toBeInstanceOf(Error);
+    expect(records[1]).toEqual({ leader: ''.padEnd(24), controlFields: [], dataFields: [] });
+    expect(() => parseMarcXml('<collection/>')).toThrow('No MARCXML <record> elements found');
+  });
+});
+
+describe('parseMarcFile', () => {
+  it('tells MARCXML from binary MARC21', () => {
+    expect(parseMarcFile(Buffer.from('\uFEFF  <record><leader>x</leader></record>')).format).toBe('marcxml');
+    expect(parseMarcFile(buildMarc21('a', duneFields)).format).toBe('marc21');
+  });
+
+  it('throws on a file without records', () => {
+    expect(() => parseMarcFile(Buffer.from('\r\n'))).toThrow('No MARC records found in the file');
+  });
+});
+
+describe('toMarcXml', () => {
+  it('writes records that read back the same, escaping markup', () => {
+    const record: MarcRecord = {
+      leader: '00000nam a2200000   4500',
+      controlFields: [{ tag: '001', value: 'ocm00123' }],
+      dataFields: [{ tag: '245', ind1: '1', ind2: '0', subfields: [{ code: 'a', value: 'Fish & "Chips" <2nd ed.>' }] }],
+    };
+
+    const xml = toMarcXml([record]);
+
+    expect(xml).toContain('<collection xmlns="http://www.loc.gov/MARC21/slim">');
+    expect(xml).toContain('Fish &amp; &quot;Chips&quot; &lt;2nd ed.&gt;');
+    expect(parseMarcXml(xml)).toEqual([record]);
+  });
+});
+
+describe('field helpers', () => {
+  const [record] = parseMarc21(buildMarc21('a', duneFields)) as MarcRecord[];
+
+  it('finds fields by tag and the first value of a subfield', () => {
+    expect(getFields(record, '100')).toHaveLength(1);
+    expect(getFields(record, '700')).toEqual([]);
+    expect(getSubfield(getFields(record, '100')[0], 'd')).toBe('1920-1986.');
+    expect(getSubfield(getFields(record, '100')[0], 'q')).toBeUndefined();
+    expect(getSubfield(undefined, 'a')).toBeUndefined();
+  });
+
+  it('strips trailing ISBD punctuation but keeps initials', () => {
+    expect(trimPunctuation('Dune /')).toBe('Dune');
+    expect(trimPunctuation('Herbert, Frank,')).toBe('Herbert, Frank');
+    expect(trimPunctuation('Frank Herbert.')).toBe('Frank Herbert');
+    expect(trimPunctuation('Washington, D.C.')).toBe('Washington, D.C.');
+    expect(trimPunctuation(' : ')).toBeUndefined();
+    expect(trimPunctuation(undefined)).toBeUndefined();
+  });
+});
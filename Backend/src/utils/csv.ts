@@ -0,0 +1,72 @@
+// FILE: src/utils/csv.ts
+// Delimited text (CSV/TSV) reading and writing, RFC 4180 quoting
+
+/**
+ * Parse CSV or TSV text into rows of cells
+ * The delimiter is a tab when the header line has more tabs than commas
+ */
+export function parseDelimited(text: string): { delimiter: string; rows: string[][] } {
+  const body = text.replace(/^\uFEFF/, '');
+  const headerLine = body.split(/\r?\n/, 1)[0] || '';
+  const delimiter = (headerLine.match(/\t/g) || []).length > (headerLine.match(/,/g) || []).length ? '\t' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+
+    if (quoted) {
+      if (char === '"' && body[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && body[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return { delimiter, rows: rows.filter((r) => r.some((c) => c.trim() !== '')) };
+}
+
+/**
+ * Write rows as CSV, quoting cells that need it
+ */
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows
+    .map((row) => row
+      .map((value) => {
+        const cell = value === null || value === undefined ? '' : String(value);
+        return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+      })
+      .join(','))
+    .join('\r\n') + '\r\n';
+}
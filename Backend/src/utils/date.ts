@@ -0,0 +1,18 @@
+// FILE: src/utils/date.ts
+// Calendar days: @db.Date columns are stored and come back as UTC midnight, so days are keyed and counted in UTC
+
+/**
+ * Format a date as YYYY-MM-DD in UTC, the form @db.Date values compare in
+ */
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * The same moment a number of calendar days later (or earlier, for a negative count)
+ */
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+}
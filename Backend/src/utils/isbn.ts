@@ -0,0 +1,95 @@
+// FILE: src/utils/isbn.ts
+// ISBN-10/ISBN-13 parsing, checksum validation and conversion; books store the canonical ISBN-13 (digits only)
+
+export interface ParsedIsbn {
+  isbn13: string;
+  isbn10: string | null; // Only 978-prefixed ISBN-13s have an ISBN-10 form
+}
+
+/**
+ * Parse an ISBN typed or printed in any common form ("0-7475-3269-9", "978 0 7475 3269 9", "ISBN 9780747532699")
+ * Returns null when it is not a valid ISBN-10 or ISBN-13
+ */
+export function parseIsbn(input: string): ParsedIsbn | null {
+  const value = cleanIsbn(input);
+
+  if (/^\d{9}[\dX]$/.test(value) && isbn10CheckDigit(value) === value[9]) {
+    return { isbn13: isbn10To13(value), isbn10: value };
+  }
+
+  if (/^97[89]\d{10}$/.test(value) && isbn13CheckDigit(value) === value[12]) {
+    return { isbn13: value, isbn10: value.startsWith('978') ? isbn13To10(value) : null };
+  }
+
+  return null;
+}
+
+/**
+ * The canonical ISBN-13 for an ISBN in any form
+ * Throws when the ISBN is malformed or its check digit is wrong
+ */
+export function normalizeIsbn(input: string): string {
+  const parsed = parseIsbn(input);
+
+  if (!parsed) {
+    throw new Error(`"${input}" is not a valid ISBN-10 or ISBN-13`);
+  }
+
+  return parsed.isbn13;
+}
+
+/**
+ * Every stored form an ISBN lookup should match: the canonical ISBN-13 first, then the ISBN-10 and the
+ * input as typed for books whose ISBN could not be converted (see the catalog duplicate report)
+ */
+export function isbnLookupForms(input: string): string[] {
+  const parsed = parseIsbn(input);
+  const forms = parsed ? [parsed.isbn13, parsed.isbn10] : [];
+  return [...new Set([...forms, cleanIsbn(input), input.trim()].filter((form): form is string => !!form))];
+}
+
+/**
+ * Strip the "ISBN" label, hyphens and spaces, and upper-case the ISBN-10 "X" check digit
+ */
+export function cleanIsbn(input: string): string {
+  return input.toUpperCase().replace(/^ISBN(-1[03])?:?/, '').replace(/[\s-]/g, '');
+}
+
+/**
+ * Convert an ISBN-10 to ISBN-13 by adding the 978 prefix and recomputing the check digit
+ */
+export function isbn10To13(isbn10: string): string {
+  const body = `978${isbn10.substring(0, 9)}`;
+  return body + isbn13CheckDigit(body);
+}
+
+/**
+ * Convert a 978-prefixed ISBN-13 to ISBN-10
+ */
+export function isbn13To10(isbn13: string): string {
+  const body = isbn13.substring(3, 12);
+  return body + isbn10CheckDigit(body);
+}
+
+/**
+ * Helper: ISBN-10 check digit (weights 10..2, mod 11, 10 written as X)
+ */
+function isbn10CheckDigit(digits: string): string {
+  let sum = 0;
+  for (let i = 0; i < 9; i++) {
+    sum += parseInt(digits[i]) * (10 - i);
+  }
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? 'X' : String(check);
+}
+
+/**
+ * Helper: ISBN-13 check digit (alternating weights 1 and 3, mod 10)
+ */
+function isbn13CheckDigit(digits: string): string {
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += parseInt(digits[i]) * (i % 2 === 0 ? 1 : 3);
+  }
+  return String((10 - (sum % 10)) % 10);
+}
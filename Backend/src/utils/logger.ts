@@ -28,16 +28,29 @@ export enum LogAction {
   CREATE_BOOK = 'CREATE_BOOK',
   UPDATE_BOOK = 'UPDATE_BOOK',
   DELETE_BOOK = 'DELETE_BOOK',
+  ENRICH_BOOK = 'ENRICH_BOOK',
+  UPDATE_AUTHOR = 'UPDATE_AUTHOR',
+  MERGE_AUTHORS = 'MERGE_AUTHORS',
   CREATE_BOOK_COPY = 'CREATE_BOOK_COPY',
   UPDATE_BOOK_COPY = 'UPDATE_BOOK_COPY',
   DELETE_BOOK_COPY = 'DELETE_BOOK_COPY',
+  IMPORT_CATALOG = 'IMPORT_CATALOG',
+  EXPORT_CATALOG = 'EXPORT_CATALOG',
+  RECORD_CONDITION = 'RECORD_CONDITION',
   
   // Loans
   CREATE_LOAN = 'CREATE_LOAN',
   UPDATE_LOAN = 'UPDATE_LOAN',
   RETURN_LOAN = 'RETURN_LOAN',
+  BATCH_CHECKIN = 'BATCH_CHECKIN',
+  RECALL_LOAN = 'RECALL_LOAN',
+  FILE_CLAIM = 'FILE_CLAIM',
+  SEARCH_CLAIM = 'SEARCH_CLAIM',
+  RESOLVE_CLAIM = 'RESOLVE_CLAIM',
   MARK_OVERDUE = 'MARK_OVERDUE',
   RENEW_LOAN = 'RENEW_LOAN',
+  DECLARE_LOST = 'DECLARE_LOST',
+  MARK_FOUND = 'MARK_FOUND',
   
   // Reservations
   CREATE_RESERVATION = 'CREATE_RESERVATION',
@@ -50,10 +63,48 @@ export enum LogAction {
   CREATE_FINE = 'CREATE_FINE',
   PAY_FINE = 'PAY_FINE',
   WAIVE_FINE = 'WAIVE_FINE',
+  ACCRUE_FINE = 'ACCRUE_FINE',
+  FINALIZE_FINE = 'FINALIZE_FINE',
+  CREDIT_FINE = 'CREDIT_FINE',
+  RECORD_PAYMENT = 'RECORD_PAYMENT',
+  REVERSE_PAYMENT = 'REVERSE_PAYMENT',
+  CREATE_PAYMENT_SESSION = 'CREATE_PAYMENT_SESSION',
+  PAYMENT_WEBHOOK = 'PAYMENT_WEBHOOK',
+  SUBMIT_FINE_APPEAL = 'SUBMIT_FINE_APPEAL',
+  REVIEW_FINE_APPEAL = 'REVIEW_FINE_APPEAL',
+  
+  // Circulation policies
+  CREATE_POLICY = 'CREATE_POLICY',
+  UPDATE_POLICY = 'UPDATE_POLICY',
+  DELETE_POLICY = 'DELETE_POLICY',
+  
+  // Library calendar
+  UPDATE_LIBRARY_HOURS = 'UPDATE_LIBRARY_HOURS',
+  CREATE_CALENDAR_EVENT = 'CREATE_CALENDAR_EVENT',
+  UPDATE_CALENDAR_EVENT = 'UPDATE_CALENDAR_EVENT',
+  DELETE_CALENDAR_EVENT = 'DELETE_CALENDAR_EVENT',
+  
+  // Branches
+  CREATE_BRANCH = 'CREATE_BRANCH',
+  UPDATE_BRANCH = 'UPDATE_BRANCH',
+  ASSIGN_STAFF_BRANCH = 'ASSIGN_STAFF_BRANCH',
+  SEND_TRANSFER = 'SEND_TRANSFER',
+  RECEIVE_TRANSFER = 'RECEIVE_TRANSFER',
+  
+  // Course reserves
+  CREATE_COURSE = 'CREATE_COURSE',
+  UPDATE_COURSE = 'UPDATE_COURSE',
+  DELETE_COURSE = 'DELETE_COURSE',
+  ADD_COURSE_RESERVE = 'ADD_COURSE_RESERVE',
+  REMOVE_COURSE_RESERVE = 'REMOVE_COURSE_RESERVE',
+  SYNC_COURSE_RESERVES = 'SYNC_COURSE_RESERVES',
   
   // Holds
   PLACE_HOLD = 'PLACE_HOLD',
   REMOVE_HOLD = 'REMOVE_HOLD',
+  CREATE_HOLD_RULE = 'CREATE_HOLD_RULE',
+  UPDATE_HOLD_RULE = 'UPDATE_HOLD_RULE',
+  DELETE_HOLD_RULE = 'DELETE_HOLD_RULE',
   
   // Notifications
   SEND_NOTIFICATION = 'SEND_NOTIFICATION',
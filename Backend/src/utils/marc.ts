@@ -0,0 +1,290 @@
+// FILE: src/utils/marc.ts
+// MARC21 record reading (binary ISO 2709 and MARCXML) and MARCXML writing
+
+export interface MarcSubfield {
+  code: string;
+  value: string;
+}
+
+export interface MarcDataField {
+  tag: string;
+  ind1: string;
+  ind2: string;
+  subfields: MarcSubfield[];
+}
+
+export interface MarcRecord {
+  leader: string;
+  controlFields: { tag: string; value: string }[];
+  dataFields: MarcDataField[];
+}
+
+const RECORD_TERMINATOR = 0x1d;
+const FIELD_TERMINATOR = 0x1e;
+const SUBFIELD_DELIMITER = '\x1f';
+const MARCXML_NAMESPACE = 'http://www.loc.gov/MARC21/slim';
+
+/**
+ * Read a catalog file, telling MARCXML from binary MARC21 by its first character
+ * Records that cannot be parsed are returned as errors in their place so the import report can list them
+ */
+export function parseMarcFile(buffer: Buffer): { format: 'marcxml' | 'marc21'; records: (MarcRecord | Error)[] } {
+  const start = buffer.toString('utf8', 0, Math.min(buffer.length, 512)).replace(/^\uFEFF/, '').trimStart();
+
+  const result = start.startsWith('<')
+    ? { format: 'marcxml' as const, records: parseMarcXml(buffer.toString('utf8')) }
+    : { format: 'marc21' as const, records: parseMarc21(buffer) };
+
+  if (result.records.length === 0) {
+    throw new Error('No MARC records found in the file');
+  }
+
+  return result;
+}
+
+/**
+ * Parse binary MARC21 (ISO 2709); directory offsets are in bytes so fields are sliced before decoding
+ */
+export function parseMarc21(buffer: Buffer): (MarcRecord | Error)[] {
+  const records: (MarcRecord | Error)[] = [];
+  let offset = 0;
+
+  while (offset < buffer.length) {
+    // Skip line breaks some systems put between records
+    while (offset < buffer.length && [0x0a, 0x0d, 0x20].includes(buffer[offset])) {
+      offset++;
+    }
+    if (offset >= buffer.length) {
+      break;
+    }
+
+    const end = buffer.indexOf(RECORD_TERMINATOR, offset);
+    const raw = buffer.subarray(offset, end === -1 ? buffer.length : end + 1);
+    offset = end === -1 ? buffer.length : end + 1;
+
+    try {
+      records.push(parseMarc21Record(raw));
+    } catch (error) {
+      records.push(error as Error);
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Helper: Parse a single ISO 2709 record
+ */
+function parseMarc21Record(raw: Buffer): MarcRecord {
+  if (raw.length < 24) {
+    throw new Error('Record is shorter than a MARC leader');
+  }
+
+  const leader = raw.toString('latin1', 0, 24);
+  const baseAddress = parseInt(leader.substring(12, 17));
+  if (isNaN(baseAddress) || baseAddress > raw.length) {
+    throw new Error('Invalid base address in leader');
+  }
+
+  // Leader/09 "a" means UCS/Unicode; anything else (MARC-8) is read byte for byte
+  const encoding: BufferEncoding = leader[9] === 'a' ? 'utf8' : 'latin1';
+  const record: MarcRecord = { leader, controlFields: [], dataFields: [] };
+
+  for (let pos = 24; pos + 12 <= baseAddress - 1 && raw[pos] !== FIELD_TERMINATOR; pos += 12) {
+    const entry = raw.toString('latin1', pos, pos + 12);
+    const tag = entry.substring(0, 3);
+    const length = parseInt(entry.substring(3, 7));
+    const start = parseInt(entry.substring(7, 12));
+
+    if (isNaN(length) || isNaN(start)) {
+      throw new Error(`Invalid directory entry for tag ${tag}`);
+    }
+
+    const data = raw
+      .toString(encoding, baseAddress + start, baseAddress + start + length)
+      .replace(/[\x1e\x1d]+$/, '');
+
+    if (tag < '010') {
+      record.controlFields.push({ tag, value: data });
+      continue;
+    }
+
+    const [indicators, ...chunks] = data.split(SUBFIELD_DELIMITER);
+    record.dataFields.push({
+      tag,
+      ind1: indicators[0] || ' ',
+      ind2: indicators[1] || ' ',
+      subfields: chunks
+        .filter((chunk) => chunk.length > 0)
+        .map((chunk) => ({ code: chunk[0], value: chunk.substring(1) })),
+    });
+  }
+
+  return record;
+}
+
+/**
+ * Parse MARCXML; accepts a <collection> or a single <record>, with or without a namespace prefix
+ */
+export function parseMarcXml(xml: string): (MarcRecord | Error)[] {
+  const records: (MarcRecord | Error)[] = [];
+  const recordPattern = /<(?:[\w-]+:)?record\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?record>/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = recordPattern.exec(xml)) !== null) {
+    try {
+      records.push(parseMarcXmlRecord(match[1]));
+    } catch (error) {
+      records.push(error as Error);
+    }
+  }
+
+  if (records.length === 0) {
+    throw new Error('No MARCXML <record> elements found');
+  }
+
+  return records;
+}
+
+/**
+ * Helper: Parse the inside of one MARCXML <record>
+ */
+function parseMarcXmlRecord(body: string): MarcRecord {
+  const leader = body.match(/<(?:[\w-]+:)?leader>([\s\S]*?)<\/(?:[\w-]+:)?leader>/);
+  const record: MarcRecord = {
+    leader: leader ? unescapeXml(leader[1]).padEnd(24).substring(0, 24) : ''.padEnd(24),
+    controlFields: [],
+    dataFields: [],
+  };
+
+  const controlPattern = /<(?:[\w-]+:)?controlfield\b([^>]*)>([\s\S]*?)<\/(?:[\w-]+:)?controlfield>/g;
+  let control: RegExpExecArray | null;
+  while ((control = controlPattern.exec(body)) !== null) {
+    record.controlFields.push({
+      tag: getAttribute(control[1], 'tag'),
+      value: unescapeXml(control[2]),
+    });
+  }
+
+  const dataPattern = /<(?:[\w-]+:)?datafield\b([^>]*)>([\s\S]*?)<\/(?:[\w-]+:)?datafield>/g;
+  const subfieldPattern = /<(?:[\w-]+:)?subfield\b([^>]*)>([\s\S]*?)<\/(?:[\w-]+:)?subfield>/g;
+  let data: RegExpExecArray | null;
+  while ((data = dataPattern.exec(body)) !== null) {
+    const tag = getAttribute(data[1], 'tag');
+    if (!/^\d{3}$/.test(tag)) {
+      throw new Error(`Invalid datafield tag "${tag}"`);
+    }
+
+    const subfields: MarcSubfield[] = [];
+    let subfield: RegExpExecArray | null;
+    while ((subfield = subfieldPattern.exec(data[2])) !== null) {
+      subfields.push({
+        code: getAttribute(subfield[1], 'code'),
+        value: unescapeXml(subfield[2]),
+      });
+    }
+
+    record.dataFields.push({
+      tag,
+      ind1: getAttribute(data[1], 'ind1') || ' ',
+      ind2: getAttribute(data[1], 'ind2') || ' ',
+      subfields,
+    });
+  }
+
+  return record;
+}
+
+/**
+ * Write records as a MARCXML collection
+ */
+export function toMarcXml(records: MarcRecord[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<collection xmlns="${MARCXML_NAMESPACE}">`,
+  ];
+
+  for (const record of records) {
+    lines.push('  <record>');
+    lines.push(`    <leader>${escapeXml(record.leader)}</leader>`);
+
+    for (const field of record.controlFields) {
+      lines.push(`    <controlfield tag="${field.tag}">${escapeXml(field.value)}</controlfield>`);
+    }
+
+    for (const field of record.dataFields) {
+      lines.push(`    <datafield tag="${field.tag}" ind1="${escapeXml(field.ind1)}" ind2="${escapeXml(field.ind2)}">`);
+      for (const subfield of field.subfields) {
+        lines.push(`      <subfield code="${escapeXml(subfield.code)}">${escapeXml(subfield.value)}</subfield>`);
+      }
+      lines.push('    </datafield>');
+    }
+
+    lines.push('  </record>');
+  }
+
+  lines.push('</collection>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Fields with a given tag
+ */
+export function getFields(record: MarcRecord, tag: string): MarcDataField[] {
+  return record.dataFields.filter((field) => field.tag === tag);
+}
+
+/**
+ * First value of a subfield in a field, trimmed
+ */
+export function getSubfield(field: MarcDataField | undefined, code: string): string | undefined {
+  const value = field?.subfields.find((s) => s.code === code)?.value.trim();
+  return value || undefined;
+}
+
+/**
+ * Strip the ISBD punctuation catalogers end subfields with (" /", " :", ",", ".")
+ */
+export function trimPunctuation(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.replace(/\s*[\/:;,=]\s*$/, '').replace(/(?<![A-Z])\.$/, '').trim();
+  return trimmed || undefined;
+}
+
+/**
+ * Helper: Read an attribute from an element's attribute text
+ */
+function getAttribute(attributes: string, name: string): string {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)')`));
+  return match ? unescapeXml(match[2] ?? match[3]) : '';
+}
+
+/**
+ * Helper: Decode XML entities
+ */
+function unescapeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Helper: Encode text for XML content and attributes
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '');
+}
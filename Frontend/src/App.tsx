@@ -13,9 +13,13 @@ import MemberLogin from '@/pages/auth/MemberLogin';
 import Dashboard from '@/pages/Dashboard';
 import BooksPage from '@/pages/BooksPage';
 import BookDetailsPage from '@/pages/BookDetailsPage';
+import AuthorPage from '@/pages/AuthorPage';
 import MyLoans from '@/pages/MyLoans';
 import MyHoldsPage from '@/pages/MyHoldsPage';
 import MyFinesPage from '@/pages/MyFinesPage';
+import MockCheckoutPage from '@/pages/MockCheckoutPage';
+import FineAppealsPage from '@/pages/FineAppealsPage';
+import CatalogDuplicatesPage from '@/pages/CatalogDuplicatesPage';
 import OnlineBooksPage from '@/pages/OnlineBooksPage';
 import NotificationDetailsPage from '@/pages/NotificationDetailsPage';
 import LoansPage from '@/pages/LoansPage';
@@ -111,6 +115,14 @@ function App() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/authors/:id"
+        element={
+          <ProtectedRoute>
+            <AuthorPage />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/my-loans"
         element={
@@ -135,6 +147,14 @@ function App() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/payments/mock-checkout/:sessionId"
+        element={
+          <ProtectedRoute allowedTypes={['MEMBER']}>
+            <MockCheckoutPage />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/online-books"
         element={
@@ -159,6 +179,22 @@ function App() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/fine-appeals"
+        element={
+          <ProtectedRoute allowedTypes={['ADMIN']}>
+            <FineAppealsPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/catalog/duplicates"
+        element={
+          <ProtectedRoute allowedTypes={['LIBRARIAN', 'ADMIN']}>
+            <CatalogDuplicatesPage />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/members"
         element={
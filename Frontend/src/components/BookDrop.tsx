@@ -0,0 +1,186 @@
+import { useState } from 'react';
+import { api } from '@/lib/api';
+import toast from 'react-hot-toast';
+import { Inbox, Clock, CheckCircle, XCircle, AlertCircle, BellRing, DollarSign, HelpCircle } from 'lucide-react';
+
+interface BatchItem {
+  code: string;
+  status: 'returned' | 'found' | 'not_on_loan' | 'not_found' | 'error';
+  loanId: number | null;
+  bookTitle: string | null;
+  memberName: string | null;
+  isOverdue: boolean;
+  fineId: number | null;
+  fineAmount: number;
+  reservationAlert: { reservationId: number; memberName: string; loginId: string; message: string } | null;
+  message: string;
+}
+
+interface BatchSummary {
+  total: number;
+  returned: number;
+  found: number;
+  notOnLoan: number;
+  notFound: number;
+  errors: number;
+  finesCharged: number;
+  toHoldShelf: number;
+}
+
+const STATUS_STYLES: Record<BatchItem['status'], string> = {
+  returned: 'text-green-400',
+  found: 'text-blue-400',
+  not_on_loan: 'text-gray-400',
+  not_found: 'text-yellow-400',
+  error: 'text-red-400',
+};
+
+export default function BookDrop() {
+  const [codes, setCodes] = useState('');
+  const [droppedAt, setDroppedAt] = useState('');
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [summary, setSummary] = useState<BatchSummary | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // One barcode per line; scanners send Enter after each item
+  const scannedCodes = codes.split(/[\s,]+/).map((c) => c.trim()).filter((c) => c);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (scannedCodes.length === 0) return;
+
+    setBusy(true);
+    try {
+      const response = await api.post('/loans/desk/batch-checkin', {
+        copyCodes: scannedCodes,
+        ...(droppedAt && { droppedAt: new Date(droppedAt).toISOString() }),
+      });
+      setItems(response.data.items);
+      setSummary(response.data.summary);
+      setCodes('');
+      toast.success(response.data.message);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Batch check-in failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const getStatusIcon = (status: BatchItem['status']) => {
+    switch (status) {
+      case 'returned':
+        return <CheckCircle className="w-4 h-4" />;
+      case 'found':
+        return <HelpCircle className="w-4 h-4" />;
+      case 'error':
+        return <XCircle className="w-4 h-4" />;
+      default:
+        return <AlertCircle className="w-4 h-4" />;
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <form onSubmit={handleSubmit} className="card-glass p-6 space-y-4">
+        <div>
+          <label className="text-sm text-gray-400 mb-2 block">Scan every item from the book drop</label>
+          <textarea
+            value={codes}
+            onChange={(e) => setCodes(e.target.value)}
+            disabled={busy}
+            rows={10}
+            className="w-full px-4 py-3 bg-gray-800 border border-purple-500/30 rounded-lg text-white font-mono focus:outline-none focus:border-purple-500"
+            placeholder="One barcode or RFID tag per line"
+            autoFocus
+          />
+          <p className="text-xs text-gray-500 mt-1">{scannedCodes.length} item(s) scanned</p>
+        </div>
+
+        <div>
+          <label className="text-sm text-gray-400 mb-2 flex items-center gap-2">
+            <Clock className="w-4 h-4" />
+            Dropped at (optional)
+          </label>
+          <input
+            type="datetime-local"
+            value={droppedAt}
+            onChange={(e) => setDroppedAt(e.target.value)}
+            disabled={busy}
+            className="w-full px-4 py-2 bg-gray-800 border border-purple-500/30 rounded-lg text-white focus:outline-none focus:border-purple-500"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Returns are backdated to this time so the overnight gap is not fined.
+          </p>
+        </div>
+
+        <button
+          type="submit"
+          disabled={busy || scannedCodes.length === 0}
+          className="btn-primary w-full flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          <Inbox className="w-4 h-4" />
+          {busy ? 'Checking in...' : `Check In ${scannedCodes.length} Item(s)`}
+        </button>
+      </form>
+
+      <div className="lg:col-span-2 card-glass p-6">
+        <h3 className="text-lg font-semibold text-white mb-3">Results</h3>
+
+        {summary && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4 text-sm">
+            <div className="p-3 bg-green-500/10 border border-green-500/30 rounded-lg text-green-400">
+              {summary.returned + summary.found} checked in
+            </div>
+            <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-yellow-400 flex items-center gap-1">
+              <BellRing className="w-4 h-4" />
+              {summary.toHoldShelf} to hold shelf
+            </div>
+            <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 flex items-center gap-1">
+              <DollarSign className="w-4 h-4" />
+              {summary.finesCharged} fined
+            </div>
+            <div className="p-3 bg-gray-800/50 border border-gray-700 rounded-lg text-gray-400">
+              {summary.notOnLoan + summary.notFound + summary.errors} need attention
+            </div>
+          </div>
+        )}
+
+        {items.length === 0 ? (
+          <p className="text-sm text-gray-500">Per-item results appear here after check-in.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-gray-700">
+                  <th className="py-2 pr-4">Barcode</th>
+                  <th className="py-2 pr-4">Title</th>
+                  <th className="py-2 pr-4">Borrower</th>
+                  <th className="py-2 pr-4">Fine</th>
+                  <th className="py-2">Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item) => (
+                  <tr key={item.code} className="border-b border-gray-800">
+                    <td className="py-2 pr-4 font-mono text-gray-400">{item.code}</td>
+                    <td className="py-2 pr-4 text-white">{item.bookTitle || '-'}</td>
+                    <td className="py-2 pr-4 text-gray-300">{item.memberName || '-'}</td>
+                    <td className="py-2 pr-4 text-gray-300">
+                      {item.fineAmount > 0 ? `$${item.fineAmount.toFixed(2)}` : '-'}
+                    </td>
+                    <td className={`py-2 ${item.reservationAlert ? 'text-yellow-400' : STATUS_STYLES[item.status]}`}>
+                      <span className="flex items-center gap-1">
+                        {item.reservationAlert ? <BellRing className="w-4 h-4" /> : getStatusIcon(item.status)}
+                        {item.message}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
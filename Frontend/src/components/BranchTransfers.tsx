@@ -0,0 +1,189 @@
+import { useState, useEffect } from 'react';
+import { api } from '@/lib/api';
+import toast from 'react-hot-toast';
+import { Truck, PackageCheck, BellRing, RotateCcw, ArrowRight } from 'lucide-react';
+
+interface Branch {
+  id: number;
+  code: string;
+  name: string;
+}
+
+interface Transfer {
+  id: number;
+  reason: 'return' | 'reservation' | 'manual';
+  status: 'in_transit' | 'received';
+  sentAt: string;
+  receivedAt: string | null;
+  fromBranch: Branch;
+  toBranch: Branch;
+  bookCopy: {
+    barcode: string;
+    book: { title: string };
+  };
+  reservation: {
+    member: { user: { username: string; loginId: string } };
+  } | null;
+}
+
+const REASON_LABELS: Record<Transfer['reason'], string> = {
+  return: 'Going home',
+  reservation: 'For pickup',
+  manual: 'Relocation',
+};
+
+export default function BranchTransfers() {
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [branchId, setBranchId] = useState('');
+  const [status, setStatus] = useState<'in_transit' | 'received'>('in_transit');
+  const [transfers, setTransfers] = useState<Transfer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [receivingId, setReceivingId] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetchBranches();
+  }, []);
+
+  useEffect(() => {
+    fetchTransfers();
+  }, [branchId, status]);
+
+  const fetchBranches = async () => {
+    try {
+      const response = await api.get('/branches', { params: { includeInactive: true } });
+      setBranches(response.data.branches);
+    } catch (error) {
+      console.error('Failed to fetch branches:', error);
+    }
+  };
+
+  const fetchTransfers = async () => {
+    try {
+      setLoading(true);
+      const response = await api.get('/branches/transfers', {
+        params: { status, ...(branchId && { branchId }) },
+      });
+      setTransfers(response.data.transfers);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to load transfers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReceive = async (transfer: Transfer) => {
+    setReceivingId(transfer.id);
+    try {
+      const response = await api.post(`/branches/transfers/${transfer.id}/receive`);
+      toast.success(
+        transfer.reason === 'reservation' && transfer.reservation
+          ? `Received - put on the hold shelf for ${transfer.reservation.member.user.username}`
+          : response.data.message
+      );
+      fetchTransfers();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to receive transfer');
+    } finally {
+      setReceivingId(null);
+    }
+  };
+
+  return (
+    <div className="card-glass p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Truck className="w-5 h-5 text-purple-400" />
+          Copy Transfers
+        </h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={branchId}
+            onChange={(e) => setBranchId(e.target.value)}
+            className="bg-gray-800 border border-purple-500/30 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-purple-500"
+          >
+            <option value="">All Branches</option>
+            {branches.map((branch) => (
+              <option key={branch.id} value={branch.id}>
+                {branch.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as Transfer['status'])}
+            className="bg-gray-800 border border-purple-500/30 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-purple-500"
+          >
+            <option value="in_transit">In Transit</option>
+            <option value="received">Received</option>
+          </select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="w-10 h-10 border-4 border-purple-500/20 border-t-purple-500 rounded-full animate-spin"></div>
+        </div>
+      ) : transfers.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {status === 'in_transit' ? 'Nothing in transit.' : 'No received transfers.'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-gray-700">
+                <th className="py-2 pr-4">Barcode</th>
+                <th className="py-2 pr-4">Title</th>
+                <th className="py-2 pr-4">Route</th>
+                <th className="py-2 pr-4">Reason</th>
+                <th className="py-2 pr-4">{status === 'in_transit' ? 'Sent' : 'Received'}</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {transfers.map((transfer) => (
+                <tr key={transfer.id} className="border-b border-gray-800">
+                  <td className="py-2 pr-4 font-mono text-gray-400">{transfer.bookCopy.barcode}</td>
+                  <td className="py-2 pr-4 text-white">{transfer.bookCopy.book.title}</td>
+                  <td className="py-2 pr-4 text-gray-300">
+                    <span className="flex items-center gap-1">
+                      {transfer.fromBranch.code}
+                      <ArrowRight className="w-3 h-3" />
+                      {transfer.toBranch.code}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-4 text-gray-300">
+                    <span className="flex items-center gap-1">
+                      {transfer.reason === 'reservation' ? (
+                        <BellRing className="w-4 h-4 text-yellow-400" />
+                      ) : (
+                        <RotateCcw className="w-4 h-4 text-gray-500" />
+                      )}
+                      {REASON_LABELS[transfer.reason]}
+                      {transfer.reservation && ` (${transfer.reservation.member.user.username})`}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-4 text-gray-400">
+                    {new Date(transfer.receivedAt || transfer.sentAt).toLocaleString()}
+                  </td>
+                  <td className="py-2 text-right">
+                    {transfer.status === 'in_transit' && (
+                      <button
+                        onClick={() => handleReceive(transfer)}
+                        disabled={receivingId === transfer.id}
+                        className="px-3 py-1 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500/30 transition-colors text-xs flex items-center gap-1 ml-auto disabled:opacity-50"
+                      >
+                        <PackageCheck className="w-3 h-3" />
+                        Receive
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
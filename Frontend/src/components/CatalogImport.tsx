@@ -0,0 +1,204 @@
+import { useState, useEffect } from 'react';
+import { api } from '@/lib/api';
+import toast from 'react-hot-toast';
+import { Upload, X, CheckCircle, XCircle, RefreshCw, FileText } from 'lucide-react';
+
+interface Branch {
+  id: number;
+  code: string;
+  name: string;
+}
+
+interface ImportRecordResult {
+  record: number;
+  isbn: string | null;
+  title: string | null;
+  action: 'created' | 'updated' | 'rejected';
+  bookId: number | null;
+  copiesCreated: number;
+  messages: string[];
+}
+
+interface ImportReport {
+  filename: string;
+  format: string;
+  total: number;
+  created: number;
+  updated: number;
+  rejected: number;
+  copiesCreated: number;
+  records: ImportRecordResult[];
+}
+
+const ACTION_STYLES: Record<ImportRecordResult['action'], string> = {
+  created: 'bg-green-500/10 text-green-400 border-green-500/30',
+  updated: 'bg-blue-500/10 text-blue-400 border-blue-500/30',
+  rejected: 'bg-red-500/10 text-red-400 border-red-500/30',
+};
+
+interface CatalogImportProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+export default function CatalogImport({ onClose, onImported }: CatalogImportProps) {
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [branchId, setBranchId] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  useEffect(() => {
+    api.get('/branches')
+      .then((response) => setBranches(response.data.branches))
+      .catch(() => setBranches([]));
+  }, []);
+
+  const handleImport = async () => {
+    if (!file) {
+      toast.error('Choose a MARC21 or MARCXML file first');
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (branchId) {
+        formData.append('homeBranchId', branchId);
+      }
+
+      const response = await api.post('/catalog/import/marc', formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+      });
+      setReport(response.data.report);
+      toast.success(response.data.message);
+      onImported();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Import failed');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-900 border border-purple-500/30 rounded-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-purple-500/20 flex items-center justify-between sticky top-0 bg-gray-900 z-10">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <Upload className="w-5 h-5 text-purple-400" />
+            Import Catalog Records
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-800 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {!report ? (
+            <>
+              <p className="text-sm text-gray-400">
+                Books are matched on ISBN: new ones are created and existing ones updated. Items in 852/949
+                fields are added as copies; barcodes already in the catalog are skipped.
+              </p>
+              <div>
+                <label className="label">File (.mrc or .xml) *</label>
+                <input
+                  type="file"
+                  accept=".mrc,.marc,.xml"
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                  className="input w-full"
+                />
+              </div>
+              <div>
+                <label className="label">Branch for items without a known branch code</label>
+                <select value={branchId} onChange={(e) => setBranchId(e.target.value)} className="input w-full">
+                  <option value="">My branch</option>
+                  {branches.map((branch) => (
+                    <option key={branch.id} value={branch.id}>
+                      {branch.name} ({branch.code})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex gap-3 pt-2">
+                <button
+                  onClick={handleImport}
+                  disabled={importing || !file}
+                  className="btn-primary flex-1 flex items-center justify-center gap-2 disabled:opacity-50"
+                >
+                  {importing ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                  {importing ? 'Importing...' : 'Import'}
+                </button>
+                <button onClick={onClose} className="btn-secondary flex-1">
+                  Cancel
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="card-glass text-center">
+                  <p className="text-2xl font-bold text-green-400">{report.created}</p>
+                  <p className="text-xs text-gray-400">Created</p>
+                </div>
+                <div className="card-glass text-center">
+                  <p className="text-2xl font-bold text-blue-400">{report.updated}</p>
+                  <p className="text-xs text-gray-400">Updated</p>
+                </div>
+                <div className="card-glass text-center">
+                  <p className="text-2xl font-bold text-red-400">{report.rejected}</p>
+                  <p className="text-xs text-gray-400">Rejected</p>
+                </div>
+                <div className="card-glass text-center">
+                  <p className="text-2xl font-bold text-white">{report.copiesCreated}</p>
+                  <p className="text-xs text-gray-400">Copies added</p>
+                </div>
+              </div>
+
+              <p className="text-sm text-gray-400 flex items-center gap-2">
+                <FileText className="w-4 h-4" />
+                {report.filename} ({report.format.toUpperCase()}, {report.total} records)
+              </p>
+
+              <div className="space-y-2">
+                {report.records.map((record) => (
+                  <div key={record.record} className="p-3 bg-gray-800/50 rounded-lg">
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className="text-white text-sm truncate">
+                          #{record.record} {record.title || 'Untitled record'}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {record.isbn ? `ISBN ${record.isbn}` : 'No ISBN'}
+                          {record.copiesCreated > 0 && ` - ${record.copiesCreated} copies added`}
+                        </p>
+                      </div>
+                      <span className={`px-3 py-1 rounded-full text-xs font-medium border flex items-center gap-1 ${ACTION_STYLES[record.action]}`}>
+                        {record.action === 'rejected' ? <XCircle className="w-3 h-3" /> : <CheckCircle className="w-3 h-3" />}
+                        {record.action.toUpperCase()}
+                      </span>
+                    </div>
+                    {record.messages.length > 0 && (
+                      <ul className="mt-2 text-xs text-gray-400 list-disc list-inside">
+                        {record.messages.map((message, i) => (
+                          <li key={i}>{message}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <button onClick={onClose} className="btn-primary w-full">
+                Done
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,464 @@
+import { useState, useRef, useEffect } from 'react';
+import { api } from '@/lib/api';
+import toast from 'react-hot-toast';
+import { ScanLine, User, BookOpen, AlertTriangle, DollarSign, Printer, LogIn, LogOut, BellRing, X, Wrench } from 'lucide-react';
+
+interface DeskMember {
+  id: number;
+  username: string;
+  email: string;
+  loginId: string;
+  studentOrStaffId: string;
+  isActive: boolean;
+}
+
+interface DeskSummary {
+  member: DeskMember;
+  blocks: {
+    canBorrow: boolean;
+    holds: { id: number; reason: string; placedAt: string }[];
+    unpaidFines: { id: number; amount: string; paidAmount: string | null; reason: string; status: string }[];
+    totalUnpaid: number;
+  };
+  currentLoans: {
+    id: number;
+    bookTitle: string;
+    barcode: string;
+    dueDatetime: string;
+    status: string;
+    isOverdue: boolean;
+  }[];
+}
+
+interface DeskSlip {
+  type: 'checkout' | 'checkin';
+  printedAt: string;
+  text: string;
+}
+
+interface ReservationAlert {
+  reservationId: number;
+  memberName: string;
+  loginId: string;
+  pickupBy: string | null;
+  pickupBranch: string | null;
+  inTransit: boolean;
+  message: string;
+}
+
+interface DeskEvent {
+  id: number;
+  success: boolean;
+  message: string;
+  code: string;
+}
+
+type DeskMode = 'checkout' | 'checkin';
+
+// Conditions staff can record at check-in; blank leaves the copy's condition unassessed
+const RETURN_CONDITIONS = ['new', 'good', 'fair', 'damaged'];
+
+export default function CirculationDesk() {
+  const [mode, setMode] = useState<DeskMode>('checkout');
+  const [memberCode, setMemberCode] = useState('');
+  const [copyCode, setCopyCode] = useState('');
+  const [summary, setSummary] = useState<DeskSummary | null>(null);
+  const [slip, setSlip] = useState<DeskSlip | null>(null);
+  const [reservationAlert, setReservationAlert] = useState<ReservationAlert | null>(null);
+  const [events, setEvents] = useState<DeskEvent[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [condition, setCondition] = useState('');
+  const [conditionNotes, setConditionNotes] = useState('');
+  const [damageFee, setDamageFee] = useState('');
+  const [sendToMaintenance, setSendToMaintenance] = useState(false);
+
+  const memberInputRef = useRef<HTMLInputElement>(null);
+  const copyInputRef = useRef<HTMLInputElement>(null);
+
+  // Keep the cursor in the field the scanner should type into next
+  useEffect(() => {
+    if (mode === 'checkout' && !summary) {
+      memberInputRef.current?.focus();
+    } else {
+      copyInputRef.current?.focus();
+    }
+  }, [mode, summary, busy]);
+
+  const logEvent = (success: boolean, message: string, code: string) => {
+    setEvents((prev) => [{ id: Date.now(), success, message, code }, ...prev].slice(0, 10));
+  };
+
+  const resetSession = () => {
+    setSummary(null);
+    setMemberCode('');
+    setCopyCode('');
+    setSlip(null);
+    setReservationAlert(null);
+  };
+
+  const resetAssessment = () => {
+    setCondition('');
+    setConditionNotes('');
+    setDamageFee('');
+    setSendToMaintenance(false);
+  };
+
+  const switchMode = (newMode: DeskMode) => {
+    resetSession();
+    setMode(newMode);
+  };
+
+  const handleMemberScan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = memberCode.trim();
+    if (!code) return;
+
+    setBusy(true);
+    try {
+      const response = await api.get(`/loans/desk/member/${encodeURIComponent(code)}`);
+      setSummary(response.data);
+      setSlip(null);
+      if (!response.data.blocks.canBorrow) {
+        toast.error('This member cannot borrow right now');
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Member not found');
+      setMemberCode('');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopyScan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = copyCode.trim();
+    if (!code) return;
+
+    setBusy(true);
+    try {
+      if (mode === 'checkout' && summary) {
+        const response = await api.post('/loans/desk/checkout', {
+          memberCode: summary.member.loginId,
+          copyCode: code,
+        });
+        const { slip: newSlip, message, member, blocks, currentLoans } = response.data;
+        setSummary({ member, blocks, currentLoans });
+        setSlip(newSlip);
+        logEvent(true, message, code);
+        toast.success(message);
+      } else {
+        const response = await api.post('/loans/desk/checkin', {
+          copyCode: code,
+          ...(condition && {
+            condition,
+            conditionNotes: conditionNotes || undefined,
+            damageFee: damageFee ? parseFloat(damageFee) : undefined,
+            sendToMaintenance,
+          }),
+        });
+        const { slip: newSlip, message, reservationAlert: alert, member, blocks, currentLoans } = response.data;
+        setSummary({ member, blocks, currentLoans });
+        setSlip(newSlip);
+        setReservationAlert(alert);
+        resetAssessment();
+        logEvent(true, message, code);
+        if (alert) {
+          toast(alert.message, { icon: '📌', duration: 6000 });
+        } else {
+          toast.success(message);
+        }
+      }
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Scan failed';
+      logEvent(false, message, code);
+      toast.error(message);
+    } finally {
+      setCopyCode('');
+      setBusy(false);
+    }
+  };
+
+  const printSlip = () => {
+    if (!slip) return;
+    const printWindow = window.open('', '_blank', 'width=400,height=600');
+    if (!printWindow) {
+      toast.error('Allow pop-ups to print slips');
+      return;
+    }
+    const pre = printWindow.document.createElement('pre');
+    pre.style.fontFamily = 'monospace';
+    pre.style.fontSize = '12px';
+    pre.textContent = slip.text;
+    printWindow.document.body.appendChild(pre);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+    printWindow.close();
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Scanner Panel */}
+      <div className="lg:col-span-2 space-y-6">
+        <div className="card-glass p-6">
+          <div className="flex gap-2 mb-6">
+            <button
+              onClick={() => switchMode('checkout')}
+              className={`flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-lg transition-colors ${
+                mode === 'checkout'
+                  ? 'bg-purple-500/20 text-purple-400 border border-purple-500/30'
+                  : 'bg-gray-800/50 text-gray-400 hover:bg-gray-800'
+              }`}
+            >
+              <LogOut className="w-5 h-5" />
+              Check Out
+            </button>
+            <button
+              onClick={() => switchMode('checkin')}
+              className={`flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-lg transition-colors ${
+                mode === 'checkin'
+                  ? 'bg-purple-500/20 text-purple-400 border border-purple-500/30'
+                  : 'bg-gray-800/50 text-gray-400 hover:bg-gray-800'
+              }`}
+            >
+              <LogIn className="w-5 h-5" />
+              Check In
+            </button>
+          </div>
+
+          {mode === 'checkout' && !summary && (
+            <form onSubmit={handleMemberScan}>
+              <label className="text-sm text-gray-400 mb-2 block">Scan member card or enter login ID</label>
+              <div className="relative">
+                <User className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-purple-400" />
+                <input
+                  ref={memberInputRef}
+                  type="text"
+                  value={memberCode}
+                  onChange={(e) => setMemberCode(e.target.value)}
+                  disabled={busy}
+                  className="w-full pl-11 pr-4 py-3 bg-gray-800 border border-purple-500/30 rounded-lg text-white font-mono focus:outline-none focus:border-purple-500"
+                  placeholder="STU-1234 or MEM-..."
+                  autoComplete="off"
+                />
+              </div>
+            </form>
+          )}
+
+          {(mode === 'checkin' || summary) && (
+            <form onSubmit={handleCopyScan}>
+              <label className="text-sm text-gray-400 mb-2 block">
+                {mode === 'checkout' ? 'Scan items to check out' : 'Scan items to check in'}
+              </label>
+              <div className="relative">
+                <ScanLine className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-purple-400" />
+                <input
+                  ref={copyInputRef}
+                  type="text"
+                  value={copyCode}
+                  onChange={(e) => setCopyCode(e.target.value)}
+                  disabled={busy || (mode === 'checkout' && !summary?.blocks.canBorrow)}
+                  className="w-full pl-11 pr-4 py-3 bg-gray-800 border border-purple-500/30 rounded-lg text-white font-mono focus:outline-none focus:border-purple-500 disabled:opacity-50"
+                  placeholder="Barcode or RFID tag"
+                  autoComplete="off"
+                />
+              </div>
+            </form>
+          )}
+
+          {mode === 'checkin' && (
+            <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm text-gray-400 mb-1 block">Condition on return</label>
+                <select
+                  value={condition}
+                  onChange={(e) => {
+                    setCondition(e.target.value);
+                    setSendToMaintenance(e.target.value === 'damaged');
+                  }}
+                  className="w-full px-3 py-2 bg-gray-800 border border-purple-500/30 rounded-lg text-white focus:outline-none focus:border-purple-500"
+                >
+                  <option value="">Not assessed</option>
+                  {RETURN_CONDITIONS.map((c) => (
+                    <option key={c} value={c}>
+                      {c.charAt(0).toUpperCase() + c.slice(1)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="text-sm text-gray-400 mb-1 block">Damage fee ($)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={damageFee}
+                  onChange={(e) => setDamageFee(e.target.value)}
+                  disabled={!condition}
+                  className="w-full px-3 py-2 bg-gray-800 border border-purple-500/30 rounded-lg text-white focus:outline-none focus:border-purple-500 disabled:opacity-50"
+                  placeholder="0.00"
+                />
+              </div>
+              <div className="md:col-span-2">
+                <input
+                  type="text"
+                  value={conditionNotes}
+                  onChange={(e) => setConditionNotes(e.target.value)}
+                  disabled={!condition}
+                  className="w-full px-3 py-2 bg-gray-800 border border-purple-500/30 rounded-lg text-white focus:outline-none focus:border-purple-500 disabled:opacity-50"
+                  placeholder="Condition notes (e.g. water damage on cover)"
+                />
+              </div>
+              <label className="md:col-span-2 flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={sendToMaintenance}
+                  onChange={(e) => setSendToMaintenance(e.target.checked)}
+                  disabled={!condition}
+                />
+                <Wrench className="w-4 h-4 text-orange-400" />
+                Send to maintenance instead of the shelf
+              </label>
+            </div>
+          )}
+
+          {mode === 'checkout' && summary && (
+            <button
+              onClick={resetSession}
+              className="mt-4 text-sm text-gray-400 hover:text-white flex items-center gap-1"
+            >
+              <X className="w-4 h-4" />
+              Finish and serve next member
+            </button>
+          )}
+        </div>
+
+        {/* Reservation Alert */}
+        {reservationAlert && (
+          <div className="card bg-yellow-500/10 border-yellow-500/30">
+            <div className="flex items-start gap-3">
+              <BellRing className="w-6 h-6 text-yellow-400 flex-shrink-0 mt-1" />
+              <div>
+                <h3 className="text-lg font-semibold text-white mb-1">
+                  {reservationAlert.inTransit ? 'Reserved Item - Send to Branch' : 'Reserved Item'}
+                </h3>
+                <p className="text-sm text-gray-300">{reservationAlert.message}</p>
+                {reservationAlert.pickupBy && (
+                  <p className="text-xs text-gray-400 mt-1">
+                    Pickup by {new Date(reservationAlert.pickupBy).toLocaleDateString()}
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Member Summary */}
+        {summary && (
+          <div className="card-glass p-6">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h3 className="text-lg font-semibold text-white">{summary.member.username}</h3>
+                <p className="text-sm text-gray-400 font-mono">
+                  {summary.member.loginId} · {summary.member.studentOrStaffId}
+                </p>
+              </div>
+              <span
+                className={`px-3 py-1 rounded-full text-xs font-medium border ${
+                  summary.blocks.canBorrow
+                    ? 'bg-green-500/10 text-green-400 border-green-500/30'
+                    : 'bg-red-500/10 text-red-400 border-red-500/30'
+                }`}
+              >
+                {summary.blocks.canBorrow ? 'CAN BORROW' : 'BLOCKED'}
+              </span>
+            </div>
+
+            {summary.blocks.holds.length > 0 && (
+              <div className="mb-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg">
+                <p className="text-sm font-medium text-red-400 flex items-center gap-2 mb-1">
+                  <AlertTriangle className="w-4 h-4" />
+                  Active holds
+                </p>
+                {summary.blocks.holds.map((hold) => (
+                  <p key={hold.id} className="text-sm text-gray-300">{hold.reason}</p>
+                ))}
+              </div>
+            )}
+
+            {summary.blocks.totalUnpaid > 0 && (
+              <div className="mb-4 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+                <p className="text-sm font-medium text-yellow-400 flex items-center gap-2">
+                  <DollarSign className="w-4 h-4" />
+                  Unpaid fines: ${summary.blocks.totalUnpaid.toFixed(2)} ({summary.blocks.unpaidFines.length})
+                </p>
+              </div>
+            )}
+
+            <h4 className="text-sm font-medium text-gray-400 mb-2">
+              Current loans ({summary.currentLoans.length})
+            </h4>
+            {summary.currentLoans.length === 0 ? (
+              <p className="text-sm text-gray-500">No items on loan</p>
+            ) : (
+              <div className="space-y-2">
+                {summary.currentLoans.map((loan) => (
+                  <div key={loan.id} className="flex items-center justify-between text-sm">
+                    <span className="flex items-center gap-2 text-gray-300">
+                      <BookOpen className="w-4 h-4 text-purple-400" />
+                      {loan.bookTitle}
+                      <span className="text-gray-500 font-mono">{loan.barcode}</span>
+                    </span>
+                    <span className={loan.isOverdue ? 'text-red-400' : 'text-gray-400'}>
+                      Due {new Date(loan.dueDatetime).toLocaleDateString()}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Slip & Activity */}
+      <div className="space-y-6">
+        <div className="card-glass p-6">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-lg font-semibold text-white">Slip</h3>
+            <button
+              onClick={printSlip}
+              disabled={!slip}
+              className="btn-primary flex items-center gap-2 text-sm disabled:opacity-50"
+            >
+              <Printer className="w-4 h-4" />
+              Print
+            </button>
+          </div>
+          {slip ? (
+            <pre className="text-xs text-gray-300 bg-gray-900/70 p-3 rounded-lg overflow-x-auto whitespace-pre">
+              {slip.text}
+            </pre>
+          ) : (
+            <p className="text-sm text-gray-500">The latest receipt appears here.</p>
+          )}
+        </div>
+
+        <div className="card-glass p-6">
+          <h3 className="text-lg font-semibold text-white mb-3">Recent scans</h3>
+          {events.length === 0 ? (
+            <p className="text-sm text-gray-500">No scans yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {events.map((event) => (
+                <div key={event.id} className="text-sm">
+                  <span className="font-mono text-gray-400">{event.code}</span>
+                  <p className={event.success ? 'text-green-400' : 'text-red-400'}>{event.message}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { Plus, Trash2 } from 'lucide-react';
+
+export interface ContributorRow {
+  name: string;
+  role: string;
+}
+
+// Roles other than author; authors are typed on the book's author line
+const OTHER_ROLES = ['editor', 'translator', 'illustrator'];
+
+interface ContributorsEditorProps {
+  value: ContributorRow[];
+  onChange: (rows: ContributorRow[]) => void;
+}
+
+export default function ContributorsEditor({ value, onChange }: ContributorsEditorProps) {
+  const updateRow = (index: number, changes: Partial<ContributorRow>) => {
+    onChange(value.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <label className="label">Other contributors</label>
+        <button
+          type="button"
+          onClick={() => onChange([...value, { name: '', role: 'editor' }])}
+          className="text-sm text-purple-400 hover:text-purple-300 flex items-center gap-1"
+        >
+          <Plus className="w-4 h-4" />
+          Add
+        </button>
+      </div>
+      {value.length === 0 ? (
+        <p className="text-xs text-gray-500">Editors, translators and illustrators</p>
+      ) : (
+        <div className="space-y-2">
+          {value.map((row, index) => (
+            <div key={index} className="flex gap-2">
+              <input
+                type="text"
+                value={row.name}
+                onChange={(e) => updateRow(index, { name: e.target.value })}
+                placeholder="Name"
+                className="input flex-1"
+              />
+              <select
+                value={row.role}
+                onChange={(e) => updateRow(index, { role: e.target.value })}
+                className="input w-40"
+              >
+                {OTHER_ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {role.charAt(0).toUpperCase() + role.slice(1)}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+                className="p-2 hover:bg-red-500/10 rounded-lg transition-colors"
+                title="Remove"
+              >
+                <Trash2 className="w-4 h-4 text-red-400" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Contributors to send with a book: the people on the author line (split on ";") as authors, then the rest
+ */
+export function buildContributors(authorLine: string, others: ContributorRow[]) {
+  return [
+    ...authorLine.split(';').map((name) => ({ name: name.trim(), role: 'author' })),
+    ...others.map((row) => ({ name: row.name.trim(), role: row.role })),
+  ].filter((contributor) => contributor.name);
+}
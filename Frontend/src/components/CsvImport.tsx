@@ -0,0 +1,270 @@
+import { useState, useEffect } from 'react';
+import { api } from '@/lib/api';
+import toast from 'react-hot-toast';
+import { FileSpreadsheet, X, CheckCircle, XCircle, AlertTriangle, RefreshCw, Download } from 'lucide-react';
+
+interface Branch {
+  id: number;
+  code: string;
+  name: string;
+}
+
+interface CsvImportRow {
+  row: number;
+  isbn: string | null;
+  title: string | null;
+  category: string | null;
+  copies: number;
+  errors: string[];
+  warnings: string[];
+  bookId: number | null;
+}
+
+interface CsvImportResult {
+  filename: string;
+  format: 'csv' | 'tsv';
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  failed: number;
+  booksCreated: number;
+  copiesCreated: number;
+  rows: CsvImportRow[];
+  errorCsv: string | null;
+}
+
+interface CsvImportProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+export default function CsvImport({ onClose, onImported }: CsvImportProps) {
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [branchId, setBranchId] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<CsvImportResult | null>(null);
+
+  useEffect(() => {
+    api.get('/branches')
+      .then((response) => setBranches(response.data.branches))
+      .catch(() => setBranches([]));
+  }, []);
+
+  const upload = async (dryRun: boolean) => {
+    if (!file) {
+      toast.error('Choose a CSV or TSV file first');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('dryRun', String(dryRun));
+      if (branchId) {
+        formData.append('homeBranchId', branchId);
+      }
+
+      const response = await api.post('/catalog/import/csv', formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+      });
+      setResult(response.data.result);
+      toast.success(response.data.message);
+      if (!dryRun) {
+        onImported();
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Import failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDownloadErrors = () => {
+    if (!result?.errorCsv) {
+      return;
+    }
+
+    const url = window.URL.createObjectURL(new Blob([result.errorCsv], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', `${result.filename.replace(/\.[^.]+$/, '')}-errors.csv`);
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const handleReset = () => {
+    setResult(null);
+    setFile(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-900 border border-purple-500/30 rounded-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-purple-500/20 flex items-center justify-between sticky top-0 bg-gray-900 z-10">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5 text-purple-400" />
+            Import Books from CSV
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-800 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {!result ? (
+            <>
+              <p className="text-sm text-gray-400">
+                One book per row. Required columns: title, author, isbn, category. Optional: year, publisher,
+                description, copies (default 1), loanType, branch (code), location. Every row is checked first;
+                nothing is saved until you confirm.
+              </p>
+              <div>
+                <label className="label">File (.csv or .tsv) *</label>
+                <input
+                  type="file"
+                  accept=".csv,.tsv,.txt"
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                  className="input w-full"
+                />
+              </div>
+              <div>
+                <label className="label">Branch for rows without a branch code</label>
+                <select value={branchId} onChange={(e) => setBranchId(e.target.value)} className="input w-full">
+                  <option value="">My branch</option>
+                  {branches.map((branch) => (
+                    <option key={branch.id} value={branch.id}>
+                      {branch.name} ({branch.code})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex gap-3 pt-2">
+                <button
+                  onClick={() => upload(true)}
+                  disabled={submitting || !file}
+                  className="btn-primary flex-1 flex items-center justify-center gap-2 disabled:opacity-50"
+                >
+                  {submitting ? <RefreshCw className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+                  {submitting ? 'Checking...' : 'Check File'}
+                </button>
+                <button onClick={onClose} className="btn-secondary flex-1">
+                  Cancel
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="card-glass text-center">
+                  <p className="text-2xl font-bold text-white">{result.total}</p>
+                  <p className="text-xs text-gray-400">Rows</p>
+                </div>
+                <div className="card-glass text-center">
+                  <p className="text-2xl font-bold text-green-400">
+                    {result.dryRun ? result.valid : result.booksCreated}
+                  </p>
+                  <p className="text-xs text-gray-400">{result.dryRun ? 'Ready' : 'Books created'}</p>
+                </div>
+                <div className="card-glass text-center">
+                  <p className="text-2xl font-bold text-red-400">{result.failed}</p>
+                  <p className="text-xs text-gray-400">{result.dryRun ? 'With errors' : 'Skipped'}</p>
+                </div>
+                <div className="card-glass text-center">
+                  <p className="text-2xl font-bold text-white">
+                    {result.dryRun
+                      ? result.rows.filter((r) => r.errors.length === 0).reduce((sum, r) => sum + r.copies, 0)
+                      : result.copiesCreated}
+                  </p>
+                  <p className="text-xs text-gray-400">{result.dryRun ? 'Copies to add' : 'Copies added'}</p>
+                </div>
+              </div>
+
+              <p className="text-sm text-gray-400 flex items-center gap-2">
+                <FileSpreadsheet className="w-4 h-4" />
+                {result.filename} ({result.format.toUpperCase()})
+                {result.dryRun && ' - preview only, nothing has been saved yet'}
+              </p>
+
+              <div className="space-y-2">
+                {result.rows.map((row) => (
+                  <div key={row.row} className="p-3 bg-gray-800/50 rounded-lg">
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className="text-white text-sm truncate">
+                          Row {row.row}: {row.title || 'Untitled'}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {row.isbn ? `ISBN ${row.isbn}` : 'No ISBN'}
+                          {row.category && ` - ${row.category}`}
+                          {row.errors.length === 0 && ` - ${row.copies} ${row.copies === 1 ? 'copy' : 'copies'}`}
+                        </p>
+                      </div>
+                      {row.errors.length > 0 ? (
+                        <span className="px-3 py-1 rounded-full text-xs font-medium border flex items-center gap-1 bg-red-500/10 text-red-400 border-red-500/30">
+                          <XCircle className="w-3 h-3" />
+                          ERROR
+                        </span>
+                      ) : (
+                        <span className="px-3 py-1 rounded-full text-xs font-medium border flex items-center gap-1 bg-green-500/10 text-green-400 border-green-500/30">
+                          <CheckCircle className="w-3 h-3" />
+                          {result.dryRun ? 'NEW' : 'CREATED'}
+                        </span>
+                      )}
+                    </div>
+                    {(row.errors.length > 0 || row.warnings.length > 0) && (
+                      <ul className="mt-2 text-xs list-disc list-inside">
+                        {row.errors.map((message, i) => (
+                          <li key={`e${i}`} className="text-red-400">{message}</li>
+                        ))}
+                        {row.warnings.map((message, i) => (
+                          <li key={`w${i}`} className="text-yellow-400">
+                            <AlertTriangle className="w-3 h-3 inline mr-1" />
+                            {message}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap gap-3 pt-2">
+                {result.errorCsv && (
+                  <button onClick={handleDownloadErrors} className="btn-secondary flex items-center justify-center gap-2">
+                    <Download className="w-4 h-4" />
+                    Download errors CSV
+                  </button>
+                )}
+                {result.dryRun ? (
+                  <>
+                    <button
+                      onClick={() => upload(false)}
+                      disabled={submitting || result.valid === 0}
+                      className="btn-primary flex-1 flex items-center justify-center gap-2 disabled:opacity-50"
+                    >
+                      {submitting ? <RefreshCw className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+                      {submitting ? 'Importing...' : `Import ${result.valid} ${result.valid === 1 ? 'book' : 'books'}`}
+                    </button>
+                    <button onClick={handleReset} className="btn-secondary flex-1">
+                      Choose another file
+                    </button>
+                  </>
+                ) : (
+                  <button onClick={onClose} className="btn-primary flex-1">
+                    Done
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
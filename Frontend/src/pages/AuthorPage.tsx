@@ -0,0 +1,193 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ArrowLeft, User, BookOpen, GitMerge, RefreshCw, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuthStore } from '@/store/authStore';
+import api from '../lib/api';
+
+interface Contribution {
+  id: number;
+  role: string;
+  book: {
+    id: number;
+    title: string;
+    author: string;
+    publishedYear: number | null;
+    coverImageUrl: string | null;
+  };
+}
+
+interface Author {
+  id: number;
+  name: string;
+  variants: string[];
+  notes: string | null;
+  contributions: Contribution[];
+}
+
+interface PossibleVariant {
+  id: number;
+  name: string;
+  variants: string[];
+  _count: { contributions: number };
+}
+
+export default function AuthorPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const [author, setAuthor] = useState<Author | null>(null);
+  const [possibleVariants, setPossibleVariants] = useState<PossibleVariant[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [merging, setMerging] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetchAuthor();
+  }, [id]);
+
+  const fetchAuthor = async () => {
+    setLoading(true);
+    try {
+      const response = await api.get(`/authors/${id}`);
+      setAuthor(response.data.author);
+      setPossibleVariants(response.data.possibleVariants);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to load author');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMerge = async (variant: PossibleVariant) => {
+    if (!author) return;
+    if (!window.confirm(`Merge "${variant.name}" into "${author.name}"? Its books move here and the other record is deleted.`)) {
+      return;
+    }
+
+    setMerging(variant.id);
+    try {
+      const response = await api.post(`/authors/${author.id}/merge`, { sourceIds: [variant.id] });
+      toast.success(response.data.message);
+      fetchAuthor();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to merge authors');
+    } finally {
+      setMerging(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen gradient-bg flex justify-center items-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-500"></div>
+      </div>
+    );
+  }
+
+  if (!author) {
+    return (
+      <div className="min-h-screen gradient-bg py-8">
+        <div className="max-w-5xl mx-auto px-4">
+          <div className="card text-center py-12">
+            <h3 className="text-xl font-semibold text-white">Author not found</h3>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen gradient-bg py-8">
+      <div className="max-w-5xl mx-auto px-4">
+        {/* Header */}
+        <div className="card mb-6">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => navigate(-1)}
+              className="p-2 hover:bg-purple-500/10 rounded-lg transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5 text-gray-400" />
+            </button>
+            <div>
+              <h1 className="text-2xl font-bold text-white flex items-center gap-2">
+                <User className="w-8 h-8 text-purple-400" />
+                {author.name}
+              </h1>
+              {author.variants.length > 0 && (
+                <p className="text-gray-400 text-sm mt-1">Also known as: {author.variants.join('; ')}</p>
+              )}
+            </div>
+          </div>
+          {author.notes && <p className="text-sm text-gray-300 mt-4 whitespace-pre-line">{author.notes}</p>}
+        </div>
+
+        {/* Works */}
+        <div className="card mb-6">
+          <h3 className="text-white font-semibold flex items-center gap-2 mb-3">
+            <BookOpen className="w-4 h-4 text-purple-400" />
+            Works ({author.contributions.length})
+          </h3>
+          {author.contributions.length === 0 ? (
+            <p className="text-sm text-gray-400">No books in the catalog credit this author.</p>
+          ) : (
+            <div className="space-y-2">
+              {author.contributions.map((contribution) => (
+                <button
+                  key={contribution.id}
+                  onClick={() => navigate(`/books/${contribution.book.id}`)}
+                  className="w-full text-left p-3 bg-gray-800/50 hover:bg-gray-800 rounded-lg transition-colors flex items-center justify-between gap-3"
+                >
+                  <div className="min-w-0">
+                    <p className="text-white text-sm truncate">{contribution.book.title}</p>
+                    <p className="text-xs text-gray-500">
+                      {contribution.book.author}
+                      {contribution.book.publishedYear && ` - ${contribution.book.publishedYear}`}
+                    </p>
+                  </div>
+                  <span className="px-3 py-1 rounded-full text-xs font-medium border bg-purple-500/10 text-purple-400 border-purple-500/30 capitalize">
+                    {contribution.role}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Records that may be the same person */}
+        {user?.accountType === 'LIBRARIAN' && possibleVariants.length > 0 && (
+          <div className="card">
+            <h3 className="text-white font-semibold flex items-center gap-2 mb-1">
+              <Users className="w-4 h-4 text-yellow-400" />
+              Possibly the same person
+            </h3>
+            <p className="text-sm text-gray-400 mb-3">
+              These records have a matching surname and compatible first names. Merging moves their books here and
+              keeps their names as variants.
+            </p>
+            <div className="space-y-2">
+              {possibleVariants.map((variant) => (
+                <div key={variant.id} className="p-3 bg-gray-800/50 rounded-lg flex items-center justify-between gap-3">
+                  <button onClick={() => navigate(`/authors/${variant.id}`)} className="text-left min-w-0">
+                    <p className="text-white text-sm truncate">{variant.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {variant._count.contributions} {variant._count.contributions === 1 ? 'book' : 'books'}
+                      {variant.variants.length > 0 && ` - also ${variant.variants.join('; ')}`}
+                    </p>
+                  </button>
+                  <button
+                    onClick={() => handleMerge(variant)}
+                    disabled={merging !== null}
+                    className="btn-secondary flex items-center gap-1 text-sm shrink-0 disabled:opacity-50"
+                  >
+                    {merging === variant.id ? <RefreshCw className="w-4 h-4 animate-spin" /> : <GitMerge className="w-4 h-4" />}
+                    Merge here
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
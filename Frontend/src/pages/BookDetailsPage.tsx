@@ -14,8 +14,25 @@ import {
   XCircle,
   Loader,
   Download,
+  Clock,
+  Library,
 } from 'lucide-react';
 
+interface BookCopy {
+  id: number;
+  barcode: string;
+  status: string;
+  loanType: 'standard' | 'short_loan' | 'reference';
+  homeBranch: { name: string } | null;
+  currentBranch: { name: string } | null;
+}
+
+interface LoanTerms {
+  standardDays: number;
+  shortLoanHours: number;
+  shortLoanFinePerHour: number;
+}
+
 interface Book {
   id: number;
   title: string;
@@ -30,6 +47,8 @@ interface Book {
   bookType: string;
   totalCopies: number;
   availableCopies: number;
+  bookCopies?: BookCopy[];
+  contributors?: { role: string; author: { id: number; name: string } }[];
 }
 
 export default function BookDetailsPage() {
@@ -37,6 +56,7 @@ export default function BookDetailsPage() {
   const navigate = useNavigate();
   const { user } = useAuthStore();
   const [book, setBook] = useState<Book | null>(null);
+  const [loanTerms, setLoanTerms] = useState<LoanTerms | null>(null);
   const [loading, setLoading] = useState(true);
   const [borrowing, setBorrowing] = useState(false);
   const [userLoans, setUserLoans] = useState<any[]>([]);
@@ -52,7 +72,8 @@ export default function BookDetailsPage() {
     try {
       setLoading(true);
       const response = await api.get(`/books/${id}`);
-      setBook(response.data.data);
+      setBook(response.data.book);
+      setLoanTerms(response.data.loanTerms);
     } catch (error) {
       console.error('Failed to fetch book:', error);
     } finally {
@@ -172,8 +193,23 @@ export default function BookDetailsPage() {
   }
 
   const alreadyLoaned = isBookLoanedByUser();
+  const copies = book.bookCopies || [];
+  const lendableAvailable = copies.filter((c) => c.status === 'available' && c.loanType !== 'reference');
+  const onlyShortLoans =
+    lendableAvailable.length > 0 && lendableAvailable.every((c) => c.loanType === 'short_loan');
   const canBorrow =
-    user?.accountType === 'MEMBER' && book.availableCopies > 0 && !alreadyLoaned;
+    user?.accountType === 'MEMBER' && lendableAvailable.length > 0 && !alreadyLoaned;
+
+  const getLoanTypeLabel = (copy: BookCopy) => {
+    switch (copy.loanType) {
+      case 'short_loan':
+        return `Short loan - ${loanTerms?.shortLoanHours ?? 4} hours or until closing`;
+      case 'reference':
+        return 'Reference - library use only';
+      default:
+        return `Standard loan - ${loanTerms?.standardDays ?? 14} days`;
+    }
+  };
 
   return (
     <div className="min-h-screen gradient-bg">
@@ -292,6 +328,8 @@ export default function BookDetailsPage() {
                           <Loader className="w-4 h-4 animate-spin" />
                           Borrowing...
                         </span>
+                      ) : onlyShortLoans ? (
+                        `Borrow Short Loan (${loanTerms?.shortLoanHours ?? 4}h)`
                       ) : (
                         'Borrow Book'
                       )}
@@ -304,7 +342,22 @@ export default function BookDetailsPage() {
             {/* Book Details */}
             <div className="md:col-span-2">
               <h1 className="text-3xl font-bold text-white mb-2">{book.title}</h1>
-              <p className="text-xl text-gray-400 mb-6">{book.author}</p>
+              <p className="text-xl text-gray-400 mb-6">
+                {book.contributors && book.contributors.length > 0
+                  ? book.contributors.map((c, i) => (
+                      <span key={`${c.author.id}-${c.role}`}>
+                        {i > 0 && '; '}
+                        <button
+                          onClick={() => navigate(`/authors/${c.author.id}`)}
+                          className="hover:text-purple-400 transition-colors"
+                        >
+                          {c.author.name}
+                        </button>
+                        {c.role !== 'author' && <span className="text-sm text-gray-500"> ({c.role})</span>}
+                      </span>
+                    ))
+                  : book.author}
+              </p>
 
               {/* Metadata */}
               <div className="space-y-4 mb-8">
@@ -345,6 +398,53 @@ export default function BookDetailsPage() {
                 )}
               </div>
 
+              {/* Copies */}
+              {book.bookType === 'physical' && copies.length > 0 && (
+                <div className="mb-8">
+                  <h2 className="text-lg font-semibold text-white mb-3">Copies</h2>
+                  <div className="space-y-2">
+                    {copies.map((copy) => {
+                      const borrowable = copy.status === 'available' && copy.loanType !== 'reference';
+                      return (
+                        <div
+                          key={copy.id}
+                          className="flex items-center justify-between p-3 bg-gray-800/50 border border-gray-700 rounded-lg"
+                        >
+                          <div className="flex items-center space-x-3">
+                            {copy.loanType === 'reference' ? (
+                              <Library className="w-4 h-4 text-blue-400" />
+                            ) : copy.loanType === 'short_loan' ? (
+                              <Clock className="w-4 h-4 text-yellow-400" />
+                            ) : (
+                              <BookOpen className="w-4 h-4 text-purple-400" />
+                            )}
+                            <div>
+                              <p className="text-sm text-gray-300">{getLoanTypeLabel(copy)}</p>
+                              <p className="text-xs text-gray-500 font-mono">{copy.barcode}</p>
+                              {(copy.currentBranch || copy.homeBranch) && (
+                                <p className="text-xs text-gray-500">
+                                  {(copy.currentBranch || copy.homeBranch)!.name}
+                                </p>
+                              )}
+                            </div>
+                          </div>
+                          <span className={`text-xs ${borrowable ? 'text-green-400' : 'text-gray-500'}`}>
+                            {copy.loanType === 'reference'
+                              ? copy.status === 'available' ? 'On shelf' : copy.status
+                              : borrowable ? 'Can borrow' : copy.status.replace('_', ' ')}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {copies.some((c) => c.loanType === 'short_loan') && loanTerms && (
+                    <p className="text-xs text-gray-500 mt-2">
+                      Short loans are fined ${loanTerms.shortLoanFinePerHour.toFixed(2)} per hour late.
+                    </p>
+                  )}
+                </div>
+              )}
+
               {/* Description */}
               {book.description && (
                 <div>
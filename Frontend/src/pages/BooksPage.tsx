@@ -3,7 +3,10 @@ import { useNavigate } from 'react-router-dom';
 import { useAuthStore } from '@/store/authStore';
 import { api } from '@/lib/api';
 import toast from 'react-hot-toast';
-import { BookOpen, Search, Filter, CheckCircle, XCircle, ArrowLeft, Download, Library, Plus, Edit, Trash2, X } from 'lucide-react';
+import { BookOpen, Search, Filter, CheckCircle, XCircle, ArrowLeft, Download, Library, Plus, Edit, Trash2, X, GraduationCap, Upload, FileDown, FileSpreadsheet, Sparkles, RefreshCw } from 'lucide-react';
+import CatalogImport from '@/components/CatalogImport';
+import CsvImport from '@/components/CsvImport';
+import ContributorsEditor, { ContributorRow, buildContributors } from '@/components/ContributorsEditor';
 
 interface Book {
   id: number;
@@ -20,6 +23,25 @@ interface Book {
   downloadCount?: number;
   totalCopies: number;
   availableCopies: number;
+  enrichedFields?: string[];
+  metadataSource?: string | null;
+  contributors?: { role: string; author: { id: number; name: string } }[];
+}
+
+// Form fields an ISBN lookup can prefill
+const ENRICHABLE_FIELDS = ['title', 'author', 'publisher', 'publishedYear', 'description', 'coverImageUrl', 'category'] as const;
+type EnrichableField = typeof ENRICHABLE_FIELDS[number];
+
+interface Course {
+  id: number;
+  code: string;
+  title: string;
+  instructor: string;
+  termStart: string;
+  termEnd: string;
+  loanType: 'short_loan' | 'reference';
+  phase: 'upcoming' | 'current' | 'ended';
+  reserves?: { id: number; status: string; book: Book; bookCopyId: number | null }[];
 }
 
 // Debounce hook
@@ -49,9 +71,19 @@ export default function BooksPage() {
   const [selectedCategory, setSelectedCategory] = useState<string>('');
   const [bookType, setBookType] = useState<string>('all'); // 'all', 'physical', 'online'
   const [showFilters, setShowFilters] = useState(false);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
   const [showAddModal, setShowAddModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showCsvImportModal, setShowCsvImportModal] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [lookingUp, setLookingUp] = useState(false);
+  const [enriching, setEnriching] = useState(false);
+  // Values the last ISBN lookup put into the add form, and where they came from
+  const [prefilled, setPrefilled] = useState<{ provider: string; values: Partial<Record<EnrichableField, string>> } | null>(null);
   const [selectedBook, setSelectedBook] = useState<Book | null>(null);
+  const [otherContributors, setOtherContributors] = useState<ContributorRow[]>([]);
   const [formData, setFormData] = useState({
     title: '',
     author: '',
@@ -73,6 +105,12 @@ export default function BooksPage() {
     fetchCategories();
   }, [debouncedSearchTerm, selectedCategory, bookType]);
 
+  useEffect(() => {
+    if (user) {
+      fetchCourses();
+    }
+  }, [user]);
+
   const fetchBooks = async () => {
     try {
       setLoading(true);
@@ -90,6 +128,32 @@ export default function BooksPage() {
     }
   };
 
+  const handleExportMarc = async () => {
+    setExporting(true);
+    try {
+      const params = new URLSearchParams();
+      if (debouncedSearchTerm) params.append('search', debouncedSearchTerm);
+      if (selectedCategory) params.append('category', selectedCategory);
+      if (bookType !== 'all') params.append('bookType', bookType);
+
+      const response = await api.get(`/catalog/export/marcxml?${params.toString()}`, {
+        responseType: 'blob',
+      });
+
+      const url = window.URL.createObjectURL(new Blob([response.data]));
+      const link = document.createElement('a');
+      link.href = url;
+      link.setAttribute('download', `catalog-${new Date().toISOString().split('T')[0]}.xml`);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+    } catch (error) {
+      toast.error('Failed to export catalog');
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const fetchCategories = async () => {
     try {
       const response = await api.get('/books/categories');
@@ -99,22 +163,120 @@ export default function BooksPage() {
     }
   };
 
+  const fetchCourses = async () => {
+    try {
+      const response = await api.get('/courses');
+      setCourses(response.data.courses);
+    } catch (error) {
+      console.error('Failed to fetch courses:', error);
+    }
+  };
+
+  const selectCourse = async (courseId: number | null) => {
+    if (courseId === null) {
+      setSelectedCourse(null);
+      return;
+    }
+
+    try {
+      const response = await api.get(`/courses/${courseId}`);
+      setSelectedCourse(response.data.course);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to load course reserves');
+    }
+  };
+
+  // A course's reserve list replaces the catalogue; the search box still narrows it down
+  const visibleBooks = selectedCourse
+    ? (selectedCourse.reserves || [])
+        .filter((r) => r.status !== 'released')
+        .map((r) => r.book)
+        .filter((book, index, list) => list.findIndex((b) => b.id === book.id) === index)
+        .filter((book) => {
+          const term = debouncedSearchTerm.toLowerCase();
+          return !term || book.title.toLowerCase().includes(term) || book.author.toLowerCase().includes(term);
+        })
+    : books;
+
   const getAvailabilityColor = (available: number, total: number) => {
     if (available === 0) return 'text-red-400';
     if (available / total < 0.3) return 'text-yellow-400';
     return 'text-green-400';
   };
 
+  const handleLookupIsbn = async () => {
+    if (!formData.isbn.trim()) {
+      toast.error('Enter an ISBN first');
+      return;
+    }
+
+    setLookingUp(true);
+    try {
+      const response = await api.get(`/books/metadata/${encodeURIComponent(formData.isbn.trim())}`);
+      const { isbn, provider, metadata } = response.data;
+
+      // Only fill what the librarian has not typed yet
+      const values: Partial<Record<EnrichableField, string>> = {};
+      for (const field of ENRICHABLE_FIELDS) {
+        if (metadata[field] !== undefined && !formData[field]) {
+          values[field] = String(metadata[field]);
+        }
+      }
+
+      setFormData({ ...formData, ...values, isbn });
+      setPrefilled({ provider, values });
+      toast.success(Object.keys(values).length > 0
+        ? `Filled ${Object.keys(values).length} fields from ${provider}`
+        : 'Nothing to fill: every field already has a value');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'ISBN lookup failed');
+    } finally {
+      setLookingUp(false);
+    }
+  };
+
+  // A prefilled field stays marked only while it still holds the looked-up value
+  const isPrefilled = (field: EnrichableField) =>
+    prefilled?.values[field] !== undefined && prefilled.values[field] === formData[field];
+
+  const prefilledMark = (field: EnrichableField) => isPrefilled(field) && (
+    <span className="ml-2 inline-flex items-center gap-1 text-xs text-purple-400" title={`Filled from ${prefilled?.provider}`}>
+      <Sparkles className="w-3 h-3" />
+      auto-filled
+    </span>
+  );
+
+  const handleEnrichBook = async () => {
+    if (!selectedBook) return;
+    setEnriching(true);
+    try {
+      const response = await api.post(`/books/${selectedBook.id}/enrich`);
+      toast.success(response.data.message);
+      setShowEditModal(false);
+      setSelectedBook(null);
+      fetchBooks();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to enrich book');
+    } finally {
+      setEnriching(false);
+    }
+  };
+
   const handleAddBook = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
+      const enrichedFields = ENRICHABLE_FIELDS.filter(isPrefilled);
       await api.post('/books', {
         ...formData,
         publishedYear: formData.publishedYear ? parseInt(formData.publishedYear) : null,
         totalCopies: parseInt(formData.totalCopies),
+        contributors: buildContributors(formData.author, otherContributors),
+        ...(enrichedFields.length > 0 && { enrichedFields, metadataSource: prefilled?.provider }),
       });
       toast.success('Book added successfully!');
       setShowAddModal(false);
+      setPrefilled(null);
+      setOtherContributors([]);
       setFormData({
         title: '',
         author: '',
@@ -139,13 +301,14 @@ export default function BooksPage() {
     try {
       await api.put(`/books/${selectedBook.id}`, {
         title: formData.title,
-        author: formData.author,
+        author: formData.author || undefined,
         isbn: formData.isbn,
         category: formData.category,
         publisher: formData.publisher,
         publishedYear: formData.publishedYear ? parseInt(formData.publishedYear) : null,
         description: formData.description,
         coverImageUrl: formData.coverImageUrl,
+        contributors: buildContributors(formData.author, otherContributors),
       });
       toast.success('Book updated successfully!');
       setShowEditModal(false);
@@ -198,10 +361,16 @@ export default function BooksPage() {
   };
 
   const openEditModal = (book: Book) => {
+    // The author line is rebuilt from the contributors, so edit the people rather than the line
+    const contributors = book.contributors ?? [];
+    const authors = contributors.filter((c) => c.role === 'author');
     setSelectedBook(book);
+    setOtherContributors(contributors
+      .filter((c) => c.role !== 'author')
+      .map((c) => ({ name: c.author.name, role: c.role })));
     setFormData({
       title: book.title,
-      author: book.author,
+      author: contributors.length > 0 ? authors.map((c) => c.author.name).join('; ') : book.author,
       isbn: book.isbn,
       category: book.category,
       publisher: book.publisher || '',
@@ -232,18 +401,47 @@ export default function BooksPage() {
               </div>
               <div>
                 <h1 className="text-2xl font-bold text-gradient">Library Books</h1>
-                <p className="text-sm text-gray-400">{books.length} books available</p>
+                <p className="text-sm text-gray-400">{visibleBooks.length} books available</p>
               </div>
             </div>
 
             {user?.accountType === 'LIBRARIAN' && (
-              <button
-                onClick={() => setShowAddModal(true)}
-                className="btn-primary flex items-center space-x-2"
-              >
-                <Plus className="w-4 h-4" />
-                <span>Add Book</span>
-              </button>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={handleExportMarc}
+                  disabled={exporting}
+                  className="btn-secondary flex items-center space-x-2 disabled:opacity-50"
+                  title="Download the books matching the current search as MARCXML"
+                >
+                  <FileDown className="w-4 h-4" />
+                  <span>Export MARC</span>
+                </button>
+                <button
+                  onClick={() => setShowImportModal(true)}
+                  className="btn-secondary flex items-center space-x-2"
+                >
+                  <Upload className="w-4 h-4" />
+                  <span>Import MARC</span>
+                </button>
+                <button
+                  onClick={() => setShowCsvImportModal(true)}
+                  className="btn-secondary flex items-center space-x-2"
+                  title="Add many books at once from a CSV or TSV spreadsheet"
+                >
+                  <FileSpreadsheet className="w-4 h-4" />
+                  <span>Import CSV</span>
+                </button>
+                <button
+                  onClick={() => {
+                    setOtherContributors([]);
+                    setShowAddModal(true);
+                  }}
+                  className="btn-primary flex items-center space-x-2"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>Add Book</span>
+                </button>
+              </div>
             )}
           </div>
 
@@ -284,8 +482,10 @@ export default function BooksPage() {
             >
               <Filter className="w-4 h-4" />
               <span>Filters</span>
-              {selectedCategory && (
-                <span className="bg-purple-500 text-white text-xs px-2 py-0.5 rounded-full">1</span>
+              {(selectedCategory || selectedCourse) && (
+                <span className="bg-purple-500 text-white text-xs px-2 py-0.5 rounded-full">
+                  {[selectedCategory, selectedCourse].filter(Boolean).length}
+                </span>
               )}
             </button>
           </div>
@@ -331,6 +531,40 @@ export default function BooksPage() {
                   </div>
                 </div>
 
+                {/* Course Reserves */}
+                {courses.length > 0 && (
+                  <div>
+                    <label className="label mb-2">Course Reserves</label>
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        onClick={() => selectCourse(null)}
+                        className={`px-4 py-2 rounded-lg text-sm transition-colors ${
+                          !selectedCourse
+                            ? 'bg-purple-600 text-white'
+                            : 'bg-gray-800/50 text-gray-400 hover:bg-gray-700/50'
+                        }`}
+                      >
+                        Whole Catalogue
+                      </button>
+                      {courses.map((course) => (
+                        <button
+                          key={course.id}
+                          onClick={() => selectCourse(course.id)}
+                          title={course.title}
+                          className={`px-4 py-2 rounded-lg text-sm transition-colors flex items-center gap-1 ${
+                            selectedCourse?.id === course.id
+                              ? 'bg-purple-600 text-white'
+                              : 'bg-gray-800/50 text-gray-400 hover:bg-gray-700/50'
+                          }`}
+                        >
+                          <GraduationCap className="w-4 h-4" />
+                          {course.code}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Category Filter */}
                 <div>
                   <label className="label mb-2">Category</label>
@@ -368,11 +602,42 @@ export default function BooksPage() {
 
       {/* Books Grid */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {selectedCourse && (
+          <div className="card-glass p-4 mb-6 flex items-start justify-between gap-4">
+            <div className="flex items-start gap-3">
+              <GraduationCap className="w-6 h-6 text-purple-400 flex-shrink-0" />
+              <div>
+                <p className="text-white font-semibold">
+                  {selectedCourse.code} - {selectedCourse.title}
+                </p>
+                <p className="text-sm text-gray-400">
+                  {selectedCourse.instructor} &middot;{' '}
+                  {new Date(selectedCourse.termStart).toLocaleDateString(undefined, { timeZone: 'UTC' })} to{' '}
+                  {new Date(selectedCourse.termEnd).toLocaleDateString(undefined, { timeZone: 'UTC' })}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {selectedCourse.loanType === 'reference'
+                    ? 'Reserved copies are for use in the library only during the term.'
+                    : 'Reserved copies go out as short loans during the term.'}
+                  {selectedCourse.phase === 'upcoming' && ' Reserve rules start when the term begins.'}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={() => selectCourse(null)}
+              className="text-gray-400 hover:text-white"
+              aria-label="Clear course"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        )}
+
         {loading ? (
           <div className="flex items-center justify-center py-12">
             <div className="w-12 h-12 border-4 border-purple-500/20 border-t-purple-500 rounded-full animate-spin"></div>
           </div>
-        ) : books.length === 0 ? (
+        ) : visibleBooks.length === 0 ? (
           <div className="text-center py-12">
             <BookOpen className="w-16 h-16 text-gray-600 mx-auto mb-4" />
             <p className="text-gray-400 text-lg">No books found</p>
@@ -380,7 +645,7 @@ export default function BooksPage() {
           </div>
         ) : (
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {books.map((book) => (
+            {visibleBooks.map((book) => (
               <div
                 key={book.id}
                 className="card-glass p-4 hover:scale-105 transition-transform group relative"
@@ -490,6 +755,28 @@ export default function BooksPage() {
         )}
       </main>
 
+      {/* Catalog Import Modal */}
+      {showImportModal && (
+        <CatalogImport
+          onClose={() => setShowImportModal(false)}
+          onImported={() => {
+            fetchBooks();
+            fetchCategories();
+          }}
+        />
+      )}
+
+      {/* CSV Import Modal */}
+      {showCsvImportModal && (
+        <CsvImport
+          onClose={() => setShowCsvImportModal(false)}
+          onImported={() => {
+            fetchBooks();
+            fetchCategories();
+          }}
+        />
+      )}
+
       {/* Add Book Modal */}
       {showAddModal && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
@@ -506,7 +793,7 @@ export default function BooksPage() {
             <form onSubmit={handleAddBook} className="p-6 space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
-                  <label className="label">Title *</label>
+                  <label className="label">Title *{prefilledMark('title')}</label>
                   <input
                     type="text"
                     required
@@ -516,10 +803,11 @@ export default function BooksPage() {
                   />
                 </div>
                 <div>
-                  <label className="label">Author *</label>
+                  <label className="label">Author *{prefilledMark('author')}</label>
                   <input
                     type="text"
                     required
+                    placeholder="Separate several authors with ;"
                     value={formData.author}
                     onChange={(e) => setFormData({ ...formData, author: e.target.value })}
                     className="input"
@@ -527,16 +815,29 @@ export default function BooksPage() {
                 </div>
                 <div>
                   <label className="label">ISBN *</label>
-                  <input
-                    type="text"
-                    required
-                    value={formData.isbn}
-                    onChange={(e) => setFormData({ ...formData, isbn: e.target.value })}
-                    className="input"
-                  />
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      required
+                      value={formData.isbn}
+                      onChange={(e) => setFormData({ ...formData, isbn: e.target.value })}
+                      className="input flex-1"
+                      placeholder="ISBN-10 or ISBN-13"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleLookupIsbn}
+                      disabled={lookingUp}
+                      className="btn-secondary flex items-center gap-1 disabled:opacity-50"
+                      title="Fill in the empty fields from the book's ISBN"
+                    >
+                      {lookingUp ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                      Look up
+                    </button>
+                  </div>
                 </div>
                 <div>
-                  <label className="label">Category *</label>
+                  <label className="label">Category *{prefilledMark('category')}</label>
                   <input
                     type="text"
                     required
@@ -552,7 +853,7 @@ export default function BooksPage() {
                   </datalist>
                 </div>
                 <div>
-                  <label className="label">Publisher</label>
+                  <label className="label">Publisher{prefilledMark('publisher')}</label>
                   <input
                     type="text"
                     value={formData.publisher}
@@ -561,7 +862,7 @@ export default function BooksPage() {
                   />
                 </div>
                 <div>
-                  <label className="label">Published Year</label>
+                  <label className="label">Published Year{prefilledMark('publishedYear')}</label>
                   <input
                     type="number"
                     value={formData.publishedYear}
@@ -595,8 +896,9 @@ export default function BooksPage() {
                   </div>
                 )}
               </div>
+              <ContributorsEditor value={otherContributors} onChange={setOtherContributors} />
               <div>
-                <label className="label">Cover Image URL</label>
+                <label className="label">Cover Image URL{prefilledMark('coverImageUrl')}</label>
                 <input
                   type="url"
                   value={formData.coverImageUrl}
@@ -605,7 +907,7 @@ export default function BooksPage() {
                 />
               </div>
               <div>
-                <label className="label">Description</label>
+                <label className="label">Description{prefilledMark('description')}</label>
                 <textarea
                   value={formData.description}
                   onChange={(e) => setFormData({ ...formData, description: e.target.value })}
@@ -647,6 +949,23 @@ export default function BooksPage() {
               </button>
             </div>
             <form onSubmit={handleEditBook} className="p-6 space-y-4">
+              <div className="flex items-center justify-between gap-3 p-3 bg-gray-800/50 rounded-lg">
+                <p className="text-sm text-gray-400">
+                  {selectedBook.enrichedFields && selectedBook.enrichedFields.length > 0
+                    ? `Auto-filled from ${selectedBook.metadataSource}: ${selectedBook.enrichedFields.join(', ')}`
+                    : 'All details were entered by hand'}
+                </p>
+                <button
+                  type="button"
+                  onClick={handleEnrichBook}
+                  disabled={enriching}
+                  className="btn-secondary flex items-center gap-1 text-sm shrink-0 disabled:opacity-50"
+                  title="Fill in missing details from the book's ISBN; hand-entered values are kept"
+                >
+                  {enriching ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                  Enrich
+                </button>
+              </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <label className="label">Title *</label>
@@ -659,10 +978,11 @@ export default function BooksPage() {
                   />
                 </div>
                 <div>
-                  <label className="label">Author *</label>
+                  <label className="label">Author{otherContributors.length === 0 && ' *'}</label>
                   <input
                     type="text"
-                    required
+                    required={otherContributors.length === 0}
+                    placeholder="Separate several authors with ;"
                     value={formData.author}
                     onChange={(e) => setFormData({ ...formData, author: e.target.value })}
                     className="input"
@@ -713,6 +1033,7 @@ export default function BooksPage() {
                   />
                 </div>
               </div>
+              <ContributorsEditor value={otherContributors} onChange={setOtherContributors} />
               <div>
                 <label className="label">Cover Image URL</label>
                 <input
@@ -0,0 +1,158 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Copy, CheckCircle, AlertTriangle, RefreshCw, BookOpen } from 'lucide-react';
+import toast from 'react-hot-toast';
+import api from '../lib/api';
+
+interface DuplicateBook {
+  id: number;
+  title: string;
+  author: string;
+  isbn: string;
+  canonicalIsbn: string | null;
+  publishedYear: number | null;
+  publisher: string | null;
+  bookType: string;
+  totalCopies: number;
+  createdAt: string;
+}
+
+interface DuplicateGroup {
+  reason: 'same_isbn' | 'same_title_author';
+  key: string;
+  books: DuplicateBook[];
+}
+
+const REASON_LABELS: Record<DuplicateGroup['reason'], string> = {
+  same_isbn: 'Same ISBN in different forms',
+  same_title_author: 'Same title and author',
+};
+
+export default function CatalogDuplicatesPage() {
+  const navigate = useNavigate();
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [invalidIsbns, setInvalidIsbns] = useState<DuplicateBook[]>([]);
+  const [scanned, setScanned] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchDuplicates();
+  }, []);
+
+  const fetchDuplicates = async () => {
+    setLoading(true);
+    try {
+      const response = await api.get('/catalog/duplicates');
+      setGroups(response.data.groups);
+      setInvalidIsbns(response.data.invalidIsbns);
+      setScanned(response.data.scanned);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to load duplicate report');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderBook = (book: DuplicateBook) => (
+    <button
+      key={book.id}
+      onClick={() => navigate(`/books/${book.id}`)}
+      className="w-full text-left p-3 bg-gray-800/50 hover:bg-gray-800 rounded-lg transition-colors flex items-center justify-between gap-3"
+    >
+      <div className="min-w-0">
+        <p className="text-white text-sm truncate">
+          #{book.id} {book.title}
+        </p>
+        <p className="text-xs text-gray-500">
+          {book.author}
+          {book.publishedYear && ` - ${book.publishedYear}`}
+          {book.publisher && ` - ${book.publisher}`}
+        </p>
+      </div>
+      <div className="text-right shrink-0">
+        <p className="text-xs font-mono text-gray-300">{book.isbn}</p>
+        <p className="text-xs text-gray-500">
+          {book.bookType === 'online' ? 'Online' : `${book.totalCopies} ${book.totalCopies === 1 ? 'copy' : 'copies'}`}
+        </p>
+      </div>
+    </button>
+  );
+
+  return (
+    <div className="min-h-screen gradient-bg py-8">
+      <div className="max-w-5xl mx-auto px-4">
+        {/* Header */}
+        <div className="card mb-6">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => navigate('/dashboard')}
+                className="p-2 hover:bg-purple-500/10 rounded-lg transition-colors"
+              >
+                <ArrowLeft className="w-5 h-5 text-gray-400" />
+              </button>
+              <div>
+                <h1 className="text-2xl font-bold text-white flex items-center gap-2">
+                  <Copy className="w-8 h-8 text-blue-400" />
+                  Duplicate Records
+                </h1>
+                <p className="text-gray-400 text-sm mt-1">
+                  {scanned} books checked for records that describe the same title
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={fetchDuplicates}
+              disabled={loading}
+              className="btn-secondary flex items-center gap-2 disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center items-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-500"></div>
+          </div>
+        ) : groups.length === 0 && invalidIsbns.length === 0 ? (
+          <div className="card text-center py-12">
+            <CheckCircle className="w-16 h-16 text-green-400 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-white">No duplicates found</h3>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {groups.map((group) => (
+              <div key={`${group.reason}:${group.key}`} className="card">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-white font-semibold flex items-center gap-2">
+                    <BookOpen className="w-4 h-4 text-purple-400" />
+                    {group.books[0].title}
+                  </h3>
+                  <span className="px-3 py-1 rounded-full text-xs font-medium border bg-yellow-500/10 text-yellow-400 border-yellow-500/30">
+                    {REASON_LABELS[group.reason]}
+                  </span>
+                </div>
+                <div className="space-y-2">{group.books.map(renderBook)}</div>
+              </div>
+            ))}
+
+            {invalidIsbns.length > 0 && (
+              <div className="card">
+                <h3 className="text-white font-semibold flex items-center gap-2 mb-1">
+                  <AlertTriangle className="w-4 h-4 text-red-400" />
+                  Invalid ISBNs
+                </h3>
+                <p className="text-sm text-gray-400 mb-3">
+                  These ISBNs fail their check digit or are not ISBNs at all, so lookups by ISBN cannot match them.
+                </p>
+                <div className="space-y-2">{invalidIsbns.map(renderBook)}</div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { useState, useEffect } from 'react';
 import { api } from '@/lib/api';
 import toast from 'react-hot-toast';
-import { BookOpen, Users, FileText, LogOut, Home, TrendingUp, Clock, CheckCircle, AlertCircle, DollarSign, Download, Settings, User } from 'lucide-react';
+import { BookOpen, Users, FileText, LogOut, Home, TrendingUp, Clock, CheckCircle, AlertCircle, DollarSign, Download, Settings, User, Copy } from 'lucide-react';
 import NotificationBell from '../components/NotificationBell';
 
 interface DashboardStats {
@@ -23,6 +23,14 @@ interface MemberStats {
   maxBorrowedBooks: number;
 }
 
+interface DayHours {
+  date: string;
+  isOpen: boolean;
+  opensAt: string | null;
+  closesAt: string | null;
+  event: { id: number; name: string; type: string } | null;
+}
+
 export default function Dashboard() {
   const navigate = useNavigate();
   const { user, clearAuth } = useAuthStore();
@@ -34,13 +42,24 @@ export default function Dashboard() {
   });
   const [memberStats, setMemberStats] = useState<MemberStats | null>(null);
   const [loading, setLoading] = useState(true);
+  const [todayHours, setTodayHours] = useState<DayHours | null>(null);
 
   useEffect(() => {
     if (user) {
       fetchStats();
+      fetchLibraryHours();
     }
   }, [user]);
 
+  const fetchLibraryHours = async () => {
+    try {
+      const response = await api.get('/library/hours?days=1');
+      setTodayHours(response.data.today);
+    } catch (error) {
+      console.error('Failed to fetch library hours:', error);
+    }
+  };
+
   const fetchStats = async () => {
     try {
       setLoading(true);
@@ -121,11 +140,13 @@ export default function Dashboard() {
         { icon: Users, label: 'Manage Members', description: 'View and manage all members', path: '/members', available: true },
         { icon: FileText, label: 'View Loans', description: 'Track all book loans', path: '/loans', available: true },
         { icon: TrendingUp, label: 'View Reports', description: 'Analytics and insights', path: '/reports', available: true },
+        { icon: DollarSign, label: 'Fine Appeals', description: 'Review members\' fine appeals', path: '/fine-appeals', available: true },
       ]
     : user.accountType === 'LIBRARIAN'
     ? [
         { icon: BookOpen, label: 'Manage Books', description: 'Add, edit, or remove books', path: '/books', available: true },
         { icon: Download, label: 'Online Books', description: 'Manage downloadable PDF books', path: '/online-books', available: true },
+        { icon: Copy, label: 'Duplicate Records', description: 'Find book records to merge', path: '/catalog/duplicates', available: true },
       ]
     : [
         { icon: BookOpen, label: 'Browse Books', description: 'Explore available books', path: '/books', available: true },
@@ -189,6 +210,24 @@ export default function Dashboard() {
               </h2>
               <p className="text-gray-400">Login ID: <span className="text-purple-400 font-mono">{user.loginId}</span></p>
               <p className="text-sm text-gray-500">Email: {user.email}</p>
+              {todayHours && (
+                <p className="text-sm mt-2 flex items-center gap-2">
+                  <Clock className={`w-4 h-4 ${todayHours.isOpen ? 'text-green-400' : 'text-red-400'}`} />
+                  {todayHours.isOpen ? (
+                    <span className="text-gray-300">
+                      Library open today
+                      {todayHours.opensAt && todayHours.closesAt && (
+                        <span className="text-white font-medium"> {todayHours.opensAt} – {todayHours.closesAt}</span>
+                      )}
+                      {todayHours.event && <span className="text-gray-500"> ({todayHours.event.name})</span>}
+                    </span>
+                  ) : (
+                    <span className="text-red-400">
+                      Library closed today{todayHours.event && ` (${todayHours.event.name})`}
+                    </span>
+                  )}
+                </p>
+              )}
             </div>
             <div className="hidden md:block">
               <div className="w-20 h-20 bg-gradient-to-br from-purple-600 to-purple-800 rounded-2xl flex items-center justify-center shadow-lg shadow-purple-500/50">
@@ -0,0 +1,250 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Scale, Paperclip, CheckCircle, XCircle, FileText } from 'lucide-react';
+import toast from 'react-hot-toast';
+import api from '../lib/api';
+
+interface Appeal {
+  id: number;
+  reason: string;
+  attachmentUrl: string | null;
+  attachmentName: string | null;
+  status: 'pending' | 'approved' | 'denied';
+  waivedAmount: string | null;
+  reviewNotes: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  fine: {
+    id: number;
+    amount: string;
+    paidAmount: string | null;
+    reason: string;
+    status: string;
+    loan: {
+      bookCopy: { book: { title: string } };
+    } | null;
+  };
+  member: {
+    user: { username: string; loginId: string };
+  };
+}
+
+export default function FineAppealsPage() {
+  const navigate = useNavigate();
+  const [appeals, setAppeals] = useState<Appeal[]>([]);
+  const [statusFilter, setStatusFilter] = useState<'pending' | 'approved' | 'denied'>('pending');
+  const [loading, setLoading] = useState(true);
+  const [waiveAmount, setWaiveAmount] = useState<{ [key: number]: string }>({});
+  const [notes, setNotes] = useState<{ [key: number]: string }>({});
+  const [reviewing, setReviewing] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetchAppeals();
+  }, [statusFilter]);
+
+  const fetchAppeals = async () => {
+    setLoading(true);
+    try {
+      const response = await api.get(`/fine-appeals?status=${statusFilter}`);
+      setAppeals(response.data.appeals);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to load appeals');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Evidence is private, so it is fetched with the staff member's login rather than linked directly
+  const handleOpenAttachment = async (appeal: Appeal) => {
+    try {
+      const response = await api.get(`/fine-appeals/${appeal.id}/attachment`, {
+        responseType: 'blob',
+      });
+
+      const url = window.URL.createObjectURL(response.data);
+      window.open(url, '_blank', 'noopener,noreferrer');
+      setTimeout(() => window.URL.revokeObjectURL(url), 60000);
+    } catch (error: any) {
+      toast.error('Failed to open attachment');
+    }
+  };
+
+  const handleReview = async (appeal: Appeal, decision: 'approve' | 'deny') => {
+    const partial = waiveAmount[appeal.id];
+    if (decision === 'approve' && partial && !(parseFloat(partial) > 0)) {
+      toast.error('Enter a waiver amount greater than zero, or leave it blank to waive the whole fine');
+      return;
+    }
+
+    setReviewing(appeal.id);
+    try {
+      const response = await api.post(`/fine-appeals/${appeal.id}/review`, {
+        decision,
+        ...(decision === 'approve' && partial && { waiveAmount: parseFloat(partial) }),
+        ...(notes[appeal.id] && { notes: notes[appeal.id] }),
+      });
+      toast.success(response.data.message);
+      fetchAppeals();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to review appeal');
+    } finally {
+      setReviewing(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  return (
+    <div className="min-h-screen gradient-bg py-8">
+      <div className="max-w-5xl mx-auto px-4">
+        {/* Header */}
+        <div className="card mb-6">
+          <div className="flex items-center gap-4 mb-4">
+            <button
+              onClick={() => navigate('/dashboard')}
+              className="p-2 hover:bg-purple-500/10 rounded-lg transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5 text-gray-400" />
+            </button>
+            <div>
+              <h1 className="text-2xl font-bold text-white flex items-center gap-2">
+                <Scale className="w-8 h-8 text-blue-400" />
+                Fine Appeals
+              </h1>
+              <p className="text-gray-400 text-sm mt-1">
+                Pending appeals keep their fines out of automatic hold escalation
+              </p>
+            </div>
+          </div>
+
+          <div className="flex gap-2 border-t border-purple-500/20 pt-4">
+            {(['pending', 'approved', 'denied'] as const).map((status) => (
+              <button
+                key={status}
+                onClick={() => setStatusFilter(status)}
+                className={`px-4 py-2 rounded-lg transition-colors capitalize ${
+                  statusFilter === status
+                    ? 'bg-purple-500/20 text-purple-400 border border-purple-500/30'
+                    : 'bg-gray-800/50 text-gray-400 hover:bg-gray-800'
+                }`}
+              >
+                {status}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center items-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-500"></div>
+          </div>
+        ) : appeals.length === 0 ? (
+          <div className="card text-center py-12">
+            <CheckCircle className="w-16 h-16 text-green-400 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-white">No {statusFilter} appeals</h3>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {appeals.map((appeal) => (
+              <div key={appeal.id} className="card">
+                <div className="flex items-start justify-between mb-3">
+                  <div>
+                    <p className="text-sm text-gray-400">
+                      {appeal.member.user.username} ({appeal.member.user.loginId}) - {formatDate(appeal.createdAt)}
+                    </p>
+                    <h3 className="text-lg font-semibold text-white">{appeal.fine.reason}</h3>
+                    {appeal.fine.loan && (
+                      <p className="text-sm text-gray-400 flex items-center gap-2">
+                        <FileText className="w-4 h-4" />
+                        Book: {appeal.fine.loan.bookCopy.book.title}
+                      </p>
+                    )}
+                  </div>
+                  <div className="text-right">
+                    <p className="text-2xl font-bold text-white">${parseFloat(appeal.fine.amount).toFixed(2)}</p>
+                    {appeal.fine.paidAmount && parseFloat(appeal.fine.paidAmount) > 0 && (
+                      <p className="text-sm text-green-400">Paid: ${parseFloat(appeal.fine.paidAmount).toFixed(2)}</p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="p-3 bg-gray-800/50 rounded-lg text-sm text-gray-300 whitespace-pre-line">
+                  {appeal.reason}
+                </div>
+
+                {appeal.attachmentUrl && (
+                  <button
+                    onClick={() => handleOpenAttachment(appeal)}
+                    className="mt-2 inline-flex items-center gap-2 text-sm text-purple-400 hover:text-purple-300"
+                  >
+                    <Paperclip className="w-4 h-4" />
+                    {appeal.attachmentName || 'Attachment'}
+                  </button>
+                )}
+
+                {appeal.status === 'pending' ? (
+                  <div className="mt-4 pt-4 border-t border-purple-500/20 grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+                    <div>
+                      <label className="text-sm text-gray-400 mb-1 block">Waive (blank = full fine)</label>
+                      <input
+                        type="number"
+                        min="0"
+                        max={parseFloat(appeal.fine.amount)}
+                        step="0.01"
+                        value={waiveAmount[appeal.id] || ''}
+                        onChange={(e) => setWaiveAmount({ ...waiveAmount, [appeal.id]: e.target.value })}
+                        className="w-full px-4 py-2 bg-gray-800 border border-purple-500/30 rounded-lg text-white focus:outline-none focus:border-purple-500"
+                        placeholder={parseFloat(appeal.fine.amount).toFixed(2)}
+                      />
+                    </div>
+                    <div>
+                      <label className="text-sm text-gray-400 mb-1 block">Note to member (optional)</label>
+                      <input
+                        type="text"
+                        value={notes[appeal.id] || ''}
+                        onChange={(e) => setNotes({ ...notes, [appeal.id]: e.target.value })}
+                        className="w-full px-4 py-2 bg-gray-800 border border-purple-500/30 rounded-lg text-white focus:outline-none focus:border-purple-500"
+                      />
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleReview(appeal, 'approve')}
+                        disabled={reviewing === appeal.id}
+                        className="flex-1 px-4 py-2 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500/30 transition-colors flex items-center justify-center gap-1 disabled:opacity-50"
+                      >
+                        <CheckCircle className="w-4 h-4" />
+                        Approve
+                      </button>
+                      <button
+                        onClick={() => handleReview(appeal, 'deny')}
+                        disabled={reviewing === appeal.id}
+                        className="flex-1 px-4 py-2 bg-red-500/20 text-red-400 rounded-lg hover:bg-red-500/30 transition-colors flex items-center justify-center gap-1 disabled:opacity-50"
+                      >
+                        <XCircle className="w-4 h-4" />
+                        Deny
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="mt-3 text-sm text-gray-400">
+                    {appeal.status === 'approved'
+                      ? `Approved - $${parseFloat(appeal.waivedAmount || '0').toFixed(2)} waived`
+                      : 'Denied'}
+                    {appeal.reviewedAt && ` on ${formatDate(appeal.reviewedAt)}`}
+                    {appeal.reviewNotes && `: ${appeal.reviewNotes}`}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,11 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { api } from '@/lib/api';
-import { BookOpen, Calendar, Clock, ArrowLeft, User, Filter, CheckCircle, AlertCircle, XCircle } from 'lucide-react';
+import { BookOpen, Calendar, Clock, ArrowLeft, User, Filter, CheckCircle, AlertCircle, XCircle, ScanLine, List, HelpCircle, PackageCheck, Inbox, Megaphone, SearchCheck, Truck } from 'lucide-react';
+import toast from 'react-hot-toast';
+import CirculationDesk from '../components/CirculationDesk';
+import BookDrop from '../components/BookDrop';
+import BranchTransfers from '../components/BranchTransfers';
 
 interface Loan {
   id: number;
@@ -22,6 +26,18 @@ interface Loan {
   dueDatetime: string;
   returnDatetime?: string;
   status: string;
+  recalledAt?: string | null;
+  recallReason?: string | null;
+  originalDueDatetime?: string | null;
+}
+
+interface LoanClaim {
+  id: number;
+  loanId: number;
+  claimedReturnedAt: string;
+  memberNotes: string | null;
+  searchCount: number;
+  lastSearchedAt: string | null;
 }
 
 export default function LoansPage() {
@@ -29,17 +45,27 @@ export default function LoansPage() {
   const [loans, setLoans] = useState<Loan[]>([]);
   const [loading, setLoading] = useState(true);
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [view, setView] = useState<'loans' | 'desk' | 'bookdrop' | 'transfers'>('loans');
+  const [openClaims, setOpenClaims] = useState<Record<number, LoanClaim>>({});
 
   useEffect(() => {
-    fetchLoans();
-  }, [statusFilter]);
+    if (view === 'loans') {
+      fetchLoans();
+    }
+  }, [statusFilter, view]);
 
   const fetchLoans = async () => {
     try {
       setLoading(true);
       const params = statusFilter !== 'all' ? { status: statusFilter } : {};
-      const response = await api.get('/loans', { params });
+      const [response, claimsResponse] = await Promise.all([
+        api.get('/loans', { params }),
+        api.get('/loans/claims', { params: { status: 'open' } }),
+      ]);
       setLoans(response.data.loans || []);
+      setOpenClaims(
+        Object.fromEntries((claimsResponse.data.claims || []).map((claim: LoanClaim) => [claim.loanId, claim]))
+      );
     } catch (error) {
       console.error('Failed to fetch loans:', error);
       setLoans([]);
@@ -48,14 +74,101 @@ export default function LoansPage() {
     }
   };
 
+  const handleDeclareLost = async (loanId: number) => {
+    if (!window.confirm('Declare this loan lost? The member will be charged the replacement and processing fees.')) return;
+
+    const loadingToast = toast.loading('Declaring loan lost...');
+    try {
+      await api.post(`/loans/${loanId}/lost`);
+      toast.success('Loan declared lost and fees charged', { id: loadingToast });
+      fetchLoans();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to declare loan lost', { id: loadingToast });
+    }
+  };
+
+  const handleRecall = async (loanId: number) => {
+    const reason = window.prompt('Recall this book early? The member will be notified and cannot renew it.\n\nReason (optional):', '');
+    if (reason === null) return;
+
+    const loadingToast = toast.loading('Recalling loan...');
+    try {
+      const response = await api.post(`/loans/${loanId}/recall`, reason.trim() ? { reason: reason.trim() } : {});
+      toast.success(response.data.message, { id: loadingToast });
+      fetchLoans();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to recall loan', { id: loadingToast });
+    }
+  };
+
+  const handleClaimSearch = async (claimId: number) => {
+    const notes = window.prompt('Where did you search? (optional)', '');
+    if (notes === null) return;
+
+    try {
+      const response = await api.post(`/loans/claims/${claimId}/search`, notes.trim() ? { notes: notes.trim() } : {});
+      toast.success(response.data.message);
+      fetchLoans();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to record search');
+    }
+  };
+
+  const handleResolveClaim = async (claim: LoanClaim, resolution: 'found_on_shelf' | 'returned_late' | 'lost') => {
+    const body: { resolution: string; returnedAt?: string } = { resolution };
+
+    if (resolution === 'returned_late') {
+      const date = window.prompt(
+        'Date the book actually came back (YYYY-MM-DD):',
+        claim.claimedReturnedAt.slice(0, 10)
+      );
+      if (date === null) return;
+      body.returnedAt = new Date(date).toISOString();
+    } else {
+      const question = resolution === 'found_on_shelf'
+        ? 'Book found on the shelf? The loan closes on the claimed date with no overdue fine.'
+        : 'Book not found? It will be declared lost and replacement fees charged.';
+      if (!window.confirm(question)) return;
+    }
+
+    const loadingToast = toast.loading('Resolving claim...');
+    try {
+      await api.post(`/loans/claims/${claim.id}/resolve`, body);
+      toast.success('Claim resolved', { id: loadingToast });
+      fetchLoans();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to resolve claim', { id: loadingToast });
+    }
+  };
+
+  const handleMarkFound = async (loanId: number) => {
+    const refund = window.prompt('Amount of the replacement fee to credit back (leave empty for a full refund):', '');
+    if (refund === null) return;
+
+    const loadingToast = toast.loading('Marking item found...');
+    try {
+      const response = await api.post(`/loans/${loanId}/found`, refund.trim() ? { refundAmount: parseFloat(refund) } : {});
+      toast.success(response.data.message, { id: loadingToast });
+      fetchLoans();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to mark item found', { id: loadingToast });
+    }
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'ongoing':
         return <Clock className="w-5 h-5 text-blue-400" />;
       case 'returned':
         return <CheckCircle className="w-5 h-5 text-green-400" />;
+      case 'returned_late':
+        return <CheckCircle className="w-5 h-5 text-yellow-400" />;
       case 'overdue':
         return <AlertCircle className="w-5 h-5 text-red-400" />;
+      case 'lost':
+        return <HelpCircle className="w-5 h-5 text-red-400" />;
+      case 'claimed_returned':
+        return <SearchCheck className="w-5 h-5 text-blue-400" />;
       default:
         return <XCircle className="w-5 h-5 text-gray-400" />;
     }
@@ -67,8 +180,13 @@ export default function LoansPage() {
         return 'text-blue-400 bg-blue-500/10 border-blue-500/30';
       case 'returned':
         return 'text-green-400 bg-green-500/10 border-green-500/30';
+      case 'returned_late':
+        return 'text-yellow-400 bg-yellow-500/10 border-yellow-500/30';
       case 'overdue':
+      case 'lost':
         return 'text-red-400 bg-red-500/10 border-red-500/30';
+      case 'claimed_returned':
+        return 'text-blue-400 bg-blue-500/10 border-blue-500/30';
       default:
         return 'text-gray-400 bg-gray-500/10 border-gray-500/30';
     }
@@ -76,6 +194,8 @@ export default function LoansPage() {
 
   const getDaysRemaining = (dueDate: string, status: string) => {
     if (status === 'returned') return 'Returned';
+    if (status === 'returned_late') return 'Returned late';
+    if (status === 'lost') return 'Declared lost';
     const days = Math.ceil((new Date(dueDate).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24));
     if (days < 0) return `${Math.abs(days)} days overdue`;
     return `${days} days left`;
@@ -100,12 +220,78 @@ export default function LoansPage() {
                 <BookOpen className="w-6 h-6 text-white" />
               </div>
               <div>
-                <h1 className="text-2xl font-bold text-gradient">All Loans</h1>
-                <p className="text-sm text-gray-400">{filteredLoans.length} total loans</p>
+                <h1 className="text-2xl font-bold text-gradient">
+                  {view === 'desk'
+                    ? 'Circulation Desk'
+                    : view === 'bookdrop'
+                      ? 'Book Drop'
+                      : view === 'transfers'
+                        ? 'Transfers'
+                        : 'All Loans'}
+                </h1>
+                <p className="text-sm text-gray-400">
+                  {view === 'desk'
+                    ? 'Scan member cards and item barcodes'
+                    : view === 'bookdrop'
+                      ? 'Check in everything from the book drop at once'
+                      : view === 'transfers'
+                        ? 'Copies moving between branches'
+                        : `${filteredLoans.length} total loans`}
+                </p>
               </div>
             </div>
 
+            <div className="flex items-center gap-4">
+              {/* View Toggle */}
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setView('loans')}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                    view === 'loans'
+                      ? 'bg-purple-500/20 text-purple-400 border border-purple-500/30'
+                      : 'bg-gray-800/50 text-gray-400 hover:bg-gray-800'
+                  }`}
+                >
+                  <List className="w-4 h-4" />
+                  Loans
+                </button>
+                <button
+                  onClick={() => setView('desk')}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                    view === 'desk'
+                      ? 'bg-purple-500/20 text-purple-400 border border-purple-500/30'
+                      : 'bg-gray-800/50 text-gray-400 hover:bg-gray-800'
+                  }`}
+                >
+                  <ScanLine className="w-4 h-4" />
+                  Circulation Desk
+                </button>
+                <button
+                  onClick={() => setView('bookdrop')}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                    view === 'bookdrop'
+                      ? 'bg-purple-500/20 text-purple-400 border border-purple-500/30'
+                      : 'bg-gray-800/50 text-gray-400 hover:bg-gray-800'
+                  }`}
+                >
+                  <Inbox className="w-4 h-4" />
+                  Book Drop
+                </button>
+                <button
+                  onClick={() => setView('transfers')}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                    view === 'transfers'
+                      ? 'bg-purple-500/20 text-purple-400 border border-purple-500/30'
+                      : 'bg-gray-800/50 text-gray-400 hover:bg-gray-800'
+                  }`}
+                >
+                  <Truck className="w-4 h-4" />
+                  Transfers
+                </button>
+              </div>
+
             {/* Filter */}
+            {view === 'loans' && (
             <div className="flex items-center gap-2">
               <Filter className="w-5 h-5 text-gray-400" />
               <select
@@ -117,15 +303,26 @@ export default function LoansPage() {
                 <option value="ongoing">Ongoing</option>
                 <option value="overdue">Overdue</option>
                 <option value="returned">Returned</option>
+                <option value="returned_late">Returned Late</option>
+                <option value="lost">Lost</option>
+                <option value="claimed_returned">Claimed Returned</option>
               </select>
             </div>
+            )}
+            </div>
           </div>
         </div>
       </header>
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {loading ? (
+        {view === 'desk' ? (
+          <CirculationDesk />
+        ) : view === 'bookdrop' ? (
+          <BookDrop />
+        ) : view === 'transfers' ? (
+          <BranchTransfers />
+        ) : loading ? (
           <div className="flex items-center justify-center py-12">
             <div className="w-12 h-12 border-4 border-purple-500/20 border-t-purple-500 rounded-full animate-spin"></div>
           </div>
@@ -166,7 +363,7 @@ export default function LoansPage() {
                       </div>
                       <div className={`flex items-center space-x-2 px-3 py-1 rounded-lg border ${getStatusColor(loan.status)}`}>
                         {getStatusIcon(loan.status)}
-                        <span className="text-sm font-medium capitalize">{loan.status}</span>
+                        <span className="text-sm font-medium capitalize">{loan.status.replace('_', ' ')}</span>
                       </div>
                     </div>
 
@@ -220,6 +417,89 @@ export default function LoansPage() {
                         </div>
                       </div>
                     </div>
+
+                    {loan.recalledAt && (
+                      <div className="mt-4 flex items-center gap-2 text-sm text-orange-400">
+                        <Megaphone className="w-4 h-4" />
+                        <span>
+                          Recalled {new Date(loan.recalledAt).toLocaleDateString()}
+                          {loan.originalDueDatetime && ` (was due ${new Date(loan.originalDueDatetime).toLocaleDateString()})`}
+                          {loan.recallReason && ` - ${loan.recallReason}`}
+                        </span>
+                      </div>
+                    )}
+
+                    {/* Recall & Lost Item Actions */}
+                    {(loan.status === 'ongoing' || loan.status === 'overdue') && (
+                      <div className="mt-4 flex gap-2">
+                        {loan.status === 'ongoing' && !loan.recalledAt && (
+                          <button
+                            onClick={() => handleRecall(loan.id)}
+                            className="flex items-center gap-2 px-4 py-2 bg-gray-800 hover:bg-gray-700 text-orange-400 border border-orange-500/30 rounded-lg transition-colors text-sm font-medium"
+                          >
+                            <Megaphone className="w-4 h-4" />
+                            Recall
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleDeclareLost(loan.id)}
+                          className="flex items-center gap-2 px-4 py-2 bg-gray-800 hover:bg-gray-700 text-red-400 border border-red-500/30 rounded-lg transition-colors text-sm font-medium"
+                        >
+                          <HelpCircle className="w-4 h-4" />
+                          Declare Lost
+                        </button>
+                      </div>
+                    )}
+                    {loan.status === 'claimed_returned' && openClaims[loan.id] && (
+                      <div className="mt-4 p-3 bg-blue-500/10 border border-blue-500/30 rounded-lg">
+                        <p className="text-sm text-blue-400 mb-1">
+                          Member says it was returned {new Date(openClaims[loan.id].claimedReturnedAt).toLocaleDateString()}
+                          {openClaims[loan.id].memberNotes && ` - "${openClaims[loan.id].memberNotes}"`}
+                        </p>
+                        <p className="text-xs text-gray-400 mb-3">
+                          {openClaims[loan.id].searchCount} search(es)
+                          {openClaims[loan.id].lastSearchedAt &&
+                            `, last ${new Date(openClaims[loan.id].lastSearchedAt as string).toLocaleDateString()}`}
+                        </p>
+                        <div className="flex flex-wrap gap-2">
+                          <button
+                            onClick={() => handleClaimSearch(openClaims[loan.id].id)}
+                            className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-lg text-sm"
+                          >
+                            Record Search
+                          </button>
+                          <button
+                            onClick={() => handleResolveClaim(openClaims[loan.id], 'found_on_shelf')}
+                            className="px-3 py-1.5 bg-green-500/20 hover:bg-green-500/30 text-green-400 rounded-lg text-sm"
+                          >
+                            Found on Shelf
+                          </button>
+                          <button
+                            onClick={() => handleResolveClaim(openClaims[loan.id], 'returned_late')}
+                            className="px-3 py-1.5 bg-yellow-500/20 hover:bg-yellow-500/30 text-yellow-400 rounded-lg text-sm"
+                          >
+                            Returned Late
+                          </button>
+                          <button
+                            onClick={() => handleResolveClaim(openClaims[loan.id], 'lost')}
+                            className="px-3 py-1.5 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded-lg text-sm"
+                          >
+                            Lost
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                    {loan.status === 'lost' && (
+                      <div className="mt-4">
+                        <button
+                          onClick={() => handleMarkFound(loan.id)}
+                          className="btn-primary flex items-center gap-2 text-sm"
+                        >
+                          <PackageCheck className="w-4 h-4" />
+                          Mark Found
+                        </button>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
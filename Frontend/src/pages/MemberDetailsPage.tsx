@@ -408,6 +408,8 @@ export default function MemberDetailsPage() {
                             ? 'bg-blue-500/10 text-blue-400 border border-blue-500/30'
                             : loan.status === 'returned'
                             ? 'bg-green-500/10 text-green-400 border border-green-500/30'
+                            : loan.status === 'returned_late'
+                            ? 'bg-yellow-500/10 text-yellow-400 border border-yellow-500/30'
                             : 'bg-red-500/10 text-red-400 border border-red-500/30'
                         }`}>
                           {loan.status}
@@ -19,6 +19,7 @@ interface Member {
     id: number;
     reason: string;
     status: string;
+    expiresAt: string | null;
     createdAt: string;
   }>;
   activeHoldsCount: number;
@@ -45,6 +46,7 @@ export default function MembersPage() {
   // Form states
   const [holdReason, setHoldReason] = useState('');
   const [holdNotes, setHoldNotes] = useState('');
+  const [holdDays, setHoldDays] = useState('');
   const [fineAmount, setFineAmount] = useState('');
   const [fineReason, setFineReason] = useState('');
   const [fineNotes, setFineNotes] = useState('');
@@ -75,13 +77,15 @@ export default function MembersPage() {
       await api.post('/holds', {
         memberId: selectedMember.id,
         reason: holdReason,
-        notes: holdNotes || undefined
+        notes: holdNotes || undefined,
+        durationDays: holdDays ? parseInt(holdDays) : undefined
       });
 
       toast.success('Hold placed successfully! Member has been notified.', { id: loadingToast });
       setShowHoldModal(false);
       setHoldReason('');
       setHoldNotes('');
+      setHoldDays('');
       setSelectedMember(null);
       fetchMembers();
     } catch (error: any) {
@@ -305,6 +309,7 @@ export default function MembersPage() {
                                 <p className="text-gray-300">{hold.reason}</p>
                                 <p className="text-xs text-gray-500">
                                   {new Date(hold.createdAt).toLocaleDateString()} - Status: {hold.status}
+                                  {hold.expiresAt && ` - Until ${new Date(hold.expiresAt).toLocaleDateString()}`}
                                 </p>
                               </div>
                               <button
@@ -390,6 +395,7 @@ export default function MembersPage() {
                   setSelectedMember(null);
                   setHoldReason('');
                   setHoldNotes('');
+                  setHoldDays('');
                 }}
                 className="p-2 hover:bg-gray-700/50 rounded-lg transition-colors"
               >
@@ -417,6 +423,19 @@ export default function MembersPage() {
                 </select>
               </div>
 
+              <div>
+                <label className="label">Duration in days (Optional)</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="365"
+                  value={holdDays}
+                  onChange={(e) => setHoldDays(e.target.value)}
+                  className="input w-full"
+                  placeholder="Leave empty to keep the hold until it is removed"
+                />
+              </div>
+
               <div>
                 <label className="label">Notes (Optional)</label>
                 <textarea
@@ -443,6 +462,7 @@ export default function MembersPage() {
                     setSelectedMember(null);
                     setHoldReason('');
                     setHoldNotes('');
+                    setHoldDays('');
                   }}
                   className="flex-1 btn-secondary"
                 >
@@ -0,0 +1,113 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { CreditCard, XCircle, ShieldAlert } from 'lucide-react';
+import toast from 'react-hot-toast';
+import api from '../lib/api';
+
+interface CheckoutSession {
+  providerSessionId: string;
+  amount: string;
+  currency: string;
+  fineIds: number[];
+  status: 'pending' | 'completed' | 'failed' | 'unapplied';
+  expiresAt: string;
+}
+
+// Stands in for a real gateway's hosted checkout; completing it sends a signed webhook to the backend
+export default function MockCheckoutPage() {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const navigate = useNavigate();
+  const [session, setSession] = useState<CheckoutSession | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchSession();
+  }, [sessionId]);
+
+  const fetchSession = async () => {
+    try {
+      const response = await api.get(`/payments/checkout/${sessionId}`);
+      setSession(response.data.session);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Checkout not found');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleComplete = async (outcome: 'succeeded' | 'failed') => {
+    setSubmitting(true);
+    try {
+      await api.post(`/payments/checkout/${sessionId}/mock-complete`, { outcome });
+      navigate(`/my-fines?checkout=${sessionId}`);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Checkout failed');
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen gradient-bg flex items-center justify-center">
+        <div className="w-12 h-12 border-4 border-purple-500/20 border-t-purple-500 rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  const expired = session ? new Date(session.expiresAt) < new Date() : false;
+
+  return (
+    <div className="min-h-screen gradient-bg flex items-center justify-center px-4">
+      <div className="card max-w-md w-full">
+        <div className="flex items-center gap-2 p-3 mb-6 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-sm text-yellow-400">
+          <ShieldAlert className="w-4 h-4 flex-shrink-0" />
+          Test checkout - no real money is taken.
+        </div>
+
+        {!session ? (
+          <p className="text-gray-400 text-center">This checkout could not be found.</p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-400">Library fines ({session.fineIds.length})</p>
+            <p className="text-4xl font-bold text-white mb-6">
+              {session.currency} {parseFloat(session.amount).toFixed(2)}
+            </p>
+
+            {session.status !== 'pending' || expired ? (
+              <div className="space-y-4">
+                <p className="text-gray-400">
+                  {expired && session.status === 'pending'
+                    ? 'This checkout has expired.'
+                    : 'This checkout has already been completed.'}
+                </p>
+                <button onClick={() => navigate('/my-fines')} className="btn-primary w-full">
+                  Back to My Fines
+                </button>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <button
+                  onClick={() => handleComplete('succeeded')}
+                  disabled={submitting}
+                  className="btn-primary w-full flex items-center justify-center gap-2 disabled:opacity-50"
+                >
+                  <CreditCard className="w-4 h-4" />
+                  {submitting ? 'Processing...' : 'Pay'}
+                </button>
+                <button
+                  onClick={() => handleComplete('failed')}
+                  disabled={submitting}
+                  className="w-full px-4 py-2 bg-gray-800/50 text-gray-400 rounded-lg hover:bg-gray-800 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+                >
+                  <XCircle className="w-4 h-4" />
+                  Simulate Declined Card
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
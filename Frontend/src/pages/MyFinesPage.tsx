@@ -1,11 +1,29 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { DollarSign, ArrowLeft, Calendar, FileText, AlertTriangle, CheckCircle, CreditCard } from 'lucide-react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { DollarSign, ArrowLeft, Calendar, FileText, AlertTriangle, CheckCircle, CreditCard, TrendingUp, ChevronDown, ChevronUp, Receipt, Download, Scale, Paperclip } from 'lucide-react';
 import toast from 'react-hot-toast';
 import api from '../lib/api';
 
+interface FineAccrual {
+  id: number;
+  daysOverdue: number;
+  amount: string;
+  totalAmount: string;
+  capped: boolean;
+  accruedAt: string;
+}
+
+interface FineAppeal {
+  id: number;
+  status: 'pending' | 'approved' | 'denied';
+  waivedAmount: string | null;
+  reviewNotes: string | null;
+  createdAt: string;
+}
+
 interface Fine {
   id: number;
+  type: string;
   amount: string;
   currency: string;
   reason: string;
@@ -14,6 +32,11 @@ interface Fine {
   paidAmount: string | null;
   status: string;
   notes: string | null;
+  daysAccrued: number | null;
+  accrualUnit: 'day' | 'hour';
+  finalizedAt: string | null;
+  accruals: FineAccrual[];
+  appeals: FineAppeal[];
   loan: {
     bookCopy: {
       book: {
@@ -24,19 +47,83 @@ interface Fine {
   } | null;
 }
 
+interface Payment {
+  id: number;
+  amount: string;
+  method: 'cash' | 'card' | 'online' | 'adjustment';
+  reference: string | null;
+  status: 'completed' | 'reversed';
+  paidAt: string;
+  reversedAt: string | null;
+  reversalReason: string | null;
+  allocations: Array<{
+    id: number;
+    fineId: number;
+    amount: string;
+    fine: { reason: string };
+  }>;
+}
+
 export default function MyFinesPage() {
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [fines, setFines] = useState<Fine[]>([]);
   const [totalUnpaid, setTotalUnpaid] = useState(0);
   const [loading, setLoading] = useState(true);
   const [showUnpaid, setShowUnpaid] = useState(true);
   const [paymentAmount, setPaymentAmount] = useState<{ [key: number]: string }>({});
   const [paying, setPaying] = useState<number | null>(null);
+  const [expandedHistory, setExpandedHistory] = useState<number | null>(null);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [payingAll, setPayingAll] = useState(false);
+  const [appealingFine, setAppealingFine] = useState<number | null>(null);
+  const [appealReason, setAppealReason] = useState('');
+  const [appealFile, setAppealFile] = useState<File | null>(null);
+  const [submittingAppeal, setSubmittingAppeal] = useState(false);
 
   useEffect(() => {
     fetchFines();
   }, [showUnpaid]);
 
+  useEffect(() => {
+    fetchPayments();
+  }, []);
+
+  // Back from the payment provider: the webhook, not the redirect, decides whether the fines are paid
+  useEffect(() => {
+    const checkoutId = searchParams.get('checkout');
+    if (checkoutId) {
+      setSearchParams({}, { replace: true });
+      checkCheckout(checkoutId);
+    }
+  }, []);
+
+  const checkCheckout = async (checkoutId: string) => {
+    try {
+      const response = await api.get(`/payments/checkout/${checkoutId}`);
+      const { status, failureReason } = response.data.session;
+      if (status === 'completed') {
+        toast.success('Payment confirmed. Thank you!');
+      } else if (status === 'pending') {
+        toast('Payment is still being confirmed. Check back in a moment.');
+      } else if (status === 'failed') {
+        toast.error(`Payment failed: ${failureReason}`);
+      } else {
+        toast.error('Your payment was received but could not be applied. Library staff will refund it.');
+      }
+      fetchFines();
+      fetchPayments();
+    } catch (error: any) {
+      console.error('Failed to check payment:', error);
+    }
+  };
+
+  // Fines are settled by the provider's webhook once the member completes checkout
+  const startCheckout = async (body: { fineIds?: number[]; amount?: number }) => {
+    const response = await api.post('/payments/checkout', body);
+    window.location.href = response.data.checkoutUrl;
+  };
+
   const fetchFines = async () => {
     setLoading(true);
     try {
@@ -50,6 +137,47 @@ export default function MyFinesPage() {
     }
   };
 
+  const fetchPayments = async () => {
+    try {
+      const response = await api.get('/payments/my');
+      setPayments(response.data.payments);
+    } catch (error: any) {
+      console.error('Failed to fetch payments:', error);
+    }
+  };
+
+  // One payment for everything outstanding, split across the fines oldest first
+  const handlePayAll = async () => {
+    setPayingAll(true);
+
+    try {
+      await startCheckout({});
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to start payment');
+      setPayingAll(false);
+    }
+  };
+
+  const handleDownloadReceipt = async (payment: Payment) => {
+    try {
+      const response = await api.get(`/payments/${payment.id}/receipt`, {
+        responseType: 'blob',
+      });
+
+      const url = window.URL.createObjectURL(new Blob([response.data]));
+      const link = document.createElement('a');
+      link.href = url;
+      link.setAttribute('download', `receipt-${formatReceiptNumber(payment.id)}.txt`);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+    } catch (error: any) {
+      toast.error('Failed to download receipt');
+    }
+  };
+
+  const formatReceiptNumber = (paymentId: number) => `R-${String(paymentId).padStart(6, '0')}`;
+
   const handlePayFine = async (fineId: number) => {
     const amount = parseFloat(paymentAmount[fineId] || '0');
     if (amount <= 0) {
@@ -58,17 +186,57 @@ export default function MyFinesPage() {
     }
 
     setPaying(fineId);
-    const loadingToast = toast.loading('Processing payment...');
-    
+
+    try {
+      await startCheckout({ fineIds: [fineId], amount });
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to start payment');
+      setPaying(null);
+    }
+  };
+
+  const handleSubmitAppeal = async (fineId: number) => {
+    if (appealReason.trim().length < 10) {
+      toast.error('Please explain your appeal in at least 10 characters');
+      return;
+    }
+
+    setSubmittingAppeal(true);
+    const loadingToast = toast.loading('Submitting appeal...');
+
     try {
-      await api.post(`/fines/${fineId}/pay`, { amount });
-      toast.success('Payment processed successfully!', { id: loadingToast });
-      setPaymentAmount({ ...paymentAmount, [fineId]: '' });
+      const formData = new FormData();
+      formData.append('fineId', String(fineId));
+      formData.append('reason', appealReason.trim());
+      if (appealFile) {
+        formData.append('attachment', appealFile);
+      }
+
+      const response = await api.post('/fine-appeals', formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+      });
+      toast.success(response.data.message, { id: loadingToast });
+      setAppealingFine(null);
+      setAppealReason('');
+      setAppealFile(null);
       fetchFines();
     } catch (error: any) {
-      toast.error(error.response?.data?.error || 'Failed to process payment', { id: loadingToast });
+      toast.error(error.response?.data?.error || 'Failed to submit appeal', { id: loadingToast });
     } finally {
-      setPaying(null);
+      setSubmittingAppeal(false);
+    }
+  };
+
+  const getAppealBadge = (appeal: FineAppeal) => {
+    switch (appeal.status) {
+      case 'pending':
+        return { label: 'APPEAL UNDER REVIEW', className: 'bg-blue-500/10 text-blue-400 border-blue-500/30' };
+      case 'approved':
+        return { label: 'APPEAL APPROVED', className: 'bg-green-500/10 text-green-400 border-green-500/30' };
+      default:
+        return { label: 'APPEAL DENIED', className: 'bg-gray-500/10 text-gray-400 border-gray-500/30' };
     }
   };
 
@@ -81,6 +249,7 @@ export default function MyFinesPage() {
       case 'paid':
         return 'bg-green-500/10 text-green-400 border-green-500/30';
       case 'waived':
+      case 'refunded':
         return 'bg-blue-500/10 text-blue-400 border-blue-500/30';
       default:
         return 'bg-gray-500/10 text-gray-400 border-gray-500/30';
@@ -170,6 +339,14 @@ export default function MyFinesPage() {
                   You have ${totalUnpaid.toFixed(2)} in unpaid fines. Please pay your fines to avoid account restrictions.
                 </p>
               </div>
+              <button
+                onClick={handlePayAll}
+                disabled={payingAll}
+                className="btn-primary flex items-center gap-2 ml-auto flex-shrink-0 disabled:opacity-50"
+              >
+                <CreditCard className="w-4 h-4" />
+                {payingAll ? 'Processing...' : `Pay All $${totalUnpaid.toFixed(2)}`}
+              </button>
             </div>
           </div>
         )}
@@ -228,6 +405,18 @@ export default function MyFinesPage() {
                           >
                             {fine.status.replace('_', ' ').toUpperCase()}
                           </span>
+                          {fine.type === 'overdue' && !fine.finalizedAt && fine.status !== 'waived' && (
+                            <span className="px-3 py-1 rounded-full text-xs font-medium border bg-orange-500/10 text-orange-400 border-orange-500/30">
+                              ACCRUING DAILY
+                            </span>
+                          )}
+                          {fine.appeals && fine.appeals.length > 0 && (
+                            <span
+                              className={`px-3 py-1 rounded-full text-xs font-medium border ${getAppealBadge(fine.appeals[0]).className}`}
+                            >
+                              {getAppealBadge(fine.appeals[0]).label}
+                            </span>
+                          )}
                         </div>
                         <h3 className="text-lg font-semibold text-white mb-1">
                           {fine.reason}
@@ -270,8 +459,127 @@ export default function MyFinesPage() {
                         <span className="text-white">{formatDate(fine.paidAt)}</span>
                       </div>
                     )}
+                    {fine.finalizedAt && (
+                      <div className="flex items-center gap-2 text-sm">
+                        <Calendar className="w-4 h-4 text-blue-400" />
+                        <span className="text-gray-400">Finalized on return:</span>
+                        <span className="text-white">{formatDate(fine.finalizedAt)}</span>
+                      </div>
+                    )}
                   </div>
 
+                  {/* Accrual History */}
+                  {fine.accruals && fine.accruals.length > 0 && (
+                    <div className="mt-4">
+                      <button
+                        onClick={() => setExpandedHistory(expandedHistory === fine.id ? null : fine.id)}
+                        className="flex items-center gap-2 text-sm text-purple-400 hover:text-purple-300 transition-colors"
+                      >
+                        <TrendingUp className="w-4 h-4" />
+                        Accrual history ({fine.accruals.length})
+                        {expandedHistory === fine.id ? (
+                          <ChevronUp className="w-4 h-4" />
+                        ) : (
+                          <ChevronDown className="w-4 h-4" />
+                        )}
+                      </button>
+                      {expandedHistory === fine.id && (
+                        <div className="mt-3 overflow-x-auto">
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="text-left text-gray-400 border-b border-purple-500/20">
+                                <th className="py-2 pr-4 font-medium">Date</th>
+                                <th className="py-2 pr-4 font-medium">
+                                  {fine.accrualUnit === 'hour' ? 'Hours Overdue' : 'Days Overdue'}
+                                </th>
+                                <th className="py-2 pr-4 font-medium">Added</th>
+                                <th className="py-2 font-medium">Total</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {fine.accruals.map((accrual) => (
+                                <tr key={accrual.id} className="border-b border-purple-500/10 text-white">
+                                  <td className="py-2 pr-4">{formatDate(accrual.accruedAt)}</td>
+                                  <td className="py-2 pr-4">{accrual.daysOverdue}</td>
+                                  <td className="py-2 pr-4">+${parseFloat(accrual.amount).toFixed(2)}</td>
+                                  <td className="py-2">
+                                    ${parseFloat(accrual.totalAmount).toFixed(2)}
+                                    {accrual.capped && (
+                                      <span className="ml-2 text-xs text-yellow-400">(cap reached)</span>
+                                    )}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Appeal */}
+                  {fine.appeals && fine.appeals[0]?.reviewNotes && fine.appeals[0].status !== 'pending' && (
+                    <div className="mt-4 p-3 bg-gray-800/50 rounded-lg">
+                      <p className="text-sm text-gray-400">
+                        <span className="font-medium text-white">Appeal decision:</span> {fine.appeals[0].reviewNotes}
+                      </p>
+                    </div>
+                  )}
+                  {(!fine.appeals || fine.appeals.length === 0) && fine.status !== 'waived' && fine.status !== 'refunded' && (
+                    <div className="mt-4">
+                      {appealingFine === fine.id ? (
+                        <div className="p-4 bg-blue-500/10 border border-blue-500/30 rounded-lg space-y-3">
+                          <label className="text-sm text-gray-400 block">Why should this fine be waived?</label>
+                          <textarea
+                            value={appealReason}
+                            onChange={(e) => setAppealReason(e.target.value)}
+                            rows={3}
+                            className="w-full px-4 py-2 bg-gray-800 border border-purple-500/30 rounded-lg text-white focus:outline-none focus:border-purple-500"
+                            placeholder="e.g. I returned the book through the book drop on the due date"
+                          />
+                          <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer">
+                            <Paperclip className="w-4 h-4" />
+                            {appealFile ? appealFile.name : 'Attach a receipt, note or photo (optional)'}
+                            <input
+                              type="file"
+                              accept="image/jpeg,image/png,image/webp,application/pdf"
+                              onChange={(e) => setAppealFile(e.target.files?.[0] || null)}
+                              className="hidden"
+                            />
+                          </label>
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => handleSubmitAppeal(fine.id)}
+                              disabled={submittingAppeal}
+                              className="btn-primary flex items-center gap-2 disabled:opacity-50"
+                            >
+                              <Scale className="w-4 h-4" />
+                              Submit Appeal
+                            </button>
+                            <button
+                              onClick={() => {
+                                setAppealingFine(null);
+                                setAppealReason('');
+                                setAppealFile(null);
+                              }}
+                              className="px-4 py-2 bg-gray-800/50 text-gray-400 rounded-lg hover:bg-gray-800 transition-colors"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => setAppealingFine(fine.id)}
+                          className="flex items-center gap-2 text-sm text-blue-400 hover:text-blue-300 transition-colors"
+                        >
+                          <Scale className="w-4 h-4" />
+                          Appeal this fine
+                        </button>
+                      )}
+                    </div>
+                  )}
+
                   {/* Payment Section */}
                   {(fine.status === 'unpaid' || fine.status === 'partially_paid') && (
                     <div className="mt-4 p-4 bg-purple-500/10 border border-purple-500/30 rounded-lg">
@@ -331,6 +639,65 @@ export default function MyFinesPage() {
             })}
           </div>
         )}
+
+        {/* Payment History */}
+        {payments.length > 0 && (
+          <div className="card mt-6">
+            <h2 className="text-lg font-semibold text-white flex items-center gap-2 mb-4">
+              <Receipt className="w-5 h-5 text-purple-400" />
+              Payment History
+            </h2>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-purple-500/20">
+                    <th className="py-2 pr-4 font-medium">Receipt</th>
+                    <th className="py-2 pr-4 font-medium">Date</th>
+                    <th className="py-2 pr-4 font-medium">Method</th>
+                    <th className="py-2 pr-4 font-medium">Covers</th>
+                    <th className="py-2 pr-4 font-medium">Amount</th>
+                    <th className="py-2 font-medium"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {payments.map((payment) => (
+                    <tr key={payment.id} className="border-b border-purple-500/10 text-white align-top">
+                      <td className="py-2 pr-4 font-mono text-gray-400">{formatReceiptNumber(payment.id)}</td>
+                      <td className="py-2 pr-4">{formatDate(payment.paidAt)}</td>
+                      <td className="py-2 pr-4 capitalize">{payment.method}</td>
+                      <td className="py-2 pr-4 text-gray-300">
+                        {payment.allocations.map((allocation) => (
+                          <p key={allocation.id}>
+                            {allocation.fine.reason} (${parseFloat(allocation.amount).toFixed(2)})
+                          </p>
+                        ))}
+                      </td>
+                      <td className="py-2 pr-4">
+                        <span className={payment.status === 'reversed' ? 'line-through text-gray-500' : ''}>
+                          ${parseFloat(payment.amount).toFixed(2)}
+                        </span>
+                        {payment.status === 'reversed' && (
+                          <p className="text-xs text-blue-400" title={payment.reversalReason || undefined}>
+                            Reversed {payment.reversedAt && formatDate(payment.reversedAt)}
+                          </p>
+                        )}
+                      </td>
+                      <td className="py-2 text-right">
+                        <button
+                          onClick={() => handleDownloadReceipt(payment)}
+                          className="flex items-center gap-1 text-purple-400 hover:text-purple-300 transition-colors ml-auto"
+                        >
+                          <Download className="w-4 h-4" />
+                          Receipt
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { AlertCircle, ArrowLeft, Calendar, FileText, X, CheckCircle } from 'lucide-react';
+import { AlertCircle, ArrowLeft, Calendar, FileText, X, CheckCircle, Timer } from 'lucide-react';
 import api from '../lib/api';
 
 interface Hold {
@@ -8,6 +8,7 @@ interface Hold {
   reason: string;
   placedAt: string;
   removedAt: string | null;
+  expiresAt: string | null;
   status: string;
   notes: string | null;
   loan: {
@@ -27,11 +28,18 @@ export default function MyHoldsPage() {
   const [holds, setHolds] = useState<Hold[]>([]);
   const [loading, setLoading] = useState(true);
   const [showActive, setShowActive] = useState(true);
+  const [now, setNow] = useState(Date.now());
 
   useEffect(() => {
     fetchHolds();
   }, [showActive]);
 
+  // Tick the countdowns on timed holds
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
   const fetchHolds = async () => {
     setLoading(true);
     try {
@@ -49,12 +57,29 @@ export default function MyHoldsPage() {
       case 'active':
         return 'bg-red-500/10 text-red-400 border-red-500/30';
       case 'removed':
+      case 'expired':
         return 'bg-green-500/10 text-green-400 border-green-500/30';
       default:
         return 'bg-gray-500/10 text-gray-400 border-gray-500/30';
     }
   };
 
+  const formatCountdown = (expiresAt: string) => {
+    const remaining = new Date(expiresAt).getTime() - now;
+    if (remaining <= 0) {
+      return 'Ending shortly';
+    }
+
+    const days = Math.floor(remaining / (1000 * 60 * 60 * 24));
+    const hours = Math.floor((remaining / (1000 * 60 * 60)) % 24);
+    const minutes = Math.floor((remaining / (1000 * 60)) % 60);
+
+    if (days > 0) {
+      return `${days}d ${hours}h left`;
+    }
+    return hours > 0 ? `${hours}h ${minutes}m left` : `${minutes}m left`;
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -163,6 +188,12 @@ export default function MyHoldsPage() {
                         >
                           {hold.status.toUpperCase()}
                         </span>
+                        {hold.status === 'active' && hold.expiresAt && (
+                          <span className="px-3 py-1 rounded-full text-xs font-medium border bg-orange-500/10 text-orange-400 border-orange-500/30 flex items-center gap-1">
+                            <Timer className="w-3 h-3" />
+                            {formatCountdown(hold.expiresAt)}
+                          </span>
+                        )}
                       </div>
                       <h3 className="text-lg font-semibold text-white mb-1">
                         {hold.reason}
@@ -183,10 +214,17 @@ export default function MyHoldsPage() {
                     <span className="text-gray-400">Placed:</span>
                     <span className="text-white">{formatDate(hold.placedAt)}</span>
                   </div>
+                  {hold.expiresAt && !hold.removedAt && (
+                    <div className="flex items-center gap-2 text-sm">
+                      <Calendar className="w-4 h-4 text-orange-400" />
+                      <span className="text-gray-400">Ends:</span>
+                      <span className="text-white">{formatDate(hold.expiresAt)}</span>
+                    </div>
+                  )}
                   {hold.removedAt && (
                     <div className="flex items-center gap-2 text-sm">
                       <Calendar className="w-4 h-4 text-green-400" />
-                      <span className="text-gray-400">Removed:</span>
+                      <span className="text-gray-400">{hold.status === 'expired' ? 'Expired:' : 'Removed:'}</span>
                       <span className="text-white">{formatDate(hold.removedAt)}</span>
                     </div>
                   )}
@@ -204,7 +242,9 @@ export default function MyHoldsPage() {
                   <div className="mt-4 p-4 bg-red-500/10 border border-red-500/30 rounded-lg">
                     <p className="text-sm text-red-400">
                       <AlertCircle className="w-4 h-4 inline mr-2" />
-                      This hold prevents you from borrowing new books. Please resolve the issue or contact the library.
+                      {hold.expiresAt
+                        ? 'This hold prevents you from borrowing new books until it ends. It will be lifted automatically.'
+                        : 'This hold prevents you from borrowing new books. Please resolve the issue or contact the library.'}
                     </p>
                   </div>
                 )}
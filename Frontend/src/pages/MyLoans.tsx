@@ -2,7 +2,7 @@ import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuthStore } from '@/store/authStore';
 import { api } from '@/lib/api';
-import { BookOpen, Calendar, Clock, ArrowLeft, AlertCircle, CheckCircle } from 'lucide-react';
+import { BookOpen, Calendar, Clock, ArrowLeft, AlertCircle, CheckCircle, HelpCircle, Megaphone, SearchCheck } from 'lucide-react';
 import toast from 'react-hot-toast';
 
 interface Loan {
@@ -18,6 +18,9 @@ interface Loan {
   dueDatetime: string;
   returnDatetime?: string;
   status: string;
+  recalledAt?: string | null;
+  recallReason?: string | null;
+  originalDueDatetime?: string | null;
 }
 
 export default function MyLoans() {
@@ -88,6 +91,102 @@ export default function MyLoans() {
     }
   };
 
+  const handleReportLost = async (loanId: number) => {
+    const confirmed = await new Promise<boolean>((resolve) => {
+      toast((t) => (
+        <div className="flex flex-col gap-3">
+          <p className="font-medium text-white">Report this book as lost?</p>
+          <p className="text-sm text-gray-400">
+            A replacement fee and a processing fee will be charged. The replacement fee is refunded if the book turns up.
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => {
+                toast.dismiss(t.id);
+                resolve(true);
+              }}
+              className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors text-sm font-medium"
+            >
+              Report Lost
+            </button>
+            <button
+              onClick={() => {
+                toast.dismiss(t.id);
+                resolve(false);
+              }}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors text-sm font-medium"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ), {
+        duration: Infinity,
+        style: { background: '#1a1f2e', maxWidth: '400px' }
+      });
+    });
+
+    if (!confirmed) return;
+
+    const loadingToast = toast.loading('Reporting lost book...');
+
+    try {
+      await api.post(`/loans/${loanId}/lost`);
+      toast.success('Book reported lost. Fees have been added to your account.', { id: loadingToast });
+      fetchLoans();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to report lost book', { id: loadingToast });
+    }
+  };
+
+  const handleClaimReturned = async (loanId: number) => {
+    const confirmed = await new Promise<boolean>((resolve) => {
+      toast((t) => (
+        <div className="flex flex-col gap-3">
+          <p className="font-medium text-white">Already returned this book?</p>
+          <p className="text-sm text-gray-400">
+            Library staff will search the shelves. Fines are paused while they look. Each account can file a limited number of claims.
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => {
+                toast.dismiss(t.id);
+                resolve(true);
+              }}
+              className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors text-sm font-medium"
+            >
+              File Claim
+            </button>
+            <button
+              onClick={() => {
+                toast.dismiss(t.id);
+                resolve(false);
+              }}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors text-sm font-medium"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ), {
+        duration: Infinity,
+        style: { background: '#1a1f2e', maxWidth: '400px' }
+      });
+    });
+
+    if (!confirmed) return;
+
+    const loadingToast = toast.loading('Filing claim...');
+
+    try {
+      const response = await api.post(`/loans/${loanId}/claim-returned`);
+      toast.success(response.data.message, { id: loadingToast });
+      fetchLoans();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to file claim', { id: loadingToast });
+    }
+  };
+
   const isOverdue = (dueDate: string) => {
     return new Date(dueDate) < new Date();
   };
@@ -142,7 +241,10 @@ export default function MyLoans() {
           <div className="space-y-4">
             {loans.map((loan) => {
               const daysRemaining = getDaysRemaining(loan.dueDatetime);
-              const overdue = isOverdue(loan.dueDatetime);
+              const returned = loan.status === 'returned' || loan.status === 'returned_late';
+              const lost = loan.status === 'lost';
+              const claimed = loan.status === 'claimed_returned';
+              const overdue = !returned && !lost && !claimed && isOverdue(loan.dueDatetime);
 
               return (
                 <div key={loan.id} className="card-glass p-6">
@@ -176,6 +278,38 @@ export default function MyLoans() {
                           <span className="text-green-400 text-sm font-medium">Returned</span>
                         </div>
                       )}
+                      {loan.status === 'returned_late' && (
+                        <div className="mb-4 inline-flex items-center gap-2 px-3 py-1.5 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+                          <CheckCircle className="w-4 h-4 text-yellow-400" />
+                          <span className="text-yellow-400 text-sm font-medium">Returned Late</span>
+                        </div>
+                      )}
+                      {lost && (
+                        <div className="mb-4 inline-flex items-center gap-2 px-3 py-1.5 bg-red-500/10 border border-red-500/30 rounded-lg">
+                          <HelpCircle className="w-4 h-4 text-red-400" />
+                          <span className="text-red-400 text-sm font-medium">Reported Lost</span>
+                        </div>
+                      )}
+                      {claimed && (
+                        <div className="mb-4 inline-flex items-center gap-2 px-3 py-1.5 bg-blue-500/10 border border-blue-500/30 rounded-lg">
+                          <SearchCheck className="w-4 h-4 text-blue-400" />
+                          <span className="text-blue-400 text-sm font-medium">Claimed Returned - library is searching</span>
+                        </div>
+                      )}
+                      {loan.recalledAt && !returned && !lost && (
+                        <div className="mb-4 flex items-start gap-2 px-3 py-2 bg-orange-500/10 border border-orange-500/30 rounded-lg">
+                          <Megaphone className="w-4 h-4 text-orange-400 mt-0.5" />
+                          <div className="text-sm">
+                            <p className="text-orange-400 font-medium">
+                              Recalled by the library - please return by {new Date(loan.dueDatetime).toLocaleDateString()}
+                            </p>
+                            <p className="text-gray-400">
+                              {loan.recallReason ? `${loan.recallReason}. ` : ''}
+                              Recalled books can't be renewed and late returns are fined at a higher rate.
+                            </p>
+                          </div>
+                        </div>
+                      )}
 
                       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                         <div className="flex items-center space-x-2 text-sm">
@@ -189,16 +323,16 @@ export default function MyLoans() {
                         </div>
 
                         <div className="flex items-center space-x-2 text-sm">
-                          <Clock className={`w-4 h-4 ${overdue ? 'text-red-400' : loan.status === 'returned' ? 'text-green-400' : 'text-green-400'}`} />
+                          <Clock className={`w-4 h-4 ${overdue ? 'text-red-400' : 'text-green-400'}`} />
                           <div>
                             <p className="text-gray-500 text-xs">Due Date</p>
-                            <p className={overdue && loan.status !== 'returned' ? 'text-red-400' : 'text-gray-300'}>
+                            <p className={overdue ? 'text-red-400' : 'text-gray-300'}>
                               {new Date(loan.dueDatetime).toLocaleDateString()}
                             </p>
                           </div>
                         </div>
 
-                        {loan.status === 'returned' && loan.returnDatetime ? (
+                        {returned && loan.returnDatetime ? (
                           <div className="flex items-center space-x-2 text-sm">
                             <CheckCircle className="w-4 h-4 text-green-400" />
                             <div>
@@ -214,7 +348,7 @@ export default function MyLoans() {
                             <div>
                               <p className="text-gray-500 text-xs">Status</p>
                               <p className={overdue ? 'text-red-400 font-medium' : 'text-gray-300'}>
-                                {overdue ? 'Overdue' : `${daysRemaining} days left`}
+                                {lost ? 'Lost' : claimed ? 'Under search' : overdue ? 'Overdue' : `${daysRemaining} days left`}
                               </p>
                             </div>
                           </div>
@@ -231,13 +365,25 @@ export default function MyLoans() {
 
                       {/* Return Button - Only for ongoing loans */}
                       {loan.status === 'ongoing' || loan.status === 'overdue' ? (
-                        <div className="mt-4">
+                        <div className="mt-4 flex gap-3">
                           <button
                             onClick={() => handleReturn(loan.id)}
                             className="btn-primary"
                           >
                             Return Book
                           </button>
+                          <button
+                            onClick={() => handleReportLost(loan.id)}
+                            className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-red-400 border border-red-500/30 rounded-lg transition-colors text-sm font-medium"
+                          >
+                            Report Lost
+                          </button>
+                          <button
+                            onClick={() => handleClaimReturned(loan.id)}
+                            className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-blue-400 border border-blue-500/30 rounded-lg transition-colors text-sm font-medium"
+                          >
+                            I Already Returned It
+                          </button>
                         </div>
                       ) : null}
                     </div>
@@ -57,10 +57,17 @@ interface Analytics {
     totalBooks: number;
     totalCopies: number;
     availableCopies: number;
+    inTransitCopies: number;
     borrowedCopies: number;
   };
 }
 
+interface Branch {
+  id: number;
+  code: string;
+  name: string;
+}
+
 type ModalType = 'book' | 'borrower' | 'category' | 'month' | 'books' | 'members' | 'revenue' | 'overdue' | null;
 
 interface ModalData {
@@ -74,15 +81,30 @@ export default function ReportsPage() {
   const [analytics, setAnalytics] = useState<Analytics | null>(null);
   const [loading, setLoading] = useState(true);
   const [modalData, setModalData] = useState<ModalData | null>(null);
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [branchId, setBranchId] = useState('');
 
   useEffect(() => {
-    fetchAnalytics();
+    fetchBranches();
   }, []);
 
+  useEffect(() => {
+    fetchAnalytics();
+  }, [branchId]);
+
+  const fetchBranches = async () => {
+    try {
+      const response = await api.get('/branches', { params: { includeInactive: true } });
+      setBranches(response.data.branches);
+    } catch (error) {
+      console.error('Failed to fetch branches:', error);
+    }
+  };
+
   const fetchAnalytics = async () => {
     try {
       setLoading(true);
-      const response = await api.get('/reports/analytics');
+      const response = await api.get('/reports/analytics', { params: branchId ? { branchId } : {} });
       setAnalytics(response.data.analytics);
     } catch (error) {
       console.error('Failed to fetch analytics:', error);
@@ -141,6 +163,20 @@ export default function ReportsPage() {
               <h1 className="text-2xl font-bold text-gradient">Analytics & Reports</h1>
               <p className="text-sm text-gray-400">Library insights and statistics - Click any card for details</p>
             </div>
+            {branches.length > 0 && (
+              <select
+                value={branchId}
+                onChange={(e) => setBranchId(e.target.value)}
+                className="ml-auto bg-gray-800 border border-purple-500/30 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-purple-500"
+              >
+                <option value="">All Branches</option>
+                {branches.map((branch) => (
+                  <option key={branch.id} value={branch.id}>
+                    {branch.name}
+                  </option>
+                ))}
+              </select>
+            )}
           </div>
         </div>
       </header>
@@ -373,6 +409,11 @@ export default function ReportsPage() {
             <p className="text-xs text-gray-500 mt-2">
               {((analytics.bookStatistics.borrowedCopies / analytics.bookStatistics.totalCopies) * 100).toFixed(1)}% in use
             </p>
+            {analytics.bookStatistics.inTransitCopies > 0 && (
+              <p className="text-xs text-gray-500 mt-1">
+                {analytics.bookStatistics.inTransitCopies} more in transit between branches
+              </p>
+            )}
           </div>
 
           <div className="card bg-gradient-to-br from-purple-600/10 to-purple-800/10 border-purple-500/30">